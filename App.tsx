@@ -10,6 +10,8 @@ import { logger } from './src/lib/logger';
 import { supabase } from './src/lib/supabase';
 import { AppNavigator } from './src/navigation/app-navigator';
 import LoginScreen from './src/screens/login-screen';
+import { reminderService } from './src/services/reminder-service';
+import { timelineService } from './src/services/timeline-service';
 import { AuthState } from './src/types';
 
 export default function App() {
@@ -124,6 +126,21 @@ export default function App() {
     };
   }, []);
 
+  // Push timeline changes made on other devices into the local copy while signed in,
+  // and keep the reminders of the timeline scheduled
+  const userId = authState.user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const stopRealtimeSync = timelineService.startRealtimeSync(userId);
+    const stopReminders = reminderService.startReminderScheduler();
+
+    return () => {
+      stopRealtimeSync();
+      stopReminders();
+    };
+  }, [userId]);
+
   const handleLoginSuccess = () => {
     logger.info('Login successful');
   };
@@ -0,0 +1,87 @@
+/**
+ * Tests for the applications of the signed in user
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { getSessionUserId } from '../../src/lib/auth';
+import { supabase } from '../../src/lib/supabase';
+import {
+  applicationService,
+  DEFAULT_APPLICATION_NAME,
+} from '../../src/services/application-service';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../../src/lib/auth', () => ({
+  getSessionUserId: jest.fn(),
+}));
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockGetSessionUserId = getSessionUserId as jest.Mock<any>;
+const mockFrom = supabase.from as jest.Mock<any>;
+const mockRpc = supabase.rpc as jest.Mock<any>;
+
+const mockApplications = (applications: object[]) => {
+  const insert = jest.fn();
+  mockFrom.mockReturnValue({
+    select: () => ({
+      order: async () => ({ data: applications, error: null }),
+    }),
+    insert,
+  });
+  return insert;
+};
+
+describe('Application Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetSessionUserId.mockResolvedValue('user-1');
+  });
+
+  describe('getApplications', () => {
+    it('should have the server create the default application when there is none', async () => {
+      const insert = mockApplications([]);
+      mockRpc.mockResolvedValue({
+        data: [{ id: 'app-1', name: DEFAULT_APPLICATION_NAME, is_default: true }],
+        error: null,
+      });
+
+      const applications = await applicationService.getApplications();
+
+      expect(mockRpc).toHaveBeenCalledWith('ensure_default_application', {
+        default_name: DEFAULT_APPLICATION_NAME,
+      });
+      expect(insert).not.toHaveBeenCalled();
+      expect(applications).toEqual([
+        { id: 'app-1', name: DEFAULT_APPLICATION_NAME, is_default: true },
+      ]);
+    });
+
+    it('should leave existing applications alone', async () => {
+      mockApplications([{ id: 'app-1', name: 'Express Entry' }]);
+
+      const applications = await applicationService.getApplications();
+
+      expect(mockRpc).not.toHaveBeenCalled();
+      expect(applications).toEqual([{ id: 'app-1', name: 'Express Entry' }]);
+    });
+  });
+});
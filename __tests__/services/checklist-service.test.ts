@@ -0,0 +1,153 @@
+/**
+ * Tests for the per-stage document checklists
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { DEFAULT_CHECKLISTS } from '../../src/constants/checklists';
+import {
+  buildChecklist,
+  getChecklistProgress,
+  getChecklistProgressByStage,
+} from '../../src/lib/checklists';
+import { supabase } from '../../src/lib/supabase';
+import { checklistService } from '../../src/services/checklist-service';
+import { ChecklistItemRecord } from '../../src/types';
+import { ValidationError } from '../../src/types/errors';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock<any>;
+
+const record = (overrides: Partial<ChecklistItemRecord>): ChecklistItemRecord => ({
+  id: 'record-1',
+  application_id: 'app-1',
+  entry_type: 'pr_card',
+  checked: false,
+  ...overrides,
+});
+
+describe('buildChecklist', () => {
+  it('should merge the stored progress into the default items', () => {
+    const items = buildChecklist('pr_card', null, [
+      record({ id: 'r1', item_key: 'photos', checked: true, note: 'Taken at the pharmacy' }),
+      record({ id: 'r2', entry_type: 'ecopr', item_key: 'photos', checked: true }),
+    ]);
+
+    expect(items.map((item) => item.key)).toEqual(
+      DEFAULT_CHECKLISTS.pr_card!.map((template) => template.key)
+    );
+    expect(items[0]).toMatchObject({
+      key: 'photos',
+      checked: true,
+      note: 'Taken at the pharmacy',
+      custom: false,
+      record_id: 'r1',
+    });
+    expect(items.filter((item) => item.checked)).toHaveLength(1);
+  });
+
+  it("should add the program's own documents and the user's items", () => {
+    const items = buildChecklist('submission', 'spousal', [
+      record({ id: 'r1', entry_type: 'submission', label: 'Translated marriage certificate' }),
+    ]);
+
+    expect(items.map((item) => item.key)).toContain('relationship_proof');
+    expect(items.map((item) => item.key)).not.toContain('proof_of_funds');
+    expect(items[items.length - 1]).toMatchObject({
+      key: 'r1',
+      label: 'Translated marriage certificate',
+      custom: true,
+    });
+  });
+});
+
+describe('getChecklistProgressByStage', () => {
+  it('should count the ticked items of every milestone with a checklist', () => {
+    const progress = getChecklistProgressByStage(null, [
+      record({ id: 'r1', item_key: 'photos', checked: true }),
+      record({ id: 'r2', entry_type: 'aor', label: 'Save the AOR letter', checked: true }),
+    ]);
+
+    expect(progress.pr_card).toEqual({
+      checked: 1,
+      total: DEFAULT_CHECKLISTS.pr_card!.length,
+    });
+    expect(progress.aor).toEqual({ checked: 1, total: 1 });
+    expect(progress.background_complete).toBeUndefined();
+  });
+
+  it('should count an empty checklist as nothing ready', () => {
+    expect(getChecklistProgress([])).toEqual({ checked: 0, total: 0 });
+  });
+});
+
+describe('Checklist Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('updateItem', () => {
+    it('should store the first change to a default item under its key', async () => {
+      const single = jest.fn<any>().mockResolvedValue({ data: { id: 'r1' }, error: null });
+      const upsert = jest.fn().mockReturnValue({ select: () => ({ single }) });
+      mockFrom.mockReturnValue({ upsert });
+
+      const [item] = buildChecklist('pr_card', null, []);
+      await checklistService.updateItem('app-1', 'pr_card', item, { checked: true });
+
+      expect(mockFrom).toHaveBeenCalledWith('checklist_items');
+      expect(upsert).toHaveBeenCalledWith(
+        {
+          application_id: 'app-1',
+          entry_type: 'pr_card',
+          item_key: 'photos',
+          checked: true,
+          note: null,
+        },
+        { onConflict: 'application_id,entry_type,item_key' }
+      );
+    });
+
+    it('should update a stored item in place, keeping its note', async () => {
+      const single = jest.fn<any>().mockResolvedValue({ data: { id: 'r1' }, error: null });
+      const eq = jest.fn().mockReturnValue({ select: () => ({ single }) });
+      const update = jest.fn().mockReturnValue({ eq });
+      mockFrom.mockReturnValue({ update });
+
+      const [item] = buildChecklist('pr_card', null, [
+        record({ id: 'r1', item_key: 'photos', note: 'Taken' }),
+      ]);
+      await checklistService.updateItem('app-1', 'pr_card', item, { checked: true });
+
+      expect(update).toHaveBeenCalledWith({ checked: true, note: 'Taken' });
+      expect(eq).toHaveBeenCalledWith('id', 'r1');
+    });
+  });
+
+  describe('addCustomItem', () => {
+    it('should require a label', async () => {
+      await expect(checklistService.addCustomItem('app-1', 'pr_card', '  ')).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+});
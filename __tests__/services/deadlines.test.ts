@@ -0,0 +1,108 @@
+/**
+ * Tests for request deadlines
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  getActiveDeadlines,
+  getDeadlineForMilestone,
+  getStageDeadlines,
+} from '../../src/lib/deadlines';
+import { TimelineEntry } from '../../src/types';
+
+describe('getStageDeadlines', () => {
+  const today = new Date(2024, 2, 10);
+
+  it('should derive due dates from requests and close them when completed', () => {
+    const entries = [
+      { id: '1', entry_type: 'aor', entry_date: '2024-01-05' },
+      { id: '2', entry_type: 'biometrics_request', entry_date: '2024-01-10', occurrence: 1 },
+      { id: '3', entry_type: 'biometrics_complete', entry_date: '2024-01-25' },
+      { id: '4', entry_type: 'biometrics_request', entry_date: '2024-02-15', occurrence: 2 },
+      { id: '5', entry_type: 'medicals_request', entry_date: '2024-02-01' },
+    ] as TimelineEntry[];
+
+    const deadlines = getStageDeadlines(entries, 'cec', today);
+
+    expect(deadlines.map((deadline) => [deadline.request_type, deadline.status])).toEqual([
+      ['biometrics_request', 'done'],
+      ['medicals_request', 'overdue'],
+      ['biometrics_request', 'due_soon'],
+    ]);
+    expect(deadlines[0].completed_on).toBe('2024-01-25');
+    expect(deadlines[1]).toMatchObject({ due_date: '2024-03-02', days_remaining: -8 });
+    expect(deadlines[2]).toMatchObject({
+      occurrence: 2,
+      due_date: '2024-03-16',
+      days_remaining: 6,
+    });
+    expect(getActiveDeadlines(deadlines)).toHaveLength(2);
+  });
+
+  it('should not flag requests without a completion milestone as overdue', () => {
+    const entries = [
+      { id: '1', entry_type: 'additional_docs', entry_date: '2024-01-02' },
+      { id: '2', entry_type: 'additional_docs', entry_date: '2024-03-01', occurrence: 2 },
+    ] as TimelineEntry[];
+
+    expect(getStageDeadlines(entries, null, today).map((deadline) => deadline.status)).toEqual([
+      'elapsed',
+      'upcoming',
+    ]);
+  });
+
+  it('should close every deadline once the application is finalized', () => {
+    const entries = [
+      { id: '1', entry_type: 'medicals_request', entry_date: '2024-01-02' },
+      { id: '2', entry_type: 'ecopr', entry_date: '2024-03-01' },
+    ] as TimelineEntry[];
+
+    expect(getStageDeadlines(entries, null, today)[0].status).toBe('done');
+  });
+  it('should let each completion answer a single request', () => {
+    const entries = [
+      { id: '1', entry_type: 'biometrics_request', entry_date: '2024-01-10', occurrence: 1 },
+      { id: '2', entry_type: 'biometrics_request', entry_date: '2024-02-20', occurrence: 2 },
+      { id: '3', entry_type: 'biometrics_complete', entry_date: '2024-02-25' },
+    ] as TimelineEntry[];
+
+    expect(
+      getStageDeadlines(entries, null, today).map((deadline) => [
+        deadline.occurrence,
+        deadline.status,
+        deadline.completed_on,
+      ])
+    ).toEqual([
+      [1, 'done', '2024-02-25'],
+      [2, 'upcoming', undefined],
+    ]);
+  });
+
+  it('should use the windows of the program', () => {
+    const entries = [
+      { id: '1', entry_type: 'additional_docs', entry_date: '2024-02-01' },
+    ] as TimelineEntry[];
+
+    expect(getStageDeadlines(entries, 'cec', today)[0].due_date).toBe('2024-03-02');
+    expect(getStageDeadlines(entries, 'spousal', today)[0].due_date).toBe('2024-04-01');
+  });
+});
+
+describe('getDeadlineForMilestone', () => {
+  it('should show the open request of a milestone, else its latest one', () => {
+    const today = new Date(2024, 2, 10);
+    const entries = [
+      { id: '1', entry_type: 'biometrics_request', entry_date: '2024-01-10', occurrence: 1 },
+      { id: '2', entry_type: 'biometrics_complete', entry_date: '2024-01-25' },
+      { id: '3', entry_type: 'biometrics_request', entry_date: '2024-02-15', occurrence: 2 },
+    ] as TimelineEntry[];
+
+    const deadlines = getStageDeadlines(entries, null, today);
+
+    expect(getDeadlineForMilestone(deadlines, 'biometrics_request')?.occurrence).toBe(2);
+    expect(getDeadlineForMilestone(deadlines.slice(0, 1), 'biometrics_request')?.status).toBe(
+      'done'
+    );
+    expect(getDeadlineForMilestone(deadlines, 'p1')).toBeUndefined();
+  });
+});
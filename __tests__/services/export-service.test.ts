@@ -0,0 +1,139 @@
+/**
+ * Tests for the CSV, JSON and iCalendar timeline exports
+ */
+import { describe, expect, it, jest } from '@jest/globals';
+
+import { toExportDocument, toIcs } from '../../src/lib/timeline-export';
+import { exportService } from '../../src/services/export-service';
+import { Application, TimelineEntry } from '../../src/types';
+
+jest.mock('../../src/services/timeline-service', () => ({
+  timelineService: {
+    getUserTimeline: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const APPLICATION = { id: 'app-1', name: 'Express Entry' } as Application;
+
+const ENTRIES: TimelineEntry[] = [
+  {
+    id: 'entry-2',
+    application_id: 'app-1',
+    entry_type: 'p2',
+    entry_date: '2024-03-15T00:00:00Z',
+    notes: 'Portal, "second" email',
+  },
+  { id: 'entry-1', application_id: 'app-1', entry_type: 'aor', entry_date: '2024-01-10' },
+  {
+    id: 'entry-3',
+    application_id: 'app-1',
+    entry_type: 'additional_docs',
+    entry_date: '2024-02-01',
+    occurrence: 1,
+  },
+  {
+    id: 'entry-4',
+    application_id: 'app-1',
+    entry_type: 'additional_docs',
+    entry_date: '2024-02-20',
+    occurrence: 2,
+  },
+];
+
+describe('Export Service', () => {
+  describe('serialize', () => {
+    it('should write one CSV line per milestone, oldest first, with escaped notes', () => {
+      const csv = exportService.serialize(ENTRIES, 'csv', APPLICATION);
+
+      expect(csv.split('\r\n')).toEqual([
+        'Milestone,Type,Date,Days Since Previous,Notes',
+        'AOR,aor,2024-01-10,,',
+        'Additional Docs #1,additional_docs,2024-02-01,22,',
+        'Additional Docs #2,additional_docs,2024-02-20,19,',
+        'P2,p2,2024-03-15,24,"Portal, ""second"" email"',
+        '',
+      ]);
+    });
+
+    it('should write a versioned JSON document with the application', () => {
+      const document = JSON.parse(exportService.serialize(ENTRIES, 'json', APPLICATION));
+
+      expect(document).toMatchObject({
+        format: 'timeline-ecopr',
+        version: 1,
+        application: { id: 'app-1', name: 'Express Entry' },
+      });
+      expect(document.entries.map((entry: { entry_date: string }) => entry.entry_date)).toEqual([
+        '2024-01-10',
+        '2024-02-01',
+        '2024-02-20',
+        '2024-03-15',
+      ]);
+      expect(document.entries[3]).toEqual({
+        entry_type: 'p2',
+        label: 'P2',
+        entry_date: '2024-03-15',
+        occurrence: 1,
+        days_since_previous: 24,
+        notes: 'Portal, "second" email',
+      });
+    });
+
+    it('should leave the application out of the JSON document when unknown', () => {
+      expect(toExportDocument([], null, new Date('2024-04-01T00:00:00Z'))).toEqual({
+        format: 'timeline-ecopr',
+        version: 1,
+        exported_at: '2024-04-01T00:00:00.000Z',
+        application: null,
+        entries: [],
+      });
+    });
+
+    it('should write an all-day iCalendar event per milestone', () => {
+      const ics = toIcs(ENTRIES.slice(0, 2), APPLICATION, new Date('2024-04-01T12:30:00Z'));
+      const lines = ics.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('X-WR-CALNAME:PR Timeline - Express Entry');
+      expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(2);
+      expect(lines).toContain('UID:entry-2@timeline-ecopr');
+      expect(lines).toContain('DTSTAMP:20240401T123000Z');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20240315');
+      expect(lines).toContain('DTEND;VALUE=DATE:20240316');
+      expect(lines).toContain(
+        'DESCRIPTION:65 days since the previous milestone\\nPortal\\, "second" email'
+      );
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should fold iCalendar lines longer than 75 characters', () => {
+      const ics = toIcs(
+        [{ ...ENTRIES[1], notes: 'x'.repeat(200) }],
+        null,
+        new Date('2024-04-01T12:30:00Z')
+      );
+
+      ics.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(75));
+      expect(ics).toContain('\r\n x');
+    });
+
+    it('should fold on octets without splitting accented characters', () => {
+      const notes = 'Vérification des antécédents terminée à Montréal, '.repeat(4);
+      const ics = toIcs([{ ...ENTRIES[1], notes }], null, new Date('2024-04-01T12:30:00Z'));
+
+      ics
+        .split('\r\n')
+        .forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+      expect(ics.replace(/\r\n /g, '')).toContain(`DESCRIPTION:${notes.replace(/,/g, '\\,')}`);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for next milestone predictions
+ */
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { getLatestJourneyMilestone, predictMilestone } from '../../src/lib/eta-prediction';
+import { predictionService } from '../../src/services/prediction-service';
+import { statisticsService } from '../../src/services/statistics-service';
+import { TimelineEntry, TransitionForecast } from '../../src/types';
+
+jest.mock('../../src/services/statistics-service', () => ({
+  statisticsService: {
+    getTransitionForecast: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockGetTransitionForecast = statisticsService.getTransitionForecast as jest.Mock<any>;
+
+const FORECAST: TransitionForecast = {
+  transition_type: 'p1-p2',
+  count: 20,
+  p10_days: 16,
+  p25_days: 20,
+  median_days: 30,
+  p75_days: 45,
+  p90_days: 60,
+  segmented: true,
+};
+
+describe('predictMilestone', () => {
+  it('should turn the forecast percentiles into dates after the latest milestone', () => {
+    const prediction = predictMilestone('p1', '2024-03-01', 'p2', FORECAST, new Date(2024, 2, 15));
+
+    expect(prediction).toEqual({
+      milestone: 'p2',
+      from_milestone: 'p1',
+      from_date: '2024-03-01',
+      likely_date: '2024-03-31',
+      range_50: { start: '2024-03-21', end: '2024-04-15' },
+      range_80: { start: '2024-03-17', end: '2024-04-30' },
+      sample_size: 20,
+      segmented: true,
+    });
+  });
+
+  it('should not predict dates in the past', () => {
+    const prediction = predictMilestone('p1', '2024-03-01', 'p2', FORECAST, new Date(2024, 2, 25));
+
+    expect(prediction.range_80.start).toBe('2024-03-25');
+    expect(prediction.range_50.start).toBe('2024-03-25');
+    expect(prediction.likely_date).toBe('2024-03-31');
+  });
+});
+
+describe('getLatestJourneyMilestone', () => {
+  it('should use the furthest milestone, like the progress summary', () => {
+    const entries = [
+      { id: '1', entry_type: 'aor', entry_date: '2024-01-21' },
+      { id: '2', entry_type: 'p1', entry_date: '2024-03-01T00:00:00Z' },
+      { id: '3', entry_type: 'additional_docs', entry_date: '2024-04-01' },
+    ] as TimelineEntry[];
+
+    expect(getLatestJourneyMilestone(entries)).toEqual({
+      entryType: 'p1',
+      entryDate: '2024-03-01',
+    });
+    expect(getLatestJourneyMilestone([])).toBeNull();
+  });
+});
+
+describe('Prediction Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date(2024, 2, 15));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('predictNextMilestone', () => {
+    it('should use the forecast of the next transition given the days already waited', async () => {
+      mockGetTransitionForecast.mockResolvedValue(FORECAST);
+
+      const prediction = await predictionService.predictNextMilestone('p1', '2024-03-01', 'app-1');
+
+      expect(mockGetTransitionForecast).toHaveBeenCalledWith('p1-p2', 'app-1', 14);
+      expect(prediction?.milestone).toBe('p2');
+      expect(prediction?.likely_date).toBe('2024-03-31');
+    });
+
+    it('should not predict without enough similar applications', async () => {
+      mockGetTransitionForecast.mockResolvedValue({ ...FORECAST, count: 3 });
+
+      await expect(
+        predictionService.predictNextMilestone('p1', '2024-03-01', 'app-1')
+      ).resolves.toBeNull();
+    });
+
+    it('should not predict after the last milestone', async () => {
+      await expect(
+        predictionService.predictNextMilestone('pr_card', '2024-03-01')
+      ).resolves.toBeNull();
+      expect(mockGetTransitionForecast).not.toHaveBeenCalled();
+    });
+  });
+});
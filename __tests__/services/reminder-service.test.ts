@@ -0,0 +1,218 @@
+/**
+ * Tests for reminders tied to timeline milestones
+ */
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { format } from 'date-fns';
+
+import { DEFAULT_REMINDER_PREFERENCES } from '../../src/constants/reminders';
+import { getStageDeadlines } from '../../src/lib/deadlines';
+import { createInMemoryNotificationTransport } from '../../src/lib/notification-transport';
+import { computeReminders } from '../../src/lib/reminders';
+import { applicationService } from '../../src/services/application-service';
+import { reminderService } from '../../src/services/reminder-service';
+import { timelineService } from '../../src/services/timeline-service';
+import { Reminder, TimelineEntry } from '../../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('expo-notifications', () => ({}));
+
+// Real deadlines, watched to see which program they are computed for
+jest.mock('../../src/lib/deadlines', () => {
+  const actual =
+    jest.requireActual<typeof import('../../src/lib/deadlines')>('../../src/lib/deadlines');
+  return { ...actual, getStageDeadlines: jest.fn(actual.getStageDeadlines) };
+});
+
+jest.mock('../../src/services/application-service', () => ({
+  applicationService: {
+    getApplications: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/timeline-service', () => ({
+  timelineService: {
+    getCachedTimeline: jest.fn(),
+    subscribe: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockGetItem = AsyncStorage.getItem as jest.Mock<any>;
+const mockGetStageDeadlines = getStageDeadlines as jest.Mock<any>;
+const mockGetApplications = applicationService.getApplications as jest.Mock<any>;
+const mockGetCachedTimeline = timelineService.getCachedTimeline as jest.Mock<any>;
+const mockSubscribe = timelineService.subscribe as jest.Mock<any>;
+
+const NOW = new Date(2024, 2, 10, 12);
+
+const ENTRIES = [
+  { id: '1', application_id: 'app-1', entry_type: 'aor', entry_date: '2024-02-20' },
+  { id: '2', application_id: 'app-1', entry_type: 'biometrics_request', entry_date: '2024-03-05' },
+] as TimelineEntry[];
+
+const describeReminder = (reminder: Reminder) => [
+  reminder.kind,
+  reminder.entry_type,
+  format(new Date(reminder.trigger_at), 'yyyy-MM-dd'),
+];
+
+describe('computeReminders', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remind to record completions and nudge on the days of a wait', () => {
+    const reminders = computeReminders(ENTRIES, DEFAULT_REMINDER_PREFERENCES, [], NOW);
+
+    expect(reminders.map(describeReminder)).toEqual([
+      ['completion', 'biometrics_complete', '2024-03-12'],
+      ['completion', 'biometrics_complete', '2024-04-04'],
+      ['wait', 'biometrics_complete', '2024-04-04'],
+      ['wait', 'biometrics_complete', '2024-05-04'],
+      ['wait', 'biometrics_complete', '2024-06-03'],
+    ]);
+    expect(new Date(reminders[0].trigger_at).getHours()).toBe(9);
+    expect(reminders[2].title).toBe('Day 30 since Biometrics Request');
+  });
+
+  it('should drop the reminders of a request once it is completed', () => {
+    const entries = [
+      ...ENTRIES,
+      {
+        id: '3',
+        application_id: 'app-1',
+        entry_type: 'biometrics_complete',
+        entry_date: '2024-03-09',
+      },
+    ] as TimelineEntry[];
+
+    const reminders = computeReminders(entries, DEFAULT_REMINDER_PREFERENCES, [], NOW);
+
+    expect(reminders.every((reminder) => reminder.kind === 'wait')).toBe(true);
+    expect(reminders.map((reminder) => reminder.entry_type)).toContain('medicals_complete');
+  });
+
+  it('should follow the preferences', () => {
+    expect(
+      computeReminders(ENTRIES, { ...DEFAULT_REMINDER_PREFERENCES, enabled: false }, [], NOW)
+    ).toEqual([]);
+    expect(
+      computeReminders(
+        ENTRIES,
+        { ...DEFAULT_REMINDER_PREFERENCES, completion_reminders: false, wait_days: [60] },
+        [],
+        NOW
+      ).map(describeReminder)
+    ).toEqual([['wait', 'biometrics_complete', '2024-05-04']]);
+  });
+
+  it('should use the deadline windows of the program of each application', () => {
+    const entries = [
+      ...ENTRIES,
+      { id: '3', application_id: 'app-2', entry_type: 'additional_docs', entry_date: '2024-03-01' },
+    ] as TimelineEntry[];
+
+    computeReminders(
+      entries,
+      DEFAULT_REMINDER_PREFERENCES,
+      [
+        { id: 'app-1', program: 'spousal' },
+        { id: 'app-2', program: null },
+      ],
+      NOW
+    );
+
+    expect(mockGetStageDeadlines.mock.calls).toEqual([
+      [ENTRIES, 'spousal', NOW],
+      [[entries[2]], null, NOW],
+    ]);
+  });
+});
+
+describe('Reminder Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    mockGetItem.mockResolvedValue(null);
+    mockGetApplications.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('syncReminders', () => {
+    it('should schedule reminders and cancel the ones no longer needed', async () => {
+      const transport = createInMemoryNotificationTransport();
+      transport.scheduled.set('other-app', {} as Reminder);
+
+      const reminders = await reminderService.syncReminders(ENTRIES, transport);
+      expect(reminders.length).toBeGreaterThan(0);
+      expect(transport.scheduled.size).toBe(reminders.length + 1);
+
+      await reminderService.syncReminders([], transport);
+      expect([...transport.scheduled.keys()]).toEqual(['other-app']);
+    });
+
+    it('should compute the reminders with the programs of the applications', async () => {
+      mockGetApplications.mockResolvedValue([
+        { id: 'app-1', name: 'Spousal sponsorship', program: 'spousal' },
+      ]);
+
+      await reminderService.syncReminders(ENTRIES, createInMemoryNotificationTransport());
+
+      expect(mockGetStageDeadlines).toHaveBeenCalledWith(ENTRIES, 'spousal', expect.any(Date));
+    });
+
+    it('should fall back to the default windows without the applications', async () => {
+      mockGetApplications.mockRejectedValue(new Error('Network request failed'));
+
+      const reminders = await reminderService.syncReminders(
+        ENTRIES,
+        createInMemoryNotificationTransport()
+      );
+
+      expect(mockGetStageDeadlines).toHaveBeenCalledWith(ENTRIES, undefined, expect.any(Date));
+      expect(reminders.length).toBeGreaterThan(0);
+    });
+
+    it('should not schedule anything without permission', async () => {
+      const transport = createInMemoryNotificationTransport(false);
+
+      await expect(reminderService.syncReminders(ENTRIES, transport)).resolves.toEqual([]);
+      expect(transport.scheduled.size).toBe(0);
+    });
+  });
+
+  describe('startReminderScheduler', () => {
+    it('should reschedule on timeline changes and cancel when stopped', async () => {
+      const transport = createInMemoryNotificationTransport();
+      mockGetCachedTimeline.mockResolvedValue(ENTRIES);
+      mockSubscribe.mockReturnValue(jest.fn());
+
+      const stop = reminderService.startReminderScheduler(transport);
+      const listener = mockSubscribe.mock.calls[0][0] as (entries: TimelineEntry[]) => void;
+
+      listener(ENTRIES);
+      await reminderService.syncReminders(ENTRIES, transport);
+      expect(transport.scheduled.size).toBeGreaterThan(0);
+
+      stop();
+      await reminderService.syncReminders([], transport);
+      expect(transport.scheduled.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,590 @@
+/**
+ * Tests for personal and community statistics
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { binDurations, toBoxPlotSummary } from '../../src/lib/distribution';
+import { statisticsCache } from '../../src/lib/statistics-cache';
+import { supabase } from '../../src/lib/supabase';
+import { buildLifeTable, computeSurvivalCurve, getReachedByDay } from '../../src/lib/survival';
+import { computeUserStatistics } from '../../src/lib/user-statistics';
+import { applicationService } from '../../src/services/application-service';
+import { statisticsService } from '../../src/services/statistics-service';
+import { timelineService } from '../../src/services/timeline-service';
+import { CommunityBenchmark, CommunityStatistic, EntryType, TimelineEntry } from '../../src/types';
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: jest.fn(),
+    },
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/lib/statistics-cache', () => ({
+  statisticsCache: {
+    get: jest.fn(),
+    set: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/timeline-service', () => ({
+  timelineService: {
+    getUserTimeline: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/application-service', () => ({
+  applicationService: {
+    getSelectedApplicationId: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockGetSession = supabase.auth.getSession as jest.Mock<any>;
+const mockRpc = supabase.rpc as jest.Mock<any>;
+const mockCacheGet = statisticsCache.get as jest.Mock<any>;
+const mockCacheSet = statisticsCache.set as jest.Mock<any>;
+const mockGetUserTimeline = timelineService.getUserTimeline as jest.Mock<any>;
+const mockGetSelectedApplicationId = applicationService.getSelectedApplicationId as jest.Mock<any>;
+
+const TODAY = new Date(2024, 5, 1);
+
+const entry = (entryType: EntryType, entryDate: string, occurrence = 1): TimelineEntry => ({
+  id: `${entryType}-${occurrence}`,
+  application_id: 'app-1',
+  entry_type: entryType,
+  entry_date: entryDate,
+  occurrence,
+});
+
+const BENCHMARKS: CommunityBenchmark[] = [
+  { transition_type: 'aor-p2', median_days: 60, count: 40, segmented: true },
+  { transition_type: 'p2-ecopr', median_days: 90, count: 25, segmented: true },
+  { transition_type: 'ecopr-pr_card', median_days: 45, count: 12, segmented: false },
+];
+
+describe('computeUserStatistics', () => {
+  it('should measure durations between the first occurrences of milestones', () => {
+    const statistics = computeUserStatistics(
+      [
+        entry('submission', '2024-01-01'),
+        entry('aor', '2024-01-21'),
+        entry('biometrics_request', '2024-01-25'),
+        entry('biometrics_request', '2024-03-01', 2),
+        entry('biometrics_complete', '2024-02-10'),
+        entry('medicals_complete', '2024-02-24'),
+      ],
+      BENCHMARKS,
+      TODAY
+    );
+
+    expect(statistics.submissionToAOR).toBe(20);
+    expect(statistics.aorToBiometrics).toBe(20);
+    expect(statistics.biometricsToMedicals).toBe(14);
+  });
+
+  it('should leave durations empty until both milestones are recorded', () => {
+    const statistics = computeUserStatistics([entry('submission', '2024-01-01')], [], TODAY);
+
+    expect(statistics.submissionToAOR).toBeNull();
+    expect(statistics.aorToBiometrics).toBeNull();
+    expect(statistics.backgroundCheckDuration).toBeNull();
+    expect(statistics.estimatedDaysRemaining).toBeNull();
+  });
+
+  it('should count steps still in progress up to today', () => {
+    const statistics = computeUserStatistics(
+      [entry('submission', '2024-01-01'), entry('background_start', '2024-05-01')],
+      [],
+      TODAY
+    );
+
+    expect(statistics.backgroundCheckDuration).toBe(31);
+    expect(statistics.totalProcessingTime).toBe(152);
+  });
+
+  it('should stop the total processing time at ecoPR', () => {
+    const statistics = computeUserStatistics(
+      [entry('submission', '2024-01-01'), entry('p2', '2024-03-01'), entry('ecopr', '2024-04-10')],
+      BENCHMARKS,
+      TODAY
+    );
+
+    expect(statistics.totalProcessingTime).toBe(100);
+    expect(statistics.estimatedDaysRemaining).toBe(0);
+  });
+
+  it('should match the progress shown on the journey tracker', () => {
+    expect(computeUserStatistics([], [], TODAY).applicationProgress).toBe(0);
+    expect(
+      computeUserStatistics(
+        [entry('submission', '2024-01-01'), entry('aor', '2024-01-21')],
+        [],
+        TODAY
+      ).applicationProgress
+    ).toBe(20);
+    expect(
+      computeUserStatistics([entry('pr_card', '2024-05-01')], [], TODAY).applicationProgress
+    ).toBe(100);
+  });
+
+  it('should estimate the days remaining from the community medians', () => {
+    // 60 + 90 days expected after AOR, 41 of them already passed
+    const fromAor = computeUserStatistics([entry('aor', '2024-04-21')], BENCHMARKS, TODAY);
+    expect(fromAor.estimatedDaysRemaining).toBe(109);
+
+    // Only the P2 to ecoPR median is left once P2 is recorded
+    const fromP2 = computeUserStatistics(
+      [entry('aor', '2024-01-01'), entry('p2', '2024-05-02')],
+      BENCHMARKS,
+      TODAY
+    );
+    expect(fromP2.estimatedDaysRemaining).toBe(60);
+
+    // Past the median, the estimate doesn't go negative
+    const overdue = computeUserStatistics([entry('p2', '2023-12-01')], BENCHMARKS, TODAY);
+    expect(overdue.estimatedDaysRemaining).toBe(0);
+  });
+
+  it('should not estimate without community data for every remaining transition', () => {
+    const statistics = computeUserStatistics(
+      [entry('aor', '2024-04-21')],
+      BENCHMARKS.filter((benchmark) => benchmark.transition_type !== 'p2-ecopr'),
+      TODAY
+    );
+
+    expect(statistics.estimatedDaysRemaining).toBeNull();
+  });
+
+  it('should compare completed and pending transitions with the community', () => {
+    const statistics = computeUserStatistics(
+      [entry('aor', '2024-01-01'), entry('p2', '2024-02-20')],
+      BENCHMARKS,
+      TODAY
+    );
+
+    expect(statistics.milestoneNotes).toEqual([
+      {
+        title: 'AOR → P2',
+        description:
+          'Took 50 days, 10 days faster than the median of 60 days for similar applications.',
+      },
+      {
+        title: 'Waiting for ecoPR',
+        description: '102 days since P2. The median wait is 90 days for similar applications.',
+      },
+    ]);
+  });
+});
+
+describe('computeSurvivalCurve', () => {
+  const lifeTable = buildLifeTable([
+    { days: 30, reached: true },
+    { days: 30, reached: true },
+    { days: 40, reached: false },
+    { days: 60, reached: true },
+    { days: 90, reached: false },
+  ]);
+
+  it('should group waits into one life table row per day', () => {
+    expect(lifeTable).toEqual([
+      { days: 30, events: 2, censored: 0 },
+      { days: 40, events: 0, censored: 1 },
+      { days: 60, events: 1, censored: 0 },
+      { days: 90, events: 0, censored: 1 },
+    ]);
+  });
+
+  it('should take applicants still waiting out of the at-risk group', () => {
+    // 2 of 5 by day 30; on day 60, 1 of the 2 still followed, so half of the remaining 60%
+    expect(computeSurvivalCurve(lifeTable)).toEqual([
+      { days: 0, reached: 0, at_risk: 5 },
+      { days: 30, reached: 0.4, at_risk: 5 },
+      { days: 60, reached: 0.7, at_risk: 2 },
+      { days: 90, reached: 0.7, at_risk: 1 },
+    ]);
+  });
+
+  it('should read the curve as steps up to the end of the follow-up', () => {
+    const points = computeSurvivalCurve(lifeTable);
+
+    expect(getReachedByDay(points, 10)).toBe(0);
+    expect(getReachedByDay(points, 45)).toBe(0.4);
+    expect(getReachedByDay(points, 90)).toBe(0.7);
+    expect(getReachedByDay(points, 120)).toBeNull();
+  });
+});
+
+describe('duration distribution', () => {
+  it('should count durations per bin, keeping empty bins in between', () => {
+    expect(binDurations([3, 8, 9, 30], 7)).toEqual([
+      { bin_start: 0, bin_end: 7, count: 1 },
+      { bin_start: 7, bin_end: 14, count: 2 },
+      { bin_start: 14, bin_end: 21, count: 0 },
+      { bin_start: 21, bin_end: 28, count: 0 },
+      { bin_start: 28, bin_end: 35, count: 1 },
+    ]);
+    expect(binDurations([], 7)).toEqual([]);
+  });
+
+  it('should stop the whiskers at 1.5 × IQR and show the extremes past them as outliers', () => {
+    const statistic = {
+      transition_type: 'p2-ecopr',
+      month_year: 'March 2024',
+      min_days: 50,
+      p25_days: 100,
+      median_days: 110,
+      p75_days: 120,
+      max_days: 200,
+      count: 40,
+    } as CommunityStatistic;
+
+    expect(toBoxPlotSummary(statistic)).toEqual({
+      label: 'March 2024',
+      q1: 100,
+      median: 110,
+      q3: 120,
+      whiskerLow: 70,
+      whiskerHigh: 150,
+      outliers: [50, 200],
+      count: 40,
+    });
+    expect(toBoxPlotSummary({ ...statistic, min_days: 80, max_days: 140 })).toMatchObject({
+      whiskerLow: 80,
+      whiskerHigh: 140,
+      outliers: [],
+    });
+  });
+});
+
+describe('Statistics Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statisticsService.useMockData = false;
+    mockGetSession.mockResolvedValue({ data: { session: { user: { id: 'user-1' } } } });
+    mockCacheGet.mockResolvedValue(null);
+  });
+
+  describe('getUserStatistics', () => {
+    it('should return null without an authenticated user', async () => {
+      mockGetSession.mockResolvedValue({ data: { session: null } });
+
+      await expect(statisticsService.getUserStatistics('app-1')).resolves.toBeNull();
+      expect(mockGetUserTimeline).not.toHaveBeenCalled();
+    });
+
+    it('should compute statistics from the timeline instead of mock data', async () => {
+      mockGetUserTimeline.mockResolvedValue([
+        entry('submission', '2024-01-01'),
+        entry('aor', '2024-01-21'),
+      ]);
+      mockRpc.mockResolvedValue({
+        data: [{ transition_type: 'aor-p2', median_days: '60.0', count: 40, segmented: true }],
+        error: null,
+      });
+
+      const statistics = await statisticsService.getUserStatistics('app-1');
+
+      expect(mockGetUserTimeline).toHaveBeenCalledWith('app-1');
+      expect(mockRpc).toHaveBeenCalledWith('get_user_statistics', {
+        user_id: 'user-1',
+        filter_application_id: 'app-1',
+      });
+      expect(statistics?.submissionToAOR).toBe(20);
+      expect(statistics?.milestoneNotes[0].title).toBe('Waiting for P2');
+    });
+
+    it('should use the selected application by default', async () => {
+      mockGetSelectedApplicationId.mockResolvedValue('app-2');
+      mockGetUserTimeline.mockResolvedValue([]);
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      await statisticsService.getUserStatistics();
+
+      expect(mockGetUserTimeline).toHaveBeenCalledWith('app-2');
+    });
+
+    it('should still return durations when community data is unavailable', async () => {
+      mockGetUserTimeline.mockResolvedValue([
+        entry('submission', '2024-01-01'),
+        entry('aor', '2024-01-21'),
+      ]);
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'function does not exist' } });
+
+      const statistics = await statisticsService.getUserStatistics('app-1');
+
+      expect(statistics?.submissionToAOR).toBe(20);
+      expect(statistics?.estimatedDaysRemaining).toBeNull();
+    });
+  });
+
+  describe('getWeeklyBreakdown', () => {
+    it('should label the weeks of the month with ISO week ranges', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            transition_type: 'p2-ecopr',
+            week_start: '2024-02-26',
+            iso_week: 9,
+            count: 6,
+            median_days: '140.5',
+            suppressed: false,
+          },
+          {
+            transition_type: 'p2-ecopr',
+            week_start: '2024-03-25',
+            iso_week: 13,
+            count: 5,
+            median_days: 138,
+            suppressed: false,
+          },
+        ],
+        error: null,
+      });
+
+      const breakdown = await statisticsService.getWeeklyBreakdown('p2-ecopr', '2024-03-01', {
+        program: 'cec',
+      });
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'get_weekly_breakdown',
+        expect.objectContaining({
+          filter_transition_type: 'p2-ecopr',
+          report_month: '2024-03-01',
+          user_id: 'user-1',
+          filter_program: 'cec',
+          include_flagged: false,
+        })
+      );
+      expect(breakdown).toEqual([
+        {
+          week_start: '2024-02-26',
+          iso_week: 9,
+          week_range: 'Feb 26–Mar 3',
+          count: 6,
+          median_days: 140.5,
+          suppressed: false,
+        },
+        {
+          week_start: '2024-03-25',
+          iso_week: 13,
+          week_range: 'Mar 25–31',
+          count: 5,
+          median_days: 138,
+          suppressed: false,
+        },
+      ]);
+    });
+
+    it('should keep weeks withheld for having too few reports, without their count', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            transition_type: 'p2-ecopr',
+            week_start: '2024-03-04',
+            iso_week: 10,
+            count: null,
+            median_days: null,
+            suppressed: true,
+          },
+        ],
+        error: null,
+      });
+
+      const [week] = await statisticsService.getWeeklyBreakdown('p2-ecopr', '2024-03-01');
+
+      expect(week).toMatchObject({
+        week_range: 'Mar 4–10',
+        count: 0,
+        median_days: null,
+        suppressed: true,
+      });
+    });
+
+    it('should return no weeks for an invalid transition', async () => {
+      await expect(statisticsService.getWeeklyBreakdown('ecopr-p2', '2024-03-01')).resolves.toEqual(
+        []
+      );
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDurationHistogram', () => {
+    it('should request bins of the chosen width', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          { bin_start: 14, bin_end: 28, count: '3' },
+          { bin_start: 28, bin_end: 42, count: 0 },
+        ],
+        error: null,
+      });
+
+      const bins = await statisticsService.getDurationHistogram('p1-p2', 14);
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'get_duration_histogram',
+        expect.objectContaining({
+          filter_transition_type: 'p1-p2',
+          bin_width: 14,
+          user_id: 'user-1',
+          include_flagged: false,
+        })
+      );
+      expect(bins).toEqual([
+        { bin_start: 14, bin_end: 28, count: 3 },
+        { bin_start: 28, bin_end: 42, count: 0 },
+      ]);
+    });
+  });
+
+  describe('getWaitingStats', () => {
+    it('should keep months withheld for having too few open waits, without their ages', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            transition_type: 'p2-ecopr',
+            report_date: '2024-03-01',
+            waiting_count: 2,
+            min_days_waiting: null,
+            median_days_waiting: null,
+            p90_days_waiting: null,
+            max_days_waiting: null,
+            suppressed: true,
+          },
+        ],
+        error: null,
+      });
+
+      const [statistic] = await statisticsService.getWaitingStats('p2-ecopr');
+
+      expect(statistic).toMatchObject({
+        month_year: 'Mar 2024',
+        waiting_count: 2,
+        max_days_waiting: 0,
+        suppressed: true,
+      });
+    });
+  });
+
+  describe('getCommunityStats', () => {
+    it('should leave flagged durations out unless asked for, and report how many', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            transition_type: 'aor-p2',
+            report_date: '2024-03-01',
+            avg_days: 61.2,
+            min_days: 30,
+            max_days: 120,
+            median_days: 58,
+            p25_days: 45,
+            p75_days: 72,
+            p90_days: 95,
+            count: 24,
+            excluded_count: 2,
+          },
+        ],
+        error: null,
+      });
+
+      const [statistic] = await statisticsService.getCommunityStats('aor-p2');
+
+      expect(mockRpc).toHaveBeenCalledWith(
+        'get_community_statistics',
+        expect.objectContaining({ filter_transition_type: 'aor-p2', include_flagged: false })
+      );
+      expect(statistic).toMatchObject({ count: 24, excluded_count: 2, month_year: 'Mar 2024' });
+
+      await statisticsService.getCommunityStats('aor-p2', {}, true);
+
+      expect(mockRpc).toHaveBeenLastCalledWith(
+        'get_community_statistics',
+        expect.objectContaining({ include_flagged: true })
+      );
+    });
+
+    it('should keep months withheld for having too few reports, without figures', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            transition_type: 'aor-p2',
+            report_date: '2024-03-01',
+            avg_days: null,
+            min_days: null,
+            max_days: null,
+            median_days: null,
+            p25_days: null,
+            p75_days: null,
+            p90_days: null,
+            count: null,
+            excluded_count: null,
+            suppressed: true,
+          },
+        ],
+        error: null,
+      });
+
+      const [statistic] = await statisticsService.getCommunityStats('aor-p2');
+
+      expect(statistic).toMatchObject({
+        month_year: 'Mar 2024',
+        suppressed: true,
+        count: 0,
+        median_days: 0,
+      });
+    });
+
+    it('should serve fresh cached statistics without asking the server', async () => {
+      mockCacheGet.mockResolvedValue({
+        data: [{ transition_type: 'aor-p2', count: 12 }],
+        fetched_at: new Date().toISOString(),
+      });
+
+      const statistics = await statisticsService.getCommunityStats('aor-p2', { program: 'cec' });
+
+      expect(mockCacheGet).toHaveBeenCalledWith(
+        'user-1',
+        expect.stringContaining('community/aor-p2/')
+      );
+      expect(mockRpc).not.toHaveBeenCalled();
+      expect(statistics).toEqual([{ transition_type: 'aor-p2', count: 12 }]);
+    });
+
+    it('should revalidate stale or skipped cached statistics and store the response', async () => {
+      mockCacheGet.mockResolvedValue({
+        data: [],
+        fetched_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      });
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      await statisticsService.getCommunityStats('aor-p2');
+      await expect(statisticsService.getCachedCommunityStats('aor-p2')).resolves.toMatchObject({
+        stale: true,
+      });
+
+      mockCacheGet.mockResolvedValue({ data: [], fetched_at: new Date().toISOString() });
+      await statisticsService.getCommunityStats('aor-p2', {}, false, true);
+
+      expect(mockRpc).toHaveBeenCalledTimes(2);
+      expect(mockCacheSet).toHaveBeenCalledWith('user-1', expect.any(String), []);
+    });
+
+    it('should fall back to stale cached statistics when the server fails', async () => {
+      const cachedData = [{ transition_type: 'aor-p2', count: 12 }];
+      mockCacheGet.mockResolvedValue({ data: cachedData, fetched_at: '2024-01-01T00:00:00Z' });
+      mockRpc.mockResolvedValue({ data: null, error: new Error('Network request failed') });
+
+      await expect(statisticsService.getCommunityStats('aor-p2')).resolves.toEqual(cachedData);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for the temporary status periods and the citizenship eligibility calculator
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { computeCitizenshipEligibility } from '../../src/lib/citizenship';
+import { supabase } from '../../src/lib/supabase';
+import { statusPeriodService } from '../../src/services/status-period-service';
+import { StatusPeriod, Trip } from '../../src/types';
+import { ValidationError } from '../../src/types/errors';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock<any>;
+
+const trip = (id: string, departure_date: string, return_date: string | null): Trip => ({
+  id,
+  departure_date,
+  return_date,
+  destination: 'France',
+});
+
+const period = (id: string, start_date: string, end_date: string | null): StatusPeriod => ({
+  id,
+  status_type: 'worker',
+  start_date,
+  end_date,
+});
+
+describe('computeCitizenshipEligibility', () => {
+  const today = new Date(2024, 11, 31);
+
+  it('should count the days as a permanent resident and project when 1,095 are reached', () => {
+    const eligibility = computeCitizenshipEligibility('2024-01-01', [], [], today);
+
+    expect(eligibility).toMatchObject({
+      window_start: '2020-01-01',
+      pr_days: 366,
+      temporary_days: 0,
+      temporary_credit: 0,
+      days_counted: 366,
+      eligible: false,
+      eligibility_date: '2026-12-30',
+    });
+  });
+
+  it('should credit the days with temporary status at half a day, up to 365', () => {
+    const capped = computeCitizenshipEligibility(
+      '2024-01-01',
+      [period('1', '2022-01-01', null)],
+      [],
+      today
+    );
+
+    expect(capped.temporary_days).toBe(730);
+    expect(capped.temporary_credit).toBe(365);
+    expect(capped.days_counted).toBe(731);
+    expect(capped.eligibility_date).toBe('2025-12-30');
+
+    const halved = computeCitizenshipEligibility(
+      '2024-01-01',
+      [period('1', '2023-07-01', '2023-12-31')],
+      [],
+      today
+    );
+
+    expect(halved.temporary_days).toBe(184);
+    expect(halved.temporary_credit).toBe(92);
+  });
+
+  it('should subtract the days abroad with or without PR status', () => {
+    const trips = [
+      trip('1', '2021-05-01', '2021-05-11'),
+      trip('2', '2023-03-01', '2023-03-11'),
+      trip('3', '2024-06-01', '2024-06-11'),
+    ];
+
+    const eligibility = computeCitizenshipEligibility(
+      '2024-01-01',
+      [period('1', '2022-01-01', null)],
+      trips,
+      today
+    );
+
+    // The 2021 trip was taken before any status and doesn't count either way
+    expect(eligibility.days_absent).toBe(18);
+    expect(eligibility.pr_days).toBe(357);
+    expect(eligibility.temporary_credit).toBe(360);
+    expect(eligibility.eligibility_date).toBe('2026-01-13');
+  });
+
+  it('should be eligible today once the required days are reached', () => {
+    const eligibility = computeCitizenshipEligibility('2019-01-01', [], [], today);
+
+    expect(eligibility.pr_days).toBe(1827);
+    expect(eligibility.eligible).toBe(true);
+    expect(eligibility.eligibility_date).toBe('2024-12-31');
+  });
+});
+
+describe('Status Period Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addStatusPeriod', () => {
+    it('should require a status and a start date', async () => {
+      await expect(
+        statusPeriodService.addStatusPeriod({ status_type: 'student', start_date: '' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        statusPeriodService.addStatusPeriod({ status_type: '' as any, start_date: '2022-01-01' })
+      ).rejects.toThrow('Required field is missing: status_type');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('should store an empty end date as null', async () => {
+      const single = jest.fn<any>().mockResolvedValue({ data: { id: 'period-1' }, error: null });
+      const insert = jest.fn().mockReturnValue({ select: () => ({ single }) });
+      mockFrom.mockReturnValue({ insert });
+
+      await statusPeriodService.addStatusPeriod({
+        status_type: 'student',
+        start_date: '2022-01-01',
+        end_date: '',
+      });
+
+      expect(mockFrom).toHaveBeenCalledWith('status_periods');
+      expect(insert).toHaveBeenCalledWith({
+        status_type: 'student',
+        start_date: '2022-01-01',
+        end_date: null,
+      });
+    });
+  });
+});
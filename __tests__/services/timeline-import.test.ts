@@ -0,0 +1,172 @@
+/**
+ * Tests for importing a timeline from pasted CSV/TSV text
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  buildImportPreview,
+  matchEntryType,
+  parseImportDate,
+  parseTimelineImport,
+} from '../../src/lib/timeline-import';
+import { TimelineEntry } from '../../src/types';
+
+describe('matchEntryType', () => {
+  it('should map the labels used in community spreadsheets to milestones', () => {
+    expect(matchEntryType('AOR')).toBe('aor');
+    expect(matchEntryType('Bio req')).toBe('biometrics_request');
+    expect(matchEntryType('Biometrics Complete')).toBe('biometrics_complete');
+    expect(matchEntryType('MP')).toBe('medicals_complete');
+    expect(matchEntryType('BGC cleared')).toBe('background_complete');
+    expect(matchEntryType('ADR #2')).toBe('additional_docs');
+    expect(matchEntryType('P1 email')).toBe('p1');
+    expect(matchEntryType('eCOPR date')).toBe('ecopr');
+    expect(matchEntryType('PRC received')).toBe('pr_card');
+  });
+
+  it('should not guess unknown labels', () => {
+    expect(matchEntryType('Landing')).toBeNull();
+    expect(matchEntryType('')).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('should read ISO dates, timestamps and written-out dates', () => {
+    expect(parseImportDate('2024-03-01', true)).toBe('2024-03-01');
+    expect(parseImportDate('2024-03-01T15:00:00Z', true)).toBe('2024-03-01');
+    expect(parseImportDate('2024/03/01', true)).toBe('2024-03-01');
+    expect(parseImportDate('Mar 1, 2024', true)).toBe('2024-03-01');
+    expect(parseImportDate('March 1st 2024', true)).toBe('2024-03-01');
+    expect(parseImportDate('1-Mar-24', true)).toBe('2024-03-01');
+  });
+
+  it('should read numeric dates day first or month first', () => {
+    expect(parseImportDate('01/03/2024', true)).toBe('2024-03-01');
+    expect(parseImportDate('01/03/2024', false)).toBe('2024-01-03');
+    expect(parseImportDate('1.3.24', true)).toBe('2024-03-01');
+  });
+
+  it('should reject dates that do not exist or cannot be read', () => {
+    expect(parseImportDate('31/02/2024', true)).toBeNull();
+    expect(parseImportDate('soon', true)).toBeNull();
+    expect(parseImportDate('  ', true)).toBeNull();
+  });
+});
+
+describe('parseTimelineImport', () => {
+  it('should read one milestone per row from the header columns', () => {
+    const result = parseTimelineImport(
+      'Milestone,Entry Date,Notes\nAOR,2024-01-10,\n"P1 email",2024-03-01,"Portal, finally"\n'
+    );
+
+    expect(result.layout).toBe('rows');
+    expect(result.candidates).toEqual([
+      { line: 2, source_label: 'AOR', entry_type: 'aor', entry_date: '2024-01-10', notes: '' },
+      {
+        line: 3,
+        source_label: 'P1 email',
+        entry_type: 'p1',
+        entry_date: '2024-03-01',
+        notes: 'Portal, finally',
+      },
+    ]);
+    expect(result.skipped).toEqual([]);
+  });
+
+  it('should read rows without a header as label, date and notes', () => {
+    const result = parseTimelineImport('AOR\t2024-01-10\nBio req\t2024-01-20\tBIL received');
+
+    expect(result.layout).toBe('rows');
+    expect(result.candidates.map((candidate) => candidate.entry_type)).toEqual([
+      'aor',
+      'biometrics_request',
+    ]);
+    expect(result.candidates[1].notes).toBe('BIL received');
+  });
+
+  it('should read the first applicant of a one-column-per-milestone sheet', () => {
+    const result = parseTimelineImport(
+      'Name;AOR date;P1;P2\nalex;10/01/2024;01/03/2024;\nsam;11/01/2024;02/03/2024;03/03/2024'
+    );
+
+    expect(result.layout).toBe('columns');
+    expect(result.candidates.map(({ entry_type, entry_date }) => [entry_type, entry_date])).toEqual(
+      [
+        ['aor', '2024-01-10'],
+        ['p1', '2024-03-01'],
+      ]
+    );
+    expect(result.skipped).toEqual([
+      { line: 3, reason: 'Only the first applicant row is imported' },
+    ]);
+  });
+
+  it('should detect the order of numeric dates, and flag it when nothing settles it', () => {
+    expect(parseTimelineImport('AOR,03/25/2024\nP1,04/02/2024').dayFirst).toBe(false);
+    expect(parseTimelineImport('AOR,25/03/2024\nP1,02/04/2024').dayFirst).toBe(true);
+
+    const ambiguous = parseTimelineImport('AOR,03/04/2024\nP1,05/06/2024');
+    expect(ambiguous.ambiguousDates).toBe(true);
+    expect(ambiguous.candidates[0].entry_date).toBe('2024-04-03');
+    expect(parseTimelineImport('AOR,03/04/2024', false).candidates[0].entry_date).toBe(
+      '2024-03-04'
+    );
+  });
+
+  it('should skip rows with an unknown milestone or an unreadable date', () => {
+    const result = parseTimelineImport('AOR,2024-01-10\nLanding,2024-02-01\nP1,someday');
+
+    expect(result.candidates).toHaveLength(1);
+    expect(result.skipped).toEqual([
+      { line: 2, reason: 'Unrecognized milestone "Landing"' },
+      { line: 3, reason: 'Unrecognized date "someday"' },
+    ]);
+  });
+
+  it('should return nothing for empty text', () => {
+    expect(parseTimelineImport('  \n')).toMatchObject({ candidates: [], skipped: [] });
+  });
+});
+
+describe('buildImportPreview', () => {
+  const existing: TimelineEntry[] = [
+    { id: 'entry-1', entry_type: 'aor', entry_date: '2024-01-10' },
+    { id: 'entry-2', entry_type: 'p1', entry_date: '2024-03-01' },
+  ];
+
+  it('should tell new milestones from duplicates and conflicts', () => {
+    const { candidates } = parseTimelineImport('AOR,2024-01-10\nP1,2024-03-05\nP2,2024-04-01');
+    const preview = buildImportPreview(candidates, existing);
+
+    expect(preview.map((item) => [item.entry_type, item.status])).toEqual([
+      ['aor', 'duplicate'],
+      ['p1', 'conflict'],
+      ['p2', 'new'],
+    ]);
+    expect(preview[1].replace).toBe(false);
+    expect(buildImportPreview(candidates, existing, [2])[1].replace).toBe(true);
+  });
+
+  it('should tell rows repeated in the file from milestones already recorded', () => {
+    const { candidates } = parseTimelineImport(
+      'P2,2024-04-01\nBio request,2024-04-02\nBio request,2024-05-02\nP2,2024-04-03'
+    );
+    const preview = buildImportPreview(candidates, existing);
+
+    expect(preview.map((item) => [item.line, item.entry_type, item.status])).toEqual([
+      [1, 'p2', 'repeated'],
+      [2, 'biometrics_request', 'new'],
+      [4, 'p2', 'new'],
+      [3, 'biometrics_request', 'new'],
+    ]);
+    expect(preview[0].existing).toBeUndefined();
+  });
+
+  it('should block milestones that would break the order of the timeline', () => {
+    const { candidates } = parseTimelineImport('P2,2024-02-01');
+    const [item] = buildImportPreview(candidates, existing);
+
+    expect(item.status).toBe('new');
+    expect(item.issues.length).toBeGreaterThan(0);
+  });
+});
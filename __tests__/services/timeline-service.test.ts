@@ -2,12 +2,28 @@
  * Tests for the timeline service functionality
  */
 import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
+import { getSessionUserId } from '../../src/lib/auth';
+import { supabase } from '../../src/lib/supabase';
+import { timelineCache } from '../../src/lib/timeline-cache';
+import {
+  applyRemoteChange,
+  createInMemoryRealtimeTransport,
+} from '../../src/lib/timeline-realtime';
 import { timelineService } from '../../src/services/timeline-service';
-import { EntryType } from '../../src/types';
+import { EntryType, TimelineEntry, TimelineMutation } from '../../src/types';
 import { ValidationError } from '../../src/types/errors';
 
-// Mock supabase - simplified approach to focus on validation tests
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../../src/lib/auth', () => ({
+  getSessionUserId: jest.fn(),
+}));
+
 jest.mock('../../src/lib/supabase', () => ({
   supabase: {
     from: jest.fn(),
@@ -23,21 +39,167 @@ jest.mock('../../src/lib/logger', () => ({
   },
 }));
 
+const mockGetItem = AsyncStorage.getItem as jest.Mock<any>;
+const mockSetItem = AsyncStorage.setItem as jest.Mock<any>;
+const mockGetSessionUserId = getSessionUserId as jest.Mock<any>;
+const mockFrom = supabase.from as jest.Mock<any>;
+
+const USER_ID = 'user-1';
+const NETWORK_ERROR = { message: 'Network request failed' };
+
+// AsyncStorage backed by a map, so the cache behaves like on a device
+let storage: Map<string, string>;
+
+// Requests sent to Supabase, in order
+let requests: {
+  table: string;
+  method: 'select' | 'upsert' | 'update' | 'delete';
+  id?: string;
+  payload?: any;
+}[];
+
+// Responses to the next requests, oldest first; requests succeed once they run out
+let responses: { data?: any; error?: any }[];
+
+const respond = async (request: (typeof requests)[number]) => {
+  requests.push(request);
+  return responses.shift() ?? { data: null, error: null };
+};
+
+const mutation = (overrides: Partial<TimelineMutation>): TimelineMutation => ({
+  id: `mutation-${overrides.entry_id}-${overrides.type}`,
+  type: 'update',
+  entry_id: 'entry-1',
+  queued_at: '2024-03-01T10:00:00Z',
+  status: 'pending',
+  ...overrides,
+});
+
 describe('Timeline Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    storage = new Map();
+    requests = [];
+    responses = [];
+
+    mockGetItem.mockImplementation(async (key: string) => storage.get(key) ?? null);
+    mockSetItem.mockImplementation(async (key: string, value: string) => {
+      storage.set(key, value);
+    });
+    mockGetSessionUserId.mockResolvedValue(USER_ID);
+    mockFrom.mockImplementation((table: string) => ({
+      select: () => ({
+        eq: (_column: string, id: string) => ({
+          order: () => respond({ table, method: 'select', id }),
+        }),
+      }),
+      upsert: (payload: any) => ({
+        select: () => ({ single: () => respond({ table, method: 'upsert', payload }) }),
+      }),
+      update: (payload: any) => ({
+        eq: (_column: string, id: string) => respond({ table, method: 'update', id, payload }),
+      }),
+      delete: () => ({
+        eq: (_column: string, id: string) => respond({ table, method: 'delete', id }),
+      }),
+    }));
   });
 
   describe('addEntry', () => {
-    it('should throw error if device ID is not provided', async () => {
+    it('should throw error if application ID is not provided', async () => {
       await expect(timelineService.addEntry('', 'aor' as EntryType, '2023-06-01')).rejects.toThrow(
         ValidationError
       );
       await expect(timelineService.addEntry('', 'aor' as EntryType, '2023-06-01')).rejects.toThrow(
-        'Required field is missing: deviceId'
+        'Required field is missing: applicationId'
       );
     });
 
+    it('should keep an entry added offline with a local id until it can be synced', async () => {
+      responses.push({ data: null, error: NETWORK_ERROR });
+
+      const entry = await timelineService.addEntry('app-1', 'aor', '2024-01-21');
+
+      expect(entry.id).toMatch(/^local-/);
+      expect(entry.sync_status).toBe('pending');
+      expect(await timelineCache.getQueue(USER_ID)).toEqual([
+        expect.objectContaining({ type: 'add', entry_id: entry.id, status: 'pending' }),
+      ]);
+    });
+
+    it('should swap the local id for the server id once the entry is synced', async () => {
+      responses.push({
+        data: {
+          id: 'server-1',
+          application_id: 'app-1',
+          entry_type: 'aor',
+          entry_date: '2024-01-21',
+          occurrence: 1,
+        },
+        error: null,
+      });
+
+      const entry = await timelineService.addEntry('app-1', 'aor', '2024-01-21');
+
+      expect(entry).toMatchObject({ id: 'server-1', sync_status: 'synced' });
+      expect(requests[0].payload).not.toHaveProperty('id');
+      expect(await timelineCache.getQueue(USER_ID)).toEqual([]);
+    });
+
+    it('should not lose either of two entries added at the same time', async () => {
+      responses.push({ error: NETWORK_ERROR }, { error: NETWORK_ERROR });
+
+      await Promise.all([
+        timelineService.addEntry('app-1', 'biometrics_request', '2024-02-01'),
+        timelineService.addEntry('app-1', 'biometrics_request', '2024-02-20'),
+      ]);
+
+      const entries = await timelineCache.getEntries(USER_ID);
+      expect(entries.map((entry) => entry.occurrence).sort()).toEqual([1, 2]);
+      expect(await timelineCache.getQueue(USER_ID)).toHaveLength(2);
+    });
+
+    it('should give a repeated request milestone the next occurrence', async () => {
+      await timelineCache.setEntries(USER_ID, [
+        {
+          id: 'entry-1',
+          application_id: 'app-1',
+          entry_type: 'biometrics_request',
+          entry_date: '2024-02-01',
+          occurrence: 1,
+        },
+      ]);
+      responses.push({ error: NETWORK_ERROR });
+
+      const entry = await timelineService.addEntry('app-1', 'biometrics_request', '2024-03-01');
+
+      expect(entry.id).not.toBe('entry-1');
+      expect(entry.occurrence).toBe(2);
+      expect(requests[0].payload).toMatchObject({
+        entry_type: 'biometrics_request',
+        occurrence: 2,
+      });
+      expect(await timelineCache.getEntries(USER_ID)).toHaveLength(2);
+    });
+
+    it('should replace the entry of a milestone that only happens once', async () => {
+      await timelineCache.setEntries(USER_ID, [
+        {
+          id: 'entry-1',
+          application_id: 'app-1',
+          entry_type: 'aor',
+          entry_date: '2024-01-20',
+          occurrence: 1,
+        },
+      ]);
+      responses.push({ error: NETWORK_ERROR });
+
+      const entry = await timelineService.addEntry('app-1', 'aor', '2024-01-21');
+
+      expect(entry).toMatchObject({ id: 'entry-1', occurrence: 1, entry_date: '2024-01-21' });
+      expect(await timelineCache.getEntries(USER_ID)).toHaveLength(1);
+    });
+
     // Skip the successful case test as it requires complex mocking
     it.skip('should add an entry successfully', async () => {
       // Implementation would go here if needed
@@ -45,29 +207,22 @@ describe('Timeline Service', () => {
   });
 
   describe('getUserTimeline', () => {
-    it('should return empty array if device ID is not provided', async () => {
+    it('should return empty array without an authenticated user', async () => {
+      mockGetSessionUserId.mockResolvedValue(null);
+
       const result = await timelineService.getUserTimeline('');
       expect(result).toEqual([]);
     });
   });
 
   describe('updateEntry', () => {
-    it('should throw error if device ID is not provided', async () => {
-      await expect(
-        timelineService.updateEntry('', 'entry-id', { notes: 'Updated notes' })
-      ).rejects.toThrow(ValidationError);
-      await expect(
-        timelineService.updateEntry('', 'entry-id', { notes: 'Updated notes' })
-      ).rejects.toThrow('Required field is missing: deviceId');
-    });
-
     it('should throw error if entry ID is not provided', async () => {
-      await expect(
-        timelineService.updateEntry('device-id', '', { notes: 'Updated notes' })
-      ).rejects.toThrow(ValidationError);
-      await expect(
-        timelineService.updateEntry('device-id', '', { notes: 'Updated notes' })
-      ).rejects.toThrow('Required field is missing: entryId');
+      await expect(timelineService.updateEntry('', { notes: 'Updated notes' })).rejects.toThrow(
+        ValidationError
+      );
+      await expect(timelineService.updateEntry('', { notes: 'Updated notes' })).rejects.toThrow(
+        'Required field is missing: entryId'
+      );
     });
 
     // Skip the successful case test as it requires complex mocking
@@ -77,16 +232,9 @@ describe('Timeline Service', () => {
   });
 
   describe('deleteEntry', () => {
-    it('should throw error if device ID is not provided', async () => {
-      await expect(timelineService.deleteEntry('', 'entry-id')).rejects.toThrow(ValidationError);
-      await expect(timelineService.deleteEntry('', 'entry-id')).rejects.toThrow(
-        'Required field is missing: deviceId'
-      );
-    });
-
     it('should throw error if entry ID is not provided', async () => {
-      await expect(timelineService.deleteEntry('device-id', '')).rejects.toThrow(ValidationError);
-      await expect(timelineService.deleteEntry('device-id', '')).rejects.toThrow(
+      await expect(timelineService.deleteEntry('')).rejects.toThrow(ValidationError);
+      await expect(timelineService.deleteEntry('')).rejects.toThrow(
         'Required field is missing: entryId'
       );
     });
@@ -96,4 +244,261 @@ describe('Timeline Service', () => {
       // Implementation would go here if needed
     });
   });
+
+  describe('getEntryHistory', () => {
+    it('should not ask the server about entries that were never synced', async () => {
+      expect(await timelineService.getEntryHistory('local-1')).toEqual([]);
+      expect(requests).toEqual([]);
+    });
+
+    it('should get the revisions of the entry', async () => {
+      const revisions = [
+        {
+          id: 'revision-2',
+          entry_id: 'entry-1',
+          operation: 'update',
+          entry_type: 'p1',
+          entry_date: '2024-03-05',
+          changed_at: '2024-03-06T10:00:00Z',
+        },
+      ];
+      responses.push({ data: revisions, error: null });
+
+      expect(await timelineService.getEntryHistory('entry-1')).toEqual(revisions);
+      expect(requests).toEqual([
+        { table: 'timeline_entry_revisions', method: 'select', id: 'entry-1' },
+      ]);
+    });
+  });
+
+  describe('restoreRevision', () => {
+    it('should update the entry and leave its history to the server', async () => {
+      await timelineCache.setEntries(USER_ID, [
+        {
+          id: 'entry-1',
+          application_id: 'app-1',
+          entry_type: 'p1',
+          entry_date: '2024-03-05',
+          notes: 'Wrong date',
+        },
+      ]);
+
+      const entry = await timelineService.restoreRevision({
+        id: 'revision-1',
+        entry_id: 'entry-1',
+        operation: 'insert',
+        entry_type: 'p1',
+        entry_date: '2024-03-01',
+        changed_at: '2024-03-01T10:00:00Z',
+      });
+
+      // The update adds a new revision through the trigger instead of rewriting the old ones
+      expect(requests).toEqual([
+        {
+          table: 'timeline_entries',
+          method: 'update',
+          id: 'entry-1',
+          payload: expect.objectContaining({
+            entry_type: 'p1',
+            entry_date: '2024-03-01',
+            notes: '',
+          }),
+        },
+      ]);
+      expect(entry).toMatchObject({ id: 'entry-1', entry_date: '2024-03-01', notes: '' });
+    });
+  });
+
+  describe('syncPendingMutations', () => {
+    const seed = async (entries: TimelineEntry[], queue: TimelineMutation[]) => {
+      await timelineCache.setEntries(USER_ID, entries);
+      await timelineCache.setQueue(USER_ID, queue);
+    };
+
+    it('should replay the queue oldest first, sending later changes to the server id', async () => {
+      await seed(
+        [{ id: 'local-1', application_id: 'app-1', entry_type: 'p1', entry_date: '2024-03-01' }],
+        [
+          mutation({
+            type: 'add',
+            entry_id: 'local-1',
+            payload: { application_id: 'app-1', entry_type: 'p1', entry_date: '2024-03-01' },
+          }),
+          mutation({ type: 'update', entry_id: 'local-1', payload: { notes: 'Portal 1' } }),
+          mutation({ type: 'delete', entry_id: 'entry-9' }),
+        ]
+      );
+      responses.push({
+        data: {
+          id: 'server-1',
+          application_id: 'app-1',
+          entry_type: 'p1',
+          entry_date: '2024-03-01',
+        },
+        error: null,
+      });
+
+      await timelineService.syncPendingMutations();
+
+      expect(requests.map((request) => [request.method, request.id])).toEqual([
+        ['upsert', undefined],
+        ['update', 'server-1'],
+        ['delete', 'entry-9'],
+      ]);
+      expect(await timelineCache.getQueue(USER_ID)).toEqual([]);
+      expect(await timelineCache.getEntries(USER_ID)).toEqual([
+        expect.objectContaining({ id: 'server-1', sync_status: 'synced' }),
+      ]);
+    });
+
+    it('should stop at the first network failure and keep the queue in order', async () => {
+      const queue = [
+        mutation({ type: 'update', entry_id: 'entry-1', payload: { notes: 'First' } }),
+        mutation({ type: 'delete', entry_id: 'entry-2' }),
+      ];
+      await seed([], queue);
+      responses.push({ error: NETWORK_ERROR });
+
+      await timelineService.syncPendingMutations();
+
+      expect(requests).toHaveLength(1);
+      expect(await timelineCache.getQueue(USER_ID)).toEqual(queue);
+    });
+
+    it('should set a mutation rejected by the server aside and go on with the next', async () => {
+      await seed(
+        [
+          { id: 'entry-1', application_id: 'app-1', entry_type: 'p1', entry_date: '2024-03-01' },
+          { id: 'entry-2', application_id: 'app-1', entry_type: 'p2', entry_date: '2024-04-01' },
+        ],
+        [
+          mutation({ type: 'update', entry_id: 'entry-1', payload: { entry_date: 'soon' } }),
+          mutation({ type: 'update', entry_id: 'entry-2', payload: { notes: 'Passport sent' } }),
+        ]
+      );
+      responses.push({ error: { message: 'invalid input syntax for type date', code: '22007' } });
+
+      await timelineService.syncPendingMutations();
+
+      expect(requests.map((request) => request.id)).toEqual(['entry-1', 'entry-2']);
+      expect(await timelineCache.getQueue(USER_ID)).toEqual([
+        expect.objectContaining({
+          entry_id: 'entry-1',
+          status: 'failed',
+          last_error: 'invalid input syntax for type date',
+        }),
+      ]);
+      const entries = await timelineCache.getEntries(USER_ID);
+      expect(entries.map((entry) => [entry.id, entry.sync_status])).toEqual([
+        ['entry-1', 'failed'],
+        ['entry-2', 'synced'],
+      ]);
+
+      // Failed mutations wait for an explicit retry
+      await timelineService.syncPendingMutations();
+      expect(requests).toHaveLength(2);
+
+      await timelineService.retryFailedMutations();
+      expect(requests).toHaveLength(3);
+      expect(await timelineCache.getQueue(USER_ID)).toEqual([]);
+    });
+
+    it('should share the replay between concurrent callers', async () => {
+      await seed([], [mutation({ type: 'delete', entry_id: 'entry-1' })]);
+
+      await Promise.all([
+        timelineService.syncPendingMutations(),
+        timelineService.syncPendingMutations(),
+      ]);
+
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
+
+describe('applyRemoteChange', () => {
+  const p1: TimelineEntry = {
+    id: 'entry-1',
+    application_id: 'app-1',
+    entry_type: 'p1',
+    entry_date: '2024-03-01',
+    occurrence: 1,
+    updated_at: '2024-03-01T10:00:00Z',
+    sync_status: 'synced',
+  };
+  const p2: TimelineEntry = {
+    id: 'entry-2',
+    application_id: 'app-1',
+    entry_type: 'p2',
+    entry_date: '2024-04-02',
+    occurrence: 1,
+    updated_at: '2024-04-02T10:00:00Z',
+  };
+
+  it('should add, update and delete entries changed on another device', () => {
+    const inserted = applyRemoteChange([p1], [], {
+      type: 'insert',
+      entry_id: 'entry-2',
+      entry: p2,
+    });
+    expect(inserted).toEqual([p1, { ...p2, sync_status: 'synced' }]);
+
+    const updated = applyRemoteChange(inserted!, [], {
+      type: 'update',
+      entry_id: 'entry-2',
+      entry: { ...p2, entry_date: '2024-04-03', updated_at: '2024-04-03T10:00:00Z' },
+    });
+    expect(updated?.find((entry) => entry.id === 'entry-2')?.entry_date).toBe('2024-04-03');
+
+    expect(applyRemoteChange(updated!, [], { type: 'delete', entry_id: 'entry-2' })).toEqual([p1]);
+  });
+
+  it('should leave entries with queued local changes alone', () => {
+    const queue: TimelineMutation[] = [
+      {
+        id: 'mutation-1',
+        type: 'add',
+        entry_id: 'local-1',
+        payload: { application_id: 'app-1', entry_type: 'p2', entry_date: '2024-04-02' },
+        queued_at: '2024-04-02T09:00:00Z',
+        status: 'pending',
+      },
+    ];
+
+    // The echo of the queued add, before its server id is known
+    expect(applyRemoteChange([p1], queue, { type: 'insert', entry_id: 'entry-2', entry: p2 })).toBe(
+      null
+    );
+  });
+
+  it('should ignore unknown deletes and changes older than the stored entry', () => {
+    expect(applyRemoteChange([p1], [], { type: 'delete', entry_id: 'other-user-entry' })).toBe(
+      null
+    );
+    expect(
+      applyRemoteChange([p1], [], {
+        type: 'update',
+        entry_id: 'entry-1',
+        entry: { ...p1, entry_date: '2024-02-01', updated_at: '2024-02-01T10:00:00Z' },
+      })
+    ).toBe(null);
+  });
+});
+
+describe('createInMemoryRealtimeTransport', () => {
+  it('should deliver changes to the subscribers of the user until they unsubscribe', () => {
+    const transport = createInMemoryRealtimeTransport();
+    const onChange = jest.fn();
+    const onConnected = jest.fn();
+
+    const unsubscribe = transport.subscribe('user-1', { onChange, onConnected });
+    transport.emit('user-1', { type: 'delete', entry_id: 'entry-1' });
+    transport.emit('user-2', { type: 'delete', entry_id: 'entry-2' });
+    unsubscribe();
+    transport.emit('user-1', { type: 'delete', entry_id: 'entry-3' });
+
+    expect(onConnected).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({ type: 'delete', entry_id: 'entry-1' });
+  });
 });
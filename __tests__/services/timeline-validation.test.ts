@@ -0,0 +1,152 @@
+/**
+ * Tests for the chronological rules checked before an entry is saved
+ */
+import { describe, expect, it } from '@jest/globals';
+
+import {
+  assertValidTimelineEntry,
+  BLOCKING_ORDER_RULES,
+  validateTimelineEntry,
+} from '../../src/lib/timeline-validation';
+import { EntryType, EntryValidationError, TimelineEntry } from '../../src/types';
+
+const today = new Date(2024, 5, 1);
+
+const entry = (
+  entry_type: EntryType,
+  entry_date: string,
+  overrides: Partial<TimelineEntry> = {}
+): TimelineEntry => ({
+  id: `${entry_type}-${overrides.occurrence ?? 1}`,
+  application_id: 'app-1',
+  entry_type,
+  entry_date,
+  occurrence: 1,
+  ...overrides,
+});
+
+const codes = (issues: ReturnType<typeof validateTimelineEntry>) =>
+  issues.map((issue) => [issue.code, issue.severity, issue.related_entry_type]);
+
+describe('validateTimelineEntry', () => {
+  describe.each(BLOCKING_ORDER_RULES)('%s before %s', (before, after) => {
+    it(`should block ${after} dated before ${before}`, () => {
+      const issues = validateTimelineEntry(
+        entry(after, '2024-03-01'),
+        [entry(before, '2024-03-10')],
+        today
+      );
+
+      expect(codes(issues)).toEqual([['before_prerequisite', 'error', before]]);
+    });
+
+    it(`should block ${before} dated after ${after}`, () => {
+      const issues = validateTimelineEntry(
+        entry(before, '2024-03-10'),
+        [entry(after, '2024-03-01')],
+        today
+      );
+
+      expect(codes(issues)).toEqual([['after_dependent', 'error', after]]);
+    });
+
+    it('should allow both on the same day', () => {
+      expect(
+        validateTimelineEntry(entry(after, '2024-03-01'), [entry(before, '2024-03-01')], today)
+      ).toEqual([]);
+    });
+  });
+
+  it('should block dates in the future but not today', () => {
+    expect(codes(validateTimelineEntry(entry('aor', '2024-06-02'), [], today))).toEqual([
+      ['future_date', 'error', undefined],
+    ]);
+    expect(validateTimelineEntry(entry('aor', '2024-06-01T23:00:00Z'), [], today)).toEqual([]);
+  });
+
+  it('should only warn about milestones out of their usual sequence', () => {
+    const issues = validateTimelineEntry(
+      entry('aor', '2024-03-10'),
+      [entry('submission', '2024-01-01'), entry('p1', '2024-03-01')],
+      today
+    );
+
+    expect(codes(issues)).toEqual([['out_of_sequence', 'warning', 'p1']]);
+    expect(issues[0].message).toBe('AOR usually comes before P1 (Mar 1, 2024)');
+  });
+
+  it('should not warn about processing steps done in any order', () => {
+    expect(
+      validateTimelineEntry(
+        entry('medicals_complete', '2024-02-01'),
+        [entry('biometrics_request', '2024-03-01'), entry('background_start', '2024-04-01')],
+        today
+      )
+    ).toEqual([]);
+  });
+
+  it('should warn when a later occurrence is dated before the previous one', () => {
+    const issues = validateTimelineEntry(
+      entry('biometrics_request', '2024-02-01', { id: undefined, occurrence: undefined }),
+      [entry('biometrics_request', '2024-03-01')],
+      today
+    );
+
+    expect(codes(issues)).toEqual([['occurrence_order', 'warning', 'biometrics_request']]);
+  });
+
+  it('should compare the first occurrence of a repeatable milestone', () => {
+    // A second biometrics request after the completion of the first one is fine
+    expect(
+      validateTimelineEntry(
+        entry('biometrics_request', '2024-04-01', { id: 'new', occurrence: 2 }),
+        [entry('biometrics_request', '2024-01-10'), entry('biometrics_complete', '2024-02-01')],
+        today
+      )
+    ).toEqual([]);
+  });
+
+  it('should ignore the entry being replaced and other applications', () => {
+    expect(
+      validateTimelineEntry(
+        entry('p1', '2024-05-01', { id: 'new' }),
+        [entry('p1', '2024-03-01'), entry('p2', '2024-04-01', { application_id: 'app-2' })],
+        today
+      )
+    ).toEqual([]);
+  });
+
+  it('should list errors before warnings', () => {
+    const issues = validateTimelineEntry(
+      entry('p2', '2024-02-01'),
+      [entry('p1', '2024-03-01'), entry('aor', '2024-02-15')],
+      today
+    );
+
+    expect(issues.map((issue) => issue.severity)).toEqual(['error', 'warning']);
+  });
+});
+
+describe('assertValidTimelineEntry', () => {
+  it('should throw the blocking issues with the message of the first one', () => {
+    expect.assertions(4);
+
+    try {
+      assertValidTimelineEntry(entry('p2', '2024-02-01'), [entry('p1', '2024-03-01')]);
+    } catch (error) {
+      expect(error).toBeInstanceOf(EntryValidationError);
+      const validationError = error as EntryValidationError;
+      expect(validationError.message).toBe("P2 can't be dated before P1 (Mar 1, 2024)");
+      expect(validationError.fieldErrors).toEqual({ entry_date: validationError.message });
+      expect(validationError.issues).toHaveLength(1);
+    }
+  });
+
+  it('should return the warnings when nothing blocks', () => {
+    const warnings = assertValidTimelineEntry(entry('aor', '2024-03-10'), [
+      entry('p1', '2024-03-01'),
+    ]);
+
+    expect(codes(warnings)).toEqual([['out_of_sequence', 'warning', 'p1']]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for the trip log and the residency obligation calculator
+ */
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+
+import { assessTrip, computeResidencyStatus, getPrStartDate } from '../../src/lib/residency';
+import { supabase } from '../../src/lib/supabase';
+import { tripService } from '../../src/services/trip-service';
+import { TimelineEntry, Trip } from '../../src/types';
+import { ValidationError } from '../../src/types/errors';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+jest.mock('../../src/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+// Mock Logger
+jest.mock('../../src/lib/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock<any>;
+
+const trip = (id: string, departure_date: string, return_date: string | null): Trip => ({
+  id,
+  departure_date,
+  return_date,
+  destination: 'France',
+});
+
+describe('computeResidencyStatus', () => {
+  const today = new Date(2024, 11, 31);
+
+  it('should count the days in Canada since the ecoPR and project when 730 are reached', () => {
+    const status = computeResidencyStatus('2024-01-01', [], today);
+
+    expect(status).toMatchObject({
+      window_start: '2024-01-01',
+      days_present: 366,
+      days_absent: 0,
+      obligation_met: false,
+      projected_met_date: '2025-12-30',
+    });
+  });
+
+  it('should leave out the days abroad but not the departure and return days', () => {
+    const trips = [trip('1', '2024-03-01', '2024-03-11'), trip('2', '2025-06-01', '2025-06-11')];
+
+    const status = computeResidencyStatus('2024-01-01', trips, today);
+
+    expect(status.days_present).toBe(357);
+    expect(status.days_absent).toBe(9);
+    // The planned trip pushes the date back by its 9 days abroad
+    expect(status.projected_met_date).toBe('2026-01-17');
+  });
+
+  it('should only count the last 5 years after the first 5 years of PR status', () => {
+    const status = computeResidencyStatus(
+      '2015-01-01',
+      [trip('1', '2021-01-01', '2023-01-01')],
+      new Date(2024, 5, 30)
+    );
+
+    expect(status.window_start).toBe('2019-07-01');
+    expect(status.days_absent).toBe(729);
+    expect(status.obligation_met).toBe(true);
+    expect(status.projected_met_date).toBeNull();
+  });
+});
+
+describe('assessTrip', () => {
+  const today = new Date(2024, 11, 31);
+
+  it('should warn when a planned trip would break the obligation', () => {
+    expect(assessTrip('2024-01-01', [], trip('1', '2025-01-10', '2025-02-10'), today).risk).toBe(
+      'ok'
+    );
+    expect(assessTrip('2024-01-01', [], trip('1', '2025-01-10', '2028-01-01'), today)).toEqual({
+      margin_days: 12,
+      risk: 'tight',
+    });
+    expect(assessTrip('2024-01-01', [], trip('1', '2025-01-10', '2028-02-01'), today)).toEqual({
+      margin_days: -19,
+      risk: 'breach',
+    });
+  });
+
+  it('should replace the logged copy of a trip being edited', () => {
+    const logged = trip('1', '2025-01-10', '2028-02-01');
+    const edited = { ...logged, return_date: '2025-02-10' };
+
+    expect(assessTrip('2024-01-01', [logged], edited, today).risk).toBe('ok');
+  });
+});
+
+describe('getPrStartDate', () => {
+  it('should use the earliest ecoPR of any application', () => {
+    const entries = [
+      { application_id: 'a', entry_type: 'ecopr', entry_date: '2024-05-01' },
+      { application_id: 'b', entry_type: 'ecopr', entry_date: '2024-03-01T00:00:00Z' },
+      { application_id: 'b', entry_type: 'p2', entry_date: '2024-02-01' },
+    ] as TimelineEntry[];
+
+    expect(getPrStartDate(entries)).toBe('2024-03-01');
+    expect(getPrStartDate([])).toBeNull();
+  });
+});
+
+describe('Trip Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addTrip', () => {
+    it('should require a departure date and a destination', async () => {
+      await expect(
+        tripService.addTrip({ departure_date: '', destination: 'France' })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        tripService.addTrip({ departure_date: '2024-03-01', destination: '  ' })
+      ).rejects.toThrow('Required field is missing: destination');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('should store trimmed text and empty fields as null', async () => {
+      const single = jest.fn<any>().mockResolvedValue({ data: { id: 'trip-1' }, error: null });
+      const insert = jest.fn().mockReturnValue({ select: () => ({ single }) });
+      mockFrom.mockReturnValue({ insert });
+
+      await tripService.addTrip({
+        departure_date: '2024-03-01',
+        return_date: '',
+        destination: ' France ',
+        purpose: '',
+      });
+
+      expect(mockFrom).toHaveBeenCalledWith('trips');
+      expect(insert).toHaveBeenCalledWith({
+        departure_date: '2024-03-01',
+        return_date: null,
+        destination: 'France',
+        purpose: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+import { colors } from '../constants/colors';
+import { Application } from '../types';
+import { ThemedButton } from './themed-button';
+import { ThemedInput } from './themed-input';
+
+interface ApplicationSwitcherProps {
+  applications: Application[];
+  selectedApplicationId: string | null;
+  onSelect: (applicationId: string) => void;
+  onCreate?: (name: string) => Promise<void>;
+}
+
+/**
+ * Horizontal list of the user's applications with a button to start tracking a new one
+ */
+export const ApplicationSwitcher = ({
+  applications,
+  selectedApplicationId,
+  onSelect,
+  onCreate,
+}: ApplicationSwitcherProps) => {
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [creating, setCreating] = useState(false);
+
+  const closeModal = () => {
+    setShowCreateModal(false);
+    setNewName('');
+    setError(undefined);
+  };
+
+  const handleCreate = async () => {
+    if (!onCreate) return;
+
+    if (!newName.trim()) {
+      setError('Please give the application a name');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      await onCreate(newName.trim());
+      closeModal();
+    } catch {
+      setError('Could not create the application. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <View className="mb-4">
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View className="flex-row items-center">
+          {applications.map((application) => {
+            const isSelected = application.id === selectedApplicationId;
+
+            return (
+              <TouchableOpacity
+                key={application.id}
+                onPress={() => onSelect(application.id)}
+                className={`mr-2 rounded-full px-4 py-2 ${
+                  isSelected ? 'bg-maple-red' : 'border border-frost bg-white'
+                }`}>
+                <Text
+                  className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-[#475569]'}`}>
+                  {application.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {onCreate && (
+            <TouchableOpacity
+              onPress={() => setShowCreateModal(true)}
+              className="flex-row items-center rounded-full border border-dashed border-maple-red px-3 py-2">
+              <Ionicons name="add" size={16} color={colors.maple.red} />
+              <Text className="ml-1 text-sm font-medium text-maple-red">New</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      <Modal
+        animationType="slide"
+        transparent
+        visible={showCreateModal}
+        onRequestClose={closeModal}>
+        <View className="flex-1 justify-end bg-black/50">
+          <View className="rounded-t-xl bg-white p-4">
+            <Text className="mb-1 text-lg font-bold text-[#1e293b]">New Application</Text>
+            <Text className="mb-4 text-sm text-[#64748b]">
+              Track another immigration file, such as a spousal sponsorship or Express Entry.
+            </Text>
+
+            <ThemedInput
+              label="Application name"
+              value={newName}
+              onChangeText={setNewName}
+              placeholder="e.g. Spousal Sponsorship"
+              error={error}
+              autoFocus
+            />
+
+            <View className="mt-4 flex-row justify-end gap-4">
+              <ThemedButton variant="secondary" size="sm" onPress={closeModal}>
+                Cancel
+              </ThemedButton>
+              <ThemedButton variant="primary" size="sm" onPress={handleCreate} loading={creating}>
+                Create
+              </ThemedButton>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Dimensions } from 'react-native';
+import Svg, { Circle, G, Line, Rect, Text as SvgText } from 'react-native-svg';
+
+import { BoxPlotSummary } from '../../lib/distribution';
+
+interface BoxPlotChartProps {
+  boxes: BoxPlotSummary[];
+  height?: number;
+  color?: string;
+  yAxisSuffix?: string;
+}
+
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+const Y_TICKS = 4;
+const BOX_SLOT_WIDTH = 48;
+
+/**
+ * Box plots side by side, e.g. one per month: the box spans the middle half with a line at the
+ * median, whiskers reach the most extreme values within 1.5 × IQR, outliers are drawn as circles
+ */
+export const BoxPlotChart = ({
+  boxes,
+  height = 220,
+  color = '#E31837',
+  yAxisSuffix = 'd',
+}: BoxPlotChartProps) => {
+  if (!boxes.length) return null;
+
+  const width = Math.max(
+    Dimensions.get('window').width - 48,
+    PADDING.left + PADDING.right + boxes.length * BOX_SLOT_WIDTH
+  );
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const slotWidth = plotWidth / boxes.length;
+  const boxWidth = Math.min(24, slotWidth * 0.6);
+
+  const values = boxes.flatMap((box) => [box.whiskerLow, box.whiskerHigh, ...box.outliers]);
+  const step = Math.max(1, Math.ceil((Math.max(...values) - Math.min(...values)) / Y_TICKS));
+  const yMin = Math.floor(Math.min(...values) / step) * step;
+  const yMax = yMin + step * Y_TICKS;
+
+  const toY = (days: number) =>
+    PADDING.top + plotHeight - ((days - yMin) / (yMax - yMin)) * plotHeight;
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => yMin + step * i);
+
+  // Same short month labels as BarChart, e.g. "Mar 24"
+  const formatLabel = (label: string) => {
+    const [month, year] = label.split(' ');
+    return year ? `${month} ${year.slice(-2)}` : label;
+  };
+
+  return (
+    <Svg width={width} height={height}>
+      {/* Horizontal grid lines with days */}
+      {yTicks.map((tick) => (
+        <G key={`y-${tick}`}>
+          <Line
+            x1={PADDING.left}
+            x2={width - PADDING.right}
+            y1={toY(tick)}
+            y2={toY(tick)}
+            stroke="#e2e8f0"
+            strokeWidth={1}
+            strokeDasharray="6, 4"
+          />
+          <SvgText
+            x={PADDING.left - 6}
+            y={toY(tick) + 3}
+            fontSize={10}
+            fill="#475569"
+            textAnchor="end">
+            {`${tick}${yAxisSuffix}`}
+          </SvgText>
+        </G>
+      ))}
+
+      {boxes.map((box, index) => {
+        const center = PADDING.left + slotWidth * (index + 0.5);
+        const left = center - boxWidth / 2;
+
+        return (
+          <G key={`${box.label}-${index}`}>
+            {/* Whisker with caps */}
+            <Line
+              x1={center}
+              x2={center}
+              y1={toY(box.whiskerLow)}
+              y2={toY(box.whiskerHigh)}
+              stroke="#4A4F54"
+              strokeWidth={1}
+            />
+            <Line
+              x1={center - boxWidth / 4}
+              x2={center + boxWidth / 4}
+              y1={toY(box.whiskerLow)}
+              y2={toY(box.whiskerLow)}
+              stroke="#4A4F54"
+              strokeWidth={1}
+            />
+            <Line
+              x1={center - boxWidth / 4}
+              x2={center + boxWidth / 4}
+              y1={toY(box.whiskerHigh)}
+              y2={toY(box.whiskerHigh)}
+              stroke="#4A4F54"
+              strokeWidth={1}
+            />
+
+            {/* Interquartile box and median */}
+            <Rect
+              x={left}
+              y={toY(box.q3)}
+              width={boxWidth}
+              height={Math.max(1, toY(box.q1) - toY(box.q3))}
+              rx={3}
+              fill={color}
+              fillOpacity={0.25}
+              stroke={color}
+              strokeWidth={1.5}
+            />
+            <Line
+              x1={left}
+              x2={left + boxWidth}
+              y1={toY(box.median)}
+              y2={toY(box.median)}
+              stroke="#1A1D1F"
+              strokeWidth={2}
+            />
+
+            {box.outliers.map((value) => (
+              <Circle
+                key={value}
+                cx={center}
+                cy={toY(value)}
+                r={3}
+                fill="#ffffff"
+                stroke={color}
+                strokeWidth={1.5}
+              />
+            ))}
+
+            <SvgText x={center} y={height - 6} fontSize={10} fill="#475569" textAnchor="middle">
+              {formatLabel(box.label)}
+            </SvgText>
+          </G>
+        );
+      })}
+    </Svg>
+  );
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Dimensions } from 'react-native';
+import Svg, { G, Line, Rect, Text as SvgText } from 'react-native-svg';
+
+import { DurationHistogramBin } from '../../types';
+
+interface HistogramChartProps {
+  bins: DurationHistogramBin[];
+  height?: number;
+  color?: string;
+  xAxisSuffix?: string;
+}
+
+const PADDING = { top: 8, right: 12, bottom: 24, left: 32 };
+const Y_TICKS = 4;
+const MAX_X_LABELS = 6;
+
+/**
+ * Histogram of durations, e.g. how many applicants waited 0-6, 7-13, 14-20... days for P2
+ * Bins come pre-counted so the bin width is chosen by whoever loads them
+ */
+export const HistogramChart = ({
+  bins,
+  height = 200,
+  color = '#E31837',
+  xAxisSuffix = 'd',
+}: HistogramChartProps) => {
+  if (!bins.length) return null;
+
+  const width = Math.max(Dimensions.get('window').width - 48, 250);
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const xMin = bins[0].bin_start;
+  const xMax = bins[bins.length - 1].bin_end;
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  const yMax = Math.ceil(maxCount / Y_TICKS) * Y_TICKS;
+
+  const toX = (days: number) => PADDING.left + ((days - xMin) / (xMax - xMin)) * plotWidth;
+  const toY = (count: number) => PADDING.top + plotHeight - (count / yMax) * plotHeight;
+
+  const labelEvery = Math.ceil(bins.length / MAX_X_LABELS);
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => (yMax / Y_TICKS) * i);
+
+  return (
+    <Svg width={width} height={height}>
+      {/* Horizontal grid lines with counts */}
+      {yTicks.map((tick) => (
+        <G key={`y-${tick}`}>
+          <Line
+            x1={PADDING.left}
+            x2={width - PADDING.right}
+            y1={toY(tick)}
+            y2={toY(tick)}
+            stroke="#e2e8f0"
+            strokeWidth={1}
+            strokeDasharray="6, 4"
+          />
+          <SvgText
+            x={PADDING.left - 6}
+            y={toY(tick) + 3}
+            fontSize={10}
+            fill="#475569"
+            textAnchor="end">
+            {`${tick}`}
+          </SvgText>
+        </G>
+      ))}
+
+      {bins.map((bin, index) => (
+        <G key={bin.bin_start}>
+          <Rect
+            x={toX(bin.bin_start) + 0.5}
+            y={toY(bin.count)}
+            width={Math.max(1, toX(bin.bin_end) - toX(bin.bin_start) - 1)}
+            height={plotHeight - (toY(bin.count) - PADDING.top)}
+            rx={2}
+            fill={color}
+          />
+          {index % labelEvery === 0 && (
+            <SvgText
+              x={toX(bin.bin_start)}
+              y={height - 6}
+              fontSize={10}
+              fill="#475569"
+              textAnchor="middle">
+              {`${bin.bin_start}${xAxisSuffix}`}
+            </SvgText>
+          )}
+        </G>
+      ))}
+    </Svg>
+  );
+};
@@ -26,16 +26,15 @@ export const LineChart = ({
   isWeekly = false
 }: LineChartProps) => {
   const screenWidth = Dimensions.get('window').width;
-  const chartWidth = Math.max(screenWidth - 48, (data.labels.length || 1) * 60);
+  // Week ranges are wider than month labels
+  const labelWidth = isWeekly ? 80 : 60;
+  const chartWidth = Math.max(screenWidth - 48, (data.labels.length || 1) * labelWidth);
 
   // Format labels based on type
   const formattedLabels = data.labels.map((label) => {
     if (isWeekly) {
-      // For weekly breakdown, format as "Days 1-7"
-      // The label format is "Month Year days", e.g. "March 2025 1-7"
-      const parts = label.split(' ');
-      const range = parts[parts.length - 1]; // Get the last part which should be the range
-      return `Days ${range}`;
+      // Weekly labels are already ISO week ranges, e.g. "Mar 25–31"
+      return label;
     } else if (label.includes(' ')) {
       // For monthly labels, show year as last 2 digits
       const [month, year] = label.split(' ');
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Dimensions, Text, View } from 'react-native';
+import Svg, { G, Line, Path, Text as SvgText } from 'react-native-svg';
+
+export interface StepLineSeries {
+  label: string;
+  color: string;
+  points: { x: number; y: number }[]; // Sorted by x; y holds until the next point
+}
+
+interface StepLineChartProps {
+  series: StepLineSeries[];
+  height?: number;
+  yMax?: number;
+  xAxisSuffix?: string;
+  formatYLabel?: (value: number) => string;
+}
+
+const PADDING = { top: 8, right: 12, bottom: 24, left: 40 };
+const Y_TICKS = 4;
+
+/**
+ * Picks a round spacing for the x axis ticks, so that at most about six are drawn
+ */
+const getTickStep = (xMax: number): number => {
+  const steps = [7, 14, 30, 60, 90, 180, 365];
+  return steps.find((step) => xMax / step <= 6) ?? Math.ceil(xMax / 6);
+};
+
+/**
+ * Line chart drawn as steps, for values that change at discrete points and hold in between,
+ * such as the share of a cohort that reached a milestone by day N
+ * Several series are overlaid, with a legend below the chart
+ */
+export const StepLineChart = ({
+  series,
+  height = 200,
+  yMax = 1,
+  xAxisSuffix = 'd',
+  formatYLabel = (value) => `${Math.round(value * 100)}%`,
+}: StepLineChartProps) => {
+  const width = Math.max(Dimensions.get('window').width - 48, 250);
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const xMax = Math.max(1, ...series.flatMap((line) => line.points.map((point) => point.x)));
+  const tickStep = getTickStep(xMax);
+
+  const toX = (x: number) => PADDING.left + (x / xMax) * plotWidth;
+  const toY = (y: number) => PADDING.top + plotHeight - (Math.min(y, yMax) / yMax) * plotHeight;
+
+  /**
+   * SVG path that holds each value horizontally, then steps to the next one
+   */
+  const toStepPath = (points: StepLineSeries['points']): string =>
+    points
+      .map((point, index) =>
+        index === 0 ? `M ${toX(point.x)} ${toY(point.y)}` : `H ${toX(point.x)} V ${toY(point.y)}`
+      )
+      .join(' ');
+
+  const xTicks = Array.from({ length: Math.floor(xMax / tickStep) + 1 }, (_, i) => i * tickStep);
+  const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => (yMax / Y_TICKS) * i);
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        {/* Horizontal grid lines with y labels */}
+        {yTicks.map((tick) => (
+          <G key={`y-${tick}`}>
+            <Line
+              x1={PADDING.left}
+              x2={width - PADDING.right}
+              y1={toY(tick)}
+              y2={toY(tick)}
+              stroke="#e2e8f0"
+              strokeWidth={1}
+              strokeDasharray="6, 4"
+            />
+            <SvgText
+              x={PADDING.left - 6}
+              y={toY(tick) + 3}
+              fontSize={10}
+              fill="#475569"
+              textAnchor="end">
+              {formatYLabel(tick)}
+            </SvgText>
+          </G>
+        ))}
+
+        {/* X axis labels */}
+        {xTicks.map((tick) => (
+          <SvgText
+            key={`x-${tick}`}
+            x={toX(tick)}
+            y={height - 6}
+            fontSize={10}
+            fill="#475569"
+            textAnchor="middle">
+            {`${tick}${xAxisSuffix}`}
+          </SvgText>
+        ))}
+
+        {series.map((line) =>
+          line.points.length ? (
+            <Path
+              key={line.label}
+              d={toStepPath(line.points)}
+              stroke={line.color}
+              strokeWidth={2}
+              fill="none"
+            />
+          ) : null
+        )}
+      </Svg>
+
+      <View className="mt-2 flex-row flex-wrap justify-center">
+        {series.map((line) => (
+          <View key={line.label} className="mx-2 mb-1 flex-row items-center">
+            <View className="mr-1 h-2 w-4 rounded-full" style={{ backgroundColor: line.color }} />
+            <Text className="text-xs text-gray-600">{line.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
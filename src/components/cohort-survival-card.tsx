@@ -0,0 +1,82 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+
+import { StepLineChart } from './charts/step-line-chart';
+import { SectionHeader } from './section-header';
+import { ThemedCard } from './themed-card';
+import { getMilestoneName, parseTransitionType } from '../constants/milestones';
+import { getReachedByDay } from '../lib/survival';
+import { CohortSurvival } from '../types';
+
+interface CohortSurvivalCardProps {
+  cohorts: CohortSurvival[];
+  transitionType: string;
+}
+
+// One color per overlaid cohort, newest first
+const COHORT_COLORS = ['#E31837', '#2E8540', '#FDB813', '#4A4F54', '#FF6B7D', '#8C9196'];
+
+// Days shown in the table below the chart
+const READOUT_DAYS = [60, 90, 120];
+
+/**
+ * Overlays the Kaplan–Meier curves of several entry month cohorts,
+ * e.g. the share of applicants with AOR in March who had P2 by day N
+ */
+export const CohortSurvivalCard = ({ cohorts, transitionType }: CohortSurvivalCardProps) => {
+  if (!cohorts.length) return null;
+
+  const pair = parseTransitionType(transitionType);
+  const startName = pair ? getMilestoneName(pair[0]) : transitionType;
+  const endName = pair ? getMilestoneName(pair[1]) : '';
+
+  const series = cohorts.map((cohort, index) => ({
+    label: `${cohort.month_year} (${cohort.cohort_size})`,
+    color: COHORT_COLORS[index % COHORT_COLORS.length],
+    points: cohort.points.map((point) => ({ x: point.days, y: point.reached })),
+  }));
+
+  return (
+    <ThemedCard className="mb-4">
+      <SectionHeader
+        title="Cohort Progress"
+        description={`Share of applicants with ${startName} in each month who had ${endName} by day N, counting those still waiting`}
+        size="sm"
+      />
+
+      <StepLineChart series={series} />
+
+      <View className="mt-4">
+        <View className="mb-1 flex-row">
+          <Text className="flex-1 text-xs font-medium text-gray-500">Cohort</Text>
+          {READOUT_DAYS.map((days) => (
+            <Text key={days} className="w-16 text-right text-xs font-medium text-gray-500">
+              {`Day ${days}`}
+            </Text>
+          ))}
+        </View>
+
+        {cohorts.map((cohort, index) => (
+          <View key={cohort.report_date} className="flex-row py-1">
+            <View className="flex-1 flex-row items-center">
+              <View
+                className="mr-2 h-2 w-2 rounded-full"
+                style={{ backgroundColor: COHORT_COLORS[index % COHORT_COLORS.length] }}
+              />
+              <Text className="text-xs text-gray-700">{cohort.month_year}</Text>
+            </View>
+            {READOUT_DAYS.map((days) => {
+              // Cohorts that haven't been followed this long yet have no value
+              const reached = getReachedByDay(cohort.points, days);
+              return (
+                <Text key={days} className="w-16 text-right text-xs text-gray-800">
+                  {reached === null ? '–' : `${Math.round(reached * 100)}%`}
+                </Text>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </ThemedCard>
+  );
+};
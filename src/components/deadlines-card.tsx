@@ -0,0 +1,87 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import React from 'react';
+import { Text, TouchableOpacity, View } from 'react-native';
+
+import { colors } from '../constants/colors';
+import { getMilestoneName } from '../constants/milestones';
+import { formatDeadlineStatus, getActiveDeadlines } from '../lib/deadlines';
+import { EntryType, StageDeadline, StageDeadlineStatus } from '../types';
+import { SectionHeader } from './section-header';
+import { StatusBadge } from './status-badge';
+import { ThemedCard } from './themed-card';
+
+const BADGE_STATUS: Record<StageDeadlineStatus, 'completed' | 'active' | 'waiting' | 'inactive'> = {
+  done: 'completed',
+  upcoming: 'inactive',
+  due_soon: 'waiting',
+  overdue: 'active',
+  elapsed: 'inactive',
+};
+
+/**
+ * Colored label of a deadline's state, e.g. "Due in 5 days"
+ */
+export const DeadlineBadge = ({ deadline }: { deadline: StageDeadline }) => (
+  <StatusBadge
+    size="sm"
+    status={BADGE_STATUS[deadline.status]}
+    label={formatDeadlineStatus(deadline)}
+  />
+);
+
+interface DeadlinesCardProps {
+  deadlines: StageDeadline[];
+  onAddEntry?: (entryType: EntryType) => void; // Records the completion milestone
+}
+
+/**
+ * Requests still waiting for an answer, with their due dates
+ * Hidden when nothing is open
+ */
+export const DeadlinesCard = ({ deadlines, onAddEntry }: DeadlinesCardProps) => {
+  const activeDeadlines = getActiveDeadlines(deadlines);
+  if (!activeDeadlines.length) return null;
+
+  return (
+    <ThemedCard className="mb-6" variant="elevated">
+      <SectionHeader
+        title="Deadlines"
+        description="Usual time to answer IRCC requests, check your letter for the exact date"
+        size="sm"
+      />
+
+      {activeDeadlines.map((deadline) => {
+        const completionType = deadline.completion_type;
+
+        return (
+          <View
+            key={`${deadline.request_type}-${deadline.occurrence}`}
+            className="mb-3 flex-row items-center justify-between">
+            <View className="flex-1 pr-2">
+              <Text className="text-sm font-semibold text-text-primary">
+                {deadline.occurrence > 1
+                  ? `${getMilestoneName(deadline.request_type)} #${deadline.occurrence}`
+                  : getMilestoneName(deadline.request_type)}
+              </Text>
+              <Text className="text-xs text-text-tertiary">
+                {`Due ${format(parseISO(deadline.due_date), 'MMM d, yyyy')}`}
+              </Text>
+            </View>
+
+            <DeadlineBadge deadline={deadline} />
+
+            {onAddEntry && completionType && (
+              <TouchableOpacity
+                onPress={() => onAddEntry(completionType)}
+                className="ml-2 rounded-full bg-maple-red/10 p-1.5"
+                accessibilityLabel={`Record ${getMilestoneName(completionType)}`}>
+                <Ionicons name="add" size={16} color={colors.maple.red} />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </ThemedCard>
+  );
+};
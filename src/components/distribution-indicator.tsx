@@ -0,0 +1,68 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+
+interface DistributionIndicatorProps {
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  p90: number;
+  max: number;
+  colorClassName?: string; // Background class of the interquartile box
+}
+
+/**
+ * Compact box plot of a processing time distribution
+ * The thin line spans min to max, the box spans the middle half (p25 to p75),
+ * with a tick at the median and a marker at p90
+ */
+export const DistributionIndicator = ({
+  min,
+  p25,
+  median,
+  p75,
+  p90,
+  max,
+  colorClassName = 'bg-gray-500',
+}: DistributionIndicatorProps) => {
+  const range = max - min;
+
+  // Position of a value on the track, as a percentage
+  const position = (value: number): number =>
+    range > 0 ? Math.min(100, Math.max(0, ((value - min) / range) * 100)) : 50;
+
+  return (
+    <View accessibilityLabel={`Middle half between ${p25} and ${p75} days, median ${median} days`}>
+      <View className="relative h-4 w-full justify-center">
+        {/* Whisker from min to max */}
+        <View className="h-[2px] w-full rounded-full bg-gray-200" />
+
+        {/* Interquartile box */}
+        <View
+          className={`absolute h-3 rounded-sm opacity-40 ${colorClassName}`}
+          style={{
+            left: `${position(p25)}%`,
+            width: `${Math.max(1, position(p75) - position(p25))}%`,
+          }}
+        />
+
+        {/* Median tick */}
+        <View
+          className="absolute h-4 w-[2px] bg-gray-800"
+          style={{ left: `${position(median)}%` }}
+        />
+
+        {/* p90 marker */}
+        <View
+          className={`absolute h-2 w-2 rounded-full ${colorClassName}`}
+          style={{ left: `${position(p90)}%`, marginLeft: -4 }}
+        />
+      </View>
+
+      <View className="mt-1 flex-row justify-between">
+        <Text className="text-[10px] text-gray-400">{min}d</Text>
+        <Text className="text-[10px] text-gray-400">{max}d</Text>
+      </View>
+    </View>
+  );
+};
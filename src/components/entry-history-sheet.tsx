@@ -0,0 +1,110 @@
+import { Ionicons } from '@expo/vector-icons';
+import { format, parseISO } from 'date-fns';
+import React from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+import { colors } from '../constants/colors';
+import { getMilestoneName } from '../constants/milestones';
+import { TimelineEntryRevision } from '../types';
+import { ThemedButton } from './themed-button';
+
+interface EntryHistorySheetProps {
+  visible: boolean;
+  revisions: TimelineEntryRevision[];
+  loading?: boolean;
+  error?: string;
+  restoringId?: string | null;
+  onRestore: (revision: TimelineEntryRevision) => void;
+  onClose: () => void;
+}
+
+const OPERATION_LABELS: Record<TimelineEntryRevision['operation'], string> = {
+  insert: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+};
+
+/**
+ * Bottom sheet listing the saved revisions of a timeline entry, newest first
+ * Every revision except the current one can be restored
+ */
+export const EntryHistorySheet = ({
+  visible,
+  revisions,
+  loading = false,
+  error,
+  restoringId,
+  onRestore,
+  onClose,
+}: EntryHistorySheetProps) => {
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="max-h-[75%] rounded-t-xl bg-white p-4">
+          <View className="mb-4 flex-row items-center justify-between">
+            <Text className="text-lg font-bold text-[#1e293b]">Edit History</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close history">
+              <Ionicons name="close" size={24} color={colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.maple.red} className="my-8" />
+          ) : error ? (
+            <Text className="my-8 text-center text-sm text-[#64748b]">{error}</Text>
+          ) : revisions.length === 0 ? (
+            <Text className="my-8 text-center text-sm text-[#64748b]">
+              No history yet. Changes appear here once they are synced.
+            </Text>
+          ) : (
+            <ScrollView>
+              {revisions.map((revision, index) => {
+                const isCurrent = index === 0;
+
+                return (
+                  <View
+                    key={revision.id}
+                    className="mb-3 rounded-xl border border-[#f1f5f9] bg-[#f8fafc] p-3">
+                    <View className="flex-row items-center justify-between">
+                      <Text className="text-xs font-medium text-[#64748b]">
+                        {OPERATION_LABELS[revision.operation]} ·{' '}
+                        {format(parseISO(revision.changed_at), 'MMM d, yyyy h:mm a')}
+                      </Text>
+                      {isCurrent && (
+                        <Text className="text-xs font-semibold text-success">Current</Text>
+                      )}
+                    </View>
+
+                    <Text className="mt-1 text-sm font-semibold text-[#1e293b]">
+                      {getMilestoneName(revision.entry_type)} ·{' '}
+                      {format(parseISO(revision.entry_date), 'MMM d, yyyy')}
+                    </Text>
+
+                    {revision.notes ? (
+                      <Text className="mt-1 text-xs text-[#475569]" numberOfLines={3}>
+                        {revision.notes}
+                      </Text>
+                    ) : null}
+
+                    {!isCurrent && revision.operation !== 'delete' && (
+                      <View className="mt-2 flex-row justify-end">
+                        <ThemedButton
+                          variant="secondary"
+                          size="sm"
+                          onPress={() => onRestore(revision)}
+                          loading={restoringId === revision.id}
+                          disabled={!!restoringId}>
+                          Restore
+                        </ThemedButton>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,78 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Modal, Text, TouchableOpacity, View } from 'react-native';
+
+import { colors } from '../constants/colors';
+import { ExportFormat } from '../types';
+
+interface ExportSheetProps {
+  visible: boolean;
+  exportingFormat?: ExportFormat | null;
+  onSelect: (exportFormat: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS: {
+  value: ExportFormat;
+  label: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  {
+    value: 'csv',
+    label: 'Spreadsheet (CSV)',
+    description: 'Open in Excel, Numbers or Google Sheets',
+    icon: 'grid-outline',
+  },
+  {
+    value: 'json',
+    label: 'Backup (JSON)',
+    description: 'Complete copy of your timeline with dates and notes, for your records',
+    icon: 'code-slash-outline',
+  },
+  {
+    value: 'ics',
+    label: 'Calendar (iCalendar)',
+    description: 'Add your milestones to Apple, Google or Outlook calendar',
+    icon: 'calendar-outline',
+  },
+];
+
+/**
+ * Bottom sheet for choosing the format of a timeline export
+ */
+export const ExportSheet = ({ visible, exportingFormat, onSelect, onClose }: ExportSheetProps) => {
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="rounded-t-xl bg-white p-4">
+          <View className="mb-4 flex-row items-center justify-between">
+            <Text className="text-lg font-bold text-[#1e293b]">Export Timeline</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close export">
+              <Ionicons name="close" size={24} color={colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          {EXPORT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              onPress={() => onSelect(option.value)}
+              disabled={!!exportingFormat}
+              className="mb-3 flex-row items-center rounded-xl border border-[#f1f5f9] bg-[#f8fafc] p-3">
+              <View className="mr-3 rounded-full bg-maple-red/10 p-2">
+                <Ionicons name={option.icon} size={20} color={colors.maple.red} />
+              </View>
+              <View className="flex-1">
+                <Text className="text-sm font-semibold text-[#1e293b]">{option.label}</Text>
+                <Text className="text-xs text-[#64748b]">{option.description}</Text>
+              </View>
+              {exportingFormat === option.value && (
+                <ActivityIndicator size="small" color={colors.maple.red} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    </Modal>
+  );
+};
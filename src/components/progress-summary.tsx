@@ -10,7 +10,22 @@ import {
   getMilestoneGradient,
   getMilestoneName,
 } from '../constants/milestone-utils';
-import { EntryType, TimelineEntry } from '../types';
+import {
+  getFirstOccurrence,
+  isRepeatableEntryType,
+  JOURNEY_MILESTONES,
+} from '../constants/milestones';
+import { getDeadlineForMilestone } from '../lib/deadlines';
+import { formatPredictionDate, formatPredictionRange } from '../lib/eta-prediction';
+import {
+  ChecklistProgress,
+  EntryType,
+  MilestonePrediction,
+  StageDeadline,
+  TimelineEntry,
+} from '../types';
+import { DeadlineBadge } from './deadlines-card';
+import { SyncStatusIndicator } from './sync-status-indicator';
 import { ThemedCard } from './themed-card';
 // Constants for consistent layout
 const DOT_SIZE = 36;
@@ -20,9 +35,15 @@ const CONNECTOR_HEIGHT = 20;
 
 interface ProgressSummaryProps {
   entries: TimelineEntry[];
+  applicationName?: string;
   onAddEntry?: (entryType: EntryType) => void;
   onEditEntry?: (entry: TimelineEntry) => void;
+  onRetrySync?: () => void;
   emptyState?: boolean;
+  prediction?: MilestonePrediction | null; // Shown on the next pending milestone
+  checklists?: Partial<Record<EntryType, ChecklistProgress>>; // Document checklist progress by milestone
+  onOpenChecklist?: (entryType: EntryType) => void;
+  deadlines?: StageDeadline[]; // Shown as badges on the request milestones
 }
 
 /**
@@ -31,9 +52,15 @@ interface ProgressSummaryProps {
  */
 export const ProgressSummary = ({
   entries,
+  applicationName,
   onAddEntry,
   onEditEntry,
+  onRetrySync,
   emptyState = false,
+  prediction,
+  checklists,
+  onOpenChecklist,
+  deadlines = [],
 }: ProgressSummaryProps) => {
   // Animation values
   const progressWidth = useRef(new Animated.Value(0)).current;
@@ -48,20 +75,8 @@ export const ProgressSummary = ({
   // Edit mode state
   const [editMode, setEditMode] = useState(false);
 
-  // Define the fixed order of milestones in the journey - ordered from top to bottom
-  const milestones: EntryType[] = [
-    'submission',
-    'aor',
-    'biometrics_request',
-    'biometrics_complete',
-    'medicals_complete',
-    'background_complete',
-    // additional_docs is optional and not included by default
-    'p1',
-    'p2',
-    'ecopr',
-    'pr_card',
-  ];
+  // Fixed order of milestones in the journey - ordered from top to bottom
+  const milestones = JOURNEY_MILESTONES;
 
   // Get the latest milestone stage achieved
   const getCompletedMilestoneIndex = (): number => {
@@ -97,6 +112,8 @@ export const ProgressSummary = ({
   };
 
   const completedIndex = getCompletedMilestoneIndex();
+  const pendingCount = entries.filter((entry) => entry.sync_status === 'pending').length;
+  const failedCount = entries.filter((entry) => entry.sync_status === 'failed').length;
   const progress = emptyState ? 0 : (completedIndex + 1) / milestones.length;
 
   // Run animations when component mounts or progress changes
@@ -123,7 +140,7 @@ export const ProgressSummary = ({
 
   // Get the date for a specific milestone if it exists
   const getMilestoneDate = (milestone: EntryType): string | null => {
-    const entry = entries.find((e) => e.entry_type === milestone);
+    const entry = getFirstOccurrence(entries, milestone);
     if (!entry) return null;
 
     // Make sure we're using entry_date (the date the milestone was received)
@@ -296,14 +313,19 @@ export const ProgressSummary = ({
 
   // Get entry for a milestone
   const getEntryForMilestone = (milestone: EntryType): TimelineEntry | undefined => {
-    return entries.find((entry) => entry.entry_type === milestone);
+    return getFirstOccurrence(entries, milestone);
   };
 
   return (
     <Animated.View style={[{ opacity: fadeIn, transform: [{ scale: scaleInOut }] }]}>
       <ThemedCard className="mb-5 bg-transparent">
         <View className="mb-3 flex-row items-center justify-between">
-          <Text className="text-lg font-bold text-[#1e293b]">Your PR Journey</Text>
+          <View className="flex-1">
+            <Text className="text-lg font-bold text-[#1e293b]">Your PR Journey</Text>
+            {applicationName && (
+              <Text className="text-xs font-medium text-[#64748b]">{applicationName}</Text>
+            )}
+          </View>
           <View className="flex-row items-center">
             <View className="overflow-hidden rounded-2xl shadow-sm">
               <LinearGradient
@@ -320,6 +342,23 @@ export const ProgressSummary = ({
         {/* Motivational message */}
         <Text className="mb-4 text-sm italic text-[#64748b]">{getMotivationMessage()}</Text>
 
+        {/* Offline sync status */}
+        {(pendingCount > 0 || failedCount > 0) && (
+          <View className="mb-4 flex-row items-center justify-between rounded-xl border border-[#f1f5f9] bg-white px-3 py-2">
+            <SyncStatusIndicator status={failedCount > 0 ? 'failed' : 'pending'} showLabel />
+            <Text className="ml-2 flex-1 text-xs text-[#64748b]">
+              {failedCount > 0
+                ? `${failedCount} ${failedCount === 1 ? 'change was' : 'changes were'} rejected by the server`
+                : `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} will sync when you're back online`}
+            </Text>
+            {failedCount > 0 && onRetrySync && (
+              <TouchableOpacity onPress={onRetrySync}>
+                <Text className="text-xs font-semibold text-maple-red">Retry</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Journey status */}
         <View className="mb-4 overflow-hidden rounded-2xl shadow-sm">
           <LinearGradient
@@ -371,8 +410,8 @@ export const ProgressSummary = ({
                 })
                 .sort((a, b) => {
                   // First check if both milestones have entries
-                  const entryA = entries.find((e) => e.entry_type === a);
-                  const entryB = entries.find((e) => e.entry_type === b);
+                  const entryA = getFirstOccurrence(entries, a);
+                  const entryB = getFirstOccurrence(entries, b);
 
                   // If both have entries, sort by date
                   if (entryA && entryB) {
@@ -404,6 +443,11 @@ export const ProgressSummary = ({
 
                   // Get the entry for this milestone if it exists
                   const entry = getEntryForMilestone(milestone);
+                  const checklist = checklists?.[milestone];
+                  const deadline = getDeadlineForMilestone(deadlines, milestone);
+                  const repeatCount = isRepeatableEntryType(milestone)
+                    ? entries.filter((e) => e.entry_type === milestone).length - 1
+                    : 0;
 
                   return (
                     <View key={milestone} className="relative pb-0">
@@ -472,10 +516,24 @@ export const ProgressSummary = ({
                           }}>
                           <View className="flex-row items-center justify-between">
                             <View className="flex-1">
-                              <Text
-                                className={`text-sm ${isCompleted ? 'font-semibold text-[#1e293b]' : 'font-medium text-[#475569]'}`}>
-                                {getMilestoneName(milestone)}
-                              </Text>
+                              <View className="flex-row items-center">
+                                <Text
+                                  className={`text-sm ${isCompleted ? 'font-semibold text-[#1e293b]' : 'font-medium text-[#475569]'}`}>
+                                  {getMilestoneName(milestone)}
+                                </Text>
+                                {repeatCount > 0 && (
+                                  <View className="ml-1.5 rounded-full bg-[#f1f5f9] px-1.5 py-0.5">
+                                    <Text className="text-[10px] font-medium text-[#64748b]">
+                                      +{repeatCount} more
+                                    </Text>
+                                  </View>
+                                )}
+                                {entry && (
+                                  <View className="ml-1.5">
+                                    <SyncStatusIndicator status={entry.sync_status} />
+                                  </View>
+                                )}
+                              </View>
 
                               {milestoneDate ? (
                                 <Text className="mt-0.5 text-xs text-[#64748b]">
@@ -490,6 +548,46 @@ export const ProgressSummary = ({
                                       : 'Pending'}
                                 </Text>
                               )}
+
+                              {deadline && (
+                                <View className="mt-1 flex-row">
+                                  <DeadlineBadge deadline={deadline} />
+                                </View>
+                              )}
+
+                              {/* Predicted date of the next milestone */}
+                              {isNextPending && prediction?.milestone === milestone && (
+                                <View className="mt-1.5">
+                                  <Text className="text-xs font-medium text-[#1e293b]">
+                                    Expected around {formatPredictionDate(prediction.likely_date)}
+                                  </Text>
+                                  <Text className="mt-0.5 text-[10px] text-[#64748b]">
+                                    {`Half of ${prediction.segmented ? 'similar applicants' : 'applicants'}: ${formatPredictionRange(prediction.range_50)} · 8 in 10: ${formatPredictionRange(prediction.range_80)}`}
+                                  </Text>
+                                </View>
+                              )}
+
+                              {/* Documents ready for this step */}
+                              {checklist && (
+                                <TouchableOpacity
+                                  onPress={() => onOpenChecklist?.(milestone)}
+                                  disabled={!onOpenChecklist}
+                                  className="mt-1.5 flex-row items-center self-start rounded-full bg-[#f1f5f9] px-2 py-0.5"
+                                  accessibilityLabel={`${getMilestoneName(milestone)} checklist`}>
+                                  <Ionicons
+                                    name={
+                                      checklist.checked === checklist.total
+                                        ? 'checkmark-done-outline'
+                                        : 'document-text-outline'
+                                    }
+                                    size={12}
+                                    color="#64748b"
+                                  />
+                                  <Text className="ml-1 text-[10px] font-medium text-[#64748b]">
+                                    {`${checklist.checked}/${checklist.total} documents`}
+                                  </Text>
+                                </TouchableOpacity>
+                              )}
                             </View>
 
                             {/* Days ago counter - only show for completed milestones with a date */}
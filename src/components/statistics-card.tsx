@@ -1,7 +1,9 @@
 import React, { useEffect, useRef } from 'react';
 import { Animated, Easing, StyleSheet, Text, View } from 'react-native';
 
+import { getTransitionName } from '../constants/milestones';
 import { CommunityStatistic } from '../types';
+import { DistributionIndicator } from './distribution-indicator';
 
 interface StatisticsCardProps {
   statistic: CommunityStatistic;
@@ -35,20 +37,6 @@ export const StatisticsCard = ({ statistic, hideMonth = false }: StatisticsCardP
     }).start();
   }, [statistic.transition_type]);
 
-  // Format transition type for display
-  const formatTransitionType = (type: string): string => {
-    switch (type) {
-      case 'aor-p2':
-        return 'AOR → P2';
-      case 'p2-ecopr':
-        return 'P2 → ecoPR';
-      case 'ecopr-pr_card':
-        return 'ecoPR → PR Card';
-      default:
-        return type;
-    }
-  };
-
   // Determine the color based on transition type
   const getTypeColor = (type: string): string => {
     switch (type) {
@@ -64,46 +52,62 @@ export const StatisticsCard = ({ statistic, hideMonth = false }: StatisticsCardP
   };
 
   // Calculate progress width as percentage of some max value (using 365 days as max for scaling)
+  // The median is used because a few slow files pull the average up
   const progressWidth = progressAnim.interpolate({
     inputRange: [0, 1],
-    outputRange: ['0%', `${Math.min(100, (statistic.avg_days / 365) * 100)}%`],
+    outputRange: ['0%', `${Math.min(100, (statistic.median_days / 365) * 100)}%`],
   });
 
   // Create separate styles for standalone vs grouped cards
   const cardClasses = hideMonth ? 'pt-2' : 'rounded-xl pt-2 bg-white shadow-sm';
-
-  return (
-    <Animated.View
-      className={cardClasses}
-      style={[
-        hideMonth ? null : styles.cardShadow,
+  const cardStyle = [
+    hideMonth ? null : styles.cardShadow,
+    {
+      opacity: fadeAnim,
+      transform: [
         {
-          opacity: fadeAnim,
-          transform: [
-            {
-              translateY: fadeAnim.interpolate({
-                inputRange: [0, 1],
-                outputRange: [20, 0],
-              }),
-            },
-          ],
+          translateY: fadeAnim.interpolate({
+            inputRange: [0, 1],
+            outputRange: [20, 0],
+          }),
         },
-      ]}>
-      <View className="mb-3 flex-row items-center justify-between">
-        <View className={`rounded-full px-3 py-1 ${getTypeColor(statistic.transition_type)}`}>
-          <Text className="text-xs font-medium text-white">
-            {formatTransitionType(statistic.transition_type)}
-          </Text>
-        </View>
-        {statistic.month_year && !hideMonth && (
-          <Text className="text-xs font-medium text-gray-500">{statistic.month_year}</Text>
-        )}
+      ],
+    },
+  ];
+
+  const header = (
+    <View className="mb-3 flex-row items-center justify-between">
+      <View className={`rounded-full px-3 py-1 ${getTypeColor(statistic.transition_type)}`}>
+        <Text className="text-xs font-medium text-white">
+          {getTransitionName(statistic.transition_type)}
+        </Text>
       </View>
+      {statistic.month_year && !hideMonth && (
+        <Text className="text-xs font-medium text-gray-500">{statistic.month_year}</Text>
+      )}
+    </View>
+  );
+
+  // Too few reports: the server withholds the figures so nobody's dates can be read from them
+  if (statistic.suppressed) {
+    return (
+      <Animated.View className={cardClasses} style={cardStyle}>
+        {header}
+        <Text className="mb-3 text-sm text-gray-500">
+          Not enough reports yet to share statistics for this month
+        </Text>
+      </Animated.View>
+    );
+  }
+
+  return (
+    <Animated.View className={cardClasses} style={cardStyle}>
+      {header}
 
       <View className="mb-3">
         <View className="mb-1 flex-row justify-between">
-          <Text className="text-sm text-gray-600">Average Processing Time</Text>
-          <Text className="font-bold text-gray-800">{statistic.avg_days.toFixed(1)} days</Text>
+          <Text className="text-sm text-gray-600">Median Processing Time</Text>
+          <Text className="font-bold text-gray-800">{statistic.median_days.toFixed(1)} days</Text>
         </View>
 
         {/* Progress bar */}
@@ -113,6 +117,37 @@ export const StatisticsCard = ({ statistic, hideMonth = false }: StatisticsCardP
             style={{ width: progressWidth }}
           />
         </View>
+        <Text className="mt-1 text-xs text-gray-500">
+          Average {statistic.avg_days.toFixed(1)} days
+        </Text>
+      </View>
+
+      {/* Distribution of processing times */}
+      <View className="mb-3">
+        <DistributionIndicator
+          min={statistic.min_days}
+          p25={statistic.p25_days}
+          median={statistic.median_days}
+          p75={statistic.p75_days}
+          p90={statistic.p90_days}
+          max={statistic.max_days}
+          colorClassName={getTypeColor(statistic.transition_type)}
+        />
+      </View>
+
+      <View className="mb-2 flex-row justify-between">
+        <View className="flex-1 items-center">
+          <Text className="text-xs text-gray-500">25th</Text>
+          <Text className="font-medium text-gray-800">{statistic.p25_days} days</Text>
+        </View>
+        <View className="flex-1 items-center">
+          <Text className="text-xs text-gray-500">75th</Text>
+          <Text className="font-medium text-gray-800">{statistic.p75_days} days</Text>
+        </View>
+        <View className="flex-1 items-center">
+          <Text className="text-xs text-gray-500">90th</Text>
+          <Text className="font-medium text-gray-800">{statistic.p90_days} days</Text>
+        </View>
       </View>
 
       <View className="flex-row justify-between">
@@ -129,6 +164,14 @@ export const StatisticsCard = ({ statistic, hideMonth = false }: StatisticsCardP
           <Text className="font-medium text-gray-800">{statistic.count}</Text>
         </View>
       </View>
+
+      {!!statistic.excluded_count && (
+        <Text className="mt-2 text-center text-xs text-gray-500">
+          {statistic.excluded_count === 1
+            ? '1 implausible duration excluded'
+            : `${statistic.excluded_count} implausible durations excluded`}
+        </Text>
+      )}
     </Animated.View>
   );
 };
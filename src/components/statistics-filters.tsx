@@ -0,0 +1,160 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ScrollView, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+  APPLICANT_LOCATION_OPTIONS,
+  PROGRAM_OPTIONS,
+  PROVINCE_OPTIONS,
+} from '../constants/application-profile';
+import { colors } from '../constants/colors';
+import { CommunityStatisticsFilters } from '../types';
+
+interface StatisticsFiltersProps {
+  filters: CommunityStatisticsFilters;
+  onChange: (filters: CommunityStatisticsFilters) => void;
+  profileFilters?: CommunityStatisticsFilters; // Filters matching the user's own application
+}
+
+const DEPENDANTS_OPTIONS: { value: string; label: string }[] = [
+  { value: 'none', label: 'No dependants' },
+  { value: 'some', label: 'With dependants' },
+];
+
+interface FilterChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+/**
+ * Small selectable chip used by the statistics filters
+ */
+export const FilterChip = ({ label, selected, onPress }: FilterChipProps) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`mr-2 rounded-full px-3 py-1 ${selected ? 'bg-maple-leaf' : 'bg-gray-100'}`}>
+    <Text className={`text-xs font-medium ${selected ? 'text-white' : 'text-gray-700'}`}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+interface FilterRowProps {
+  title: string;
+  options: { value: string; label: string }[];
+  selected?: string;
+  onSelect: (value?: string) => void;
+}
+
+/**
+ * Horizontally scrolling row of chips with an "All" chip that clears the filter
+ */
+const FilterRow = ({ title, options, selected, onSelect }: FilterRowProps) => (
+  <View className="mb-2">
+    <Text className="mb-1 text-xs font-medium text-gray-500">{title}</Text>
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <FilterChip label="All" selected={!selected} onPress={() => onSelect(undefined)} />
+      {options.map((option) => (
+        <FilterChip
+          key={option.value}
+          label={option.label}
+          selected={selected === option.value}
+          onPress={() => onSelect(selected === option.value ? undefined : option.value)}
+        />
+      ))}
+    </ScrollView>
+  </View>
+);
+
+/**
+ * Filter chips for narrowing community statistics down by application profile
+ */
+export const StatisticsFilters = ({
+  filters,
+  onChange,
+  profileFilters,
+}: StatisticsFiltersProps) => {
+  const hasProfile = !!profileFilters && Object.keys(profileFilters).length > 0;
+  const hasFilters = Object.keys(filters).length > 0;
+
+  /**
+   * Set or clear a single filter, dropping empty keys so "no filters" stays {}
+   */
+  const update = <K extends keyof CommunityStatisticsFilters>(
+    key: K,
+    value?: CommunityStatisticsFilters[K]
+  ) => {
+    const next = { ...filters };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const dependantsValue =
+    filters.has_dependants === undefined ? undefined : filters.has_dependants ? 'some' : 'none';
+
+  return (
+    <View className="mb-4">
+      <View className="mb-2 flex-row items-center justify-between">
+        <Text className="text-sm font-medium text-gray-700">Compare with similar applications</Text>
+        {hasFilters && (
+          <TouchableOpacity onPress={() => onChange({})} accessibilityLabel="Clear filters">
+            <Text className="text-xs font-medium text-maple-leaf">Clear</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {hasProfile && (
+        <TouchableOpacity
+          onPress={() => onChange(profileFilters!)}
+          className="mb-3 flex-row items-center self-start rounded-full border border-maple-leaf px-3 py-1">
+          <Ionicons name="person-circle-outline" size={14} color={colors.maple.red} />
+          <Text className="ml-1 text-xs font-medium text-maple-leaf">Match my application</Text>
+        </TouchableOpacity>
+      )}
+
+      <FilterRow
+        title="Program"
+        options={PROGRAM_OPTIONS}
+        selected={filters.program}
+        onSelect={(value) => update('program', value as CommunityStatisticsFilters['program'])}
+      />
+      <FilterRow
+        title="Applied from"
+        options={APPLICANT_LOCATION_OPTIONS}
+        selected={filters.applicant_location}
+        onSelect={(value) =>
+          update('applicant_location', value as CommunityStatisticsFilters['applicant_location'])
+        }
+      />
+      <FilterRow
+        title="Province"
+        options={PROVINCE_OPTIONS.map((option) => ({ value: option.value, label: option.value }))}
+        selected={filters.province}
+        onSelect={(value) => update('province', value)}
+      />
+      <FilterRow
+        title="Dependants"
+        options={DEPENDANTS_OPTIONS}
+        selected={dependantsValue}
+        onSelect={(value) =>
+          update('has_dependants', value === undefined ? value : value === 'some')
+        }
+      />
+
+      {filters.country_of_residence && (
+        <View className="mt-1 flex-row">
+          <FilterChip
+            label={`Living in ${filters.country_of_residence} ✕`}
+            selected
+            onPress={() => update('country_of_residence', undefined)}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
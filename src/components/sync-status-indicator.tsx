@@ -0,0 +1,42 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { Text, View } from 'react-native';
+
+import { colors } from '../constants/colors';
+import { SyncStatus } from '../types';
+
+interface SyncStatusIndicatorProps {
+  status?: SyncStatus;
+  showLabel?: boolean;
+}
+
+const STATUS_DISPLAY: Record<
+  SyncStatus,
+  { icon: keyof typeof Ionicons.glyphMap; color: string; label: string }
+> = {
+  synced: { icon: 'cloud-done-outline', color: colors.status.success, label: 'Synced' },
+  pending: { icon: 'cloud-upload-outline', color: colors.status.waiting, label: 'Pending sync' },
+  failed: { icon: 'alert-circle-outline', color: colors.status.error, label: 'Sync failed' },
+};
+
+/**
+ * Small icon (and optional label) showing whether an entry reached the server
+ * Entries without a status are treated as synced
+ */
+export const SyncStatusIndicator = ({
+  status = 'synced',
+  showLabel = false,
+}: SyncStatusIndicatorProps) => {
+  const display = STATUS_DISPLAY[status];
+
+  return (
+    <View className="flex-row items-center" accessibilityLabel={display.label}>
+      <Ionicons name={display.icon} size={14} color={display.color} />
+      {showLabel && (
+        <Text className="ml-1 text-[10px] font-medium" style={{ color: display.color }}>
+          {display.label}
+        </Text>
+      )}
+    </View>
+  );
+};
@@ -9,17 +9,22 @@ import {
   getMilestoneGradient,
   getMilestoneName,
 } from '../constants/milestone-utils';
-import { EntryType, TimelineEntry } from '../types';
+import { isRepeatableEntryType, MILESTONE_ORDER } from '../constants/milestones';
+import { getDeadlineForEntry } from '../lib/deadlines';
+import { EntryType, StageDeadline, TimelineEntry } from '../types';
+import { DeadlineBadge } from './deadlines-card';
+import { SyncStatusIndicator } from './sync-status-indicator';
 
 interface TimelineViewProps {
   entries: TimelineEntry[];
   onAddEntry?: (entryType: EntryType) => void;
+  deadlines?: StageDeadline[]; // Shown as badges on the request milestones
 }
 
 /**
  * Timeline view component that displays a chronological list of PR journey entries
  */
-export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
+export const TimelineView = ({ entries, onAddEntry, deadlines = [] }: TimelineViewProps) => {
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.95)).current;
@@ -63,28 +68,27 @@ export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
     }
 
     // If dates are the same, sort by milestone sequence
-    // Define milestone sequence order for sorting
-    const milestoneOrder = [
-      'submission',
-      'aor',
-      'biometrics_request',
-      'biometrics_complete',
-      'medicals_request',
-      'medicals_complete',
-      'background_start',
-      'background_complete',
-      'p1',
-      'p2',
-      'ecopr',
-      'pr_card',
-    ];
+    const indexA = MILESTONE_ORDER.indexOf(a.entry_type);
+    const indexB = MILESTONE_ORDER.indexOf(b.entry_type);
 
-    const indexA = milestoneOrder.indexOf(a.entry_type);
-    const indexB = milestoneOrder.indexOf(b.entry_type);
+    if (indexA !== indexB) {
+      return indexA - indexB; // Earlier in sequence comes first when dates are equal
+    }
 
-    return indexA - indexB; // Earlier in sequence comes first when dates are equal
+    // Repeated milestones on the same day: later occurrence first
+    return (b.occurrence ?? 1) - (a.occurrence ?? 1);
   });
 
+  // Label repeated milestones with their occurrence number (e.g. "Additional Docs #2")
+  const getEntryTitle = (entry: TimelineEntry): string => {
+    const name = getMilestoneName(entry.entry_type);
+    const hasRepeats =
+      isRepeatableEntryType(entry.entry_type) &&
+      entries.filter((e) => e.entry_type === entry.entry_type).length > 1;
+
+    return hasRepeats ? `${name} #${entry.occurrence ?? 1}` : name;
+  };
+
   // Helper function to format the entry date nicely
   const formatEntryDate = (dateString: string): string => {
     try {
@@ -130,6 +134,7 @@ export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
     const gradientColors = getMilestoneGradient(entry.entry_type);
     const isFirstEntry = index === 0;
     const isLastEntry = index === sortedEntries.length - 1;
+    const deadline = getDeadlineForEntry(deadlines, entry);
 
     return (
       <View key={entry.id} className="relative mb-4">
@@ -176,10 +181,18 @@ export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
               <View className="flex-1">
                 <View className="flex-row items-center">
                   <Text className="text-base font-semibold text-[#1e293b]">
-                    {getMilestoneName(entry.entry_type)}
+                    {getEntryTitle(entry)}
                   </Text>
+                  <View className="ml-2">
+                    <SyncStatusIndicator status={entry.sync_status} showLabel />
+                  </View>
                 </View>
                 <Text className="mt-0.5 text-xs text-[#64748b]">{formattedDate}</Text>
+                {deadline && (
+                  <View className="mt-1 flex-row">
+                    <DeadlineBadge deadline={deadline} />
+                  </View>
+                )}
               </View>
 
               {/* Days ago counter */}
@@ -270,25 +283,9 @@ export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
                   return;
                 }
 
-                // Define milestone sequence to check for next logical one
-                const milestones: EntryType[] = [
-                  'submission',
-                  'aor',
-                  'biometrics_request',
-                  'biometrics_complete',
-                  'medicals_request',
-                  'medicals_complete',
-                  'background_start',
-                  'background_complete',
-                  'p1',
-                  'p2',
-                  'ecopr',
-                  'pr_card',
-                ];
-
                 // Find the last completed milestone
                 let lastCompletedIndex = -1;
-                milestones.forEach((milestone, index) => {
+                MILESTONE_ORDER.forEach((milestone, index) => {
                   if (entryTypes.includes(milestone)) {
                     lastCompletedIndex = index;
                   }
@@ -296,8 +293,8 @@ export const TimelineView = ({ entries, onAddEntry }: TimelineViewProps) => {
 
                 // Get the next milestone in sequence
                 const nextIndex = lastCompletedIndex + 1;
-                if (nextIndex < milestones.length) {
-                  handleAddEntry(milestones[nextIndex]);
+                if (nextIndex < MILESTONE_ORDER.length) {
+                  handleAddEntry(MILESTONE_ORDER[nextIndex]);
                 } else {
                   // If all milestones are completed, start the add entry flow
                   handleAddEntry('submission');
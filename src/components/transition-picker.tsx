@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ScrollView, Text, View } from 'react-native';
+
+import {
+  DEFAULT_TRANSITION_TYPES,
+  getMilestoneName,
+  getTransitionEndOptions,
+  getTransitionName,
+  getTransitionType,
+  MILESTONE_ORDER,
+  parseTransitionType,
+} from '../constants/milestones';
+import { EntryType } from '../types';
+import { FilterChip } from './statistics-filters';
+
+interface TransitionPickerProps {
+  value?: string;
+  onChange: (transitionType?: string) => void;
+}
+
+// Milestones a transition can start at: all but the last one
+const START_OPTIONS = MILESTONE_ORDER.slice(0, -1);
+
+interface MilestoneRowProps {
+  title: string;
+  options: EntryType[];
+  selected?: EntryType;
+  onSelect: (milestone: EntryType) => void;
+}
+
+const MilestoneRow = ({ title, options, selected, onSelect }: MilestoneRowProps) => (
+  <View className="mb-2">
+    <Text className="mb-1 text-xs font-medium text-gray-500">{title}</Text>
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {options.map((milestone) => (
+        <FilterChip
+          key={milestone}
+          label={getMilestoneName(milestone)}
+          selected={selected === milestone}
+          onPress={() => onSelect(milestone)}
+        />
+      ))}
+    </ScrollView>
+  </View>
+);
+
+/**
+ * Picks the transition to analyze: one of the common ones, or any pair of milestones
+ * The milestone lists come from MILESTONE_ORDER, so new milestones show up automatically
+ */
+export const TransitionPicker = ({ value, onChange }: TransitionPickerProps) => {
+  const pair = value ? parseTransitionType(value) : null;
+  const [showCustom, setShowCustom] = useState(
+    !!value && !DEFAULT_TRANSITION_TYPES.includes(value)
+  );
+
+  /**
+   * Change the start milestone, keeping the end if it still comes after it
+   */
+  const handleSelectStart = (from: EntryType) => {
+    const endOptions = getTransitionEndOptions(from);
+    const to = pair && endOptions.includes(pair[1]) ? pair[1] : endOptions[0];
+    onChange(getTransitionType(from, to));
+  };
+
+  const handleSelectEnd = (to: EntryType) => {
+    onChange(getTransitionType(pair ? pair[0] : START_OPTIONS[0], to));
+  };
+
+  return (
+    <View>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-2">
+        <FilterChip
+          label="All"
+          selected={!value && !showCustom}
+          onPress={() => {
+            setShowCustom(false);
+            onChange(undefined);
+          }}
+        />
+        {DEFAULT_TRANSITION_TYPES.map((transitionType) => (
+          <FilterChip
+            key={transitionType}
+            label={getTransitionName(transitionType)}
+            selected={!showCustom && value === transitionType}
+            onPress={() => {
+              setShowCustom(false);
+              onChange(transitionType);
+            }}
+          />
+        ))}
+        <FilterChip label="Custom" selected={showCustom} onPress={() => setShowCustom(true)} />
+      </ScrollView>
+
+      {showCustom && (
+        <View>
+          <MilestoneRow
+            title="From"
+            options={START_OPTIONS}
+            selected={pair?.[0]}
+            onSelect={handleSelectStart}
+          />
+          <MilestoneRow
+            title="To"
+            options={getTransitionEndOptions(pair ? pair[0] : START_OPTIONS[0])}
+            selected={pair?.[1]}
+            onSelect={handleSelectEnd}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
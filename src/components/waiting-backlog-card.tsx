@@ -0,0 +1,77 @@
+import React from 'react';
+import { Text, View } from 'react-native';
+
+import { getMilestoneName, parseTransitionType } from '../constants/milestones';
+import { WaitingStatistic } from '../types';
+import { SectionHeader } from './section-header';
+import { ThemedCard } from './themed-card';
+
+interface WaitingBacklogCardProps {
+  statistics: WaitingStatistic[];
+  transitionType: string;
+}
+
+/**
+ * Summary of the applicants still waiting at a stage and how long they have waited,
+ * per month they entered the stage
+ */
+export const WaitingBacklogCard = ({ statistics, transitionType }: WaitingBacklogCardProps) => {
+  if (!statistics.length) return null;
+
+  const pair = parseTransitionType(transitionType);
+  const startName = pair ? getMilestoneName(pair[0]) : transitionType;
+  const endName = pair ? getMilestoneName(pair[1]) : '';
+
+  const totalWaiting = statistics.reduce((sum, stat) => sum + stat.waiting_count, 0);
+  // Months with too few open waits have their ages withheld by the server
+  const publishedStatistics = statistics.filter((stat) => !stat.suppressed);
+  const longestWait = publishedStatistics.length
+    ? Math.max(...publishedStatistics.map((stat) => stat.max_days_waiting))
+    : null;
+  const largestMonth = Math.max(...statistics.map((stat) => stat.waiting_count));
+
+  return (
+    <ThemedCard className="mb-4">
+      <SectionHeader
+        title="Current Backlog"
+        description={`Applicants with ${startName} who haven't recorded ${endName} yet`}
+        size="sm"
+      />
+
+      <View className="mb-4 flex-row justify-between">
+        <View className="flex-1 items-center">
+          <Text className="text-xs text-gray-500">Still Waiting</Text>
+          <Text className="text-lg font-bold text-gray-800">{totalWaiting}</Text>
+        </View>
+        <View className="flex-1 items-center">
+          <Text className="text-xs text-gray-500">Longest Wait</Text>
+          <Text className="text-lg font-bold text-gray-800">
+            {longestWait === null ? '—' : `${longestWait} days`}
+          </Text>
+        </View>
+      </View>
+
+      {statistics.map((stat) => (
+        <View key={stat.month_year} className="mb-3">
+          <View className="mb-1 flex-row justify-between">
+            <Text className="text-sm text-gray-700">{`${startName} in ${stat.month_year}`}</Text>
+            <Text className="text-sm font-medium text-gray-800">
+              {`${stat.waiting_count} waiting`}
+            </Text>
+          </View>
+          <View className="h-2 w-full rounded-full bg-gray-100">
+            <View
+              className="h-2 rounded-full bg-maple-leaf"
+              style={{ width: `${(stat.waiting_count / largestMonth) * 100}%` }}
+            />
+          </View>
+          <Text className="mt-1 text-xs text-gray-500">
+            {stat.suppressed
+              ? 'Too few applicants waiting to share how long'
+              : `Waiting ${stat.min_days_waiting}–${stat.max_days_waiting} days, median ${stat.median_days_waiting}, 90% under ${stat.p90_days_waiting}`}
+          </Text>
+        </View>
+      ))}
+    </ThemedCard>
+  );
+};
@@ -0,0 +1,88 @@
+import {
+  ApplicantLocation,
+  Application,
+  CommunityStatisticsFilters,
+  ImmigrationProgram,
+} from '../types';
+
+/**
+ * Programs and streams an application can be filed under
+ * Keep in sync with the applications_program_check constraint
+ */
+export const PROGRAM_OPTIONS: { value: ImmigrationProgram; label: string; description: string }[] =
+  [
+    { value: 'cec', label: 'CEC', description: 'Canadian Experience Class' },
+    { value: 'fsw', label: 'FSW', description: 'Federal Skilled Worker' },
+    { value: 'pnp', label: 'PNP', description: 'Provincial Nominee Program' },
+    { value: 'spousal', label: 'Spousal', description: 'Spouse or common-law partner sponsorship' },
+    { value: 'other', label: 'Other', description: 'Any other program or stream' },
+  ];
+
+/**
+ * Inland and outland applications are processed by different offices
+ */
+export const APPLICANT_LOCATION_OPTIONS: { value: ApplicantLocation; label: string }[] = [
+  { value: 'inland', label: 'Inland' },
+  { value: 'outland', label: 'Outland' },
+];
+
+/**
+ * Provinces and territories of destination, by their two-letter code
+ */
+export const PROVINCE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'AB', label: 'Alberta' },
+  { value: 'BC', label: 'British Columbia' },
+  { value: 'MB', label: 'Manitoba' },
+  { value: 'NB', label: 'New Brunswick' },
+  { value: 'NL', label: 'Newfoundland and Labrador' },
+  { value: 'NS', label: 'Nova Scotia' },
+  { value: 'NT', label: 'Northwest Territories' },
+  { value: 'NU', label: 'Nunavut' },
+  { value: 'ON', label: 'Ontario' },
+  { value: 'PE', label: 'Prince Edward Island' },
+  { value: 'QC', label: 'Quebec' },
+  { value: 'SK', label: 'Saskatchewan' },
+  { value: 'YT', label: 'Yukon' },
+];
+
+/**
+ * Gets the short display name of a program
+ *
+ * @param program - Program value
+ * @returns Label such as "CEC", or the raw value if unknown
+ */
+export const getProgramName = (program: ImmigrationProgram): string =>
+  PROGRAM_OPTIONS.find((option) => option.value === program)?.label ?? program;
+
+/**
+ * Whether the user has filled in enough of the profile to compare it with others
+ *
+ * @param application - Application to check
+ * @returns True once the program is known
+ */
+export const hasApplicationProfile = (application: Application): boolean => !!application.program;
+
+/**
+ * Builds the community statistics filters matching an application's profile
+ * Fields the user left empty don't filter anything
+ *
+ * @param application - Application whose profile to match
+ * @returns Filters for statisticsService.getCommunityStats
+ */
+export const getProfileStatisticsFilters = (
+  application: Application
+): CommunityStatisticsFilters => {
+  const filters: CommunityStatisticsFilters = {};
+
+  if (application.program) filters.program = application.program;
+  if (application.province) filters.province = application.province;
+  if (application.applicant_location) filters.applicant_location = application.applicant_location;
+  if (application.dependants !== null && application.dependants !== undefined) {
+    filters.has_dependants = application.dependants > 0;
+  }
+  if (application.country_of_residence) {
+    filters.country_of_residence = application.country_of_residence;
+  }
+
+  return filters;
+};
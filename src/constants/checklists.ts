@@ -0,0 +1,134 @@
+import { ChecklistTemplateItem, EntryType, ImmigrationProgram } from '../types';
+
+/**
+ * Documents usually needed at each milestone, whatever the program.
+ * A starting point only: the instructions from IRCC are authoritative.
+ */
+export const DEFAULT_CHECKLISTS: Partial<Record<EntryType, ChecklistTemplateItem[]>> = {
+  submission: [
+    { key: 'passport', label: 'Passport', description: 'Copy of every page with a stamp or visa' },
+    {
+      key: 'police_certificates',
+      label: 'Police certificates',
+      description: 'From every country you lived in for 6 months or more since age 18',
+    },
+    { key: 'birth_certificate', label: 'Birth certificate' },
+    {
+      key: 'digital_photo',
+      label: 'Digital photo',
+      description: 'Meeting the IRCC photo specifications',
+    },
+    { key: 'fees_paid', label: 'Processing and right of PR fees paid' },
+  ],
+  biometrics_request: [
+    {
+      key: 'bil',
+      label: 'Biometric instruction letter',
+      description: 'Printed, to bring to the appointment',
+    },
+    { key: 'appointment', label: 'Appointment booked at a service point' },
+    { key: 'passport', label: 'Passport', description: 'To show at the appointment' },
+  ],
+  medicals_request: [
+    { key: 'instructions', label: 'Medical instructions letter' },
+    { key: 'panel_physician', label: 'Appointment booked with a panel physician' },
+    { key: 'passport', label: 'Passport', description: 'To show at the appointment' },
+    {
+      key: 'medical_records',
+      label: 'Glasses and medical records',
+      description: 'Prescriptions, reports of past conditions and vaccination records',
+    },
+  ],
+  p1: [
+    { key: 'address_confirmed', label: 'Current address in Canada confirmed' },
+    { key: 'portal_account', label: 'PR confirmation portal account created' },
+  ],
+  p2: [
+    {
+      key: 'photos',
+      label: 'Photo uploaded',
+      description: 'Meeting the PR card photo specifications',
+    },
+    { key: 'declaration', label: 'Declaration signed on the portal' },
+  ],
+  ecopr: [
+    {
+      key: 'passport',
+      label: 'Passport for landing',
+      description: 'Valid on the day you become a PR',
+    },
+    { key: 'ecopr_copy', label: 'Copy of the eCOPR saved' },
+    { key: 'sin', label: 'Social Insurance Number updated' },
+  ],
+  pr_card: [
+    { key: 'photos', label: 'Photos', description: 'Meeting the PR card photo specifications' },
+    {
+      key: 'proof_of_address',
+      label: 'Proof of address',
+      description: 'Where the card will be mailed; update it if you move',
+    },
+    { key: 'health_card', label: 'Provincial health card applied for' },
+  ],
+};
+
+/**
+ * Documents only some programs need, added to the defaults
+ * e.g. { spousal: { submission: [...] } }
+ */
+export const PROGRAM_CHECKLISTS: Partial<
+  Record<ImmigrationProgram, Partial<Record<EntryType, ChecklistTemplateItem[]>>>
+> = {
+  cec: {
+    submission: [
+      { key: 'language_test', label: 'Language test results' },
+      {
+        key: 'reference_letters',
+        label: 'Employment reference letters',
+        description: 'For the Canadian work experience claimed',
+      },
+    ],
+  },
+  fsw: {
+    submission: [
+      { key: 'language_test', label: 'Language test results' },
+      { key: 'eca', label: 'Educational credential assessment' },
+      {
+        key: 'proof_of_funds',
+        label: 'Proof of funds',
+        description: 'Bank letters for the last 6 months',
+      },
+      { key: 'reference_letters', label: 'Employment reference letters' },
+    ],
+  },
+  pnp: {
+    submission: [
+      { key: 'nomination_certificate', label: 'Provincial nomination certificate' },
+      { key: 'language_test', label: 'Language test results' },
+    ],
+  },
+  spousal: {
+    submission: [
+      {
+        key: 'relationship_proof',
+        label: 'Proof of relationship',
+        description: 'Marriage certificate, photos together, joint lease or accounts',
+      },
+      { key: 'sponsor_documents', label: 'Sponsor status and identity documents' },
+    ],
+  },
+};
+
+/**
+ * Gets the default checklist of a milestone for an application
+ *
+ * @param entryType - Milestone of the checklist
+ * @param program - Program of the application, if known
+ * @returns Default items followed by the program's own
+ */
+export const getChecklistTemplate = (
+  entryType: EntryType,
+  program?: ImmigrationProgram | null
+): ChecklistTemplateItem[] => [
+  ...(DEFAULT_CHECKLISTS[entryType] ?? []),
+  ...((program && PROGRAM_CHECKLISTS[program]?.[entryType]) || []),
+];
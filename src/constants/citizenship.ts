@@ -0,0 +1,12 @@
+import { TemporaryStatusType } from '../types';
+
+/**
+ * Temporary statuses whose days before PR count as half days towards citizenship
+ * Keep in sync with the status_periods_status_type_check constraint
+ */
+export const TEMPORARY_STATUS_OPTIONS: { value: TemporaryStatusType; label: string }[] = [
+  { value: 'worker', label: 'Worker' },
+  { value: 'student', label: 'Student' },
+  { value: 'visitor', label: 'Visitor' },
+  { value: 'protected_person', label: 'Protected person' },
+];
@@ -0,0 +1,47 @@
+import { EntryType, ImmigrationProgram, StageDeadlineRule } from '../types';
+
+/**
+ * Usual windows IRCC gives to act on a request, counted from the request date.
+ * The letter itself is authoritative; these only drive reminders.
+ */
+export const DEFAULT_STAGE_DEADLINES: StageDeadlineRule[] = [
+  { request: 'biometrics_request', completion: 'biometrics_complete', window_days: 30 },
+  { request: 'medicals_request', completion: 'medicals_complete', window_days: 30 },
+  { request: 'additional_docs', completion: null, window_days: 30 },
+];
+
+/**
+ * Windows of each program, in days by request milestone
+ * Express Entry files (CEC, FSW) answer through the online portal; PNP and spousal files often
+ * need documents from abroad (police certificates, relationship evidence) and get longer.
+ * Programs and requests not listed use the default windows
+ */
+export const PROGRAM_STAGE_DEADLINES: Partial<
+  Record<ImmigrationProgram, Partial<Record<EntryType, number>>>
+> = {
+  cec: { biometrics_request: 30, medicals_request: 30, additional_docs: 30 },
+  fsw: { biometrics_request: 30, medicals_request: 30, additional_docs: 30 },
+  pnp: { biometrics_request: 30, medicals_request: 30, additional_docs: 60 },
+  spousal: { biometrics_request: 30, medicals_request: 30, additional_docs: 60 },
+};
+
+/**
+ * Deadlines due within this many days are highlighted
+ */
+export const DEADLINE_DUE_SOON_DAYS = 7;
+
+/**
+ * Gets the deadline rules that apply to an application
+ *
+ * @param program - Program of the application, if known
+ * @returns Default rules with the windows of the program applied
+ */
+export const getStageDeadlineRules = (program?: ImmigrationProgram | null): StageDeadlineRule[] => {
+  const overrides = program ? PROGRAM_STAGE_DEADLINES[program] : undefined;
+  if (!overrides) return DEFAULT_STAGE_DEADLINES;
+
+  return DEFAULT_STAGE_DEADLINES.map((rule) => ({
+    ...rule,
+    window_days: overrides[rule.request] ?? rule.window_days,
+  }));
+};
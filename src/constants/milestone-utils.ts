@@ -2,6 +2,9 @@ import { Ionicons } from '@expo/vector-icons';
 
 import { EntryType } from '../types';
 
+// Milestone names live with the UI-free milestone metadata
+export { getMilestoneName } from './milestones';
+
 /**
  * Maps entry types to their icon names from Ionicons
  */
@@ -133,39 +136,3 @@ export const getMilestoneGradient = (
       return ['#6b7280', '#9ca3af'] as const; // gray gradient
   }
 };
-
-/**
- * Gets the display name for a milestone
- */
-export const getMilestoneName = (milestone: EntryType): string => {
-  switch (milestone) {
-    case 'submission':
-      return 'Submission';
-    case 'aor':
-      return 'AOR';
-    case 'biometrics_request':
-      return 'Biometrics Request';
-    case 'biometrics_complete':
-      return 'Biometrics Complete';
-    case 'medicals_request':
-      return 'Medicals Request';
-    case 'medicals_complete':
-      return 'Medicals Complete';
-    case 'background_start':
-      return 'Background Check';
-    case 'background_complete':
-      return 'Background Cleared';
-    case 'additional_docs':
-      return 'Additional Docs';
-    case 'p1':
-      return 'P1';
-    case 'p2':
-      return 'P2';
-    case 'ecopr':
-      return 'ecoPR';
-    case 'pr_card':
-      return 'PR Card';
-    default:
-      return milestone;
-  }
-};
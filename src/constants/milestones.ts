@@ -0,0 +1,147 @@
+import { EntryType, TimelineEntry } from '../types';
+
+/**
+ * Milestone metadata shared by services and components
+ * Kept free of UI dependencies so it can be used anywhere
+ */
+
+/**
+ * Entry types that can be recorded more than once in the same application
+ * (e.g. a second additional documents request or re-biometrics).
+ * Keep in sync with timeline_entries_occurrence_check in the database.
+ */
+export const REPEATABLE_ENTRY_TYPES: EntryType[] = ['biometrics_request', 'additional_docs'];
+
+/**
+ * Checks whether an entry type allows several occurrences
+ */
+export const isRepeatableEntryType = (entryType: EntryType): boolean =>
+  REPEATABLE_ENTRY_TYPES.includes(entryType);
+
+/**
+ * Gets the first occurrence of a milestone from a list of entries
+ */
+export const getFirstOccurrence = (
+  entries: TimelineEntry[],
+  entryType: EntryType
+): TimelineEntry | undefined =>
+  entries
+    .filter((entry) => entry.entry_type === entryType)
+    .sort((a, b) => (a.occurrence ?? 1) - (b.occurrence ?? 1))[0];
+
+/**
+ * Typical order of milestones in a PR application, from first to last.
+ * additional_docs is left out because it can happen at any point after submission.
+ */
+export const MILESTONE_ORDER: EntryType[] = [
+  'submission',
+  'aor',
+  'biometrics_request',
+  'biometrics_complete',
+  'medicals_request',
+  'medicals_complete',
+  'background_start',
+  'background_complete',
+  'p1',
+  'p2',
+  'ecopr',
+  'pr_card',
+];
+
+/**
+ * Milestones shown on the journey progress tracker, in order
+ */
+export const JOURNEY_MILESTONES: EntryType[] = MILESTONE_ORDER.filter(
+  (entryType) => entryType !== 'medicals_request' && entryType !== 'background_start'
+);
+
+/**
+ * Gets the display name for a milestone
+ */
+export const getMilestoneName = (milestone: EntryType): string => {
+  switch (milestone) {
+    case 'submission':
+      return 'Submission';
+    case 'aor':
+      return 'AOR';
+    case 'biometrics_request':
+      return 'Biometrics Request';
+    case 'biometrics_complete':
+      return 'Biometrics Complete';
+    case 'medicals_request':
+      return 'Medicals Request';
+    case 'medicals_complete':
+      return 'Medicals Complete';
+    case 'background_start':
+      return 'Background Check';
+    case 'background_complete':
+      return 'Background Cleared';
+    case 'additional_docs':
+      return 'Additional Docs';
+    case 'p1':
+      return 'P1';
+    case 'p2':
+      return 'P2';
+    case 'ecopr':
+      return 'ecoPR';
+    case 'pr_card':
+      return 'PR Card';
+    default:
+      return milestone;
+  }
+};
+
+/**
+ * Transitions shown when no specific pair is selected, in journey order
+ * Keep in sync with the default pairs of get_community_statistics in the database
+ */
+export const DEFAULT_TRANSITION_TYPES = ['aor-p2', 'p2-ecopr', 'ecopr-pr_card'];
+
+/**
+ * Builds the transition type used by community statistics, e.g. "aor-p2"
+ * Entry types only contain underscores, so the hyphen separates them unambiguously
+ */
+export const getTransitionType = (from: EntryType, to: EntryType): string => `${from}-${to}`;
+
+/**
+ * Splits a transition type into its start and end milestones
+ *
+ * @param transitionType - Transition type such as "submission-ecopr"
+ * @returns Start and end milestones, or null if it isn't a forward pair of known milestones
+ */
+export const parseTransitionType = (transitionType: string): [EntryType, EntryType] | null => {
+  const [from, to, ...rest] = transitionType.split('-') as EntryType[];
+  const fromIndex = MILESTONE_ORDER.indexOf(from);
+  const toIndex = MILESTONE_ORDER.indexOf(to);
+
+  if (rest.length > 0 || fromIndex === -1 || toIndex === -1 || fromIndex >= toIndex) {
+    return null;
+  }
+
+  return [from, to];
+};
+
+/**
+ * Checks whether a transition type can be analyzed in community statistics
+ */
+export const isValidTransitionType = (transitionType: string): boolean =>
+  parseTransitionType(transitionType) !== null;
+
+/**
+ * Gets the display name for a transition, e.g. "AOR → P2"
+ */
+export const getTransitionName = (transitionType: string): string => {
+  const pair = parseTransitionType(transitionType);
+  if (!pair) return transitionType;
+
+  return `${getMilestoneName(pair[0])} → ${getMilestoneName(pair[1])}`;
+};
+
+/**
+ * Milestones a transition can end at, given where it starts
+ *
+ * @param from - Start milestone
+ * @returns Milestones after it in MILESTONE_ORDER
+ */
+export const getTransitionEndOptions = (from: EntryType): EntryType[] =>
+  MILESTONE_ORDER.slice(MILESTONE_ORDER.indexOf(from) + 1);
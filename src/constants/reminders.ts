@@ -0,0 +1,26 @@
+import { ReminderPreferences } from '../types';
+
+/**
+ * Reminders sent until the user changes them in the reminder settings
+ */
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+  enabled: true,
+  completion_reminders: true,
+  completion_after_days: 7,
+  wait_reminders: true,
+  wait_days: [30, 60, 90],
+  hour: 9,
+};
+
+/**
+ * Choices offered in the reminder settings
+ */
+export const COMPLETION_REMINDER_DAY_OPTIONS = [3, 7, 14];
+
+export const WAIT_REMINDER_DAY_OPTIONS = [30, 60, 90, 120, 180];
+
+export const REMINDER_HOUR_OPTIONS: { value: number; label: string }[] = [
+  { value: 9, label: 'Morning' },
+  { value: 12, label: 'Noon' },
+  { value: 18, label: 'Evening' },
+];
@@ -133,3 +133,16 @@ export const getAuthState = async (): Promise<AuthState> => {
     return { session: null, user: null };
   }
 };
+
+/**
+ * Get the id of the signed in user
+ *
+ * @returns Promise resolving to the user id, or null when signed out
+ */
+export const getSessionUserId = async (): Promise<string | null> => {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  return session?.user?.id ?? null;
+};
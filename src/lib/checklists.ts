@@ -0,0 +1,96 @@
+import {
+  DEFAULT_CHECKLISTS,
+  getChecklistTemplate,
+  PROGRAM_CHECKLISTS,
+} from '../constants/checklists';
+import {
+  ChecklistItem,
+  ChecklistItemRecord,
+  ChecklistProgress,
+  EntryType,
+  ImmigrationProgram,
+} from '../types';
+
+/**
+ * Document checklists: the defaults of a milestone merged with what the user stored,
+ * ticked and annotated defaults plus the items they added
+ */
+
+/**
+ * Builds the checklist of a milestone
+ *
+ * @param entryType - Milestone of the checklist
+ * @param program - Program of the application, if known
+ * @param records - Stored progress of the application, any milestone
+ * @returns Default items first, then the items added by the user in the order added
+ */
+export const buildChecklist = (
+  entryType: EntryType,
+  program: ImmigrationProgram | null | undefined,
+  records: ChecklistItemRecord[]
+): ChecklistItem[] => {
+  const stored = records.filter((record) => record.entry_type === entryType);
+
+  const defaults = getChecklistTemplate(entryType, program).map((template): ChecklistItem => {
+    const record = stored.find((candidate) => candidate.item_key === template.key);
+
+    return {
+      key: template.key,
+      label: template.label,
+      description: template.description,
+      checked: record?.checked ?? false,
+      note: record?.note,
+      custom: false,
+      record_id: record?.id,
+    };
+  });
+
+  const custom = stored
+    .filter((record) => !record.item_key)
+    .map(
+      (record): ChecklistItem => ({
+        key: record.id,
+        label: record.label ?? '',
+        checked: record.checked,
+        note: record.note,
+        custom: true,
+        record_id: record.id,
+      })
+    );
+
+  return [...defaults, ...custom];
+};
+
+/**
+ * Counts the ticked items of a checklist
+ */
+export const getChecklistProgress = (items: ChecklistItem[]): ChecklistProgress => ({
+  checked: items.filter((item) => item.checked).length,
+  total: items.length,
+});
+
+/**
+ * Gets the progress of every milestone with a checklist, defaults or items added by the user
+ *
+ * @param program - Program of the application, if known
+ * @param records - Stored progress of the application
+ * @returns Progress by milestone
+ */
+export const getChecklistProgressByStage = (
+  program: ImmigrationProgram | null | undefined,
+  records: ChecklistItemRecord[]
+): Partial<Record<EntryType, ChecklistProgress>> => {
+  const stages = new Set<EntryType>([
+    ...(Object.keys(DEFAULT_CHECKLISTS) as EntryType[]),
+    ...(Object.keys((program && PROGRAM_CHECKLISTS[program]) || {}) as EntryType[]),
+    ...records.map((record) => record.entry_type),
+  ]);
+
+  const progress: Partial<Record<EntryType, ChecklistProgress>> = {};
+  stages.forEach((entryType) => {
+    const items = buildChecklist(entryType, program, records);
+    if (items.length > 0) progress[entryType] = getChecklistProgress(items);
+  });
+
+  return progress;
+};
@@ -0,0 +1,140 @@
+import { addDays, addYears, format, min, parseISO, startOfDay, subDays, subYears } from 'date-fns';
+
+import { CitizenshipEligibility, StatusPeriod, StatusPeriodInput, Trip } from '../types';
+import { getAbsentDays } from './residency';
+
+/**
+ * Physical presence requirement for citizenship (Citizenship Act s. 5(1.001)): 1,095 days
+ * in Canada in the 5 years before applying. Days before PR spent in Canada with temporary
+ * status count as half days, up to 365 days of credit.
+ */
+
+export const CITIZENSHIP_REQUIRED_DAYS = 1095;
+
+export const CITIZENSHIP_PERIOD_YEARS = 5;
+
+export const TEMPORARY_RESIDENCE_CREDIT_CAP = 365;
+
+type PresenceDay = 'pr' | 'temporary' | 'absent' | null;
+
+interface PresenceCounts {
+  pr: number;
+  temporary: number;
+  absent: number;
+}
+
+const toDate = (day: string): Date => parseISO(day.slice(0, 10));
+
+const formatDay = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Collects the days before PR covered by a temporary status
+ * A period without an end date lasts until the day before the ecoPR
+ */
+const getTemporaryDays = (
+  periods: (StatusPeriod | StatusPeriodInput)[],
+  prStart: Date
+): Set<string> => {
+  const days = new Set<string>();
+  const dayBeforePr = subDays(prStart, 1);
+
+  periods.forEach((period) => {
+    const lastDay = period.end_date ? min([toDate(period.end_date), dayBeforePr]) : dayBeforePr;
+    for (let day = toDate(period.start_date); day <= lastDay; day = addDays(day, 1)) {
+      days.add(formatDay(day));
+    }
+  });
+
+  return days;
+};
+
+/**
+ * Gets the first day of the 5 years counted for an application on a date
+ */
+const getWindowStart = (date: Date): Date => addDays(subYears(date, CITIZENSHIP_PERIOD_YEARS), 1);
+
+/**
+ * Applies the half-day rule and its cap to the days with temporary status
+ */
+const getTemporaryCredit = (temporaryDays: number): number =>
+  Math.min(TEMPORARY_RESIDENCE_CREDIT_CAP, Math.floor(temporaryDays / 2));
+
+const countDays = (counts: PresenceCounts): number =>
+  counts.pr + getTemporaryCredit(counts.temporary);
+
+/**
+ * Computes the days counted towards citizenship as of today, and the earliest date
+ * the user can apply, assuming they stay in Canada outside the logged trips
+ *
+ * @param prStartDate - Date PR status started (the ecoPR), yyyy-MM-dd
+ * @param periods - Periods with temporary status before PR
+ * @param trips - Trips outside Canada from the trip log, past and planned
+ * @param today - Reference date
+ * @returns Breakdown of the days counted and the eligibility date
+ */
+export const computeCitizenshipEligibility = (
+  prStartDate: string,
+  periods: StatusPeriod[],
+  trips: Trip[],
+  today: Date = new Date()
+): CitizenshipEligibility => {
+  const asOf = startOfDay(today);
+  const prStart = toDate(prStartDate);
+  const absentDays = getAbsentDays(trips, asOf);
+  const temporaryDays = getTemporaryDays(periods, prStart);
+
+  // Absences only matter on days that would otherwise count
+  const classify = (date: Date): PresenceDay => {
+    const day = formatDay(date);
+    const type = date >= prStart ? 'pr' : temporaryDays.has(day) ? 'temporary' : null;
+
+    return type && absentDays.has(day) ? 'absent' : type;
+  };
+
+  const counts: PresenceCounts = { pr: 0, temporary: 0, absent: 0 };
+  const windowStart = getWindowStart(asOf);
+  for (let day = windowStart; day <= asOf; day = addDays(day, 1)) {
+    const type = classify(day);
+    if (type) counts[type]++;
+  }
+
+  const current = { ...counts };
+  const eligible = countDays(counts) >= CITIZENSHIP_REQUIRED_DAYS;
+
+  // Walk forward a day at a time, rolling the 5 years along
+  let eligibilityDate: string | null = eligible ? formatDay(asOf) : null;
+  if (!eligible) {
+    let start = windowStart;
+    const horizon = addYears(asOf, CITIZENSHIP_PERIOD_YEARS);
+
+    for (let day = addDays(asOf, 1); day <= horizon; day = addDays(day, 1)) {
+      const added = classify(day);
+      if (added) counts[added]++;
+
+      const nextStart = getWindowStart(day);
+      for (; start < nextStart; start = addDays(start, 1)) {
+        const removed = classify(start);
+        if (removed) counts[removed]--;
+      }
+
+      if (countDays(counts) >= CITIZENSHIP_REQUIRED_DAYS) {
+        eligibilityDate = formatDay(day);
+        break;
+      }
+    }
+  }
+
+  return {
+    pr_start: formatDay(prStart),
+    window_start: formatDay(windowStart),
+    as_of: formatDay(asOf),
+    pr_days: current.pr,
+    temporary_days: current.temporary,
+    temporary_credit: getTemporaryCredit(current.temporary),
+    days_absent: current.absent,
+    days_counted: countDays(current),
+    days_required: CITIZENSHIP_REQUIRED_DAYS,
+    eligible,
+    eligibility_date: eligibilityDate,
+  };
+};
@@ -0,0 +1,159 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+import { DEADLINE_DUE_SOON_DAYS, getStageDeadlineRules } from '../constants/deadlines';
+import {
+  EntryType,
+  ImmigrationProgram,
+  StageDeadline,
+  StageDeadlineRule,
+  StageDeadlineStatus,
+  TimelineEntry,
+} from '../types';
+
+/**
+ * Due dates derived from request milestones (biometrics, medicals, additional documents)
+ * The timeline only records that a request happened; the window comes from the rules
+ */
+
+/**
+ * Milestones after which IRCC no longer asks for anything
+ */
+const FINAL_MILESTONES: EntryType[] = ['ecopr', 'pr_card'];
+
+const ACTIVE_STATUSES: StageDeadlineStatus[] = ['overdue', 'due_soon', 'upcoming'];
+
+const toDay = (date: string): string => date.slice(0, 10);
+
+const getStatus = (
+  rule: StageDeadlineRule,
+  daysRemaining: number,
+  completedOn: string | undefined,
+  finalized: boolean
+): StageDeadlineStatus => {
+  if (completedOn || finalized) return 'done';
+  if (daysRemaining < 0) return rule.completion ? 'overdue' : 'elapsed';
+
+  return daysRemaining <= DEADLINE_DUE_SOON_DAYS ? 'due_soon' : 'upcoming';
+};
+
+/**
+ * Derives the deadline of every request in a timeline
+ * A request counts as done once its completion milestone is recorded on or after it.
+ * Each completion answers a single request, the earliest one still open, so a second
+ * biometrics request stays open after the first one was completed
+ *
+ * @param entries - Timeline entries of one application
+ * @param program - Program of the application, for its windows
+ * @param today - Reference date
+ * @returns Deadlines, earliest due first
+ */
+export const getStageDeadlines = (
+  entries: TimelineEntry[],
+  program?: ImmigrationProgram | null,
+  today: Date = new Date()
+): StageDeadline[] => {
+  const finalized = entries.some((entry) => FINAL_MILESTONES.includes(entry.entry_type));
+
+  return getStageDeadlineRules(program)
+    .flatMap((rule) => {
+      const completions = entries
+        .filter((entry) => rule.completion !== null && entry.entry_type === rule.completion)
+        .map((entry) => toDay(entry.entry_date))
+        .sort();
+      let nextCompletion = 0;
+
+      return entries
+        .filter((entry) => entry.entry_type === rule.request && entry.entry_date)
+        .sort(
+          (a, b) =>
+            toDay(a.entry_date).localeCompare(toDay(b.entry_date)) ||
+            (a.occurrence ?? 1) - (b.occurrence ?? 1)
+        )
+        .map((entry): StageDeadline => {
+          const requestedOn = toDay(entry.entry_date);
+          const dueDate = addDays(parseISO(requestedOn), rule.window_days);
+          const daysRemaining = differenceInCalendarDays(dueDate, today);
+
+          // Completions before this request can't answer it, nor any later one
+          while (nextCompletion < completions.length && completions[nextCompletion] < requestedOn) {
+            nextCompletion++;
+          }
+          const completedOn = completions[nextCompletion];
+          if (completedOn) nextCompletion++;
+
+          return {
+            request_type: rule.request,
+            completion_type: rule.completion,
+            occurrence: entry.occurrence ?? 1,
+            requested_on: requestedOn,
+            due_date: format(dueDate, 'yyyy-MM-dd'),
+            days_remaining: daysRemaining,
+            status: getStatus(rule, daysRemaining, completedOn, finalized),
+            completed_on: completedOn,
+          };
+        });
+    })
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+};
+
+/**
+ * Keeps the deadlines that still need action, earliest due first
+ */
+export const getActiveDeadlines = (deadlines: StageDeadline[]): StageDeadline[] =>
+  deadlines.filter((deadline) => ACTIVE_STATUSES.includes(deadline.status));
+
+/**
+ * Finds the deadline derived from a timeline entry
+ *
+ * @param deadlines - Deadlines of the entry's application
+ * @param entry - A request milestone
+ * @returns Its deadline, or undefined for other milestones
+ */
+export const getDeadlineForEntry = (
+  deadlines: StageDeadline[],
+  entry: TimelineEntry
+): StageDeadline | undefined =>
+  deadlines.find(
+    (deadline) =>
+      deadline.request_type === entry.entry_type && deadline.occurrence === (entry.occurrence ?? 1)
+  );
+
+/**
+ * Finds the deadline to show on a milestone of the journey tracker, which has a single row
+ * for every occurrence of the milestone
+ *
+ * @param deadlines - Deadlines of the application
+ * @param milestone - A request milestone
+ * @returns Its earliest open deadline, else its latest one, or undefined for other milestones
+ */
+export const getDeadlineForMilestone = (
+  deadlines: StageDeadline[],
+  milestone: EntryType
+): StageDeadline | undefined => {
+  const milestoneDeadlines = deadlines.filter((deadline) => deadline.request_type === milestone);
+
+  return (
+    getActiveDeadlines(milestoneDeadlines)[0] ?? milestoneDeadlines[milestoneDeadlines.length - 1]
+  );
+};
+
+/**
+ * Short label of a deadline, e.g. "Due in 5 days" or "3 days overdue"
+ */
+export const formatDeadlineStatus = (deadline: StageDeadline): string => {
+  const days = Math.abs(deadline.days_remaining);
+  const dayLabel = `${days} ${days === 1 ? 'day' : 'days'}`;
+
+  switch (deadline.status) {
+    case 'done':
+      return deadline.completed_on
+        ? `Done ${format(parseISO(deadline.completed_on), 'MMM d')}`
+        : 'Done';
+    case 'elapsed':
+      return `Window ended ${format(parseISO(deadline.due_date), 'MMM d')}`;
+    case 'overdue':
+      return `${dayLabel} overdue`;
+    default:
+      return deadline.days_remaining === 0 ? 'Due today' : `Due in ${dayLabel}`;
+  }
+};
@@ -0,0 +1,73 @@
+import { CommunityStatistic, DurationHistogramBin } from '../types';
+
+/**
+ * Summary of one box of a box plot, in days
+ * Whiskers end at the most extreme values within 1.5 × IQR of the box; values past them are outliers
+ */
+export interface BoxPlotSummary {
+  label: string;
+  q1: number;
+  median: number;
+  q3: number;
+  whiskerLow: number;
+  whiskerHigh: number;
+  outliers: number[];
+  count: number;
+}
+
+/**
+ * Groups durations into bins of equal width, including empty bins between the first and last one
+ *
+ * @param durations - Durations in days
+ * @param binWidth - Width of each bin in days
+ * @returns Bins from the shortest to the longest duration
+ */
+export const binDurations = (durations: number[], binWidth: number): DurationHistogramBin[] => {
+  if (!durations.length || binWidth <= 0) return [];
+
+  const binIndex = (days: number) => Math.floor(Math.max(0, days) / binWidth);
+  const first = Math.min(...durations.map(binIndex));
+  const last = Math.max(...durations.map(binIndex));
+
+  const bins: DurationHistogramBin[] = [];
+  for (let index = first; index <= last; index++) {
+    bins.push({ bin_start: index * binWidth, bin_end: (index + 1) * binWidth, count: 0 });
+  }
+  for (const days of durations) {
+    bins[binIndex(days) - first].count += 1;
+  }
+
+  return bins;
+};
+
+/**
+ * Builds a box plot summary from the aggregates of a month
+ * Only the quartiles, minimum and maximum are known, so the whiskers stop at the 1.5 × IQR fences
+ * when the minimum or maximum lies past them, and that extreme is shown as an outlier
+ *
+ * @param statistic - Community statistic of one month and transition
+ * @returns Box plot summary labelled with the month
+ */
+export const toBoxPlotSummary = (statistic: CommunityStatistic): BoxPlotSummary => {
+  const {
+    p25_days: q1,
+    median_days: median,
+    p75_days: q3,
+    min_days: min,
+    max_days: max,
+  } = statistic;
+  const iqr = q3 - q1;
+  const lowFence = q1 - 1.5 * iqr;
+  const highFence = q3 + 1.5 * iqr;
+
+  return {
+    label: statistic.month_year || '',
+    q1,
+    median,
+    q3,
+    whiskerLow: Math.max(min, lowFence),
+    whiskerHigh: Math.min(max, highFence),
+    outliers: [...(min < lowFence ? [min] : []), ...(max > highFence ? [max] : [])],
+    count: statistic.count,
+  };
+};
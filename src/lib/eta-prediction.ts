@@ -0,0 +1,111 @@
+import { addDays, differenceInCalendarDays, format, max, parseISO } from 'date-fns';
+
+import { getFirstOccurrence, JOURNEY_MILESTONES } from '../constants/milestones';
+import { EntryType, MilestonePrediction, TimelineEntry, TransitionForecast } from '../types';
+
+/**
+ * Fewest similar transitions a prediction is based on
+ */
+export const MIN_PREDICTION_SAMPLE = 5;
+
+/**
+ * Gets the furthest journey milestone reached, the one ProgressSummary shows as completed
+ *
+ * @param entries - Timeline entries of one application
+ * @returns The milestone and the date of its first occurrence, or null without any
+ */
+export const getLatestJourneyMilestone = (
+  entries: TimelineEntry[]
+): { entryType: EntryType; entryDate: string } | null => {
+  for (const milestone of [...JOURNEY_MILESTONES].reverse()) {
+    const entry = getFirstOccurrence(entries, milestone);
+    if (entry) {
+      return { entryType: milestone, entryDate: entry.entry_date.slice(0, 10) };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Gets the journey milestone that follows another one
+ *
+ * @param milestone - A journey milestone
+ * @returns The next milestone, or null after the last one
+ */
+export const getNextJourneyMilestone = (milestone: EntryType): EntryType | null => {
+  const index = JOURNEY_MILESTONES.indexOf(milestone);
+  return index === -1 ? null : (JOURNEY_MILESTONES[index + 1] ?? null);
+};
+
+/**
+ * Turns the durations of similar transitions into dates for the next milestone
+ * The forecast is expected to be conditional on the time already waited, dates are still
+ * kept from falling before today in case it isn't
+ *
+ * @param fromMilestone - Latest completed milestone
+ * @param fromDate - Date it was reached, yyyy-MM-dd
+ * @param milestone - Next milestone
+ * @param forecast - Percentiles of how long the transition took for similar applicants
+ * @param today - Reference date
+ * @returns Prediction with the median date and the 50% and 80% ranges
+ */
+export const predictMilestone = (
+  fromMilestone: EntryType,
+  fromDate: string,
+  milestone: EntryType,
+  forecast: TransitionForecast,
+  today: Date = new Date()
+): MilestonePrediction => {
+  const start = parseISO(fromDate);
+  const toDate = (days: number): string =>
+    format(max([addDays(start, Math.round(days)), today]), 'yyyy-MM-dd');
+
+  return {
+    milestone,
+    from_milestone: fromMilestone,
+    from_date: fromDate,
+    likely_date: toDate(forecast.median_days),
+    range_50: { start: toDate(forecast.p25_days), end: toDate(forecast.p75_days) },
+    range_80: { start: toDate(forecast.p10_days), end: toDate(forecast.p90_days) },
+    sample_size: forecast.count,
+    segmented: forecast.segmented,
+  };
+};
+
+/**
+ * Days waited since a milestone, as of today
+ *
+ * @param fromDate - Date the milestone was reached, yyyy-MM-dd
+ * @param today - Reference date
+ * @returns Days waited, never negative
+ */
+export const getDaysWaited = (fromDate: string, today: Date = new Date()): number =>
+  Math.max(0, differenceInCalendarDays(today, parseISO(fromDate)));
+
+/**
+ * Formats a predicted date for display, e.g. "Mar 20", with the year when it isn't this year
+ *
+ * @param date - Date, yyyy-MM-dd
+ * @param today - Reference date
+ * @returns Short label
+ */
+export const formatPredictionDate = (date: string, today: Date = new Date()): string => {
+  const parsed = parseISO(date);
+  return format(parsed, parsed.getFullYear() === today.getFullYear() ? 'MMM d' : 'MMM d, yyyy');
+};
+
+/**
+ * Formats a predicted range for display, e.g. "Mar 3 – Apr 12"
+ *
+ * @param range - Start and end dates, yyyy-MM-dd
+ * @param today - Reference date
+ * @returns Short label, a single date when both ends fall on the same day
+ */
+export const formatPredictionRange = (
+  range: MilestonePrediction['range_50'],
+  today: Date = new Date()
+): string =>
+  range.start === range.end
+    ? formatPredictionDate(range.start, today)
+    : `${formatPredictionDate(range.start, today)} – ${formatPredictionDate(range.end, today)}`;
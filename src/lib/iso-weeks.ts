@@ -0,0 +1,61 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachWeekOfInterval,
+  endOfMonth,
+  format,
+  getISOWeek,
+  isSameMonth,
+  max,
+  min,
+  startOfMonth,
+} from 'date-fns';
+
+/**
+ * An ISO 8601 week (Monday to Sunday) overlapping a month
+ */
+export interface MonthWeek {
+  start: Date; // Monday
+  end: Date; // Sunday
+  isoWeek: number;
+  daysInMonth: number; // Days of the week that fall inside the month, 1-7
+}
+
+/**
+ * Lists the ISO weeks overlapping a month, in order
+ * The first and last weeks usually start or end in the neighbouring months
+ *
+ * @param month - Any date within the month
+ * @returns The weeks, from the one containing the 1st to the one containing the last day
+ */
+export const getISOWeeksOfMonth = (month: Date): MonthWeek[] => {
+  const monthStart = startOfMonth(month);
+  const monthEnd = endOfMonth(month);
+
+  return eachWeekOfInterval({ start: monthStart, end: monthEnd }, { weekStartsOn: 1 }).map(
+    (start) => {
+      const end = addDays(start, 6);
+
+      return {
+        start,
+        end,
+        isoWeek: getISOWeek(start),
+        daysInMonth: differenceInCalendarDays(min([end, monthEnd]), max([start, monthStart])) + 1,
+      };
+    }
+  );
+};
+
+/**
+ * Formats an ISO week as a date range, e.g. "Mar 25–31" or "Feb 26–Mar 3"
+ *
+ * @param weekStart - Monday of the week
+ * @returns Short label for charts
+ */
+export const formatWeekRange = (weekStart: Date): string => {
+  const weekEnd = addDays(weekStart, 6);
+
+  return isSameMonth(weekStart, weekEnd)
+    ? `${format(weekStart, 'MMM d')}–${format(weekEnd, 'd')}`
+    : `${format(weekStart, 'MMM d')}–${format(weekEnd, 'MMM d')}`;
+};
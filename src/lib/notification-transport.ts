@@ -0,0 +1,123 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { Reminder } from '../types';
+
+/**
+ * Delivery of local notifications
+ * The transport is pluggable: expo-notifications in the app, an in-memory stand-in in tests
+ */
+
+export interface NotificationTransport {
+  /**
+   * Asks for permission to show notifications, if not granted yet
+   *
+   * @returns Whether notifications can be shown
+   */
+  requestPermission(): Promise<boolean>;
+
+  /**
+   * Gets the ids of every scheduled notification, including ones this app didn't schedule
+   */
+  getScheduledIds(): Promise<string[]>;
+
+  schedule(reminder: Reminder): Promise<void>;
+
+  cancel(id: string): Promise<void>;
+}
+
+const ANDROID_CHANNEL_ID = 'reminders';
+
+/**
+ * Transport over expo-notifications
+ *
+ * @returns Transport scheduling notifications on the device
+ */
+export const createExpoNotificationTransport = (): NotificationTransport => {
+  // Show reminders that arrive while the app is open
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  return {
+    async requestPermission() {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+          name: 'Reminders',
+          importance: Notifications.AndroidImportance.DEFAULT,
+        });
+      }
+
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+
+      return (await Notifications.requestPermissionsAsync()).granted;
+    },
+
+    async getScheduledIds() {
+      const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+      return scheduled.map((notification) => notification.identifier);
+    },
+
+    async schedule(reminder) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: reminder.id,
+        content: {
+          title: reminder.title,
+          body: reminder.body,
+          data: { application_id: reminder.application_id, entry_type: reminder.entry_type },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(reminder.trigger_at),
+          channelId: ANDROID_CHANNEL_ID,
+        },
+      });
+    },
+
+    async cancel(id) {
+      await Notifications.cancelScheduledNotificationAsync(id);
+    },
+  };
+};
+
+export interface InMemoryNotificationTransport extends NotificationTransport {
+  scheduled: Map<string, Reminder>;
+}
+
+/**
+ * In-memory transport, e.g. for tests: scheduled reminders are kept in a map
+ *
+ * @param granted - Whether permission is granted
+ * @returns Transport without any device
+ */
+export const createInMemoryNotificationTransport = (
+  granted = true
+): InMemoryNotificationTransport => {
+  const scheduled = new Map<string, Reminder>();
+
+  return {
+    scheduled,
+
+    async requestPermission() {
+      return granted;
+    },
+
+    async getScheduledIds() {
+      return [...scheduled.keys()];
+    },
+
+    async schedule(reminder) {
+      scheduled.set(reminder.id, reminder);
+    },
+
+    async cancel(id) {
+      scheduled.delete(id);
+    },
+  };
+};
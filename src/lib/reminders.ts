@@ -0,0 +1,131 @@
+import { addDays, parseISO, setHours } from 'date-fns';
+
+import { getMilestoneName } from '../constants/milestones';
+import { Application, Reminder, ReminderPreferences, TimelineEntry } from '../types';
+import { getActiveDeadlines, getStageDeadlines } from './deadlines';
+import { getLatestJourneyMilestone, getNextJourneyMilestone } from './eta-prediction';
+
+/**
+ * Reminders derived from the timeline: recomputed on every change, so adding the
+ * milestone a reminder asks for makes it disappear
+ */
+
+/**
+ * Prefix of the notification ids owned by the reminder scheduler
+ */
+export const REMINDER_ID_PREFIX = 'reminder:';
+
+/**
+ * Gets the time a reminder is sent, some days after a milestone
+ *
+ * @param date - Date of the milestone, yyyy-MM-dd
+ * @param days - Days after it
+ * @param hour - Local hour
+ */
+const getTriggerDate = (date: string, days: number, hour: number): Date =>
+  setHours(addDays(parseISO(date.slice(0, 10)), days), hour);
+
+/**
+ * Groups entries by application, entries without one together
+ */
+const groupByApplication = (entries: TimelineEntry[]): Map<string | undefined, TimelineEntry[]> => {
+  const groups = new Map<string | undefined, TimelineEntry[]>();
+  entries.forEach((entry) => {
+    groups.set(entry.application_id, [...(groups.get(entry.application_id) ?? []), entry]);
+  });
+
+  return groups;
+};
+
+/**
+ * Computes the reminders still to come for a timeline
+ * - completion: some days after a request, and on its due date, until the completion is recorded
+ * - wait: on the chosen days after the latest milestone, until the next one is recorded
+ *
+ * @param entries - Timeline entries, of any number of applications
+ * @param preferences - Reminders the user wants
+ * @param applications - Applications of the entries, for the deadline windows of their program
+ * @param now - Reference time; earlier reminders are left out
+ * @returns Reminders, soonest first
+ */
+export const computeReminders = (
+  entries: TimelineEntry[],
+  preferences: ReminderPreferences,
+  applications: Pick<Application, 'id' | 'program'>[] = [],
+  now: Date = new Date()
+): Reminder[] => {
+  if (!preferences.enabled) return [];
+
+  const programs = new Map(
+    applications.map((application) => [application.id, application.program])
+  );
+
+  const reminders: Reminder[] = [];
+  const addReminder = (reminder: Omit<Reminder, 'id' | 'trigger_at'>, key: string, at: Date) => {
+    if (at <= now) return;
+
+    const triggerAt = at.toISOString();
+    reminders.push({
+      ...reminder,
+      id: `${REMINDER_ID_PREFIX}${reminder.kind}:${reminder.application_id ?? 'none'}:${key}:${triggerAt}`,
+      trigger_at: triggerAt,
+    });
+  };
+
+  groupByApplication(entries).forEach((applicationEntries, applicationId) => {
+    if (preferences.completion_reminders) {
+      const program = applicationId ? programs.get(applicationId) : null;
+      const deadlines = getStageDeadlines(applicationEntries, program, now);
+      getActiveDeadlines(deadlines).forEach((deadline) => {
+        const completionType = deadline.completion_type;
+        if (!completionType) return;
+
+        const reminder = {
+          kind: 'completion' as const,
+          application_id: applicationId,
+          entry_type: completionType,
+          title: `${getMilestoneName(completionType)}?`,
+        };
+        const key = `${deadline.request_type}:${deadline.occurrence}`;
+        const requestName = getMilestoneName(deadline.request_type);
+
+        addReminder(
+          {
+            ...reminder,
+            body: `Your ${requestName} was ${preferences.completion_after_days} days ago. Record ${getMilestoneName(completionType)} once it's done.`,
+          },
+          `${key}:followup`,
+          getTriggerDate(deadline.requested_on, preferences.completion_after_days, preferences.hour)
+        );
+        addReminder(
+          {
+            ...reminder,
+            body: `The usual window for your ${requestName} ends today.`,
+          },
+          `${key}:due`,
+          getTriggerDate(deadline.due_date, 0, preferences.hour)
+        );
+      });
+    }
+
+    const latest = getLatestJourneyMilestone(applicationEntries);
+    const next = latest ? getNextJourneyMilestone(latest.entryType) : null;
+    if (preferences.wait_reminders && latest && next) {
+      preferences.wait_days.forEach((days) => {
+        addReminder(
+          {
+            kind: 'wait',
+            application_id: applicationId,
+            entry_type: next,
+            title: `Day ${days} since ${getMilestoneName(latest.entryType)}`,
+            body: `Still waiting for ${getMilestoneName(next)}? Record it as soon as it arrives.`,
+          },
+          `${latest.entryType}:${days}`,
+          getTriggerDate(latest.entryDate, days, preferences.hour)
+        );
+      });
+    }
+  });
+
+  return reminders.sort((a, b) => a.trigger_at.localeCompare(b.trigger_at));
+};
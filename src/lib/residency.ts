@@ -0,0 +1,194 @@
+import {
+  addDays,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  max,
+  parseISO,
+  startOfDay,
+  subDays,
+  subYears,
+} from 'date-fns';
+
+import { ResidencyStatus, TimelineEntry, Trip, TripInput, TripRiskAssessment } from '../types';
+
+/**
+ * Residency obligation of permanent residents (IRPA s. 28): 730 days in Canada in every
+ * 5-year period, counted from the day PR status was granted during the first 5 years
+ */
+
+export const RESIDENCY_REQUIRED_DAYS = 730;
+
+export const RESIDENCY_PERIOD_YEARS = 5;
+
+/**
+ * Trips leaving fewer days of allowed absence than this are flagged as tight
+ */
+export const RESIDENCY_TIGHT_MARGIN_DAYS = 30;
+
+const toDate = (day: string): Date => parseISO(day.slice(0, 10));
+
+const formatDay = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Gets the date PR status started, the earliest ecoPR across the user's applications
+ *
+ * @param entries - Timeline entries of every application of the user
+ * @returns The date, yyyy-MM-dd, or null before ecoPR
+ */
+export const getPrStartDate = (entries: TimelineEntry[]): string | null => {
+  const dates = entries
+    .filter((entry) => entry.entry_type === 'ecopr')
+    .map((entry) => entry.entry_date.slice(0, 10))
+    .sort();
+
+  return dates[0] ?? null;
+};
+
+/**
+ * Collects the days spent outside Canada
+ * Departure and return days count as days in Canada; a trip without a return date
+ * is counted up to today, as if the user came back tomorrow
+ *
+ * @param trips - Trips outside Canada
+ * @param today - Reference date
+ * @returns Days abroad, yyyy-MM-dd
+ */
+export const getAbsentDays = (trips: (Trip | TripInput)[], today: Date): Set<string> => {
+  const days = new Set<string>();
+
+  trips.forEach((trip) => {
+    const lastDay = trip.return_date ? subDays(toDate(trip.return_date), 1) : today;
+    for (let day = addDays(toDate(trip.departure_date), 1); day <= lastDay; day = addDays(day, 1)) {
+      days.add(formatDay(day));
+    }
+  });
+
+  return days;
+};
+
+/**
+ * Gets the first day of the period checked on a date: 5 years back, but not before PR status
+ */
+const getWindowStart = (prStart: Date, date: Date): Date =>
+  max([prStart, addDays(subYears(date, RESIDENCY_PERIOD_YEARS), 1)]);
+
+/**
+ * Counts the days in Canada from one date to another, both included
+ */
+const countPresentDays = (absentDays: Set<string>, start: Date, end: Date): number => {
+  const from = formatDay(start);
+  const to = formatDay(end);
+  const absent = [...absentDays].filter((day) => day >= from && day <= to).length;
+
+  return Math.max(0, differenceInCalendarDays(end, start) + 1 - absent);
+};
+
+/**
+ * Computes the days in Canada counted towards the residency obligation as of today,
+ * and when the required days will be reached if they aren't yet
+ *
+ * @param prStartDate - Date PR status started (the ecoPR), yyyy-MM-dd
+ * @param trips - Trips outside Canada, past and planned
+ * @param today - Reference date
+ * @returns Status of the obligation
+ */
+export const computeResidencyStatus = (
+  prStartDate: string,
+  trips: Trip[],
+  today: Date = new Date()
+): ResidencyStatus => {
+  const asOf = startOfDay(today);
+  const prStart = toDate(prStartDate);
+  const absentDays = getAbsentDays(trips, asOf);
+
+  const windowStart = getWindowStart(prStart, asOf);
+  const daysPresent = countPresentDays(absentDays, windowStart, asOf);
+  const obligationMet = daysPresent >= RESIDENCY_REQUIRED_DAYS;
+
+  // Walk forward a day at a time, assuming the user is in Canada outside the logged trips
+  let projectedMetDate: string | null = null;
+  if (!obligationMet) {
+    let present = daysPresent;
+    let start = windowStart;
+    const horizon = addYears(asOf, RESIDENCY_PERIOD_YEARS);
+
+    for (let day = addDays(asOf, 1); day <= horizon; day = addDays(day, 1)) {
+      if (day >= prStart && !absentDays.has(formatDay(day))) present++;
+
+      const nextStart = getWindowStart(prStart, day);
+      for (; start < nextStart; start = addDays(start, 1)) {
+        if (!absentDays.has(formatDay(start))) present--;
+      }
+
+      if (present >= RESIDENCY_REQUIRED_DAYS) {
+        projectedMetDate = formatDay(day);
+        break;
+      }
+    }
+  }
+
+  return {
+    pr_start: formatDay(prStart),
+    window_start: formatDay(windowStart),
+    as_of: formatDay(asOf),
+    days_present: daysPresent,
+    days_absent: Math.max(0, differenceInCalendarDays(asOf, windowStart) + 1 - daysPresent),
+    days_required: RESIDENCY_REQUIRED_DAYS,
+    obligation_met: obligationMet,
+    projected_met_date: projectedMetDate,
+  };
+};
+
+/**
+ * Checks whether the obligation still holds when coming back from a trip, the moment
+ * absences within the period peak. Other trips are included, so a planned trip is
+ * judged together with the ones before it.
+ *
+ * @param prStartDate - Date PR status started, yyyy-MM-dd
+ * @param trips - Trips already logged; a logged trip with the same id is replaced
+ * @param trip - Trip to check, logged or still a draft
+ * @param today - Reference date, used for trips without a return date
+ * @returns Days of absence left when coming back, and the resulting risk
+ */
+export const assessTrip = (
+  prStartDate: string,
+  trips: Trip[],
+  trip: TripInput & { id?: string },
+  today: Date = new Date()
+): TripRiskAssessment => {
+  const asOf = startOfDay(today);
+  const prStart = toDate(prStartDate);
+  const absentDays = getAbsentDays(
+    [...trips.filter((logged) => logged.id !== trip.id), trip],
+    asOf
+  );
+
+  const end = trip.return_date ? toDate(trip.return_date) : asOf;
+  const start = getWindowStart(prStart, end);
+  // Absences allowed in a full period starting there; during the first 5 years the
+  // days still ahead of the user count as days they can be present
+  const allowedAbsence =
+    differenceInCalendarDays(addYears(start, RESIDENCY_PERIOD_YEARS), start) -
+    RESIDENCY_REQUIRED_DAYS;
+  const absent =
+    differenceInCalendarDays(end, start) + 1 - countPresentDays(absentDays, start, end);
+  const marginDays = allowedAbsence - absent;
+
+  return {
+    margin_days: marginDays,
+    risk: marginDays < 0 ? 'breach' : marginDays < RESIDENCY_TIGHT_MARGIN_DAYS ? 'tight' : 'ok',
+  };
+};
+
+/**
+ * Whether a trip hasn't started yet
+ */
+export const isPlannedTrip = (trip: TripInput, today: Date = new Date()): boolean =>
+  trip.departure_date > formatDay(today);
+
+/**
+ * Days spent outside Canada on a trip, not counting the departure and return days
+ */
+export const getTripAbsentDays = (trip: TripInput, today: Date = new Date()): number =>
+  getAbsentDays([trip], startOfDay(today)).size;
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { logger } from './logger';
+
+/**
+ * Local persistence for community statistics
+ * Keeps the last response of each query per user, so the statistics screen
+ * can show it right away instead of waiting for the server
+ */
+
+const STATISTICS_KEY_PREFIX = '@timeline-ecopr/statistics/';
+
+/**
+ * A stored response and when it was fetched
+ */
+export interface StatisticsCacheEntry<T> {
+  data: T;
+  fetched_at: string; // ISO timestamp
+}
+
+const getKey = (userId: string, queryKey: string) =>
+  `${STATISTICS_KEY_PREFIX}${userId}/${queryKey}`;
+
+export const statisticsCache = {
+  /**
+   * Gets the stored response of a query
+   *
+   * @param userId - Authenticated user id
+   * @param queryKey - Key of the query, e.g. its transition and filters
+   * @returns Promise resolving to the entry, or null when missing or unreadable
+   */
+  async get<T>(userId: string, queryKey: string): Promise<StatisticsCacheEntry<T> | null> {
+    try {
+      const raw = await AsyncStorage.getItem(getKey(userId, queryKey));
+      return raw ? (JSON.parse(raw) as StatisticsCacheEntry<T>) : null;
+    } catch (error) {
+      logger.warn('Error reading statistics cache', { queryKey, error });
+      return null;
+    }
+  },
+
+  /**
+   * Stores the response of a query, fetched now
+   *
+   * @param userId - Authenticated user id
+   * @param queryKey - Key of the query
+   * @param data - Response to store
+   */
+  async set<T>(userId: string, queryKey: string, data: T): Promise<void> {
+    const entry: StatisticsCacheEntry<T> = { data, fetched_at: new Date().toISOString() };
+
+    try {
+      await AsyncStorage.setItem(getKey(userId, queryKey), JSON.stringify(entry));
+    } catch (error) {
+      // The cache only saves a round trip, the response is still returned
+      logger.warn('Error writing statistics cache', { queryKey, error });
+    }
+  },
+};
@@ -0,0 +1,89 @@
+import { SurvivalLifeTableRow, SurvivalPoint } from '../types';
+
+/**
+ * One applicant of a cohort: how long they waited, and whether the wait is over
+ */
+export interface SurvivalObservation {
+  days: number;
+  reached: boolean;
+}
+
+/**
+ * Groups individual waits into a life table, one row per day something happened
+ *
+ * @param observations - Waits of the cohort; open waits count up to today
+ * @returns Life table sorted by day
+ */
+export const buildLifeTable = (observations: SurvivalObservation[]): SurvivalLifeTableRow[] => {
+  const rows = new Map<number, SurvivalLifeTableRow>();
+
+  for (const { days, reached } of observations) {
+    const row = rows.get(days) ?? { days, events: 0, censored: 0 };
+    if (reached) {
+      row.events += 1;
+    } else {
+      row.censored += 1;
+    }
+    rows.set(days, row);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.days - b.days);
+};
+
+/**
+ * Kaplan–Meier estimate of the share of a cohort that reached the end of a transition by each day
+ * Applicants still waiting leave the at-risk group on the day they were last seen instead of
+ * counting as "never reached", so recent cohorts aren't made to look slow
+ *
+ * @param lifeTable - Events and censored waits per day
+ * @returns Curve starting at day 0, with a step per day someone reached the end,
+ * extended to the longest observed wait
+ */
+export const computeSurvivalCurve = (lifeTable: SurvivalLifeTableRow[]): SurvivalPoint[] => {
+  const rows = [...lifeTable].sort((a, b) => a.days - b.days);
+  let atRisk = rows.reduce((sum, row) => sum + row.events + row.censored, 0);
+  if (atRisk === 0) return [];
+
+  const points: SurvivalPoint[] = [{ days: 0, reached: 0, at_risk: atRisk }];
+  let stillWaiting = 1;
+
+  for (const row of rows) {
+    if (row.events > 0) {
+      stillWaiting *= 1 - row.events / atRisk;
+      points.push({ days: row.days, reached: 1 - stillWaiting, at_risk: atRisk });
+    }
+    atRisk -= row.events + row.censored;
+  }
+
+  // Carry the last step to the end of the follow-up
+  const lastRow = rows[rows.length - 1];
+  const lastPoint = points[points.length - 1];
+  if (lastRow.days > lastPoint.days) {
+    points.push({
+      days: lastRow.days,
+      reached: lastPoint.reached,
+      at_risk: lastRow.events + lastRow.censored,
+    });
+  }
+
+  return points;
+};
+
+/**
+ * Reads the share of the cohort that had reached the end by a given day
+ *
+ * @param points - Curve from computeSurvivalCurve
+ * @param days - Days since the start of the transition
+ * @returns Share between 0 and 1, or null when the cohort wasn't followed that long
+ */
+export const getReachedByDay = (points: SurvivalPoint[], days: number): number | null => {
+  if (!points.length || days > points[points.length - 1].days) return null;
+
+  let reached = 0;
+  for (const point of points) {
+    if (point.days > days) break;
+    reached = point.reached;
+  }
+
+  return reached;
+};
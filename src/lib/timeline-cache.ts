@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { TimelineEntry, TimelineMutation } from '../types';
+import { logger } from './logger';
+
+/**
+ * Local persistence for the offline-first timeline
+ * Keeps a per-user copy of the timeline entries and the queue of
+ * mutations that still have to be replayed against Supabase
+ */
+
+const ENTRIES_KEY_PREFIX = '@timeline-ecopr/entries/';
+const QUEUE_KEY_PREFIX = '@timeline-ecopr/mutation-queue/';
+
+type TimelineCacheListener = (userId: string, entries: TimelineEntry[]) => void;
+
+const listeners = new Set<TimelineCacheListener>();
+
+/**
+ * Reads and parses a JSON value from AsyncStorage
+ *
+ * @param key - Storage key
+ * @param fallback - Value returned when the key is missing or unreadable
+ * @returns Parsed value or the fallback
+ */
+const readJson = async <T>(key: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    logger.warn('Error reading timeline cache', { key, error });
+    return fallback;
+  }
+};
+
+export const timelineCache = {
+  /**
+   * Gets the locally stored timeline entries for a user
+   *
+   * @param userId - Authenticated user id
+   * @returns Promise resolving to the cached entries (empty if none)
+   */
+  async getEntries(userId: string): Promise<TimelineEntry[]> {
+    return readJson<TimelineEntry[]>(`${ENTRIES_KEY_PREFIX}${userId}`, []);
+  },
+
+  /**
+   * Replaces the locally stored timeline entries and notifies subscribers
+   *
+   * @param userId - Authenticated user id
+   * @param entries - Full list of entries to persist
+   */
+  async setEntries(userId: string, entries: TimelineEntry[]): Promise<void> {
+    await AsyncStorage.setItem(`${ENTRIES_KEY_PREFIX}${userId}`, JSON.stringify(entries));
+    listeners.forEach((listener) => listener(userId, entries));
+  },
+
+  /**
+   * Gets the mutation queue for a user, oldest mutation first
+   *
+   * @param userId - Authenticated user id
+   * @returns Promise resolving to the queued mutations
+   */
+  async getQueue(userId: string): Promise<TimelineMutation[]> {
+    return readJson<TimelineMutation[]>(`${QUEUE_KEY_PREFIX}${userId}`, []);
+  },
+
+  /**
+   * Persists the mutation queue for a user
+   *
+   * @param userId - Authenticated user id
+   * @param queue - Mutations in replay order
+   */
+  async setQueue(userId: string, queue: TimelineMutation[]): Promise<void> {
+    await AsyncStorage.setItem(`${QUEUE_KEY_PREFIX}${userId}`, JSON.stringify(queue));
+  },
+
+  /**
+   * Subscribes to changes of the cached entries
+   *
+   * @param listener - Called with the user id and the new entries after every write
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: TimelineCacheListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
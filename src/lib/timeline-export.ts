@@ -0,0 +1,223 @@
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+import { getMilestoneName, isRepeatableEntryType, MILESTONE_ORDER } from '../constants/milestones';
+import { Application, TimelineEntry, TimelineExportDocument, TimelineExportRow } from '../types';
+
+/**
+ * Version of the JSON export document. Bump when its shape changes.
+ */
+export const TIMELINE_EXPORT_VERSION = 1;
+
+/**
+ * Reduces an entry date (plain date or timestamp) to YYYY-MM-DD
+ */
+const toDay = (entryDate: string): string => entryDate.slice(0, 10);
+
+/**
+ * Orders entries chronologically and computes the days between consecutive milestones
+ *
+ * @param entries - Timeline entries in any order
+ * @returns Export rows, oldest first
+ */
+export const buildExportRows = (entries: TimelineEntry[]): TimelineExportRow[] => {
+  const sorted = [...entries].sort(
+    (a, b) =>
+      toDay(a.entry_date).localeCompare(toDay(b.entry_date)) ||
+      MILESTONE_ORDER.indexOf(a.entry_type) - MILESTONE_ORDER.indexOf(b.entry_type) ||
+      (a.occurrence ?? 1) - (b.occurrence ?? 1)
+  );
+
+  return sorted.map((entry, index) => {
+    const occurrence = entry.occurrence ?? 1;
+    const hasRepeats =
+      isRepeatableEntryType(entry.entry_type) &&
+      sorted.filter((other) => other.entry_type === entry.entry_type).length > 1;
+    const previous = sorted[index - 1];
+
+    return {
+      id: entry.id,
+      entry_type: entry.entry_type,
+      label: hasRepeats
+        ? `${getMilestoneName(entry.entry_type)} #${occurrence}`
+        : getMilestoneName(entry.entry_type),
+      entry_date: toDay(entry.entry_date),
+      occurrence,
+      days_since_previous: previous
+        ? differenceInCalendarDays(
+            parseISO(toDay(entry.entry_date)),
+            parseISO(toDay(previous.entry_date))
+          )
+        : null,
+      notes: entry.notes ?? '',
+    };
+  });
+};
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break (RFC 4180)
+ */
+const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serializes a timeline to CSV, one milestone per line
+ *
+ * @param entries - Timeline entries to export
+ * @returns CSV text with a header row
+ */
+export const toCsv = (entries: TimelineEntry[]): string => {
+  const header = ['Milestone', 'Type', 'Date', 'Days Since Previous', 'Notes'];
+  const lines = buildExportRows(entries).map((row) =>
+    [
+      row.label,
+      row.entry_type,
+      row.entry_date,
+      row.days_since_previous === null ? '' : String(row.days_since_previous),
+      row.notes,
+    ]
+      .map(escapeCsvField)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+/**
+ * Builds the versioned JSON export document
+ *
+ * @param entries - Timeline entries to export
+ * @param application - Application the entries belong to, if known
+ * @param exportedAt - Export timestamp
+ * @returns Export document, ready for JSON.stringify
+ */
+export const toExportDocument = (
+  entries: TimelineEntry[],
+  application?: Pick<Application, 'id' | 'name'> | null,
+  exportedAt: Date = new Date()
+): TimelineExportDocument => ({
+  format: 'timeline-ecopr',
+  version: TIMELINE_EXPORT_VERSION,
+  exported_at: exportedAt.toISOString(),
+  application: application ? { id: application.id, name: application.name } : null,
+  entries: buildExportRows(entries).map((row) => ({
+    entry_type: row.entry_type,
+    label: row.label,
+    entry_date: row.entry_date,
+    occurrence: row.occurrence,
+    days_since_previous: row.days_since_previous,
+    notes: row.notes,
+  })),
+});
+
+/**
+ * Serializes a timeline to the versioned JSON export format
+ *
+ * @param entries - Timeline entries to export
+ * @param application - Application the entries belong to, if known
+ * @returns Pretty-printed JSON text
+ */
+export const toJson = (
+  entries: TimelineEntry[],
+  application?: Pick<Application, 'id' | 'name'> | null
+): string => JSON.stringify(toExportDocument(entries, application), null, 2);
+
+/**
+ * Escapes a TEXT value for iCalendar (RFC 5545 section 3.3.11)
+ */
+const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Number of bytes a code point takes in UTF-8
+ */
+const utf8Length = (char: string): number => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/**
+ * Folds a content line longer than 75 octets (RFC 5545 section 3.1),
+ * without splitting the UTF-8 sequence of a character
+ */
+const foldIcsLine = (line: string): string => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const length = utf8Length(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + length > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += length;
+  }
+  parts.push(part);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Serializes a timeline to an iCalendar file with one all-day event per milestone
+ *
+ * @param entries - Timeline entries to export
+ * @param application - Application the entries belong to, if known
+ * @param exportedAt - Timestamp used for DTSTAMP
+ * @returns iCalendar text
+ */
+export const toIcs = (
+  entries: TimelineEntry[],
+  application?: Pick<Application, 'id' | 'name'> | null,
+  exportedAt: Date = new Date()
+): string => {
+  const stamp = exportedAt
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+  const calendarName = application ? `PR Timeline - ${application.name}` : 'PR Timeline';
+
+  const events = buildExportRows(entries).flatMap((row) => {
+    const start = parseISO(row.entry_date);
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    const description = [
+      row.days_since_previous === null
+        ? null
+        : `${row.days_since_previous} days since the previous milestone`,
+      row.notes || null,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${row.id ?? `${row.entry_type}-${row.occurrence}-${row.entry_date}`}@timeline-ecopr`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${format(start, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(end, 'yyyyMMdd')}`,
+      `SUMMARY:${escapeIcsText(row.label)}`,
+      ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ];
+  });
+
+  return (
+    [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Timeline ecoPR//Timeline Export//EN',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+      ...events,
+      'END:VCALENDAR',
+    ]
+      .map(foldIcsLine)
+      .join('\r\n') + '\r\n'
+  );
+};
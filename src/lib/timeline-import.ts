@@ -0,0 +1,483 @@
+import { format, isValid, parse } from 'date-fns';
+
+import { getMilestoneName, isRepeatableEntryType, MILESTONE_ORDER } from '../constants/milestones';
+import {
+  EntryType,
+  ImportCandidate,
+  ImportPreviewItem,
+  TimelineEntry,
+  TimelineImportResult,
+} from '../types';
+import { validateTimelineEntry } from './timeline-validation';
+
+const ALL_ENTRY_TYPES: EntryType[] = [...MILESTONE_ORDER, 'additional_docs'];
+
+/**
+ * Label variants used in community spreadsheets, after normalization (see normalizeLabel)
+ * The entry type itself and its display name are always accepted as well.
+ */
+const LABEL_ALIASES: Record<EntryType, string[]> = {
+  submission: [
+    'submitted',
+    'sub',
+    'submit',
+    'app submitted',
+    'application submitted',
+    'application date',
+    'date submitted',
+    'date of submission',
+  ],
+  aor: ['aor email', 'acknowledgement of receipt', 'acknowledgment of receipt', 'aor received'],
+  biometrics_request: [
+    'bio req',
+    'bio request',
+    'bio requested',
+    'bio letter',
+    'bil',
+    'biometric request',
+    'biometrics requested',
+    'biometric instruction letter',
+  ],
+  biometrics_complete: [
+    'bio',
+    'bio done',
+    'bio given',
+    'bio complete',
+    'bio completed',
+    'biometrics',
+    'biometrics done',
+    'biometrics given',
+    'biometrics completed',
+    'biometric complete',
+  ],
+  medicals_request: [
+    'med req',
+    'med request',
+    'medical request',
+    'medical requested',
+    'medicals requested',
+    'mr',
+  ],
+  medicals_complete: [
+    'med',
+    'med done',
+    'medical',
+    'medicals',
+    'medical done',
+    'medicals done',
+    'medical passed',
+    'medicals passed',
+    'medical complete',
+    'mp',
+  ],
+  background_start: [
+    'bg',
+    'bgc',
+    'bg start',
+    'bgc start',
+    'bg in progress',
+    'bgc in progress',
+    'background start',
+    'background started',
+    'background in progress',
+  ],
+  background_complete: [
+    'bg done',
+    'bgc done',
+    'bg complete',
+    'bgc complete',
+    'bgc cleared',
+    'background done',
+    'background complete',
+    'background completed',
+  ],
+  additional_docs: [
+    'adr',
+    'adr request',
+    'doc request',
+    'docs request',
+    'document request',
+    'additional documents',
+    'additional docs request',
+  ],
+  p1: ['p1 email', 'p1 received', 'portal 1', 'portal one', 'first portal email'],
+  p2: ['p2 email', 'p2 received', 'portal 2', 'portal two', 'second portal email'],
+  ecopr: ['e copr', 'ecopr email', 'ecopr received', 'copr', 'copr received', 'confirmation of pr'],
+  pr_card: ['prc', 'pr card received', 'card received', 'prc received'],
+};
+
+/**
+ * Lowercases a label and drops punctuation, occurrence suffixes ("#2") and a trailing "date"
+ */
+const normalizeLabel = (label: string): string =>
+  label
+    .toLowerCase()
+    .replace(/#\s*\d+\s*$/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/\s+date$/, '')
+    .trim();
+
+// Header names of the columns in a one-milestone-per-row file, normalized like the header row
+const LABEL_HEADERS = ['type', 'entry type', 'milestone', 'event', 'step', 'stage', 'status'].map(
+  normalizeLabel
+);
+const DATE_HEADERS = ['date', 'entry date', 'date received', 'received', 'when'].map(
+  normalizeLabel
+);
+const NOTES_HEADERS = ['notes', 'note', 'comment', 'comments', 'remarks', 'details'].map(
+  normalizeLabel
+);
+
+const LABEL_LOOKUP = new Map<string, EntryType>();
+ALL_ENTRY_TYPES.forEach((entryType) => {
+  [entryType, getMilestoneName(entryType), ...LABEL_ALIASES[entryType]].forEach((label) => {
+    LABEL_LOOKUP.set(normalizeLabel(label), entryType);
+  });
+});
+
+/**
+ * Maps a milestone label from a spreadsheet (e.g. "Bio req", "P1 email", "eCOPR") to an entry type
+ *
+ * @param label - Label or column header
+ * @returns Matching entry type, or null if the label isn't recognized
+ */
+export const matchEntryType = (label: string): EntryType | null =>
+  LABEL_LOOKUP.get(normalizeLabel(label)) ?? null;
+
+// Date formats tried in order; numeric day/month formats are handled separately
+const TEXT_DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'yyyy/MM/dd',
+  'yyyy.MM.dd',
+  'MMM d yyyy',
+  'MMM d, yyyy',
+  'MMMM d yyyy',
+  'MMMM d, yyyy',
+  'd MMM yyyy',
+  'd MMMM yyyy',
+  'd-MMM-yyyy',
+  'd-MMM-yy',
+  'MMM-d-yyyy',
+  'MMM d yy',
+];
+
+const NUMERIC_DATE_PATTERN = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/;
+
+/**
+ * Parses a date written in one of the usual spreadsheet formats
+ *
+ * @param value - Date text such as "2024-03-01", "Mar 1, 2024" or "01/03/2024"
+ * @param dayFirst - Whether numeric dates are day/month (true) or month/day (false)
+ * @returns Date as YYYY-MM-DD, or null if it can't be parsed
+ */
+export const parseImportDate = (value: string, dayFirst: boolean): string | null => {
+  const text = value.trim().replace(/(\d)(st|nd|rd|th)\b/i, '$1');
+  if (!text) return null;
+
+  // Timestamps such as 2024-03-01T00:00:00Z
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    return text.slice(0, 10);
+  }
+
+  const numeric = text.match(NUMERIC_DATE_PATTERN);
+  if (numeric) {
+    const [first, second, yearText] = numeric.slice(1);
+    const day = Number(dayFirst ? first : second);
+    const month = Number(dayFirst ? second : first);
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    const date = new Date(year, month - 1, day);
+
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+      ? format(date, 'yyyy-MM-dd')
+      : null;
+  }
+
+  for (const dateFormat of TEXT_DATE_FORMATS) {
+    const date = parse(text, dateFormat, new Date());
+    // "yyyy" also accepts two digits ("1-Mar-24" as year 24); leave those to the "yy" formats
+    if (isValid(date) && date.getFullYear() >= 1000) {
+      return format(date, 'yyyy-MM-dd');
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Works out whether numeric dates are day/month or month/day from the values themselves
+ *
+ * @returns dayFirst when a value settles it, or null when every value is ambiguous
+ */
+const detectDayFirst = (values: string[]): boolean | null => {
+  for (const value of values) {
+    const numeric = value.trim().match(NUMERIC_DATE_PATTERN);
+    if (!numeric) continue;
+
+    if (Number(numeric[1]) > 12) return true;
+    if (Number(numeric[2]) > 12) return false;
+  }
+
+  return null;
+};
+
+/**
+ * Splits CSV/TSV text into rows of cells, honouring double-quoted fields
+ */
+const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.includes('\t')
+    ? '\t'
+    : (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ';'
+      : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+};
+
+/**
+ * Parses pasted CSV/TSV text into timeline entries
+ *
+ * Two layouts are recognized:
+ * - rows: one milestone per row, with a label column and a date column
+ *   (also without a header, e.g. "AOR<tab>2024-03-01")
+ * - columns: community spreadsheet layout, one applicant per row and one column per milestone
+ *
+ * @param text - Pasted or loaded file contents
+ * @param dayFirst - Force day/month (true) or month/day (false) for numeric dates; detected when omitted
+ * @returns Parsed candidates plus the lines that were skipped and why
+ */
+export const parseTimelineImport = (text: string, dayFirst?: boolean): TimelineImportResult => {
+  const rows = parseDelimited(text);
+  const candidates: ImportCandidate[] = [];
+  const skipped: TimelineImportResult['skipped'] = [];
+
+  if (rows.length === 0) {
+    return {
+      layout: 'rows',
+      candidates,
+      skipped,
+      dayFirst: dayFirst ?? true,
+      ambiguousDates: false,
+    };
+  }
+
+  const header = rows[0].map(normalizeLabel);
+  const labelColumns = LABEL_HEADERS.map((name) => header.indexOf(name)).filter((i) => i >= 0);
+  const dateColumn = header.findIndex((name) => DATE_HEADERS.includes(name));
+  const notesColumn = header.findIndex((name) => NOTES_HEADERS.includes(name));
+  const milestoneColumns = header
+    .map((name, index) => ({ index, entryType: LABEL_LOOKUP.get(name) }))
+    .filter((column): column is { index: number; entryType: EntryType } => !!column.entryType);
+
+  let layout: TimelineImportResult['layout'];
+  let dataRows: { line: number; cells: string[] }[];
+  let dateValues: string[];
+
+  if (labelColumns.length > 0 && dateColumn >= 0) {
+    layout = 'rows';
+    dataRows = rows.slice(1).map((cells, index) => ({ line: index + 2, cells }));
+    dateValues = dataRows.map(({ cells }) => cells[dateColumn] ?? '');
+  } else if (milestoneColumns.length >= 2) {
+    layout = 'columns';
+    dataRows = rows.slice(1).map((cells, index) => ({ line: index + 2, cells }));
+    dateValues = dataRows.flatMap(({ cells }) =>
+      milestoneColumns.map(({ index }) => cells[index] ?? '')
+    );
+  } else {
+    // No header: label in the first column, date in the second
+    layout = 'rows';
+    dataRows = rows.map((cells, index) => ({ line: index + 1, cells }));
+    dateValues = dataRows.map(({ cells }) => cells[1] ?? '');
+  }
+
+  const detectedDayFirst = detectDayFirst(dateValues);
+  const resolvedDayFirst = dayFirst ?? detectedDayFirst ?? true;
+  const ambiguousDates =
+    detectedDayFirst === null &&
+    dateValues.some((value) => NUMERIC_DATE_PATTERN.test(value.trim()));
+
+  if (layout === 'columns') {
+    if (dataRows.length > 1) {
+      skipped.push(
+        ...dataRows.slice(1).map(({ line }) => ({
+          line,
+          reason: 'Only the first applicant row is imported',
+        }))
+      );
+    }
+
+    const first = dataRows[0];
+    milestoneColumns.forEach(({ index, entryType }) => {
+      const value = first?.cells[index] ?? '';
+      if (!value) return;
+
+      const entryDate = parseImportDate(value, resolvedDayFirst);
+      if (!entryDate) {
+        skipped.push({
+          line: first.line,
+          reason: `Unrecognized date "${value}" for ${rows[0][index]}`,
+        });
+        return;
+      }
+
+      candidates.push({
+        line: first.line,
+        source_label: rows[0][index],
+        entry_type: entryType,
+        entry_date: entryDate,
+        notes: '',
+      });
+    });
+  } else {
+    const hasHeader = labelColumns.length > 0 && dateColumn >= 0;
+
+    dataRows.forEach(({ line, cells }) => {
+      const labels = hasHeader ? labelColumns.map((index) => cells[index] ?? '') : [cells[0]];
+      const sourceLabel = labels.find((label) => matchEntryType(label)) ?? labels[0] ?? '';
+      const entryType = matchEntryType(sourceLabel);
+      const dateValue = (hasHeader ? cells[dateColumn] : cells[1]) ?? '';
+      const entryDate = parseImportDate(dateValue, resolvedDayFirst);
+
+      if (!entryType) {
+        skipped.push({ line, reason: `Unrecognized milestone "${sourceLabel}"` });
+      } else if (!entryDate) {
+        skipped.push({ line, reason: `Unrecognized date "${dateValue}"` });
+      } else {
+        candidates.push({
+          line,
+          source_label: sourceLabel,
+          entry_type: entryType,
+          entry_date: entryDate,
+          notes: (hasHeader ? (notesColumn >= 0 ? cells[notesColumn] : '') : cells[2]) ?? '',
+        });
+      }
+    });
+  }
+
+  return { layout, candidates, skipped, dayFirst: resolvedDayFirst, ambiguousDates };
+};
+
+/**
+ * Compares parsed candidates with the application's existing entries
+ *
+ * - new: nothing recorded yet for this milestone (or a new occurrence of a repeatable one)
+ * - duplicate: the same milestone is already recorded on the same date, nothing to do
+ * - repeated: a milestone that only happens once is listed again further down the file,
+ *   the later row is used
+ * - conflict: the milestone is already recorded on another date; replaced only if chosen
+ *
+ * Items that would break the milestone order get blocking `issues`.
+ *
+ * @param candidates - Parsed candidates
+ * @param existingEntries - Entries of the application being imported into
+ * @param replaceConflicts - Lines of conflicting candidates that should replace the existing entry
+ * @returns One preview item per candidate, oldest first
+ */
+export const buildImportPreview = (
+  candidates: ImportCandidate[],
+  existingEntries: TimelineEntry[],
+  replaceConflicts: number[] = []
+): ImportPreviewItem[] => {
+  const sorted = [...candidates].sort(
+    (a, b) =>
+      a.entry_date.localeCompare(b.entry_date) ||
+      MILESTONE_ORDER.indexOf(a.entry_type) - MILESTONE_ORDER.indexOf(b.entry_type)
+  );
+
+  const items: ImportPreviewItem[] = sorted.map((candidate) => {
+    const sameType = existingEntries.filter((entry) => entry.entry_type === candidate.entry_type);
+    const sameDay = sameType.find(
+      (entry) => entry.entry_date.slice(0, 10) === candidate.entry_date
+    );
+    // Rows of repeatable milestones are separate occurrences rather than repeats
+    const laterInFile =
+      !isRepeatableEntryType(candidate.entry_type) &&
+      sorted.some(
+        (other) => other.entry_type === candidate.entry_type && other.line > candidate.line
+      );
+
+    if (laterInFile) {
+      return { ...candidate, status: 'repeated', issues: [] };
+    }
+
+    if (sameDay) {
+      return { ...candidate, status: 'duplicate', existing: sameDay, issues: [] };
+    }
+
+    if (!isRepeatableEntryType(candidate.entry_type) && sameType.length > 0) {
+      return {
+        ...candidate,
+        status: 'conflict',
+        existing: sameType[0],
+        replace: replaceConflicts.includes(candidate.line),
+        issues: [],
+      };
+    }
+
+    return { ...candidate, status: 'new', issues: [] };
+  });
+
+  // Check the order against the timeline as it will look after the import
+  const imported = items.filter(
+    (item) => item.status === 'new' || (item.status === 'conflict' && item.replace)
+  );
+  const merged: TimelineEntry[] = [
+    ...existingEntries.filter(
+      (entry) => !imported.some((item) => item.status === 'conflict' && item.existing === entry)
+    ),
+    ...imported.map((item) => ({
+      id: `import-${item.line}`,
+      entry_type: item.entry_type,
+      entry_date: item.entry_date,
+    })),
+  ];
+
+  return items.map((item) =>
+    imported.includes(item)
+      ? {
+          ...item,
+          issues: validateTimelineEntry(
+            { id: `import-${item.line}`, entry_type: item.entry_type, entry_date: item.entry_date },
+            merged
+          ).filter((issue) => issue.severity === 'error'),
+        }
+      : item
+  );
+};
@@ -0,0 +1,177 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+import { TimelineEntry, TimelineMutation, TimelineRealtimeChange } from '../types';
+import { logger } from './logger';
+import { supabase } from './supabase';
+
+/**
+ * Live updates of the timeline entries of a user
+ * The transport is pluggable: Supabase realtime in the app, an in-memory stand-in in tests
+ */
+
+export interface TimelineRealtimeHandlers {
+  onChange: (change: TimelineRealtimeChange) => void;
+  onConnected?: () => void; // Also called after reconnecting, when changes may have been missed
+}
+
+export interface TimelineRealtimeTransport {
+  /**
+   * Starts listening to the timeline entries of a user
+   *
+   * @returns Function that stops listening
+   */
+  subscribe(userId: string, handlers: TimelineRealtimeHandlers): () => void;
+}
+
+/**
+ * Converts a Postgres change pushed by Supabase into a timeline change
+ */
+const toRealtimeChange = (
+  payload: RealtimePostgresChangesPayload<TimelineEntry>
+): TimelineRealtimeChange | null => {
+  if (payload.eventType === 'DELETE') {
+    return payload.old.id ? { type: 'delete', entry_id: payload.old.id } : null;
+  }
+
+  return payload.new.id
+    ? {
+        type: payload.eventType === 'INSERT' ? 'insert' : 'update',
+        entry_id: payload.new.id,
+        entry: payload.new,
+      }
+    : null;
+};
+
+/**
+ * Transport over Supabase realtime (the table must be in the supabase_realtime publication)
+ *
+ * @param client - Supabase client
+ * @returns Transport listening to Postgres changes on timeline_entries
+ */
+export const createSupabaseRealtimeTransport = (client = supabase): TimelineRealtimeTransport => ({
+  subscribe(userId, { onChange, onConnected }) {
+    const handlePayload = (payload: RealtimePostgresChangesPayload<TimelineEntry>) => {
+      const change = toRealtimeChange(payload);
+      if (change) onChange(change);
+    };
+    const table = { schema: 'public', table: 'timeline_entries' };
+
+    const channel = client
+      .channel(`timeline_entries:${userId}`)
+      .on<TimelineEntry>(
+        'postgres_changes',
+        { event: 'INSERT', ...table, filter: `user_id=eq.${userId}` },
+        handlePayload
+      )
+      .on<TimelineEntry>(
+        'postgres_changes',
+        { event: 'UPDATE', ...table, filter: `user_id=eq.${userId}` },
+        handlePayload
+      )
+      // Deletes can't be filtered and only carry the id; unknown ids are ignored
+      .on<TimelineEntry>('postgres_changes', { event: 'DELETE', ...table }, handlePayload)
+      .subscribe((status, error) => {
+        if (status === 'SUBSCRIBED') {
+          onConnected?.();
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          logger.warn('Timeline realtime channel interrupted', { status, error });
+        }
+      });
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+});
+
+export interface InMemoryRealtimeTransport extends TimelineRealtimeTransport {
+  /**
+   * Delivers a change to the subscribers of a user
+   */
+  emit(userId: string, change: TimelineRealtimeChange): void;
+}
+
+/**
+ * In-memory transport, e.g. for tests: changes are pushed with emit
+ *
+ * @returns Transport without any server
+ */
+export const createInMemoryRealtimeTransport = (): InMemoryRealtimeTransport => {
+  const subscribers = new Map<string, Set<TimelineRealtimeHandlers>>();
+
+  return {
+    subscribe(userId, handlers) {
+      const handlersOfUser = subscribers.get(userId) ?? new Set();
+      handlersOfUser.add(handlers);
+      subscribers.set(userId, handlersOfUser);
+      handlers.onConnected?.();
+
+      return () => {
+        handlersOfUser.delete(handlers);
+      };
+    },
+
+    emit(userId, change) {
+      subscribers.get(userId)?.forEach((handlers) => handlers.onChange(change));
+    },
+  };
+};
+
+/**
+ * Checks whether two entries fill the same slot: one occurrence of a milestone in an application
+ */
+const isSameSlot = (a: Partial<TimelineEntry>, b: Partial<TimelineEntry>): boolean =>
+  a.application_id === b.application_id &&
+  a.entry_type === b.entry_type &&
+  (a.occurrence ?? 1) === (b.occurrence ?? 1);
+
+/**
+ * Merges a change made elsewhere into the local timeline
+ * Entries with local changes still queued are left alone: the queue is replayed later
+ * and its result comes back as another change
+ *
+ * @param entries - Locally stored entries
+ * @param queue - Queued local mutations
+ * @param change - Change pushed by the transport
+ * @returns Updated entries, or null when nothing changed
+ */
+export const applyRemoteChange = (
+  entries: TimelineEntry[],
+  queue: TimelineMutation[],
+  change: TimelineRealtimeChange
+): TimelineEntry[] | null => {
+  const hasQueuedChanges = queue.some(
+    (mutation) =>
+      mutation.entry_id === change.entry_id ||
+      // The echo of a queued add whose server id isn't known yet
+      (mutation.type === 'add' &&
+        !!change.entry &&
+        isSameSlot(mutation.payload ?? {}, change.entry))
+  );
+  if (hasQueuedChanges) {
+    return null;
+  }
+
+  if (change.type === 'delete') {
+    return entries.some((entry) => entry.id === change.entry_id)
+      ? entries.filter((entry) => entry.id !== change.entry_id)
+      : null;
+  }
+
+  if (!change.entry) {
+    return null;
+  }
+
+  const incoming = change.entry;
+  const current = entries.find((entry) => entry.id === change.entry_id);
+  if (current?.updated_at && incoming.updated_at && current.updated_at > incoming.updated_at) {
+    // Older than what is already stored, e.g. delivered after a refresh
+    return null;
+  }
+
+  // An insert may replace the entry of the same slot, like the upsert on the server does
+  return [
+    ...entries.filter((entry) => entry.id !== change.entry_id && !isSameSlot(entry, incoming)),
+    { ...incoming, sync_status: 'synced' },
+  ];
+};
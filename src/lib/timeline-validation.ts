@@ -0,0 +1,210 @@
+import { format, parseISO } from 'date-fns';
+
+import { getMilestoneName, isRepeatableEntryType, MILESTONE_ORDER } from '../constants/milestones';
+import { EntryType, EntryValidationError, TimelineEntry, TimelineValidationIssue } from '../types';
+
+/**
+ * Milestone pairs whose order is never negotiable: the first milestone of each pair
+ * can't be dated after the second one. Everything also has to come after submission.
+ * Keep in sync with check_timeline_entry_order() in the database.
+ */
+export const BLOCKING_ORDER_RULES: [EntryType, EntryType][] = [
+  ...MILESTONE_ORDER.filter((entryType) => entryType !== 'submission').map(
+    (entryType): [EntryType, EntryType] => ['submission', entryType]
+  ),
+  ['submission', 'additional_docs'],
+  ['biometrics_request', 'biometrics_complete'],
+  ['medicals_request', 'medicals_complete'],
+  ['background_start', 'background_complete'],
+  ['p1', 'p2'],
+  ['p2', 'ecopr'],
+  ['ecopr', 'pr_card'],
+];
+
+// Biometrics, medicals and background checks run in parallel, in no particular order
+const PROCESSING_MILESTONES: EntryType[] = [
+  'biometrics_request',
+  'biometrics_complete',
+  'medicals_request',
+  'medicals_complete',
+  'background_start',
+  'background_complete',
+];
+
+/**
+ * Gets the position of a milestone in the usual sequence, or -1 when it has none
+ */
+const getStage = (entryType: EntryType): number =>
+  PROCESSING_MILESTONES.includes(entryType)
+    ? MILESTONE_ORDER.indexOf(PROCESSING_MILESTONES[0])
+    : MILESTONE_ORDER.indexOf(entryType);
+
+/**
+ * Checks whether two milestones are covered by a blocking rule, in either direction
+ */
+const hasBlockingRule = (a: EntryType, b: EntryType): boolean =>
+  BLOCKING_ORDER_RULES.some(
+    ([before, after]) => (before === a && after === b) || (before === b && after === a)
+  );
+
+/**
+ * Reduces an entry date (plain date or timestamp) to YYYY-MM-DD so dates compare as strings
+ */
+const toDay = (entryDate: string): string => entryDate.slice(0, 10);
+
+/**
+ * Formats a YYYY-MM-DD day for messages (e.g. "Nov 7, 2024")
+ */
+const formatDay = (day: string): string => format(parseISO(day), 'MMM d, yyyy');
+
+/**
+ * Checks a proposed entry against the other entries of its application
+ *
+ * Order rules compare the first occurrence of each milestone, the same way
+ * community statistics do. Only issues caused by the proposed entry are reported,
+ * so an existing inconsistency doesn't block unrelated edits.
+ *
+ * @param entry - Entry about to be added or updated
+ * @param timeline - Existing entries of the application (may include the entry itself)
+ * @param today - Reference date for the future date check
+ * @returns Validation issues, errors first
+ */
+export const validateTimelineEntry = (
+  entry: Partial<TimelineEntry> & Pick<TimelineEntry, 'entry_type' | 'entry_date'>,
+  timeline: TimelineEntry[],
+  today: Date = new Date()
+): TimelineValidationIssue[] => {
+  const issues: TimelineValidationIssue[] = [];
+  const entryType = entry.entry_type;
+  const entryDay = toDay(entry.entry_date);
+  const name = getMilestoneName(entryType);
+
+  if (entryDay > format(today, 'yyyy-MM-dd')) {
+    issues.push({
+      code: 'future_date',
+      severity: 'error',
+      field: 'entry_date',
+      message: 'The date cannot be in the future',
+    });
+  }
+
+  // A non-repeatable milestone replaces the existing entry of its type
+  const others = timeline.filter(
+    (other) =>
+      other.id !== entry.id &&
+      (!entry.application_id || other.application_id === entry.application_id) &&
+      (isRepeatableEntryType(entryType) || other.entry_type !== entryType)
+  );
+
+  const firstDays = new Map<EntryType, string>();
+  others.forEach((other) => {
+    const day = toDay(other.entry_date);
+    const current = firstDays.get(other.entry_type);
+    if (!current || day < current) {
+      firstDays.set(other.entry_type, day);
+    }
+  });
+
+  // First occurrence of the entry's own milestone once the entry is saved
+  const ownFirstDay = firstDays.has(entryType)
+    ? [entryDay, firstDays.get(entryType)!].sort()[0]
+    : entryDay;
+
+  BLOCKING_ORDER_RULES.forEach(([before, after]) => {
+    if (after === entryType) {
+      const beforeDay = firstDays.get(before);
+      if (beforeDay && entryDay < beforeDay) {
+        issues.push({
+          code: 'before_prerequisite',
+          severity: 'error',
+          field: 'entry_date',
+          message: `${name} can't be dated before ${getMilestoneName(before)} (${formatDay(beforeDay)})`,
+          related_entry_type: before,
+        });
+      }
+    } else if (before === entryType) {
+      const afterDay = firstDays.get(after);
+      if (afterDay && ownFirstDay > afterDay) {
+        issues.push({
+          code: 'after_dependent',
+          severity: 'error',
+          field: 'entry_date',
+          message: `${name} can't be dated after ${getMilestoneName(after)} (${formatDay(afterDay)})`,
+          related_entry_type: after,
+        });
+      }
+    }
+  });
+
+  // Soft sequence checks only make sense for the first occurrence of a milestone
+  const stage = getStage(entryType);
+  if (stage >= 0 && entryDay === ownFirstDay) {
+    firstDays.forEach((otherDay, otherType) => {
+      const otherStage = getStage(otherType);
+      if (otherStage < 0 || otherStage === stage || hasBlockingRule(entryType, otherType)) {
+        return;
+      }
+
+      const isOutOfSequence =
+        (stage < otherStage && entryDay > otherDay) || (stage > otherStage && entryDay < otherDay);
+      if (isOutOfSequence) {
+        issues.push({
+          code: 'out_of_sequence',
+          severity: 'warning',
+          field: 'entry_date',
+          message: `${name} usually comes ${stage < otherStage ? 'before' : 'after'} ${getMilestoneName(otherType)} (${formatDay(otherDay)})`,
+          related_entry_type: otherType,
+        });
+      }
+    });
+  }
+
+  // New occurrences of a repeatable milestone are numbered after the existing ones
+  if (isRepeatableEntryType(entryType)) {
+    const sameType = others.filter((other) => other.entry_type === entryType);
+    const occurrence =
+      entry.occurrence ?? Math.max(0, ...sameType.map((other) => other.occurrence ?? 1)) + 1;
+    const previous = sameType
+      .filter((other) => (other.occurrence ?? 1) < occurrence)
+      .sort((a, b) => (b.occurrence ?? 1) - (a.occurrence ?? 1))[0];
+
+    if (previous && entryDay < toDay(previous.entry_date)) {
+      issues.push({
+        code: 'occurrence_order',
+        severity: 'warning',
+        field: 'entry_date',
+        message: `This is ${name} #${occurrence} but it is dated before #${previous.occurrence ?? 1} (${formatDay(toDay(previous.entry_date))})`,
+        related_entry_type: entryType,
+      });
+    }
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+/**
+ * Validates a proposed entry and throws when it breaks a blocking rule
+ *
+ * @param entry - Entry about to be added or updated
+ * @param timeline - Existing entries of the application
+ * @returns The remaining non-blocking warnings
+ * @throws EntryValidationError if any blocking rule is broken
+ */
+export const assertValidTimelineEntry = (
+  entry: Partial<TimelineEntry> & Pick<TimelineEntry, 'entry_type' | 'entry_date'>,
+  timeline: TimelineEntry[]
+): TimelineValidationIssue[] => {
+  const issues = validateTimelineEntry(entry, timeline);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+
+  if (errors.length > 0) {
+    const fieldErrors = errors.reduce<Record<string, string>>((result, issue) => {
+      result[issue.field] = result[issue.field] || issue.message;
+      return result;
+    }, {});
+
+    throw new EntryValidationError(errors[0].message, entry, fieldErrors, issues);
+  }
+
+  return issues;
+};
@@ -0,0 +1,207 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+import {
+  getFirstOccurrence,
+  getMilestoneName,
+  getTransitionName,
+  getTransitionType,
+  JOURNEY_MILESTONES,
+} from '../constants/milestones';
+import { CommunityBenchmark, EntryType, TimelineEntry, TransitionStatistics } from '../types';
+
+/**
+ * Transitions community benchmarks are available for, in journey order
+ * Keep in sync with get_user_statistics in the database
+ */
+export const BENCHMARK_TRANSITIONS: [EntryType, EntryType][] = [
+  ['aor', 'p2'],
+  ['p2', 'ecopr'],
+  ['ecopr', 'pr_card'],
+];
+
+/**
+ * Entry dates can be plain dates or full timestamps; only the day matters here
+ */
+const toDay = (entryDate: string): Date => parseISO(entryDate.slice(0, 10));
+
+/**
+ * Gets the date of the first occurrence of a milestone
+ */
+const getMilestoneDate = (entries: TimelineEntry[], entryType: EntryType): Date | null => {
+  const entry = getFirstOccurrence(entries, entryType);
+  return entry ? toDay(entry.entry_date) : null;
+};
+
+/**
+ * Number of days between the first occurrences of two milestones
+ *
+ * @param entries - Timeline entries of one application
+ * @param from - Milestone the duration starts at
+ * @param to - Milestone the duration ends at
+ * @returns Days between the two, or null if either is missing or they are out of order
+ */
+export const getDaysBetweenMilestones = (
+  entries: TimelineEntry[],
+  from: EntryType,
+  to: EntryType
+): number | null => {
+  const start = getMilestoneDate(entries, from);
+  const end = getMilestoneDate(entries, to);
+  if (!start || !end) return null;
+
+  const days = differenceInCalendarDays(end, start);
+  return days >= 0 ? days : null;
+};
+
+/**
+ * Duration of a step that may still be in progress: up to today while the end is missing
+ */
+const getElapsedDays = (
+  entries: TimelineEntry[],
+  from: EntryType,
+  to: EntryType,
+  today: Date
+): number | null => {
+  const start = getMilestoneDate(entries, from);
+  if (!start) return null;
+
+  return (
+    getDaysBetweenMilestones(entries, from, to) ??
+    Math.max(0, differenceInCalendarDays(today, start))
+  );
+};
+
+/**
+ * Percentage of journey milestones reached, matching the progress bar of ProgressSummary
+ *
+ * @param entries - Timeline entries of one application
+ * @returns Progress from 0 to 100
+ */
+export const getApplicationProgress = (entries: TimelineEntry[]): number => {
+  let furthestIndex = -1;
+  JOURNEY_MILESTONES.forEach((milestone, index) => {
+    if (entries.some((entry) => entry.entry_type === milestone)) {
+      furthestIndex = index;
+    }
+  });
+
+  return Math.round(((furthestIndex + 1) / JOURNEY_MILESTONES.length) * 100);
+};
+
+/**
+ * Estimates the days left until ecoPR from the community medians of the remaining transitions
+ *
+ * @param entries - Timeline entries of one application
+ * @param benchmarks - Community medians per transition
+ * @param today - Reference date
+ * @returns Days remaining (0 once ecoPR is recorded), or null without AOR or community data
+ */
+export const estimateDaysRemaining = (
+  entries: TimelineEntry[],
+  benchmarks: CommunityBenchmark[],
+  today: Date = new Date()
+): number | null => {
+  if (getFirstOccurrence(entries, 'ecopr')) return 0;
+
+  // Start from the furthest milestone that begins a transition towards ecoPR
+  const remaining = BENCHMARK_TRANSITIONS.slice(
+    0,
+    BENCHMARK_TRANSITIONS.findIndex(([, to]) => to === 'ecopr') + 1
+  );
+  const startIndex = remaining
+    .map(([from]) => getMilestoneDate(entries, from))
+    .reduce((latest, date, index) => (date ? index : latest), -1);
+  if (startIndex === -1) return null;
+
+  let expectedDays = 0;
+  for (const [from, to] of remaining.slice(startIndex)) {
+    const benchmark = benchmarks.find(
+      (item) => item.transition_type === getTransitionType(from, to)
+    );
+    if (!benchmark) return null;
+    expectedDays += benchmark.median_days;
+  }
+
+  const elapsed = differenceInCalendarDays(
+    today,
+    getMilestoneDate(entries, remaining[startIndex][0])!
+  );
+  return Math.max(0, Math.round(expectedDays - elapsed));
+};
+
+/**
+ * Describes how each transition of the user compares with the community median
+ */
+const buildMilestoneNotes = (
+  entries: TimelineEntry[],
+  benchmarks: CommunityBenchmark[],
+  today: Date
+): TransitionStatistics['milestoneNotes'] => {
+  const notes: TransitionStatistics['milestoneNotes'] = [];
+
+  for (const [from, to] of BENCHMARK_TRANSITIONS) {
+    const benchmark = benchmarks.find(
+      (item) => item.transition_type === getTransitionType(from, to)
+    );
+    const start = getMilestoneDate(entries, from);
+    if (!benchmark || !start) continue;
+
+    const median = Math.round(benchmark.median_days);
+    const group = benchmark.segmented ? 'similar applications' : 'all applicants';
+    const days = getDaysBetweenMilestones(entries, from, to);
+
+    if (days !== null) {
+      const difference = days - median;
+      const comparison =
+        difference === 0
+          ? 'the same as'
+          : `${Math.abs(difference)} days ${difference < 0 ? 'faster' : 'slower'} than`;
+
+      notes.push({
+        title: getTransitionName(getTransitionType(from, to)),
+        description: `Took ${days} days, ${comparison} the median of ${median} days for ${group}.`,
+      });
+    } else if (!getMilestoneDate(entries, to)) {
+      const waiting = Math.max(0, differenceInCalendarDays(today, start));
+
+      notes.push({
+        title: `Waiting for ${getMilestoneName(to)}`,
+        description: `${waiting} days since ${getMilestoneName(from)}. The median wait is ${median} days for ${group}.`,
+      });
+    }
+  }
+
+  return notes;
+};
+
+/**
+ * Computes personal statistics from the timeline of one application
+ *
+ * @param entries - Timeline entries of the application
+ * @param benchmarks - Community medians per transition, from get_user_statistics
+ * @param today - Reference date for steps that are still in progress
+ * @returns Transition statistics for the application
+ */
+export const computeUserStatistics = (
+  entries: TimelineEntry[],
+  benchmarks: CommunityBenchmark[],
+  today: Date = new Date()
+): TransitionStatistics => ({
+  submissionToAOR: getDaysBetweenMilestones(entries, 'submission', 'aor'),
+  aorToBiometrics: getDaysBetweenMilestones(entries, 'aor', 'biometrics_complete'),
+  biometricsToMedicals: getDaysBetweenMilestones(
+    entries,
+    'biometrics_complete',
+    'medicals_complete'
+  ),
+  backgroundCheckDuration: getElapsedDays(
+    entries,
+    'background_start',
+    'background_complete',
+    today
+  ),
+  totalProcessingTime: getElapsedDays(entries, 'submission', 'ecopr', today),
+  applicationProgress: getApplicationProgress(entries),
+  estimatedDaysRemaining: estimateDaysRemaining(entries, benchmarks, today),
+  milestoneNotes: buildMilestoneNotes(entries, benchmarks, today),
+});
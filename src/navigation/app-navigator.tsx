@@ -4,9 +4,17 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import React from 'react';
 
 import AddEntryScreen from '../screens/add-entry-screen';
+import ApplicationProfileScreen from '../screens/application-profile-screen';
+import ChecklistScreen from '../screens/checklist-screen';
+import CitizenshipScreen from '../screens/citizenship-screen';
 import HomeScreen from '../screens/home-screen';
+import ImportScreen from '../screens/import-screen';
 import MockDataDemo from '../screens/mock-data-demo';
+import ReminderSettingsScreen from '../screens/reminder-settings-screen';
+import ResidencyScreen from '../screens/residency-screen';
 import StatisticsScreen from '../screens/statistics-screen';
+import StatusPeriodFormScreen from '../screens/status-period-form-screen';
+import TripFormScreen from '../screens/trip-form-screen';
 import { AuthState, RootStackParamList, TabsParamList } from '../types';
 
 interface AppNavigatorProps {
@@ -81,6 +89,74 @@ export function AppNavigator({ authState }: AppNavigatorProps) {
           animation: 'slide_from_bottom',
         }}
       />
+      <Stack.Screen
+        name="Import"
+        component={ImportScreen}
+        options={{
+          title: 'Import Timeline',
+          presentation: 'modal',
+          animation: 'slide_from_bottom',
+        }}
+      />
+      <Stack.Screen
+        name="ApplicationProfile"
+        component={ApplicationProfileScreen}
+        options={{
+          title: 'Application Profile',
+          presentation: 'modal',
+          animation: 'slide_from_bottom',
+        }}
+      />
+      <Stack.Screen
+        name="ReminderSettings"
+        component={ReminderSettingsScreen}
+        options={{
+          title: 'Reminders',
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen
+        name="Residency"
+        component={ResidencyScreen}
+        options={{
+          title: 'Residency',
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen
+        name="TripForm"
+        component={TripFormScreen}
+        options={{
+          title: 'Trip',
+          presentation: 'modal',
+          animation: 'slide_from_bottom',
+        }}
+      />
+      <Stack.Screen
+        name="Citizenship"
+        component={CitizenshipScreen}
+        options={{
+          title: 'Citizenship',
+          animation: 'slide_from_right',
+        }}
+      />
+      <Stack.Screen
+        name="StatusPeriodForm"
+        component={StatusPeriodFormScreen}
+        options={{
+          title: 'Status Period',
+          presentation: 'modal',
+          animation: 'slide_from_bottom',
+        }}
+      />
+      <Stack.Screen
+        name="Checklist"
+        component={ChecklistScreen}
+        options={{
+          title: 'Checklist',
+          animation: 'slide_from_right',
+        }}
+      />
       <Stack.Screen
         name="MockDataDemo"
         component={MockDataDemo}
@@ -15,20 +15,31 @@ import {
 } from 'react-native';
 import { MaskedTextInput } from 'react-native-mask-text';
 
+import { EntryHistorySheet } from '../components/entry-history-sheet';
 import { ScreenContent } from '../components/screen-content';
 import { SectionHeader } from '../components/section-header';
 import { ThemedButton } from '../components/themed-button';
 import { ThemedCard } from '../components/themed-card';
 import { ThemedInput } from '../components/themed-input';
+import { colors } from '../constants/colors';
+import { isRepeatableEntryType } from '../constants/milestones';
 import { logger } from '../lib/logger';
+import { validateTimelineEntry } from '../lib/timeline-validation';
 import { timelineService } from '../services/timeline-service';
-import { EntryType, RootStackParamList, TimelineEntry } from '../types';
+import {
+  EntryType,
+  EntryValidationError,
+  RootStackParamList,
+  TimelineEntry,
+  TimelineEntryRevision,
+} from '../types';
 
 type AddEntryScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AddEntry'>;
 
 interface AddEntryScreenProps {
   route: {
     params: {
+      applicationId?: string;
       entryType?: EntryType;
       entryId?: string;
       onComplete?: () => void;
@@ -147,6 +158,7 @@ const ENTRY_TYPE_OPTIONS: {
  */
 export default function AddEntryScreen({ route }: AddEntryScreenProps) {
   const {
+    applicationId,
     entryType: initialEntryType,
     entryId,
     onComplete,
@@ -162,6 +174,12 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
   const [submitting, setSubmitting] = useState(false);
   const [isEditing] = useState(mode === 'edit'); // Set based on mode parameter
   const [showEntryTypeSelection, setShowEntryTypeSelection] = useState(false);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>(existingEntries);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisions, setRevisions] = useState<TimelineEntryRevision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | undefined>();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
   const navigation = useNavigation<AddEntryScreenNavigationProp>();
 
   // Animation values
@@ -210,13 +228,30 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
     }
   };
 
+  // Validate against the local copy, which also holds changes that aren't synced yet
+  useEffect(() => {
+    if (!applicationId) return;
+
+    timelineService
+      .getCachedTimeline(applicationId)
+      .then((entries) => {
+        if (entries.length > 0) {
+          setTimeline(entries);
+        }
+      })
+      .catch((error) => logger.warn('Could not load cached timeline for validation', { error }));
+
+    // Keep validating against changes synced in the meantime, e.g. from another device
+    return timelineService.subscribe(setTimeline, applicationId);
+  }, [applicationId]);
+
   // Use effect to set up the screen based on mode
   useEffect(() => {
     // Hide the navigation header
     navigation.setOptions({
       headerShown: false,
     });
-    
+
     // Run entrance animations
     Animated.parallel([
       Animated.timing(fadeAnim, {
@@ -289,6 +324,28 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
     }
   };
 
+  /**
+   * Check the entry against the rest of the timeline as the user types
+   */
+  const getValidationIssues = () => {
+    if (!parseDate(dateText)) return [];
+
+    const existingEntry = timeline.find((entry) => entry.id === entryId);
+    return validateTimelineEntry(
+      {
+        id: isEditing ? entryId : undefined,
+        application_id: applicationId || existingEntry?.application_id,
+        entry_type: entryType,
+        entry_date: dateText,
+        occurrence: isEditing ? existingEntry?.occurrence : undefined,
+      },
+      timeline
+    );
+  };
+
+  const validationIssues = getValidationIssues();
+  const hasBlockingIssues = validationIssues.some((issue) => issue.severity === 'error');
+
   const handleCalendarPress = () => {
     setShowDatePicker(true);
   };
@@ -319,9 +376,9 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
       return;
     }
 
-    // Check if date is in the future
-    if (parsedDate > new Date()) {
-      Alert.alert('Future Date', 'The date cannot be in the future');
+    // Future dates and out-of-order milestones are shown inline below the date
+    if (hasBlockingIssues) {
+      Alert.alert('Check the Date', validationIssues[0].message);
       return;
     }
 
@@ -336,8 +393,13 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
           notes,
         });
       } else {
+        if (!applicationId) {
+          Alert.alert('No Application', 'Please select an application before adding entries');
+          return;
+        }
+
         // Add new entry
-        await timelineService.addEntry(entryType, dateText, notes);
+        await timelineService.addEntry(applicationId, entryType, dateText, notes);
       }
 
       // Call the onComplete callback if provided
@@ -347,6 +409,11 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
 
       navigation.goBack();
     } catch (error) {
+      if (error instanceof EntryValidationError) {
+        Alert.alert('Check the Date', error.message);
+        return;
+      }
+
       logger.error('Error submitting entry', { error });
       Alert.alert('Error', 'There was a problem saving your entry. Please try again.');
     } finally {
@@ -354,6 +421,61 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
     }
   };
 
+  /**
+   * Open the history sheet and load the entry's revisions
+   */
+  const handleShowHistory = async () => {
+    if (!entryId) return;
+
+    setShowHistory(true);
+    setHistoryError(undefined);
+
+    try {
+      setHistoryLoading(true);
+      setRevisions(await timelineService.getEntryHistory(entryId));
+    } catch (error) {
+      logger.error('Error loading entry history', { error, entryId });
+      setHistoryError('Could not load the history. Check your connection and try again.');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  /**
+   * Restore the entry to a previous revision after confirmation
+   */
+  const handleRestoreRevision = (revision: TimelineEntryRevision) => {
+    Alert.alert('Restore Revision', 'Replace the current entry with this version?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Restore',
+        onPress: async () => {
+          try {
+            setRestoringId(revision.id);
+            await timelineService.restoreRevision(revision);
+            setShowHistory(false);
+
+            if (onComplete) {
+              onComplete();
+            }
+
+            navigation.goBack();
+          } catch (error) {
+            if (error instanceof EntryValidationError) {
+              Alert.alert('Check the Date', error.message);
+              return;
+            }
+
+            logger.error('Error restoring revision', { error, revisionId: revision.id });
+            Alert.alert('Error', 'There was a problem restoring this version. Please try again.');
+          } finally {
+            setRestoringId(null);
+          }
+        },
+      },
+    ]);
+  };
+
   return (
     <ScreenContent scrollable>
       <Animated.View
@@ -401,6 +523,17 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
               />
             </TouchableOpacity>
 
+            {/* Repeatable milestones get a new occurrence instead of replacing the old one */}
+            {!isEditing && isRepeatableEntryType(entryType) && (
+              <View className="mt-2 flex-row items-center rounded-lg bg-snow-white p-2">
+                <Ionicons name="repeat-outline" size={16} color="#6C757D" />
+                <Text className="ml-2 flex-1 text-xs text-text-secondary">
+                  This milestone can happen more than once. Saving adds a new occurrence and keeps
+                  the earlier ones.
+                </Text>
+              </View>
+            )}
+
             {/* Entry Type Options */}
             {showEntryTypeSelection && (
               <View className="mt-2 rounded-lg border border-frost bg-pure-white">
@@ -466,6 +599,28 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
                 <Ionicons name="calendar-outline" size={24} color="#FF1E38" />
               </TouchableOpacity>
             </View>
+
+            {/* Chronology problems: errors block saving, warnings are informational */}
+            {validationIssues.map((issue) => {
+              const color =
+                issue.severity === 'error' ? colors.status.error : colors.status.waiting;
+
+              return (
+                <View
+                  key={`${issue.code}-${issue.related_entry_type ?? ''}`}
+                  className="mt-2 flex-row items-start rounded-lg p-2"
+                  style={{ backgroundColor: `${color}15` }}>
+                  <Ionicons
+                    name={issue.severity === 'error' ? 'alert-circle-outline' : 'warning-outline'}
+                    size={16}
+                    color={color}
+                  />
+                  <Text className="ml-2 flex-1 text-xs" style={{ color }}>
+                    {issue.message}
+                  </Text>
+                </View>
+              );
+            })}
           </View>
 
           {/* Notes Input */}
@@ -480,6 +635,17 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
           />
         </ThemedCard>
 
+        {/* Edit history */}
+        {isEditing && entryId && (
+          <TouchableOpacity
+            onPress={handleShowHistory}
+            className="mb-4 flex-row items-center self-start"
+            accessibilityLabel="View edit history">
+            <Ionicons name="time-outline" size={18} color="#FF1E38" />
+            <Text className="ml-1 text-sm font-medium text-maple-red">View edit history</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Action Buttons */}
         <View className="w-full flex-row justify-end gap-4 space-x-3">
           <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
@@ -539,6 +705,17 @@ export default function AddEntryScreen({ route }: AddEntryScreenProps) {
               maximumDate={new Date()}
             />
           ))}
+
+        {/* Edit History Sheet */}
+        <EntryHistorySheet
+          visible={showHistory}
+          revisions={revisions}
+          loading={historyLoading}
+          error={historyError}
+          restoringId={restoringId}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistory(false)}
+        />
       </Animated.View>
     </ScreenContent>
   );
@@ -0,0 +1,195 @@
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { ThemedInput } from '../components/themed-input';
+import {
+  APPLICANT_LOCATION_OPTIONS,
+  PROGRAM_OPTIONS,
+  PROVINCE_OPTIONS,
+} from '../constants/application-profile';
+import { logger } from '../lib/logger';
+import { applicationService } from '../services/application-service';
+import { Application, RootStackParamList } from '../types';
+
+type ApplicationProfileScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'ApplicationProfile'
+>;
+
+interface ApplicationProfileScreenProps {
+  route: {
+    params: {
+      application: Application;
+      onboarding?: boolean;
+      onComplete?: (application: Application) => void;
+    };
+  };
+}
+
+interface ChipGroupProps<T extends string> {
+  options: { value: T; label: string }[];
+  selected?: T | null;
+  onSelect: (value: T | null) => void;
+}
+
+/**
+ * Single choice between chips; tapping the selected chip clears it
+ */
+const ChipGroup = <T extends string>({ options, selected, onSelect }: ChipGroupProps<T>) => (
+  <View className="flex-row flex-wrap">
+    {options.map((option) => {
+      const isSelected = option.value === selected;
+
+      return (
+        <TouchableOpacity
+          key={option.value}
+          onPress={() => onSelect(isSelected ? null : option.value)}
+          className={`mb-2 mr-2 rounded-full px-3 py-1.5 ${
+            isSelected ? 'bg-maple-red' : 'border border-frost bg-white'
+          }`}>
+          <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-[#475569]'}`}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+/**
+ * Screen for describing an application (program, province, inland/outland, ...)
+ * so community statistics can be narrowed down to similar files
+ */
+export default function ApplicationProfileScreen({ route }: ApplicationProfileScreenProps) {
+  const { application, onboarding = false, onComplete } = route.params;
+
+  const [program, setProgram] = useState(application.program ?? null);
+  const [applicantLocation, setApplicantLocation] = useState(
+    application.applicant_location ?? null
+  );
+  const [province, setProvince] = useState(application.province ?? null);
+  const [dependants, setDependants] = useState(
+    application.dependants !== null && application.dependants !== undefined
+      ? String(application.dependants)
+      : ''
+  );
+  const [countryOfResidence, setCountryOfResidence] = useState(
+    application.country_of_residence ?? ''
+  );
+  const [dependantsError, setDependantsError] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+  const navigation = useNavigation<ApplicationProfileScreenNavigationProp>();
+
+  /**
+   * Save the profile and return to the previous screen
+   */
+  const handleSave = async () => {
+    const trimmedDependants = dependants.trim();
+    if (trimmedDependants && !/^\d+$/.test(trimmedDependants)) {
+      setDependantsError('Enter a whole number, or leave it empty');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setDependantsError(undefined);
+
+      const updated = await applicationService.updateProfile(application.id, {
+        program,
+        applicant_location: applicantLocation,
+        province,
+        dependants: trimmedDependants ? Number(trimmedDependants) : null,
+        country_of_residence: countryOfResidence,
+      });
+
+      if (onComplete) {
+        onComplete(updated);
+      }
+
+      navigation.goBack();
+    } catch (error) {
+      logger.error('Error saving application profile', { error, applicationId: application.id });
+      Alert.alert('Save Failed', 'There was a problem saving your profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title={onboarding ? 'Tell us about your application' : application.name}
+          description="Used to compare your timeline with similar applications. Every question is optional."
+          size="lg"
+          className="mb-6"
+        />
+
+        <ThemedCard className="mb-4">
+          <Text className="mb-2 text-sm font-semibold text-text-primary">Program</Text>
+          <ChipGroup options={PROGRAM_OPTIONS} selected={program} onSelect={setProgram} />
+          {program && (
+            <Text className="text-xs text-text-secondary">
+              {PROGRAM_OPTIONS.find((option) => option.value === program)?.description}
+            </Text>
+          )}
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <Text className="mb-2 text-sm font-semibold text-text-primary">Applied from</Text>
+          <ChipGroup
+            options={APPLICANT_LOCATION_OPTIONS}
+            selected={applicantLocation}
+            onSelect={setApplicantLocation}
+          />
+          <Text className="text-xs text-text-secondary">
+            Inland if you were living in Canada when you applied
+          </Text>
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <Text className="mb-2 text-sm font-semibold text-text-primary">
+            Province or territory of destination
+          </Text>
+          <ChipGroup options={PROVINCE_OPTIONS} selected={province} onSelect={setProvince} />
+        </ThemedCard>
+
+        <ThemedCard className="mb-6">
+          <ThemedInput
+            label="Number of dependants"
+            value={dependants}
+            onChangeText={setDependants}
+            placeholder="0"
+            keyboardType="number-pad"
+            error={dependantsError}
+          />
+          <View className="mt-4">
+            <ThemedInput
+              label="Country of residence"
+              value={countryOfResidence}
+              onChangeText={setCountryOfResidence}
+              placeholder="e.g. Canada"
+              helper="Where you were living when you applied"
+              autoCorrect={false}
+            />
+          </View>
+        </ThemedCard>
+
+        <View className="w-full flex-row justify-end gap-4">
+          <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
+            {onboarding ? 'Skip for Now' : 'Cancel'}
+          </ThemedButton>
+          <ThemedButton variant="primary" onPress={handleSave} loading={saving}>
+            Save Profile
+          </ThemedButton>
+        </View>
+      </View>
+    </ScreenContent>
+  );
+}
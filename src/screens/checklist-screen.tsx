@@ -0,0 +1,260 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { ProgressBar } from '../components/progress-bar';
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { ThemedInput } from '../components/themed-input';
+import { colors } from '../constants/colors';
+import { getMilestoneName } from '../constants/milestones';
+import { buildChecklist, getChecklistProgress } from '../lib/checklists';
+import { logger } from '../lib/logger';
+import { checklistService } from '../services/checklist-service';
+import { ChecklistItem, ChecklistItemRecord, EntryType, ImmigrationProgram } from '../types';
+
+interface ChecklistScreenProps {
+  route: {
+    params: {
+      applicationId: string;
+      entryType: EntryType;
+      program?: ImmigrationProgram | null;
+      onComplete?: () => void;
+    };
+  };
+}
+
+/**
+ * Screen for the document checklist of a milestone: tick off what is ready,
+ * add notes and items of your own
+ */
+export default function ChecklistScreen({ route }: ChecklistScreenProps) {
+  const { applicationId, entryType, program, onComplete } = route.params;
+
+  const [records, setRecords] = useState<ChecklistItemRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  /**
+   * Load the stored progress of the application
+   */
+  const loadChecklist = async () => {
+    try {
+      setRecords(await checklistService.getChecklistItems(applicationId));
+    } catch (error) {
+      logger.error('Error loading checklist', { error, applicationId });
+      Alert.alert('Error Loading Checklist', 'There was a problem loading your checklist.', [
+        { text: 'OK' },
+      ]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadChecklist();
+  }, [applicationId]);
+
+  /**
+   * Replace the stored copy of an item after a change
+   */
+  const storeRecord = (record: ChecklistItemRecord) => {
+    setRecords((current) => [...current.filter((other) => other.id !== record.id), record]);
+    onComplete?.();
+  };
+
+  const handleToggle = async (item: ChecklistItem) => {
+    try {
+      storeRecord(
+        await checklistService.updateItem(applicationId, entryType, item, {
+          checked: !item.checked,
+        })
+      );
+    } catch (error) {
+      logger.error('Error ticking checklist item', { error, itemKey: item.key });
+      Alert.alert('Update Failed', 'There was a problem updating this item. Please try again.');
+    }
+  };
+
+  const startEditingNote = (item: ChecklistItem) => {
+    setEditingKey(item.key);
+    setNoteDraft(item.note ?? '');
+  };
+
+  const handleSaveNote = async (item: ChecklistItem) => {
+    try {
+      storeRecord(
+        await checklistService.updateItem(applicationId, entryType, item, { note: noteDraft })
+      );
+      setEditingKey(null);
+    } catch (error) {
+      logger.error('Error saving checklist note', { error, itemKey: item.key });
+      Alert.alert('Save Failed', 'There was a problem saving your note. Please try again.');
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newLabel.trim()) return;
+
+    try {
+      setAdding(true);
+      storeRecord(await checklistService.addCustomItem(applicationId, entryType, newLabel));
+      setNewLabel('');
+    } catch (error) {
+      logger.error('Error adding checklist item', { error, applicationId });
+      Alert.alert('Add Failed', 'There was a problem adding this item. Please try again.');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleDelete = (item: ChecklistItem) => {
+    if (!item.record_id) return;
+    const recordId = item.record_id;
+
+    Alert.alert('Delete Item', `Delete "${item.label}" from the checklist?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await checklistService.deleteCustomItem(recordId);
+            setRecords((current) => current.filter((record) => record.id !== recordId));
+            onComplete?.();
+          } catch (error) {
+            logger.error('Error deleting checklist item', { error, itemId: recordId });
+            Alert.alert('Delete Failed', 'There was a problem deleting this item.');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <ScreenContent>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.maple.red} />
+        </View>
+      </ScreenContent>
+    );
+  }
+
+  const items = buildChecklist(entryType, program, records);
+  const progress = getChecklistProgress(items);
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title={`${getMilestoneName(entryType)} Checklist`}
+          description="What to have ready for this step. Follow the instructions IRCC sends you if they differ."
+          size="lg"
+          className="mb-4"
+        />
+
+        {progress.total > 0 && (
+          <View className="mb-6">
+            <ProgressBar
+              progress={progress.checked / progress.total}
+              color={progress.checked === progress.total ? colors.status.success : colors.maple.red}
+              height={8}
+            />
+            <Text className="mt-2 text-sm text-text-secondary">
+              {`${progress.checked} of ${progress.total} ready`}
+            </Text>
+          </View>
+        )}
+
+        {items.map((item) => (
+          <ThemedCard key={item.key} className="mb-3">
+            <View className="flex-row items-start">
+              <TouchableOpacity
+                onPress={() => handleToggle(item)}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: item.checked }}
+                accessibilityLabel={item.label}>
+                <Ionicons
+                  name={item.checked ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={item.checked ? colors.status.success : '#94a3b8'}
+                />
+              </TouchableOpacity>
+              <View className="ml-3 flex-1">
+                <Text
+                  className={`text-base font-medium ${
+                    item.checked ? 'text-text-secondary line-through' : 'text-text-primary'
+                  }`}>
+                  {item.label}
+                </Text>
+                {item.description && (
+                  <Text className="text-xs text-text-secondary">{item.description}</Text>
+                )}
+                {item.note && editingKey !== item.key && (
+                  <Text className="mt-1 text-xs italic text-text-tertiary">{item.note}</Text>
+                )}
+              </View>
+              <TouchableOpacity
+                onPress={() => startEditingNote(item)}
+                className="ml-2"
+                accessibilityLabel={`Add a note to ${item.label}`}>
+                <Ionicons name="create-outline" size={20} color="#94a3b8" />
+              </TouchableOpacity>
+              {item.custom && (
+                <TouchableOpacity
+                  onPress={() => handleDelete(item)}
+                  className="ml-2"
+                  accessibilityLabel={`Delete ${item.label}`}>
+                  <Ionicons name="trash-outline" size={20} color={colors.maple.red} />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {editingKey === item.key && (
+              <View className="mt-3">
+                <ThemedInput
+                  value={noteDraft}
+                  onChangeText={setNoteDraft}
+                  placeholder="e.g. Ordered, arrives in 3 weeks"
+                  multiline
+                />
+                <View className="mt-2 flex-row justify-end gap-2">
+                  <ThemedButton variant="secondary" size="sm" onPress={() => setEditingKey(null)}>
+                    Cancel
+                  </ThemedButton>
+                  <ThemedButton size="sm" onPress={() => handleSaveNote(item)}>
+                    Save Note
+                  </ThemedButton>
+                </View>
+              </View>
+            )}
+          </ThemedCard>
+        ))}
+
+        <ThemedCard className="mt-3">
+          <ThemedInput
+            label="Add an item"
+            value={newLabel}
+            onChangeText={setNewLabel}
+            placeholder="e.g. Translation of the birth certificate"
+          />
+          <View className="mt-3 flex-row justify-end">
+            <ThemedButton
+              size="sm"
+              onPress={handleAdd}
+              loading={adding}
+              disabled={!newLabel.trim()}>
+              Add Item
+            </ThemedButton>
+          </View>
+        </ThemedCard>
+      </View>
+    </ScreenContent>
+  );
+}
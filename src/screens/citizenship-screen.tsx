@@ -0,0 +1,235 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Text, View } from 'react-native';
+
+import { ProgressBar } from '../components/progress-bar';
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { TEMPORARY_STATUS_OPTIONS } from '../constants/citizenship';
+import { colors } from '../constants/colors';
+import { computeCitizenshipEligibility } from '../lib/citizenship';
+import { logger } from '../lib/logger';
+import { getPrStartDate, getTripAbsentDays } from '../lib/residency';
+import { statusPeriodService } from '../services/status-period-service';
+import { timelineService } from '../services/timeline-service';
+import { tripService } from '../services/trip-service';
+import { RootStackParamList, StatusPeriod, Trip } from '../types';
+
+type CitizenshipScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Citizenship'>;
+
+const formatDay = (day: string) => format(parseISO(day), 'MMM d, yyyy');
+
+const getStatusLabel = (period: StatusPeriod) =>
+  TEMPORARY_STATUS_OPTIONS.find((option) => option.value === period.status_type)?.label ??
+  period.status_type;
+
+/**
+ * One line of the breakdown of days counted
+ */
+const BreakdownRow = ({ label, value, note }: { label: string; value: string; note?: string }) => (
+  <View className="flex-row items-start justify-between border-b border-frost py-2">
+    <View className="flex-1 pr-2">
+      <Text className="text-sm text-text-primary">{label}</Text>
+      {note && <Text className="text-xs text-text-tertiary">{note}</Text>}
+    </View>
+    <Text className="text-sm font-semibold text-text-primary">{value}</Text>
+  </View>
+);
+
+/**
+ * Screen for citizenship eligibility: the earliest date the user can apply, a breakdown
+ * of the days counted, the periods with temporary status before PR and the absences
+ * shared with the trip log
+ */
+export default function CitizenshipScreen() {
+  const [prStartDate, setPrStartDate] = useState<string | null>(null);
+  const [periods, setPeriods] = useState<StatusPeriod[]>([]);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigation = useNavigation<CitizenshipScreenNavigationProp>();
+
+  /**
+   * Load the ecoPR date from the timeline, the status periods and the logged trips
+   */
+  const loadCitizenship = async () => {
+    try {
+      const [entries, loggedPeriods, loggedTrips] = await Promise.all([
+        timelineService.getUserTimeline(),
+        statusPeriodService.getStatusPeriods(),
+        tripService.getTrips(),
+      ]);
+      setPrStartDate(getPrStartDate(entries));
+      setPeriods(loggedPeriods);
+      setTrips(loggedTrips);
+    } catch (error) {
+      logger.error('Error loading citizenship data', { error });
+      Alert.alert('Error Loading Data', 'There was a problem loading your eligibility data.', [
+        { text: 'OK' },
+      ]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCitizenship();
+    }, [])
+  );
+
+  const openPeriodForm = (period?: StatusPeriod) => {
+    navigation.navigate('StatusPeriodForm', { period, onComplete: loadCitizenship });
+  };
+
+  const openTripForm = (trip?: Trip) => {
+    navigation.navigate('TripForm', {
+      trip,
+      prStartDate: prStartDate ?? undefined,
+      trips,
+      onComplete: loadCitizenship,
+    });
+  };
+
+  if (loading) {
+    return (
+      <ScreenContent>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.maple.red} />
+        </View>
+      </ScreenContent>
+    );
+  }
+
+  const eligibility = prStartDate
+    ? computeCitizenshipEligibility(prStartDate, periods, trips)
+    : null;
+  const daysLeft = eligibility?.eligibility_date
+    ? differenceInCalendarDays(parseISO(eligibility.eligibility_date), parseISO(eligibility.as_of))
+    : null;
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title="Citizenship Eligibility"
+          description="Citizenship requires 1,095 days in Canada in the 5 years before you apply."
+          size="lg"
+          className="mb-6"
+        />
+
+        {eligibility ? (
+          <ThemedCard className="mb-6" variant="elevated">
+            <Text className="text-sm text-text-secondary">
+              {eligibility.eligible ? 'You can apply' : 'Earliest date to apply'}
+            </Text>
+            <Text className="mb-1 text-2xl font-bold text-text-primary">
+              {eligibility.eligible
+                ? 'Now'
+                : eligibility.eligibility_date
+                  ? formatDay(eligibility.eligibility_date)
+                  : 'Not within 5 years'}
+            </Text>
+            {daysLeft !== null && daysLeft > 0 && (
+              <Text className="mb-3 text-sm text-text-secondary">
+                {`${daysLeft} days to go if you stay in Canada outside the trips below`}
+              </Text>
+            )}
+            <ProgressBar
+              progress={eligibility.days_counted / eligibility.days_required}
+              color={eligibility.eligible ? colors.status.success : colors.maple.red}
+              height={8}
+            />
+
+            <View className="mt-4">
+              <BreakdownRow
+                label="Days as a permanent resident"
+                value={`${eligibility.pr_days}`}
+                note={`PR since ${formatDay(eligibility.pr_start)}`}
+              />
+              <BreakdownRow
+                label="Credit for temporary residence"
+                value={`${eligibility.temporary_credit}`}
+                note={`Half of ${eligibility.temporary_days} days before PR, up to 365`}
+              />
+              <BreakdownRow label="Days abroad, not counted" value={`${eligibility.days_absent}`} />
+              <View className="flex-row items-center justify-between pt-2">
+                <Text className="text-sm font-semibold text-text-primary">Total</Text>
+                <Text className="text-sm font-bold text-text-primary">
+                  {`${eligibility.days_counted} of ${eligibility.days_required} days`}
+                </Text>
+              </View>
+            </View>
+            <Text className="mt-2 text-xs text-text-tertiary">
+              {`Counted since ${formatDay(eligibility.window_start)}`}
+            </Text>
+          </ThemedCard>
+        ) : (
+          <ThemedCard className="mb-6 items-center py-6">
+            <Ionicons name="flag-outline" size={32} color="#94a3b8" />
+            <Text className="mt-2 text-center text-sm text-text-secondary">
+              Record your ecoPR to start counting days towards citizenship. You can already add your
+              periods with temporary status and trips.
+            </Text>
+          </ThemedCard>
+        )}
+
+        <View className="mb-3 flex-row items-center justify-between">
+          <Text className="text-lg font-bold text-text-primary">Before PR</Text>
+          <ThemedButton size="sm" onPress={() => openPeriodForm()}>
+            Add Period
+          </ThemedButton>
+        </View>
+
+        {periods.length === 0 && (
+          <Text className="mb-3 text-sm text-text-secondary">
+            Add the periods you lived in Canada as a worker, student, visitor or protected person.
+          </Text>
+        )}
+
+        {periods.map((period) => (
+          <ThemedCard key={period.id} className="mb-3" onPress={() => openPeriodForm(period)}>
+            <Text className="text-base font-semibold text-text-primary">
+              {getStatusLabel(period)}
+            </Text>
+            <Text className="text-xs text-text-secondary">
+              {`${formatDay(period.start_date)} – ${
+                period.end_date ? formatDay(period.end_date) : 'until PR'
+              }`}
+            </Text>
+          </ThemedCard>
+        ))}
+
+        <View className="mb-3 mt-3 flex-row items-center justify-between">
+          <Text className="text-lg font-bold text-text-primary">Absences</Text>
+          <ThemedButton size="sm" onPress={() => openTripForm()}>
+            Log Trip
+          </ThemedButton>
+        </View>
+
+        <Text className="mb-3 text-xs text-text-tertiary">
+          Shared with the trip log of the residency obligation.
+        </Text>
+
+        {trips.length === 0 && (
+          <Text className="text-sm text-text-secondary">No trips outside Canada logged yet.</Text>
+        )}
+
+        {trips.map((trip) => (
+          <ThemedCard key={trip.id} className="mb-3" onPress={() => openTripForm(trip)}>
+            <Text className="text-base font-semibold text-text-primary">{trip.destination}</Text>
+            <Text className="text-xs text-text-secondary">
+              {`${formatDay(trip.departure_date)} – ${
+                trip.return_date ? formatDay(trip.return_date) : 'still abroad'
+              } · ${getTripAbsentDays(trip)} days abroad`}
+            </Text>
+          </ThemedCard>
+        ))}
+      </View>
+    </ScreenContent>
+  );
+}
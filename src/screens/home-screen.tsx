@@ -1,8 +1,11 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import React, { useCallback, useEffect, useState } from 'react';
-import { ActivityIndicator, Alert, Text, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, AppState, Text, TouchableOpacity, View } from 'react-native';
 
+import { ApplicationSwitcher } from '../components/application-switcher';
+import { DeadlinesCard } from '../components/deadlines-card';
+import { ExportSheet } from '../components/export-sheet';
 import { ProgressSummary } from '../components/progress-summary';
 import { ScreenContent } from '../components/screen-content';
 import { SectionHeader } from '../components/section-header';
@@ -10,10 +13,24 @@ import { ThemedButton } from '../components/themed-button';
 import { ThemedCard } from '../components/themed-card';
 import { colors } from '../constants/colors';
 import { signOut } from '../lib/auth';
+import { getChecklistProgressByStage } from '../lib/checklists';
+import { getStageDeadlines } from '../lib/deadlines';
+import { getLatestJourneyMilestone } from '../lib/eta-prediction';
 import { logger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
+import { applicationService } from '../services/application-service';
+import { checklistService } from '../services/checklist-service';
+import { exportService } from '../services/export-service';
+import { predictionService } from '../services/prediction-service';
 import { timelineService } from '../services/timeline-service';
-import { EntryType, TimelineEntry } from '../types';
+import {
+  Application,
+  ChecklistItemRecord,
+  EntryType,
+  ExportFormat,
+  MilestonePrediction,
+  TimelineEntry,
+} from '../types';
 import { loadMockDataForCurrentUser } from '../utils/mock-data';
 
 interface HomeScreenProps {
@@ -26,15 +43,55 @@ interface HomeScreenProps {
  */
 export default function HomeScreen({ navigation }: HomeScreenProps) {
   const [entries, setEntries] = useState<TimelineEntry[]>([]);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [selectedApplicationId, setSelectedApplicationId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [applicationsLoaded, setApplicationsLoaded] = useState(false);
   const [useMockData, setUseMockData] = useState(false);
   const [showAddNextStepPrompt, setShowAddNextStepPrompt] = useState(false);
   const [nextStepType, setNextStepType] = useState<EntryType | null>(null);
+  const [showExportSheet, setShowExportSheet] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [prediction, setPrediction] = useState<MilestonePrediction | null>(null);
+  const [checklistItems, setChecklistItems] = useState<ChecklistItemRecord[]>([]);
+
+  /**
+   * Load the user's applications and restore the last selected one
+   */
+  const loadApplications = async () => {
+    try {
+      const data = await applicationService.getApplications();
+      setApplications(data);
+
+      const storedId = await applicationService.getSelectedApplicationId();
+      const selected = data.find((application) => application.id === storedId) || data[0];
+      setSelectedApplicationId(selected?.id ?? null);
+    } catch (error) {
+      logger.error('Error loading applications', { error });
+      Alert.alert(
+        'Error Loading Applications',
+        'There was a problem loading your applications. Please try again.',
+        [{ text: 'OK' }]
+      );
+    } finally {
+      setApplicationsLoaded(true);
+    }
+  };
 
   /**
    * Load timeline entries from the service or mock data
    */
   const loadEntries = async () => {
+    // Real entries are always shown for a single application
+    if (!useMockData && !selectedApplicationId) {
+      // Without any application there is nothing to load, stop the spinner
+      if (applicationsLoaded) {
+        setEntries([]);
+        setLoading(false);
+      }
+      return;
+    }
+
     try {
       setLoading(true);
 
@@ -48,8 +105,14 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         setEntries(mockEntries);
         logger.info('Loaded mock timeline entries', { count: mockEntries.length });
       } else {
-        // Load real data from the service
-        const data = await timelineService.getUserTimeline();
+        // Show the local copy right away, then refresh it from the server
+        const cached = await timelineService.getCachedTimeline(selectedApplicationId!);
+        if (cached.length > 0) {
+          setEntries(cached);
+          setLoading(false);
+        }
+
+        const data = await timelineService.getUserTimeline(selectedApplicationId!);
         setEntries(data);
         logger.info('Loaded timeline entries', { count: data.length });
       }
@@ -65,15 +128,88 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
   };
 
-  // Load entries when component mounts or when useMockData changes
+  /**
+   * Load the document checklist progress of the selected application
+   */
+  const loadChecklists = async () => {
+    if (useMockData || !selectedApplicationId) {
+      setChecklistItems([]);
+      return;
+    }
+
+    try {
+      setChecklistItems(await checklistService.getChecklistItems(selectedApplicationId));
+    } catch (error) {
+      logger.warn('Could not load checklist progress', { error });
+    }
+  };
+
+  // Keep a reference to the latest loader for the focus listener
+  const loadEntriesRef = useRef(loadEntries);
+  loadEntriesRef.current = loadEntries;
+
+  // Load applications when component mounts
+  useEffect(() => {
+    loadApplications();
+  }, []);
+
+  // Load entries when component mounts or when useMockData or the application changes
   useEffect(() => {
     loadEntries();
+    loadChecklists();
+  }, [useMockData, selectedApplicationId, applicationsLoaded]);
+
+  // Keep entries in sync with the local copy (e.g. after queued changes are replayed)
+  useEffect(() => {
+    if (useMockData || !selectedApplicationId) return;
+
+    return timelineService.subscribe((updatedEntries) => {
+      setEntries(updatedEntries);
+    }, selectedApplicationId);
+  }, [useMockData, selectedApplicationId]);
+
+  // Predict the next milestone when the latest completed one changes
+  const latestMilestone = getLatestJourneyMilestone(entries);
+  useEffect(() => {
+    if (!latestMilestone) {
+      setPrediction(null);
+      return;
+    }
+
+    let cancelled = false;
+    predictionService
+      .predictNextMilestone(
+        latestMilestone.entryType,
+        latestMilestone.entryDate,
+        useMockData ? null : selectedApplicationId
+      )
+      .then((result) => {
+        if (!cancelled) setPrediction(result);
+      })
+      .catch((error) => {
+        logger.warn('Could not predict the next milestone', { error });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latestMilestone?.entryType, latestMilestone?.entryDate, selectedApplicationId, useMockData]);
+
+  // Replay queued changes when the app returns to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && !useMockData) {
+        timelineService.syncPendingMutations();
+      }
+    });
+
+    return () => subscription.remove();
   }, [useMockData]);
 
   // Load entries when screen comes into focus
   useFocusEffect(
     useCallback(() => {
-      loadEntries();
+      loadEntriesRef.current();
       // Reset the add button prompt state when returning to screen
       setShowAddNextStepPrompt(false);
       setNextStepType(null);
@@ -86,6 +222,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
    */
   const navigateToAddEntry = (entryType: EntryType) => {
     navigation.navigate('AddEntry', {
+      applicationId: selectedApplicationId,
       entryType,
       existingEntries: entries,
     });
@@ -97,6 +234,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
    */
   const navigateToEditEntry = (entry: TimelineEntry) => {
     navigation.navigate('AddEntry', {
+      applicationId: entry.application_id,
       entryType: entry.entry_type,
       entryId: entry.id,
       mode: 'edit',
@@ -128,6 +266,81 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
   };
 
+  /**
+   * Switch the journey shown on the home screen to another application
+   */
+  const handleSelectApplication = (applicationId: string) => {
+    setSelectedApplicationId(applicationId);
+    applicationService.setSelectedApplicationId(applicationId);
+  };
+
+  /**
+   * Create a new application and switch to it
+   */
+  const handleCreateApplication = async (name: string) => {
+    const application = await applicationService.createApplication(name);
+    setApplications((prev) => [...prev, application]);
+    handleSelectApplication(application.id);
+    navigateToProfile(application, true);
+  };
+
+  /**
+   * Open the profile of an application, used to segment community statistics
+   */
+  const navigateToProfile = (application: Application, onboarding = false) => {
+    navigation.navigate('ApplicationProfile', {
+      application,
+      onboarding,
+      onComplete: (updated: Application) =>
+        setApplications((prev) => prev.map((item) => (item.id === updated.id ? updated : item))),
+    });
+  };
+
+  /**
+   * Retry changes that were rejected by the server
+   */
+  const handleRetrySync = async () => {
+    try {
+      await timelineService.retryFailedMutations();
+    } catch (error) {
+      logger.error('Error retrying timeline sync', { error });
+    }
+  };
+
+  /**
+   * Open the importer for the selected application
+   */
+  const navigateToImport = () => {
+    if (!selectedApplicationId) return;
+
+    navigation.navigate('Import', {
+      applicationId: selectedApplicationId,
+      existingEntries: entries,
+    });
+  };
+
+  /**
+   * Export the selected application's timeline in the chosen format
+   */
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const application = applications.find((item) => item.id === selectedApplicationId);
+    if (!application) return;
+
+    try {
+      setExportingFormat(exportFormat);
+      await exportService.exportTimeline(exportFormat, application);
+      setShowExportSheet(false);
+    } catch (error) {
+      logger.error('Error exporting timeline', { error, format: exportFormat });
+      Alert.alert(
+        'Export Failed',
+        'There was a problem exporting your timeline. Please try again.'
+      );
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   /**
    * Toggle between real and mock data
    */
@@ -150,6 +363,28 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
   // Check if user has entries
   const hasEntries = entries.length > 0;
+  const hasEcopr = entries.some((entry) => entry.entry_type === 'ecopr');
+  const selectedApplication = applications.find(
+    (application) => application.id === selectedApplicationId
+  );
+  const deadlines = getStageDeadlines(entries, useMockData ? null : selectedApplication?.program);
+  const checklists = useMockData
+    ? undefined
+    : getChecklistProgressByStage(selectedApplication?.program, checklistItems);
+
+  /**
+   * Open the document checklist of a milestone
+   */
+  const openChecklist = (entryType: EntryType) => {
+    if (!selectedApplicationId) return;
+
+    navigation.navigate('Checklist', {
+      applicationId: selectedApplicationId,
+      entryType,
+      program: selectedApplication?.program,
+      onComplete: loadChecklists,
+    });
+  };
 
   // Add this function to navigate to MockDataDemo
   const goToMockDataDemo = () => {
@@ -184,27 +419,138 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity onPress={handleLogout} className="rounded-full bg-maple-red/10 p-2">
-              <Ionicons name="log-out-outline" size={20} color={colors.maple.red} />
-            </TouchableOpacity>
+            <View className="flex-row items-center">
+              {!useMockData && selectedApplication && (
+                <TouchableOpacity
+                  onPress={() => navigateToProfile(selectedApplication)}
+                  className="mr-2 rounded-full bg-maple-red/10 p-2"
+                  accessibilityLabel="Edit application profile">
+                  <Ionicons name="person-circle-outline" size={20} color={colors.maple.red} />
+                </TouchableOpacity>
+              )}
+
+              {!useMockData && selectedApplicationId && (
+                <TouchableOpacity
+                  onPress={navigateToImport}
+                  className="mr-2 rounded-full bg-maple-red/10 p-2"
+                  accessibilityLabel="Import timeline">
+                  <Ionicons name="download-outline" size={20} color={colors.maple.red} />
+                </TouchableOpacity>
+              )}
+
+              {!useMockData && hasEntries && (
+                <TouchableOpacity
+                  onPress={() => setShowExportSheet(true)}
+                  className="mr-2 rounded-full bg-maple-red/10 p-2"
+                  accessibilityLabel="Export timeline">
+                  <Ionicons name="share-outline" size={20} color={colors.maple.red} />
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                onPress={() => navigation.navigate('ReminderSettings')}
+                className="mr-2 rounded-full bg-maple-red/10 p-2"
+                accessibilityLabel="Reminder settings">
+                <Ionicons name="notifications-outline" size={20} color={colors.maple.red} />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={handleLogout} className="rounded-full bg-maple-red/10 p-2">
+                <Ionicons name="log-out-outline" size={20} color={colors.maple.red} />
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
 
+        {/* Application Switcher - also shown without applications so one can be created */}
+        {!useMockData && applicationsLoaded && (
+          <ApplicationSwitcher
+            applications={applications}
+            selectedApplicationId={selectedApplicationId}
+            onSelect={handleSelectApplication}
+            onCreate={handleCreateApplication}
+          />
+        )}
+
         {loading ? (
           <ThemedCard className="items-center justify-center py-12">
             <ActivityIndicator size="large" color={colors.maple.red} />
             <Text className="mt-4 text-text-secondary">Loading your journey data...</Text>
           </ThemedCard>
+        ) : !useMockData && !selectedApplicationId ? (
+          <ThemedCard className="items-center justify-center py-12">
+            <Ionicons name="folder-open-outline" size={32} color="#94a3b8" />
+            <Text className="mt-4 text-center text-text-secondary">
+              No application to show. Check your connection and try again, or start tracking a new
+              application.
+            </Text>
+            <ThemedButton className="mt-4" size="sm" onPress={loadApplications}>
+              Try Again
+            </ThemedButton>
+          </ThemedCard>
         ) : (
           <>
+            {/* Open requests come first so nothing slips past its due date */}
+            <DeadlinesCard deadlines={deadlines} onAddEntry={handleAddEntry} />
+
             {/* Progress Summary - Always shown, with empty state if no entries */}
             <ProgressSummary
               entries={entries}
+              applicationName={
+                useMockData
+                  ? undefined
+                  : applications.find((application) => application.id === selectedApplicationId)
+                      ?.name
+              }
               onAddEntry={handleAddEntry}
               onEditEntry={handleEditEntry}
+              onRetrySync={handleRetrySync}
               emptyState={!hasEntries}
+              prediction={prediction}
+              checklists={checklists}
+              onOpenChecklist={openChecklist}
+              deadlines={deadlines}
             />
 
+            {/* Residency obligation and citizenship, the next concerns once PR status is granted */}
+            {!useMockData && hasEcopr && (
+              <>
+                <ThemedCard
+                  className="mb-3"
+                  variant="elevated"
+                  onPress={() => navigation.navigate('Residency')}>
+                  <View className="flex-row items-center">
+                    <Ionicons name="airplane-outline" size={22} color={colors.maple.red} />
+                    <View className="ml-3 flex-1">
+                      <Text className="text-base font-semibold text-text-primary">
+                        Residency Obligation
+                      </Text>
+                      <Text className="text-xs text-text-secondary">
+                        Log your trips and track the 730 days in Canada
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+                  </View>
+                </ThemedCard>
+                <ThemedCard
+                  className="mb-6"
+                  variant="elevated"
+                  onPress={() => navigation.navigate('Citizenship')}>
+                  <View className="flex-row items-center">
+                    <Ionicons name="flag-outline" size={22} color={colors.maple.red} />
+                    <View className="ml-3 flex-1">
+                      <Text className="text-base font-semibold text-text-primary">
+                        Citizenship Eligibility
+                      </Text>
+                      <Text className="text-xs text-text-secondary">
+                        See when you reach the 1,095 days needed to apply
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+                  </View>
+                </ThemedCard>
+              </>
+            )}
+
             {/* Add Next Step Prompt */}
             {showAddNextStepPrompt && nextStepType && (
               <ThemedCard className="mb-6" variant="elevated">
@@ -230,6 +576,14 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             )}
           </>
         )}
+
+        {/* Export Sheet */}
+        <ExportSheet
+          visible={showExportSheet}
+          exportingFormat={exportingFormat}
+          onSelect={handleExport}
+          onClose={() => setShowExportSheet(false)}
+        />
       </View>
     </ScreenContent>
   );
@@ -0,0 +1,301 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, parseISO } from 'date-fns';
+import React, { useEffect, useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { StatusBadge } from '../components/status-badge';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { ThemedInput } from '../components/themed-input';
+import { colors } from '../constants/colors';
+import { getMilestoneName } from '../constants/milestones';
+import { logger } from '../lib/logger';
+import { buildImportPreview, parseTimelineImport } from '../lib/timeline-import';
+import { timelineService } from '../services/timeline-service';
+import {
+  EntryValidationError,
+  ImportPreviewItem,
+  NetworkError,
+  RootStackParamList,
+  TimelineEntry,
+  TimelineImportResult,
+} from '../types';
+
+type ImportScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Import'>;
+
+interface ImportScreenProps {
+  route: {
+    params: {
+      applicationId: string;
+      existingEntries?: TimelineEntry[];
+      onComplete?: () => void;
+    };
+  };
+}
+
+const STATUS_BADGES: Record<
+  ImportPreviewItem['status'],
+  { status: 'completed' | 'waiting' | 'inactive'; label: string }
+> = {
+  new: { status: 'completed', label: 'New' },
+  duplicate: { status: 'inactive', label: 'Skipped' },
+  repeated: { status: 'inactive', label: 'Repeated' },
+  conflict: { status: 'waiting', label: 'Conflict' },
+};
+
+const EXAMPLE = 'Milestone,Date\nSubmission,2024-01-10\nAOR,2024-02-01\nBio req,Feb 3 2024';
+
+const formatDay = (day: string): string => format(parseISO(day), 'MMM d, yyyy');
+
+/**
+ * Screen for importing a timeline from pasted CSV/TSV rows,
+ * such as a row copied from a community tracking spreadsheet
+ */
+export default function ImportScreen({ route }: ImportScreenProps) {
+  const { applicationId, existingEntries = [], onComplete } = route.params;
+
+  const [text, setText] = useState('');
+  const [dayFirst, setDayFirst] = useState<boolean | undefined>();
+  const [result, setResult] = useState<TimelineImportResult | null>(null);
+  const [replaceLines, setReplaceLines] = useState<number[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>(existingEntries);
+  const [importing, setImporting] = useState(false);
+  const navigation = useNavigation<ImportScreenNavigationProp>();
+
+  // Compare against the local copy, which also holds changes that aren't synced yet
+  useEffect(() => {
+    timelineService
+      .getCachedTimeline(applicationId)
+      .then((entries) => {
+        if (entries.length > 0) {
+          setTimeline(entries);
+        }
+      })
+      .catch((error) => logger.warn('Could not load cached timeline for import', { error }));
+  }, [applicationId]);
+
+  const preview = result ? buildImportPreview(result.candidates, timeline, replaceLines) : [];
+  const toImport = preview.filter(
+    (item) => item.status === 'new' || (item.status === 'conflict' && item.replace)
+  );
+  const hasBlockingIssues = toImport.some((item) => item.issues.length > 0);
+
+  /**
+   * Parse the pasted text, optionally forcing the day/month order
+   */
+  const handlePreview = (forceDayFirst?: boolean) => {
+    const parsed = parseTimelineImport(text, forceDayFirst);
+    setResult(parsed);
+    setDayFirst(forceDayFirst);
+    setReplaceLines([]);
+  };
+
+  /**
+   * Toggle whether a conflicting row replaces the existing entry
+   */
+  const toggleReplace = (line: number) => {
+    setReplaceLines((prev) =>
+      prev.includes(line) ? prev.filter((item) => item !== line) : [...prev, line]
+    );
+  };
+
+  /**
+   * Save the selected rows in one batch
+   */
+  const handleImport = async () => {
+    try {
+      setImporting(true);
+      await timelineService.addEntries(
+        applicationId,
+        toImport.map((item) => ({
+          entry_type: item.entry_type,
+          entry_date: item.entry_date,
+          notes: item.notes,
+        }))
+      );
+
+      if (onComplete) {
+        onComplete();
+      }
+
+      navigation.goBack();
+    } catch (error) {
+      if (error instanceof EntryValidationError || error instanceof NetworkError) {
+        Alert.alert('Import Failed', error.message);
+        return;
+      }
+
+      logger.error('Error importing timeline', { error });
+      Alert.alert(
+        'Import Failed',
+        'There was a problem importing your timeline. Please try again.'
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title="Import Timeline"
+          description="Paste rows from a spreadsheet or a CSV file"
+          size="lg"
+          className="mb-6"
+        />
+
+        <ThemedCard className="mb-6">
+          <ThemedInput
+            label="Spreadsheet rows"
+            value={text}
+            onChangeText={setText}
+            placeholder={EXAMPLE}
+            helper='One milestone per row ("AOR, 2024-02-01"), or a header row of milestones with your dates below it'
+            multiline
+            numberOfLines={8}
+            autoCapitalize="none"
+            autoCorrect={false}
+            className="h-40"
+            style={{ textAlignVertical: 'top' }}
+          />
+
+          <View className="mt-4 flex-row justify-end">
+            <ThemedButton
+              variant="secondary"
+              size="sm"
+              onPress={() => handlePreview()}
+              disabled={!text.trim()}>
+              Preview
+            </ThemedButton>
+          </View>
+        </ThemedCard>
+
+        {result && (
+          <ThemedCard className="mb-6">
+            <Text className="mb-1 text-base font-semibold text-text-primary">
+              {`Found ${result.candidates.length} milestone${result.candidates.length === 1 ? '' : 's'}`}
+            </Text>
+            <Text className="mb-4 text-xs text-text-secondary">
+              {result.layout === 'columns'
+                ? 'Read as one milestone per column'
+                : 'Read as one milestone per row'}
+            </Text>
+
+            {/* Numeric dates like 03/04/2024 can't be told apart without help */}
+            {(result.ambiguousDates || dayFirst !== undefined) && (
+              <View className="mb-4 flex-row items-center">
+                <Text className="mr-2 text-xs text-text-secondary">Dates are</Text>
+                {[true, false].map((option) => (
+                  <TouchableOpacity
+                    key={String(option)}
+                    onPress={() => handlePreview(option)}
+                    className={`mr-2 rounded-full px-3 py-1 ${
+                      result.dayFirst === option ? 'bg-maple-red' : 'border border-frost bg-white'
+                    }`}>
+                    <Text
+                      className={`text-xs font-medium ${
+                        result.dayFirst === option ? 'text-white' : 'text-text-secondary'
+                      }`}>
+                      {option ? 'Day/Month' : 'Month/Day'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            {preview.map((item) => (
+              <View
+                key={item.line}
+                className="mb-3 rounded-xl border border-[#f1f5f9] bg-[#f8fafc] p-3">
+                <View className="flex-row items-center justify-between">
+                  <View className="flex-1">
+                    <Text className="text-sm font-semibold text-text-primary">
+                      {getMilestoneName(item.entry_type)} · {formatDay(item.entry_date)}
+                    </Text>
+                    <Text className="text-xs text-text-tertiary">
+                      {`Line ${item.line}: "${item.source_label}"`}
+                    </Text>
+                  </View>
+                  <StatusBadge
+                    size="sm"
+                    status={STATUS_BADGES[item.status].status}
+                    label={STATUS_BADGES[item.status].label}
+                  />
+                </View>
+
+                {item.status === 'duplicate' && (
+                  <Text className="mt-1 text-xs text-text-secondary">
+                    Already recorded on this date
+                  </Text>
+                )}
+
+                {item.status === 'repeated' && (
+                  <Text className="mt-1 text-xs text-text-secondary">
+                    Listed again further down, the later row is used
+                  </Text>
+                )}
+
+                {item.status === 'conflict' && item.existing && (
+                  <View className="mt-2 flex-row items-center justify-between">
+                    <Text className="flex-1 text-xs text-text-secondary">
+                      {`Recorded as ${formatDay(item.existing.entry_date.slice(0, 10))}`}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => toggleReplace(item.line)}
+                      className="rounded-full border border-frost bg-white px-3 py-1">
+                      <Text className="text-xs font-medium text-maple-red">
+                        {item.replace ? 'Replace' : 'Keep existing'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {item.issues.map((issue) => (
+                  <View key={issue.code + issue.related_entry_type} className="mt-2 flex-row">
+                    <Ionicons name="alert-circle-outline" size={14} color={colors.status.error} />
+                    <Text className="ml-1 flex-1 text-xs" style={{ color: colors.status.error }}>
+                      {issue.message}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+
+            {result.skipped.length > 0 && (
+              <View className="mt-2">
+                <Text className="mb-1 text-xs font-semibold text-text-secondary">
+                  Lines not imported
+                </Text>
+                {result.skipped.map((skipped) => (
+                  <Text
+                    key={`${skipped.line}-${skipped.reason}`}
+                    className="text-xs text-text-tertiary">
+                    {`Line ${skipped.line}: ${skipped.reason}`}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </ThemedCard>
+        )}
+
+        <View className="w-full flex-row justify-end gap-4">
+          <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton
+            variant="primary"
+            onPress={handleImport}
+            loading={importing}
+            disabled={toImport.length === 0 || hasBlockingIssues}>
+            {`Import ${toImport.length} ${toImport.length === 1 ? 'Entry' : 'Entries'}`}
+          </ThemedButton>
+        </View>
+      </View>
+    </ScreenContent>
+  );
+}
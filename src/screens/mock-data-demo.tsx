@@ -15,8 +15,9 @@ import { ProgressSummary } from '../components/progress-summary';
 import { ScreenContent } from '../components/screen-content';
 import { StatisticsCard } from '../components/statistics-card';
 import { TimelineView } from '../components/timeline-view';
+import { getStageDeadlines } from '../lib/deadlines';
 import { CommunityStatistic, EntryType, TimelineEntry, WeeklyBreakdown } from '../types';
-import { generateMockTimelineEntries } from '../utils/mock-data';
+import { generateMockTimelineEntries, generateMockWeeklyBreakdown } from '../utils/mock-data';
 
 /**
  * Demo screen to showcase the components with mock data
@@ -73,8 +74,13 @@ export default function MockDataDemo() {
           avg_days: 85.2,
           min_days: 45,
           max_days: 180,
+          median_days: 78,
+          p25_days: 62,
+          p75_days: 101,
+          p90_days: 138,
           count: 124,
           month_year: 'Jan 2023',
+          report_date: '2023-01-01',
           waiting_count: 65,
         },
         {
@@ -82,23 +88,28 @@ export default function MockDataDemo() {
           avg_days: 112.7,
           min_days: 60,
           max_days: 245,
+          median_days: 104,
+          p25_days: 81,
+          p75_days: 139,
+          p90_days: 187,
           count: 98,
           month_year: 'Feb 2023',
+          report_date: '2023-02-01',
           waiting_count: 78,
-          week_breakdown: [
-            { week_range: 'Feb 1-7', count: 18 },
-            { week_range: 'Feb 8-14', count: 22 },
-            { week_range: 'Feb 15-21', count: 25 },
-            { week_range: 'Feb 22-28', count: 13 },
-          ],
+          week_breakdown: generateMockWeeklyBreakdown('p2-ecopr', '2023-02-01', 98, 104),
         },
         {
           transition_type: 'ecopr-pr_card',
           avg_days: 42.5,
           min_days: 28,
           max_days: 90,
+          median_days: 39,
+          p25_days: 33,
+          p75_days: 50,
+          p90_days: 66,
           count: 76,
           month_year: 'Mar 2023',
+          report_date: '2023-03-01',
           waiting_count: 42,
         },
       ];
@@ -142,34 +153,24 @@ export default function MockDataDemo() {
   /**
    * Handle month selection for weekly breakdown
    */
-  const handleMonthSelect = (month: string) => {
-    if (selectedMonth === month) {
+  const handleMonthSelect = (stat: CommunityStatistic) => {
+    if (!stat.month_year || !stat.report_date || selectedMonth === stat.month_year) {
       // Deselect if already selected
       setSelectedMonth(null);
       setWeeklyBreakdown([]);
     } else {
-      // Select new month and get/generate weekly breakdown
-      setSelectedMonth(month);
-
-      // Find the statistic for the selected month
-      const statForMonth = statistics.find(
-        (stat) => stat.month_year === month && stat.transition_type === 'p2-ecopr'
+      // Select new month and use or generate its weekly breakdown
+      setSelectedMonth(stat.month_year);
+      setWeeklyBreakdown(
+        stat.week_breakdown?.length
+          ? stat.week_breakdown
+          : generateMockWeeklyBreakdown(
+              stat.transition_type,
+              stat.report_date,
+              stat.count,
+              stat.median_days
+            )
       );
-
-      // Use week_breakdown from the statistics if available
-      if (statForMonth?.week_breakdown && statForMonth.week_breakdown.length > 0) {
-        setWeeklyBreakdown(statForMonth.week_breakdown);
-      } else {
-        // Otherwise generate mock weekly data
-        const mockWeeklyData: WeeklyBreakdown[] = [
-          { week_range: `${month} 1-7`, count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: `${month} 8-14`, count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: `${month} 15-21`, count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: `${month} 22-28`, count: Math.floor(Math.random() * 5) + 1 },
-        ];
-
-        setWeeklyBreakdown(mockWeeklyData);
-      }
     }
   };
 
@@ -342,7 +343,10 @@ export default function MockDataDemo() {
               overflow: 'hidden',
             }}
             className="rounded-b-xl bg-white shadow-sm">
-            <TimelineView entries={sortedEntries.slice(0, 5)} />
+            <TimelineView
+              entries={sortedEntries.slice(0, 5)}
+              deadlines={getStageDeadlines(timelineEntries)}
+            />
           </Animated.View>
         </View>
 
@@ -516,7 +520,7 @@ export default function MockDataDemo() {
                   {statistics.map((stat) => (
                     <TouchableOpacity
                       key={stat.month_year}
-                      onPress={() => handleMonthSelect(stat.month_year || '')}
+                      onPress={() => handleMonthSelect(stat)}
                       className={`m-1 rounded-full px-3 py-1 ${
                         selectedMonth === stat.month_year ? 'bg-maple-leaf' : 'bg-gray-200'
                       }`}>
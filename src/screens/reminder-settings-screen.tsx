@@ -0,0 +1,211 @@
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Switch, Text, TouchableOpacity, View } from 'react-native';
+
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { colors } from '../constants/colors';
+import {
+  COMPLETION_REMINDER_DAY_OPTIONS,
+  REMINDER_HOUR_OPTIONS,
+  WAIT_REMINDER_DAY_OPTIONS,
+} from '../constants/reminders';
+import { logger } from '../lib/logger';
+import { reminderService } from '../services/reminder-service';
+import { ReminderPreferences, RootStackParamList } from '../types';
+
+type ReminderSettingsScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'ReminderSettings'
+>;
+
+interface ToggleRowProps {
+  label: string;
+  description: string;
+  value: boolean;
+  disabled?: boolean;
+  onValueChange: (value: boolean) => void;
+}
+
+/**
+ * Label with a switch, used for each kind of reminder
+ */
+const ToggleRow = ({ label, description, value, disabled, onValueChange }: ToggleRowProps) => (
+  <View className="flex-row items-center justify-between">
+    <View className="flex-1 pr-3">
+      <Text className="text-sm font-semibold text-text-primary">{label}</Text>
+      <Text className="text-xs text-text-secondary">{description}</Text>
+    </View>
+    <Switch
+      value={value}
+      disabled={disabled}
+      onValueChange={onValueChange}
+      trackColor={{ true: colors.maple.red }}
+    />
+  </View>
+);
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  disabled?: boolean;
+  onPress: () => void;
+}
+
+const Chip = ({ label, selected, disabled, onPress }: ChipProps) => (
+  <TouchableOpacity
+    onPress={onPress}
+    disabled={disabled}
+    className={`mb-2 mr-2 rounded-full px-3 py-1.5 ${
+      selected ? 'bg-maple-red' : 'border border-frost bg-white'
+    } ${disabled ? 'opacity-50' : ''}`}>
+    <Text className={`text-sm font-medium ${selected ? 'text-white' : 'text-[#475569]'}`}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+/**
+ * Screen for choosing the reminders sent about the timeline
+ */
+export default function ReminderSettingsScreen() {
+  const [preferences, setPreferences] = useState<ReminderPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+  const navigation = useNavigation<ReminderSettingsScreenNavigationProp>();
+
+  useEffect(() => {
+    reminderService.getPreferences().then(setPreferences);
+  }, []);
+
+  if (!preferences) {
+    return (
+      <ScreenContent>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.maple.red} />
+        </View>
+      </ScreenContent>
+    );
+  }
+
+  const update = (changes: Partial<ReminderPreferences>) =>
+    setPreferences((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleWaitDay = (days: number) =>
+    update({
+      wait_days: preferences.wait_days.includes(days)
+        ? preferences.wait_days.filter((day) => day !== days)
+        : [...preferences.wait_days, days].sort((a, b) => a - b),
+    });
+
+  /**
+   * Save the preferences, which reschedules the reminders, and return to the previous screen
+   */
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await reminderService.updatePreferences(preferences);
+      navigation.goBack();
+    } catch (error) {
+      logger.error('Error saving reminder preferences', { error });
+      Alert.alert('Save Failed', 'There was a problem saving your reminders. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const disabled = !preferences.enabled;
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title="Reminders"
+          description="Notifications on this device to keep your timeline up to date."
+          size="lg"
+          className="mb-6"
+        />
+
+        <ThemedCard className="mb-4">
+          <ToggleRow
+            label="Send reminders"
+            description="Turn off to cancel every scheduled reminder"
+            value={preferences.enabled}
+            onValueChange={(enabled) => update({ enabled })}
+          />
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <ToggleRow
+            label="Completed requests"
+            description="Ask whether biometrics and medicals are done, and on their usual due date"
+            value={preferences.completion_reminders}
+            disabled={disabled}
+            onValueChange={(completion_reminders) => update({ completion_reminders })}
+          />
+          <Text className="mb-2 mt-4 text-xs font-semibold text-text-secondary">
+            Days after the request
+          </Text>
+          <View className="flex-row flex-wrap">
+            {COMPLETION_REMINDER_DAY_OPTIONS.map((days) => (
+              <Chip
+                key={days}
+                label={`${days} days`}
+                selected={preferences.completion_after_days === days}
+                disabled={disabled || !preferences.completion_reminders}
+                onPress={() => update({ completion_after_days: days })}
+              />
+            ))}
+          </View>
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <ToggleRow
+            label="Long waits"
+            description="A nudge on chosen days since your latest milestone"
+            value={preferences.wait_reminders}
+            disabled={disabled}
+            onValueChange={(wait_reminders) => update({ wait_reminders })}
+          />
+          <View className="mt-4 flex-row flex-wrap">
+            {WAIT_REMINDER_DAY_OPTIONS.map((days) => (
+              <Chip
+                key={days}
+                label={`Day ${days}`}
+                selected={preferences.wait_days.includes(days)}
+                disabled={disabled || !preferences.wait_reminders}
+                onPress={() => toggleWaitDay(days)}
+              />
+            ))}
+          </View>
+        </ThemedCard>
+
+        <ThemedCard className="mb-6">
+          <Text className="mb-2 text-sm font-semibold text-text-primary">Time of day</Text>
+          <View className="flex-row flex-wrap">
+            {REMINDER_HOUR_OPTIONS.map((option) => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                selected={preferences.hour === option.value}
+                disabled={disabled}
+                onPress={() => update({ hour: option.value })}
+              />
+            ))}
+          </View>
+        </ThemedCard>
+
+        <View className="w-full flex-row justify-end gap-4">
+          <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton variant="primary" onPress={handleSave} loading={saving}>
+            Save Reminders
+          </ThemedButton>
+        </View>
+      </View>
+    </ScreenContent>
+  );
+}
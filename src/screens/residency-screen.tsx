@@ -0,0 +1,183 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { format, parseISO } from 'date-fns';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Text, View } from 'react-native';
+
+import { ProgressBar } from '../components/progress-bar';
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { StatusBadge } from '../components/status-badge';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { colors } from '../constants/colors';
+import { logger } from '../lib/logger';
+import {
+  assessTrip,
+  computeResidencyStatus,
+  getPrStartDate,
+  getTripAbsentDays,
+  isPlannedTrip,
+} from '../lib/residency';
+import { timelineService } from '../services/timeline-service';
+import { tripService } from '../services/trip-service';
+import { RootStackParamList, Trip, TripRisk } from '../types';
+
+type ResidencyScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Residency'>;
+
+const RISK_BADGES: Record<TripRisk, { status: 'completed' | 'waiting' | 'active'; label: string }> =
+  {
+    ok: { status: 'completed', label: 'On track' },
+    tight: { status: 'waiting', label: 'Tight' },
+    breach: { status: 'active', label: 'At risk' },
+  };
+
+const formatDay = (day: string) => format(parseISO(day), 'MMM d, yyyy');
+
+/**
+ * Screen for the residency obligation of permanent residents: days in Canada
+ * since the ecoPR and a log of trips outside Canada
+ */
+export default function ResidencyScreen() {
+  const [prStartDate, setPrStartDate] = useState<string | null>(null);
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigation = useNavigation<ResidencyScreenNavigationProp>();
+
+  /**
+   * Load the ecoPR date from the timeline and the logged trips
+   */
+  const loadResidency = async () => {
+    try {
+      const [entries, loggedTrips] = await Promise.all([
+        timelineService.getUserTimeline(),
+        tripService.getTrips(),
+      ]);
+      setPrStartDate(getPrStartDate(entries));
+      setTrips(loggedTrips);
+    } catch (error) {
+      logger.error('Error loading residency data', { error });
+      Alert.alert('Error Loading Trips', 'There was a problem loading your trips.', [
+        { text: 'OK' },
+      ]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadResidency();
+    }, [])
+  );
+
+  const openTripForm = (trip?: Trip) => {
+    navigation.navigate('TripForm', {
+      trip,
+      prStartDate: prStartDate ?? undefined,
+      trips,
+      onComplete: loadResidency,
+    });
+  };
+
+  if (loading) {
+    return (
+      <ScreenContent>
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color={colors.maple.red} />
+        </View>
+      </ScreenContent>
+    );
+  }
+
+  const status = prStartDate ? computeResidencyStatus(prStartDate, trips) : null;
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title="Residency Obligation"
+          description="Permanent residents must spend 730 days in Canada in every 5-year period."
+          size="lg"
+          className="mb-6"
+        />
+
+        {status ? (
+          <ThemedCard className="mb-6" variant="elevated">
+            <View className="mb-2 flex-row items-end justify-between">
+              <Text className="text-3xl font-bold text-text-primary">{status.days_present}</Text>
+              <Text className="text-sm text-text-secondary">{`of ${status.days_required} days in Canada`}</Text>
+            </View>
+            <ProgressBar
+              progress={status.days_present / status.days_required}
+              color={status.obligation_met ? colors.status.success : colors.maple.red}
+              height={8}
+            />
+            <Text className="mt-3 text-sm text-text-secondary">
+              {status.obligation_met
+                ? 'Obligation met as of today.'
+                : status.projected_met_date
+                  ? `Met on ${formatDay(status.projected_met_date)} if you stay in Canada outside the trips below.`
+                  : 'Not reachable within 5 years with the trips below.'}
+            </Text>
+            <Text className="mt-1 text-xs text-text-tertiary">
+              {`Counted since ${formatDay(status.window_start)} · ${status.days_absent} days abroad · PR since ${formatDay(status.pr_start)}`}
+            </Text>
+          </ThemedCard>
+        ) : (
+          <ThemedCard className="mb-6 items-center py-6">
+            <Ionicons name="airplane-outline" size={32} color="#94a3b8" />
+            <Text className="mt-2 text-center text-sm text-text-secondary">
+              Record your ecoPR to start counting days towards the residency obligation. You can
+              already log trips.
+            </Text>
+          </ThemedCard>
+        )}
+
+        <View className="mb-3 flex-row items-center justify-between">
+          <Text className="text-lg font-bold text-text-primary">Trips</Text>
+          <ThemedButton size="sm" onPress={() => openTripForm()}>
+            Log Trip
+          </ThemedButton>
+        </View>
+
+        {trips.length === 0 && (
+          <Text className="text-sm text-text-secondary">No trips outside Canada logged yet.</Text>
+        )}
+
+        {trips.map((trip) => {
+          const assessment =
+            prStartDate && isPlannedTrip(trip) ? assessTrip(prStartDate, trips, trip) : null;
+
+          return (
+            <ThemedCard key={trip.id} className="mb-3" onPress={() => openTripForm(trip)}>
+              <View className="flex-row items-center justify-between">
+                <View className="flex-1 pr-2">
+                  <Text className="text-base font-semibold text-text-primary">
+                    {trip.destination}
+                  </Text>
+                  <Text className="text-xs text-text-secondary">
+                    {`${formatDay(trip.departure_date)} – ${
+                      trip.return_date ? formatDay(trip.return_date) : 'still abroad'
+                    } · ${getTripAbsentDays(trip)} days abroad`}
+                  </Text>
+                  {trip.purpose && (
+                    <Text className="text-xs text-text-tertiary">{trip.purpose}</Text>
+                  )}
+                </View>
+                {assessment && (
+                  <StatusBadge
+                    size="sm"
+                    status={RISK_BADGES[assessment.risk].status}
+                    label={RISK_BADGES[assessment.risk].label}
+                  />
+                )}
+              </View>
+            </ThemedCard>
+          );
+        })}
+      </View>
+    </ScreenContent>
+  );
+}
@@ -1,16 +1,44 @@
+import { formatDistanceToNow, parseISO } from 'date-fns';
 import React, { useEffect, useRef, useState } from 'react';
-import { Animated, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import { Animated, RefreshControl, ScrollView, Text, TouchableOpacity, View } from 'react-native';
 
 import { BarChart } from '../components/charts/bar-chart';
+import { BoxPlotChart } from '../components/charts/box-plot-chart';
+import { HistogramChart } from '../components/charts/histogram-chart';
 import { LineChart } from '../components/charts/line-chart';
+import { CohortSurvivalCard } from '../components/cohort-survival-card';
 import { ScreenContent } from '../components/screen-content';
 import { SectionHeader } from '../components/section-header';
 import { StatisticsCard } from '../components/statistics-card';
+import { FilterChip, StatisticsFilters } from '../components/statistics-filters';
 import { ThemedCard } from '../components/themed-card';
+import { TransitionPicker } from '../components/transition-picker';
+import { WaitingBacklogCard } from '../components/waiting-backlog-card';
+import { getProfileStatisticsFilters } from '../constants/application-profile';
+import { colors } from '../constants/colors';
+import { toBoxPlotSummary } from '../lib/distribution';
 import { logger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
+import { applicationService } from '../services/application-service';
 import { statisticsService } from '../services/statistics-service';
-import { CommunityStatistic, WeeklyBreakdown } from '../types';
+import {
+  CohortSurvival,
+  CommunityStatistic,
+  CommunityStatisticsFilters,
+  DurationHistogramBin,
+  WaitingStatistic,
+  WeeklyBreakdown,
+} from '../types';
+
+/**
+ * Shown in place of figures that are withheld because too few people reported them
+ */
+const NotEnoughData = ({ message }: { message: string }) => (
+  <View className="items-center px-4 py-6">
+    <Text className="text-sm font-medium text-gray-700">Not enough data</Text>
+    <Text className="mt-1 text-center text-xs text-gray-500">{message}</Text>
+  </View>
+);
 
 /**
  * Component to group statistics cards by month
@@ -23,6 +51,15 @@ interface MonthlyStatisticsGroupProps {
 const MonthlyStatisticsGroup = ({ month, statistics }: MonthlyStatisticsGroupProps) => {
   if (!statistics.length) return null;
 
+  if (statistics.every((stat) => stat.suppressed)) {
+    return (
+      <ThemedCard className="mb-2">
+        <SectionHeader title={month} size="sm" />
+        <NotEnoughData message="Too few reports this month to share statistics without identifying anyone" />
+      </ThemedCard>
+    );
+  }
+
   return (
     <ThemedCard className="mb-2">
       <SectionHeader title={month} size="sm" />
@@ -38,37 +75,59 @@ const MonthlyStatisticsGroup = ({ month, statistics }: MonthlyStatisticsGroupPro
   );
 };
 
-/**
- * Transition type options for filtering
- */
-const TRANSITION_TYPES = [
-  { label: 'All', value: undefined },
-  { label: 'AOR → P2', value: 'aor-p2' },
-  { label: 'P2 → ecoPR', value: 'p2-ecopr' },
-  { label: 'ecoPR → PR Card', value: 'ecopr-pr_card' },
-];
-
 /**
  * View modes for statistics display
  */
 const VIEW_MODES = [
   { label: 'Processing Times', value: 'processing_times' },
   { label: 'P2 Waiting ecoPR', value: 'p2_waiting_ecopr' },
+  { label: 'Distribution', value: 'distribution' },
+];
+
+/**
+ * Transition the view mode works on: the waiting view is always P2 → ecoPR,
+ * the distribution view needs a single transition and falls back to P2 → ecoPR
+ */
+const getEffectiveTransitionType = (viewMode: string, selectedTransitionType?: string) => {
+  if (viewMode === 'p2_waiting_ecopr') return 'p2-ecopr';
+  if (viewMode === 'distribution') return selectedTransitionType || 'p2-ecopr';
+  return selectedTransitionType;
+};
+
+// Bin widths offered for the duration histogram, in days
+const HISTOGRAM_BIN_WIDTHS = [
+  { label: '1 week', value: '7' },
+  { label: '2 weeks', value: '14' },
+  { label: '30 days', value: '30' },
 ];
 
+// Number of recent cohort months overlaid on the cohort progress chart
+const COHORT_COUNT = 4;
+
 /**
  * Screen for displaying community statistics with enhanced visualizations
  */
 export default function StatisticsScreen() {
   const [statistics, setStatistics] = useState<CommunityStatistic[]>([]);
+  const [waitingStatistics, setWaitingStatistics] = useState<WaitingStatistic[]>([]);
+  const [cohorts, setCohorts] = useState<CohortSurvival[]>([]);
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false); // Pull-to-refresh in progress
+  const [revalidating, setRevalidating] = useState(false); // Cached statistics shown, fresh ones loading
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [updateFailed, setUpdateFailed] = useState(false); // Statistics shown, but the refresh failed
   const [selectedTransitionType, setSelectedTransitionType] = useState<string | undefined>(
     undefined
   );
   const [viewMode, setViewMode] = useState<string>('p2_waiting_ecopr'); // Default to P2 waiting ecoPR view
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
   const [weeklyBreakdown, setWeeklyBreakdown] = useState<WeeklyBreakdown[]>([]);
+  const [histogram, setHistogram] = useState<DurationHistogramBin[]>([]);
+  const [binWidth, setBinWidth] = useState(7);
   const [useMockData, setUseMockData] = useState(statisticsService.useMockData);
+  const [filters, setFilters] = useState<CommunityStatisticsFilters>({});
+  const [includeFlagged, setIncludeFlagged] = useState(false);
+  const [profileFilters, setProfileFilters] = useState<CommunityStatisticsFilters | undefined>();
   const [error, setError] = useState<string | null>(null);
 
   // Chart type selection states
@@ -87,14 +146,37 @@ export default function StatisticsScreen() {
     loadStatistics(); // Reload data after toggling
   };
 
+  /**
+   * Fade the statistics in and scroll the trend chart to the latest month
+   */
+  const revealStatistics = () => {
+    Animated.timing(fadeAnim, {
+      toValue: 1,
+      duration: 500,
+      useNativeDriver: true,
+    }).start();
+
+    // Scroll to the end after a short delay to ensure chart is rendered
+    setTimeout(() => {
+      if (chartsScrollViewRef.current) {
+        chartsScrollViewRef.current.scrollToEnd({ animated: false });
+      }
+    }, 100);
+  };
+
   /**
    * Load community statistics from the service
+   * Cached statistics are shown right away and revalidated in the background once stale
+   * When the refresh fails, statistics already on screen stay there with a note instead of an error
+   *
+   * @param forceRefresh - Skip the cache, e.g. on pull-to-refresh
    */
-  const loadStatistics = async () => {
+  const loadStatistics = async (forceRefresh = false) => {
+    let statisticsShown = false;
+
     try {
-      setLoading(true);
       setError(null);
-      fadeAnim.setValue(0);
+      setUpdateFailed(false);
 
       // Clear any selected month when loading new data
       setSelectedMonth(null);
@@ -112,70 +194,191 @@ export default function StatisticsScreen() {
       }
 
       // Set the transition type based on view mode
-      const effectiveTransitionType =
-        viewMode === 'p2_waiting_ecopr' ? 'p2-ecopr' : selectedTransitionType;
-
-      const data = await statisticsService.getCommunityStats(effectiveTransitionType);
-      setStatistics(data);
-
-      // Fade in animation
-      Animated.timing(fadeAnim, {
-        toValue: 1,
-        duration: 500,
-        useNativeDriver: true,
-      }).start();
-
-      // Scroll to the end after a short delay to ensure chart is rendered
-      setTimeout(() => {
-        if (chartsScrollViewRef.current) {
-          chartsScrollViewRef.current.scrollToEnd({ animated: false });
+      const effectiveTransitionType = getEffectiveTransitionType(viewMode, selectedTransitionType);
+
+      const previous = await statisticsService.getCachedCommunityStats(
+        effectiveTransitionType,
+        filters,
+        includeFlagged
+      );
+      const cached = forceRefresh ? null : previous;
+
+      if (cached) {
+        setStatistics(cached.data);
+        setUpdatedAt(cached.fetched_at);
+        setLoading(false);
+        revealStatistics();
+        statisticsShown = true;
+      } else if (forceRefresh) {
+        setRefreshing(true);
+      } else {
+        setLoading(true);
+        fadeAnim.setValue(0);
+      }
+
+      let data = cached?.data ?? [];
+      if (!cached || cached.stale) {
+        setRevalidating(!!cached);
+        const fresh = await statisticsService.getCommunityStats(
+          effectiveTransitionType,
+          filters,
+          includeFlagged,
+          forceRefresh
+        );
+        const refreshed = await statisticsService.getCachedCommunityStats(
+          effectiveTransitionType,
+          filters,
+          includeFlagged
+        );
+
+        // The service answers with the cached statistics when the server can't be reached
+        if (previous && refreshed?.fetched_at === previous.fetched_at) {
+          setUpdateFailed(true);
+        }
+
+        // Keep the cached statistics on screen unless the refresh brought new ones
+        if (!cached || refreshed?.fetched_at !== cached.fetched_at) {
+          data = fresh;
+          setStatistics(data);
+          setUpdatedAt(refreshed?.fetched_at ?? null);
+          statisticsShown = data.length > 0;
         }
-      }, 100);
+
+        if (!cached) {
+          revealStatistics();
+        }
+      }
+
+      // Cohorts need a single transition
+      setCohorts(effectiveTransitionType ? await loadCohorts(effectiveTransitionType, data) : []);
+
+      // Open waits are only shown in the waiting view
+      setWaitingStatistics(
+        viewMode === 'p2_waiting_ecopr'
+          ? await statisticsService.getWaitingStats('p2-ecopr', filters)
+          : []
+      );
     } catch (error) {
-      logger.error('Error loading statistics', { error });
-      setError('Failed to load statistics. Please try again.');
+      if (statisticsShown) {
+        logger.warn('Could not update statistics, keeping the ones shown', { error });
+        setUpdateFailed(true);
+      } else {
+        logger.error('Error loading statistics', { error });
+        setError('Failed to load statistics. Please try again.');
+      }
     } finally {
       setLoading(false);
+      setRefreshing(false);
+      setRevalidating(false);
+    }
+  };
+
+  /**
+   * Load the survival curves of the most recent cohort months of a transition
+   */
+  const loadCohorts = async (
+    transitionType: string,
+    monthlyStatistics: CommunityStatistic[]
+  ): Promise<CohortSurvival[]> => {
+    const cohortMonths = monthlyStatistics
+      .filter((stat) => stat.transition_type === transitionType && !stat.suppressed)
+      .flatMap((stat) => (stat.report_date ? [stat.report_date] : []))
+      .sort()
+      .reverse()
+      .slice(0, COHORT_COUNT);
+
+    const results = await Promise.all(
+      cohortMonths.map((month) =>
+        statisticsService.getCohortSurvival(transitionType, month, filters, includeFlagged)
+      )
+    );
+
+    return results.filter((cohort): cohort is CohortSurvival => cohort !== null);
+  };
+
+  /**
+   * Load the profile of the selected application for the "Match my application" chip
+   */
+  const loadProfileFilters = async () => {
+    try {
+      const applications = await applicationService.getApplications();
+      const selectedId = await applicationService.getSelectedApplicationId();
+      const application = applications.find((item) => item.id === selectedId) || applications[0];
+
+      setProfileFilters(application ? getProfileStatisticsFilters(application) : undefined);
+    } catch (error) {
+      logger.warn('Could not load application profile for statistics filters', { error });
     }
   };
 
+  useEffect(() => {
+    loadProfileFilters();
+  }, []);
+
   // Load statistics when component mounts or filter changes
   useEffect(() => {
     loadStatistics();
-  }, [selectedTransitionType, viewMode]);
+  }, [selectedTransitionType, viewMode, includeFlagged, JSON.stringify(filters)]);
+
+  // The weekly drill-down needs a single transition
+  const drillDownTransitionType = getEffectiveTransitionType(viewMode, selectedTransitionType);
+
+  // Months with too few reports are listed, but left out of charts and drill-downs
+  const publishedStatistics = statistics.filter((stat) => !stat.suppressed);
+
+  /**
+   * Load the duration histogram of the distribution view
+   */
+  const loadHistogram = async () => {
+    if (viewMode !== 'distribution' || !drillDownTransitionType) {
+      setHistogram([]);
+      return;
+    }
+
+    const bins = await statisticsService.getDurationHistogram(
+      drillDownTransitionType,
+      binWidth,
+      filters,
+      includeFlagged
+    );
+    setHistogram(bins);
+  };
+
+  // The bin width only changes the histogram, not the rest of the screen
+  useEffect(() => {
+    loadHistogram();
+  }, [
+    drillDownTransitionType,
+    viewMode,
+    binWidth,
+    useMockData,
+    includeFlagged,
+    JSON.stringify(filters),
+  ]);
 
   /**
    * Handle month selection for weekly breakdown
    */
-  const handleMonthSelect = (month: string) => {
-    if (selectedMonth === month) {
+  const handleMonthSelect = async (stat: CommunityStatistic) => {
+    if (!stat.month_year || selectedMonth === stat.month_year) {
       // Deselect if already selected
       setSelectedMonth(null);
       setWeeklyBreakdown([]);
-    } else {
-      // Select new month and get/generate weekly breakdown
-      setSelectedMonth(month);
+      return;
+    }
 
-      // Find the statistic for the selected month
-      const statForMonth = statistics.find(
-        (stat) => stat.month_year === month && stat.transition_type === 'p2-ecopr'
-      );
+    setSelectedMonth(stat.month_year);
+    setWeeklyBreakdown([]);
 
-      // Use week_breakdown from the statistics if available
-      if (statForMonth?.week_breakdown && statForMonth.week_breakdown.length > 0) {
-        setWeeklyBreakdown(statForMonth.week_breakdown);
-      } else {
-        // Otherwise generate mock weekly data - this would normally come from the API
-        const mockWeeklyData: WeeklyBreakdown[] = [
-          { week_range: '1-7', count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: '8-14', count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: '15-21', count: Math.floor(Math.random() * 5) + 1 },
-          { week_range: '22-28', count: Math.floor(Math.random() * 5) + 1 },
-        ];
-
-        setWeeklyBreakdown(mockWeeklyData);
-      }
-    }
+    if (!drillDownTransitionType || !stat.report_date) return;
+
+    const breakdown = await statisticsService.getWeeklyBreakdown(
+      drillDownTransitionType,
+      stat.report_date,
+      filters,
+      includeFlagged
+    );
+    setWeeklyBreakdown(breakdown);
   };
 
   // Chart selection component
@@ -215,7 +418,7 @@ export default function StatisticsScreen() {
   const getProcessingTimesChartData = () => {
     // If no specific transition type is selected (All), show all transitions
     // Otherwise, filter by the selected transition type
-    const filteredStats = statistics.filter(
+    const filteredStats = publishedStatistics.filter(
       (stat) => !selectedTransitionType || stat.transition_type === selectedTransitionType
     );
     return {
@@ -232,12 +435,11 @@ export default function StatisticsScreen() {
    * Prepare data for the P2 waiting ecoPR chart
    */
   const getWaitingChartData = () => {
-    const filteredStats = statistics.filter((stat) => stat.transition_type === 'p2-ecopr');
     return {
-      labels: filteredStats.map((stat) => stat.month_year || ''),
+      labels: waitingStatistics.map((stat) => stat.month_year || ''),
       datasets: [
         {
-          data: filteredStats.map((stat) => stat.waiting_count || stat.count || 0),
+          data: waitingStatistics.map((stat) => stat.waiting_count),
         },
       ],
     };
@@ -289,58 +491,49 @@ export default function StatisticsScreen() {
               'Area charts emphasize the magnitude of values over time'}
           </Text>
 
-          <ScrollView
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            ref={chartsScrollViewRef}
-            contentContainerStyle={{ paddingHorizontal: 5 }}>
-            <View className="min-w-full">
-              {timeSeriesChartType === 'line' && (
-                <LineChart
-                  data={chartData}
-                  yAxisSuffix={yAxisSuffix}
-                  showDots
-                  isWeekly={selectedMonth !== null}
-                />
-              )}
-
-              {timeSeriesChartType === 'bar' && (
-                <BarChart
-                  data={chartData}
-                  yAxisSuffix={yAxisSuffix}
-                  isWeekly={selectedMonth !== null}
-                />
-              )}
-
-              {timeSeriesChartType === 'area' && (
-                <LineChart
-                  data={chartData}
-                  yAxisSuffix={yAxisSuffix}
-                  showDots={false}
-                  isArea
-                  isWeekly={selectedMonth !== null}
-                />
-              )}
-            </View>
-          </ScrollView>
+          {chartData.labels.length ? (
+            <>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                ref={chartsScrollViewRef}
+                contentContainerStyle={{ paddingHorizontal: 5 }}>
+                <View className="min-w-full">
+                  {timeSeriesChartType === 'line' && (
+                    <LineChart data={chartData} yAxisSuffix={yAxisSuffix} showDots />
+                  )}
+
+                  {timeSeriesChartType === 'bar' && (
+                    <BarChart data={chartData} yAxisSuffix={yAxisSuffix} />
+                  )}
+
+                  {timeSeriesChartType === 'area' && (
+                    <LineChart data={chartData} yAxisSuffix={yAxisSuffix} showDots={false} isArea />
+                  )}
+                </View>
+              </ScrollView>
 
-          <Text className="mt-2 text-center text-xs italic text-gray-500">
-            Swipe horizontally to view more months
-          </Text>
+              <Text className="mt-2 text-center text-xs italic text-gray-500">
+                Swipe horizontally to view more months
+              </Text>
+            </>
+          ) : (
+            <NotEnoughData message="No month has enough reports to chart yet" />
+          )}
 
-          {viewMode === 'p2_waiting_ecopr' && (
+          {drillDownTransitionType && (
             <View className="mt-4">
               <Text className="mb-2 text-center text-xs text-gray-500">
                 Select a month to see weekly breakdown
               </Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 <View className="flex-row flex-wrap">
-                  {statistics
-                    .filter((stat) => stat.transition_type === 'p2-ecopr')
+                  {publishedStatistics
+                    .filter((stat) => stat.transition_type === drillDownTransitionType)
                     .map((stat) => (
                       <TouchableOpacity
                         key={stat.month_year}
-                        onPress={() => handleMonthSelect(stat.month_year || '')}
+                        onPress={() => handleMonthSelect(stat)}
                         className={`m-1 rounded-full px-3 py-1 ${
                           selectedMonth === stat.month_year ? 'bg-maple-leaf' : 'bg-gray-200'
                         }`}>
@@ -361,6 +554,55 @@ export default function StatisticsScreen() {
     );
   };
 
+  const renderDistribution = () => {
+    // Oldest month first, like the trend charts
+    const boxes = publishedStatistics
+      .filter((stat) => stat.transition_type === drillDownTransitionType)
+      .sort((a, b) => (a.report_date || '').localeCompare(b.report_date || ''))
+      .map(toBoxPlotSummary);
+
+    return (
+      <>
+        <ThemedCard className="mb-4">
+          <Text className="mb-1 text-lg font-bold text-gray-800">Duration Distribution</Text>
+          <Text className="mb-2 text-xs text-gray-500">
+            How many applicants took each number of days, over the last 12 months
+          </Text>
+
+          <ChartTypeSelector
+            currentType={String(binWidth)}
+            options={HISTOGRAM_BIN_WIDTHS}
+            onSelect={(value: string) => setBinWidth(Number(value))}
+          />
+
+          {histogram.length ? (
+            <HistogramChart bins={histogram} />
+          ) : (
+            <Text className="py-6 text-center text-sm text-gray-500">
+              No transitions recorded yet
+            </Text>
+          )}
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <Text className="mb-1 text-lg font-bold text-gray-800">Spread by Month</Text>
+          <Text className="mb-2 text-xs text-gray-500">
+            Boxes span the middle half of applicants, the line is the median and circles are
+            unusually short or long waits
+          </Text>
+
+          {boxes.length ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <BoxPlotChart boxes={boxes} />
+            </ScrollView>
+          ) : (
+            <NotEnoughData message="No month has enough reports to chart yet" />
+          )}
+        </ThemedCard>
+      </>
+    );
+  };
+
   const renderWeeklyBreakdown = () => {
     if (!selectedMonth || !weeklyBreakdown.length) return null;
 
@@ -391,7 +633,7 @@ export default function StatisticsScreen() {
         <ScrollView horizontal showsHorizontalScrollIndicator={false}>
           <View className="min-w-full">
             {weeklyChartType === 'line' ? (
-              <LineChart data={getWeeklyBreakdownChartData()} showDots />
+              <LineChart data={getWeeklyBreakdownChartData()} showDots isWeekly />
             ) : weeklyChartType === 'horizontal' ? (
               <BarChart
                 data={{
@@ -410,6 +652,25 @@ export default function StatisticsScreen() {
             )}
           </View>
         </ScrollView>
+
+        <View className="mt-2">
+          {weeklyBreakdown.map((week) => (
+            <View key={week.week_start} className="flex-row justify-between py-1">
+              <Text className="text-xs text-gray-700">
+                {`Week ${week.iso_week} · ${week.week_range}`}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                {week.suppressed
+                  ? 'Too few reports to share'
+                  : !week.count
+                    ? 'No transitions'
+                    : week.median_days === null || week.median_days === undefined
+                      ? `${week.count} started · too few to share a median`
+                      : `${week.count} started · median ${week.median_days} days`}
+              </Text>
+            </View>
+          ))}
+        </View>
       </View>
     );
   };
@@ -445,7 +706,7 @@ export default function StatisticsScreen() {
         <View className="flex-1 items-center justify-center p-4">
           <Text className="mb-2 text-lg font-bold text-red-500">{error}</Text>
           <TouchableOpacity
-            onPress={loadStatistics}
+            onPress={() => loadStatistics(true)}
             className="rounded-full bg-maple-leaf px-4 py-2">
             <Text className="font-medium text-white">Try Again</Text>
           </TouchableOpacity>
@@ -467,10 +728,34 @@ export default function StatisticsScreen() {
 
   return (
     <ScreenContent>
-      <ScrollView showsVerticalScrollIndicator={false} className="flex-1">
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        className="flex-1"
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => loadStatistics(true)}
+            tintColor={colors.maple.red}
+            colors={[colors.maple.red]}
+          />
+        }>
         <Animated.View style={{ opacity: fadeAnim }}>
           <View className="mb-4 flex-row items-center justify-between">
-            <Text className="text-2xl font-bold text-gray-800">Community Statistics</Text>
+            <View>
+              <Text className="text-2xl font-bold text-gray-800">Community Statistics</Text>
+              {updatedAt && (
+                <Text className="text-xs text-gray-500">
+                  {revalidating
+                    ? 'Updating…'
+                    : `Updated ${formatDistanceToNow(parseISO(updatedAt), { addSuffix: true })}`}
+                </Text>
+              )}
+              {updateFailed && !revalidating && (
+                <Text className="text-xs text-red-500">
+                  Couldn't update, pull down to try again
+                </Text>
+              )}
+            </View>
             <TouchableOpacity
               onPress={toggleMockData}
               className={`rounded-full px-3 py-1 ${useMockData ? 'bg-maple-leaf' : 'bg-gray-200'}`}>
@@ -485,26 +770,51 @@ export default function StatisticsScreen() {
             <ChartTypeSelector currentType={viewMode} options={VIEW_MODES} onSelect={setViewMode} />
           </View>
 
+          {/* Application Profile Filters */}
+          <StatisticsFilters
+            filters={filters}
+            onChange={setFilters}
+            profileFilters={profileFilters}
+          />
+
+          {/* Durations flagged as implausible are left out unless asked for */}
+          <View className="mb-4 flex-row items-center">
+            <FilterChip
+              label="Include flagged durations"
+              selected={includeFlagged}
+              onPress={() => setIncludeFlagged(!includeFlagged)}
+            />
+            <Text className="flex-1 text-xs text-gray-500">
+              {includeFlagged
+                ? 'Unusually short or long waits are counted'
+                : 'Unusually short or long waits are excluded'}
+            </Text>
+          </View>
+
           {/* Transition Type Selector */}
-          {viewMode === 'processing_times' && (
+          {viewMode !== 'p2_waiting_ecopr' && (
             <View className="mb-4">
               <Text className="mb-2 text-sm font-medium text-gray-700">
                 Filter by Transition Type
               </Text>
-              <ChartTypeSelector
-                currentType={selectedTransitionType || 'all'}
-                options={TRANSITION_TYPES.map((type) => ({
-                  value: type.value || 'all',
-                  label: type.label,
-                }))}
-                onSelect={(value) => setSelectedTransitionType(value === 'all' ? undefined : value)}
+              <TransitionPicker
+                value={selectedTransitionType}
+                onChange={setSelectedTransitionType}
               />
             </View>
           )}
 
-          {renderChart()}
+          {viewMode === 'distribution' ? renderDistribution() : renderChart()}
           {renderWeeklyBreakdown()}
 
+          {drillDownTransitionType && (
+            <CohortSurvivalCard cohorts={cohorts} transitionType={drillDownTransitionType} />
+          )}
+
+          {viewMode === 'p2_waiting_ecopr' && (
+            <WaitingBacklogCard statistics={waitingStatistics} transitionType="p2-ecopr" />
+          )}
+
           {/* Monthly Statistics Cards */}
           <View className="mb-6 mt-6">
             <Text className="mb-4 text-lg font-bold text-gray-800">Monthly Statistics</Text>
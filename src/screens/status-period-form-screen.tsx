@@ -0,0 +1,212 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { isValid, parse } from 'date-fns';
+import React, { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { ThemedInput } from '../components/themed-input';
+import { TEMPORARY_STATUS_OPTIONS } from '../constants/citizenship';
+import { colors } from '../constants/colors';
+import { logger } from '../lib/logger';
+import { statusPeriodService } from '../services/status-period-service';
+import { RootStackParamList, StatusPeriod, StatusPeriodInput, TemporaryStatusType } from '../types';
+
+type StatusPeriodFormScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'StatusPeriodForm'
+>;
+
+interface StatusPeriodFormScreenProps {
+  route: {
+    params: {
+      period?: StatusPeriod;
+      onComplete?: () => void;
+    };
+  };
+}
+
+/**
+ * Checks that a date is written as YYYY-MM-DD and exists
+ */
+const isValidDay = (text: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && isValid(parse(text, 'yyyy-MM-dd', new Date()));
+
+/**
+ * Screen for entering a period lived in Canada with temporary status before PR
+ */
+export default function StatusPeriodFormScreen({ route }: StatusPeriodFormScreenProps) {
+  const { period, onComplete } = route.params;
+
+  const [statusType, setStatusType] = useState<TemporaryStatusType | null>(
+    period?.status_type ?? null
+  );
+  const [startDate, setStartDate] = useState(period?.start_date ?? '');
+  const [endDate, setEndDate] = useState(period?.end_date ?? '');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const navigation = useNavigation<StatusPeriodFormScreenNavigationProp>();
+
+  /**
+   * Check the form, with a message per field
+   */
+  const validate = (): boolean => {
+    const fieldErrors: Record<string, string> = {};
+    const start = startDate.trim();
+    const end = endDate.trim();
+
+    if (!statusType) {
+      fieldErrors.status_type = 'Choose the status you held';
+    }
+    if (!isValidDay(start)) {
+      fieldErrors.start_date = 'Enter a date in YYYY-MM-DD format';
+    }
+    if (end && !isValidDay(end)) {
+      fieldErrors.end_date = 'Enter a date in YYYY-MM-DD format';
+    } else if (end && end < start) {
+      fieldErrors.end_date = 'End must be on or after start';
+    }
+
+    setErrors(fieldErrors);
+    return Object.keys(fieldErrors).length === 0;
+  };
+
+  /**
+   * Save the period and return to the citizenship screen
+   */
+  const handleSave = async () => {
+    if (!validate() || !statusType) return;
+
+    const draft: StatusPeriodInput = {
+      status_type: statusType,
+      start_date: startDate.trim(),
+      end_date: endDate.trim() || null,
+    };
+
+    try {
+      setSaving(true);
+      if (period) {
+        await statusPeriodService.updateStatusPeriod(period.id, draft);
+      } else {
+        await statusPeriodService.addStatusPeriod(draft);
+      }
+
+      onComplete?.();
+      navigation.goBack();
+    } catch (error) {
+      logger.error('Error saving status period', { error, periodId: period?.id });
+      Alert.alert('Save Failed', 'There was a problem saving this period. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Delete the period after confirmation
+   */
+  const handleDelete = () => {
+    if (!period) return;
+
+    Alert.alert('Delete Period', 'Delete this period with temporary status?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await statusPeriodService.deleteStatusPeriod(period.id);
+            onComplete?.();
+            navigation.goBack();
+          } catch (error) {
+            logger.error('Error deleting status period', { error, periodId: period.id });
+            Alert.alert('Delete Failed', 'There was a problem deleting this period.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title={period ? 'Edit Status Period' : 'Add Status Period'}
+          description="Each day in Canada with temporary status before PR counts as a half day, up to 365 days."
+          size="lg"
+          className="mb-6"
+        />
+
+        <ThemedCard className="mb-4">
+          <Text className="mb-2 text-sm font-semibold text-text-primary">Status</Text>
+          <View className="flex-row flex-wrap">
+            {TEMPORARY_STATUS_OPTIONS.map((option) => {
+              const isSelected = option.value === statusType;
+
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => setStatusType(option.value)}
+                  className={`mb-2 mr-2 rounded-full px-3 py-1.5 ${
+                    isSelected ? 'bg-maple-red' : 'border border-frost bg-white'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-[#475569]'}`}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {errors.status_type && (
+            <Text className="text-xs text-maple-red">{errors.status_type}</Text>
+          )}
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <ThemedInput
+            label="Start"
+            value={startDate}
+            onChangeText={setStartDate}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            error={errors.start_date}
+          />
+          <View className="mt-4">
+            <ThemedInput
+              label="End"
+              value={endDate}
+              onChangeText={setEndDate}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+              helper="Leave empty if it lasted until you became a permanent resident"
+              error={errors.end_date}
+            />
+          </View>
+        </ThemedCard>
+
+        {period && (
+          <TouchableOpacity
+            onPress={handleDelete}
+            className="mb-4 flex-row items-center self-start"
+            accessibilityLabel="Delete status period">
+            <Ionicons name="trash-outline" size={18} color={colors.maple.red} />
+            <Text className="ml-1 text-sm font-medium text-maple-red">Delete period</Text>
+          </TouchableOpacity>
+        )}
+
+        <View className="w-full flex-row justify-end gap-4">
+          <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton variant="primary" onPress={handleSave} loading={saving}>
+            {period ? 'Save Changes' : 'Add Period'}
+          </ThemedButton>
+        </View>
+      </View>
+    </ScreenContent>
+  );
+}
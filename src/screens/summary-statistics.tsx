@@ -6,8 +6,8 @@ import { ActivityIndicator, ScrollView, Text, View } from 'react-native';
 import { ProgressBar } from '../components/progress-bar';
 import { colors } from '../constants/colors';
 import { supabase } from '../lib/supabase';
+import { statisticsService } from '../services/statistics-service';
 import { RootStackParamList, TransitionStatistics } from '../types';
-import { getMockTransitionStatistics } from '../utils/mock-data';
 
 type StatisticsScreenRouteProp = RouteProp<RootStackParamList, 'StatisticsTab'>;
 
@@ -21,6 +21,9 @@ type StatisticsScreenProps = {
   navigation: StatisticsScreenNavigationProp;
 };
 
+// Durations are null until both milestones are recorded
+const formatDays = (days: number | null): string => (days === null ? 'Not yet' : `${days} days`);
+
 /**
  * Screen for displaying community statistics with enhanced visualizations
  */
@@ -58,12 +61,11 @@ export default function StatisticsScreen({ navigation, route }: StatisticsScreen
           return;
         }
 
-        // For now, we're still using mock statistics
-        console.log('Loading mock statistics...');
-        const mockStats = getMockTransitionStatistics('p1');
-        console.log('Mock statistics loaded:', { hasStats: !!mockStats });
+        console.log('Loading user statistics...');
+        const userStats = await statisticsService.getUserStatistics();
+        console.log('User statistics loaded:', { hasStats: !!userStats });
 
-        setStatistics(mockStats);
+        setStatistics(userStats);
         console.log('Statistics state updated');
       } catch (err) {
         console.error('Failed to load statistics:', err);
@@ -146,47 +148,51 @@ export default function StatisticsScreen({ navigation, route }: StatisticsScreen
           <View className="mb-4">
             <View className="mb-1 flex-row justify-between">
               <Text className="text-gray-700">Submission to AOR</Text>
-              <Text className="font-semibold text-gray-800">{statistics.submissionToAOR} days</Text>
+              <Text className="font-semibold text-gray-800">
+                {formatDays(statistics.submissionToAOR)}
+              </Text>
             </View>
-            <ProgressBar progress={statistics.submissionToAOR / 120} />
+            <ProgressBar progress={(statistics.submissionToAOR ?? 0) / 120} />
           </View>
 
           <View className="mb-4">
             <View className="mb-1 flex-row justify-between">
               <Text className="text-gray-700">AOR to Biometrics</Text>
-              <Text className="font-semibold text-gray-800">{statistics.aorToBiometrics} days</Text>
+              <Text className="font-semibold text-gray-800">
+                {formatDays(statistics.aorToBiometrics)}
+              </Text>
             </View>
-            <ProgressBar progress={statistics.aorToBiometrics / 90} />
+            <ProgressBar progress={(statistics.aorToBiometrics ?? 0) / 90} />
           </View>
 
           <View className="mb-4">
             <View className="mb-1 flex-row justify-between">
               <Text className="text-gray-700">Biometrics to Medicals</Text>
               <Text className="font-semibold text-gray-800">
-                {statistics.biometricsToMedicals} days
+                {formatDays(statistics.biometricsToMedicals)}
               </Text>
             </View>
-            <ProgressBar progress={statistics.biometricsToMedicals / 30} />
+            <ProgressBar progress={(statistics.biometricsToMedicals ?? 0) / 30} />
           </View>
 
           <View className="mb-4">
             <View className="mb-1 flex-row justify-between">
               <Text className="text-gray-700">Background Check Duration</Text>
               <Text className="font-semibold text-gray-800">
-                {statistics.backgroundCheckDuration} days
+                {formatDays(statistics.backgroundCheckDuration)}
               </Text>
             </View>
-            <ProgressBar progress={statistics.backgroundCheckDuration / 90} />
+            <ProgressBar progress={(statistics.backgroundCheckDuration ?? 0) / 90} />
           </View>
 
           <View>
             <View className="mb-1 flex-row justify-between">
               <Text className="text-gray-700">Total Processing Time</Text>
               <Text className="font-semibold text-gray-800">
-                {statistics.totalProcessingTime} days
+                {formatDays(statistics.totalProcessingTime)}
               </Text>
             </View>
-            <ProgressBar progress={statistics.totalProcessingTime / 300} />
+            <ProgressBar progress={(statistics.totalProcessingTime ?? 0) / 300} />
           </View>
         </View>
 
@@ -201,10 +207,12 @@ export default function StatisticsScreen({ navigation, route }: StatisticsScreen
           </View>
           <ProgressBar progress={statistics.applicationProgress / 100} />
 
-          <Text className="mt-4 text-sm text-gray-500">
-            Based on similar applications, you are approximately {statistics.estimatedDaysRemaining}{' '}
-            days away from receiving your final decision.
-          </Text>
+          {statistics.estimatedDaysRemaining !== null && (
+            <Text className="mt-4 text-sm text-gray-500">
+              Based on similar applications, you are approximately{' '}
+              {statistics.estimatedDaysRemaining} days away from receiving your final decision.
+            </Text>
+          )}
         </View>
 
         <View
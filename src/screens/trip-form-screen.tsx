@@ -0,0 +1,231 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { isValid, parse } from 'date-fns';
+import React, { useState } from 'react';
+import { Alert, Text, TouchableOpacity, View } from 'react-native';
+
+import { ScreenContent } from '../components/screen-content';
+import { SectionHeader } from '../components/section-header';
+import { ThemedButton } from '../components/themed-button';
+import { ThemedCard } from '../components/themed-card';
+import { ThemedInput } from '../components/themed-input';
+import { colors } from '../constants/colors';
+import { logger } from '../lib/logger';
+import { assessTrip, getTripAbsentDays, isPlannedTrip } from '../lib/residency';
+import { tripService } from '../services/trip-service';
+import { RootStackParamList, Trip, TripInput } from '../types';
+
+type TripFormScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'TripForm'>;
+
+interface TripFormScreenProps {
+  route: {
+    params: {
+      trip?: Trip;
+      prStartDate?: string;
+      trips: Trip[];
+      onComplete?: () => void;
+    };
+  };
+}
+
+/**
+ * Checks that a date is written as YYYY-MM-DD and exists
+ */
+const isValidDay = (text: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && isValid(parse(text, 'yyyy-MM-dd', new Date()));
+
+/**
+ * Screen for logging a trip outside Canada, past or planned
+ * Warns while typing when the trip would put the residency obligation at risk
+ */
+export default function TripFormScreen({ route }: TripFormScreenProps) {
+  const { trip, prStartDate, trips, onComplete } = route.params;
+
+  const [departureDate, setDepartureDate] = useState(trip?.departure_date ?? '');
+  const [returnDate, setReturnDate] = useState(trip?.return_date ?? '');
+  const [destination, setDestination] = useState(trip?.destination ?? '');
+  const [purpose, setPurpose] = useState(trip?.purpose ?? '');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const navigation = useNavigation<TripFormScreenNavigationProp>();
+
+  const draft: TripInput = {
+    departure_date: departureDate.trim(),
+    return_date: returnDate.trim() || null,
+    destination,
+    purpose,
+  };
+  const hasValidDates =
+    isValidDay(draft.departure_date) &&
+    (!draft.return_date ||
+      (isValidDay(draft.return_date) && draft.return_date >= draft.departure_date));
+  const assessment =
+    prStartDate && hasValidDates
+      ? assessTrip(prStartDate, trips, { ...draft, id: trip?.id })
+      : null;
+
+  /**
+   * Check the form, with a message per field
+   */
+  const validate = (): boolean => {
+    const fieldErrors: Record<string, string> = {};
+
+    if (!isValidDay(draft.departure_date)) {
+      fieldErrors.departure_date = 'Enter a date in YYYY-MM-DD format';
+    }
+    if (draft.return_date && !isValidDay(draft.return_date)) {
+      fieldErrors.return_date = 'Enter a date in YYYY-MM-DD format';
+    } else if (draft.return_date && draft.return_date < draft.departure_date) {
+      fieldErrors.return_date = 'Return must be on or after departure';
+    } else if (!draft.return_date && isPlannedTrip(draft)) {
+      fieldErrors.return_date = 'Add the planned return date';
+    }
+    if (!destination.trim()) {
+      fieldErrors.destination = 'Where are you going?';
+    }
+
+    setErrors(fieldErrors);
+    return Object.keys(fieldErrors).length === 0;
+  };
+
+  /**
+   * Save the trip and return to the trip log
+   */
+  const handleSave = async () => {
+    if (!validate()) return;
+
+    try {
+      setSaving(true);
+      if (trip) {
+        await tripService.updateTrip(trip.id, draft);
+      } else {
+        await tripService.addTrip(draft);
+      }
+
+      onComplete?.();
+      navigation.goBack();
+    } catch (error) {
+      logger.error('Error saving trip', { error, tripId: trip?.id });
+      Alert.alert('Save Failed', 'There was a problem saving your trip. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Delete the trip after confirmation
+   */
+  const handleDelete = () => {
+    if (!trip) return;
+
+    Alert.alert('Delete Trip', `Delete your trip to ${trip.destination}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await tripService.deleteTrip(trip.id);
+            onComplete?.();
+            navigation.goBack();
+          } catch (error) {
+            logger.error('Error deleting trip', { error, tripId: trip.id });
+            Alert.alert('Delete Failed', 'There was a problem deleting your trip.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScreenContent scrollable>
+      <View className="flex-1 py-6">
+        <SectionHeader
+          title={trip ? 'Edit Trip' : 'Log a Trip'}
+          description="The days you leave and come back count as days in Canada."
+          size="lg"
+          className="mb-6"
+        />
+
+        <ThemedCard className="mb-4">
+          <ThemedInput
+            label="Departure"
+            value={departureDate}
+            onChangeText={setDepartureDate}
+            placeholder="YYYY-MM-DD"
+            keyboardType="numbers-and-punctuation"
+            error={errors.departure_date}
+          />
+          <View className="mt-4">
+            <ThemedInput
+              label="Return"
+              value={returnDate}
+              onChangeText={setReturnDate}
+              placeholder="YYYY-MM-DD"
+              keyboardType="numbers-and-punctuation"
+              helper="Leave empty if you are still abroad"
+              error={errors.return_date}
+            />
+          </View>
+        </ThemedCard>
+
+        <ThemedCard className="mb-4">
+          <ThemedInput
+            label="Destination"
+            value={destination}
+            onChangeText={setDestination}
+            placeholder="e.g. France"
+            error={errors.destination}
+          />
+          <View className="mt-4">
+            <ThemedInput
+              label="Purpose"
+              value={purpose}
+              onChangeText={setPurpose}
+              placeholder="e.g. Family visit"
+            />
+          </View>
+        </ThemedCard>
+
+        {hasValidDates && (
+          <Text className="mb-2 text-sm text-text-secondary">
+            {`${getTripAbsentDays(draft)} days outside Canada`}
+          </Text>
+        )}
+
+        {assessment && assessment.risk !== 'ok' && (
+          <ThemedCard className="mb-4 border border-maple-red/30 bg-maple-red/5">
+            <View className="flex-row items-start">
+              <Ionicons name="warning-outline" size={20} color={colors.maple.red} />
+              <Text className="ml-2 flex-1 text-sm text-text-primary">
+                {assessment.risk === 'breach'
+                  ? `Coming back on this date, you would be ${-assessment.margin_days} days short of the 730 days in Canada required to keep PR status.`
+                  : `Coming back on this date leaves only ${assessment.margin_days} more days you can spend outside Canada.`}
+              </Text>
+            </View>
+          </ThemedCard>
+        )}
+
+        {trip && (
+          <TouchableOpacity
+            onPress={handleDelete}
+            className="mb-4 flex-row items-center self-start"
+            accessibilityLabel="Delete trip">
+            <Ionicons name="trash-outline" size={18} color={colors.maple.red} />
+            <Text className="ml-1 text-sm font-medium text-maple-red">Delete trip</Text>
+          </TouchableOpacity>
+        )}
+
+        <View className="w-full flex-row justify-end gap-4">
+          <ThemedButton variant="secondary" onPress={() => navigation.goBack()}>
+            Cancel
+          </ThemedButton>
+          <ThemedButton variant="primary" onPress={handleSave} loading={saving}>
+            {trip ? 'Save Changes' : 'Add Trip'}
+          </ThemedButton>
+        </View>
+      </View>
+    </ScreenContent>
+  );
+}
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getSessionUserId } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import {
+  Application,
+  ApplicationNotFoundError,
+  ApplicationProfile,
+  DatabaseError,
+  ValidationError,
+} from '../types';
+
+const APPLICATIONS_KEY_PREFIX = '@timeline-ecopr/applications/';
+const SELECTED_APPLICATION_KEY_PREFIX = '@timeline-ecopr/selected-application/';
+
+/**
+ * Name given to the application created for users who don't have one yet
+ */
+export const DEFAULT_APPLICATION_NAME = 'My Application';
+
+/**
+ * Service for managing the immigration applications of the signed in user
+ * The list is cached locally so the application switcher works offline
+ */
+export const applicationService = {
+  /**
+   * Retrieves the applications of the authenticated user, oldest first
+   * Creates a default application when the user has none yet
+   *
+   * @returns Promise resolving to the user's applications
+   * @throws DatabaseError if a database operation fails
+   */
+  async getApplications(): Promise<Application[]> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      logger.warn('Attempted to get applications without authentication');
+      return [];
+    }
+
+    const cacheKey = `${APPLICATIONS_KEY_PREFIX}${userId}`;
+
+    try {
+      const { data, error } = await supabase
+        .from('applications')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting applications', { error });
+        throw new DatabaseError(error.message, {
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
+        });
+      }
+
+      let applications = data as Application[];
+      if (applications.length === 0) {
+        applications = await this._ensureDefaultApplication();
+      }
+
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(applications));
+      return applications;
+    } catch (error) {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        logger.warn('Falling back to cached applications', { error });
+        return JSON.parse(cached) as Application[];
+      }
+
+      throw error;
+    }
+  },
+
+  /**
+   * Creates a new application for the authenticated user
+   *
+   * @param name - Display name of the application
+   * @returns Promise resolving to the created application
+   * @throws ValidationError if the name is empty
+   * @throws DatabaseError if a database operation fails
+   */
+  async createApplication(name: string): Promise<Application> {
+    if (!name.trim()) {
+      logger.warn('Attempted to create application with empty name');
+      throw new ValidationError('name');
+    }
+
+    const { data, error } = await supabase
+      .from('applications')
+      // user_id will be set automatically by the database trigger
+      .insert({ name: name.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error creating application', { error });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Application created successfully', { applicationId: data.id });
+    return data as Application;
+  },
+
+  /**
+   * Updates an application
+   *
+   * @param applicationId - ID of the application to update
+   * @param updates - Fields to update
+   * @returns Promise resolving to the updated application
+   * @throws ApplicationNotFoundError if the application doesn't exist
+   * @throws DatabaseError if a database operation fails
+   */
+  async updateApplication(
+    applicationId: string,
+    updates: Partial<Omit<Application, 'id' | 'user_id'>>
+  ): Promise<Application> {
+    if (!applicationId) {
+      logger.warn('Attempted to update application with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    const { data, error } = await supabase
+      .from('applications')
+      .update(updates)
+      .eq('id', applicationId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error updating application', { error, applicationId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    if (!data) {
+      throw new ApplicationNotFoundError(applicationId);
+    }
+
+    logger.info('Application updated successfully', { applicationId });
+    return data as Application;
+  },
+
+  /**
+   * Saves the profile of an application (program, province, inland/outland, ...)
+   * Empty text is stored as null so it doesn't narrow down community statistics
+   *
+   * @param applicationId - ID of the application to update
+   * @param profile - Profile fields to save
+   * @returns Promise resolving to the updated application
+   * @throws ApplicationNotFoundError if the application doesn't exist
+   * @throws DatabaseError if a database operation fails
+   */
+  async updateProfile(applicationId: string, profile: ApplicationProfile): Promise<Application> {
+    const normalized: ApplicationProfile = {
+      ...profile,
+      province: profile.province?.trim().toUpperCase() || null,
+      country_of_residence: profile.country_of_residence?.trim() || null,
+    };
+
+    return this.updateApplication(applicationId, normalized);
+  },
+
+  /**
+   * Deletes an application together with all of its timeline entries
+   *
+   * @param applicationId - ID of the application to delete
+   * @throws DatabaseError if a database operation fails
+   */
+  async deleteApplication(applicationId: string): Promise<void> {
+    if (!applicationId) {
+      logger.warn('Attempted to delete application with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    const { error } = await supabase.from('applications').delete().eq('id', applicationId);
+
+    if (error) {
+      logger.error('Error deleting application', { error, applicationId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Application deleted successfully', { applicationId });
+  },
+
+  /**
+   * Gets the application last selected in the switcher
+   *
+   * @returns Promise resolving to the application id, or null if none was selected
+   */
+  async getSelectedApplicationId(): Promise<string | null> {
+    const userId = await getSessionUserId();
+    if (!userId) return null;
+
+    return AsyncStorage.getItem(`${SELECTED_APPLICATION_KEY_PREFIX}${userId}`);
+  },
+
+  /**
+   * Remembers the application selected in the switcher
+   *
+   * @param applicationId - ID of the selected application
+   */
+  async setSelectedApplicationId(applicationId: string): Promise<void> {
+    const userId = await getSessionUserId();
+    if (!userId) return;
+
+    await AsyncStorage.setItem(`${SELECTED_APPLICATION_KEY_PREFIX}${userId}`, applicationId);
+  },
+
+  /**
+   * Creates the default application on the server unless the user already has one
+   * Screens loading at the same time share the same application instead of each creating one
+   *
+   * @returns Promise resolving to the user's applications, oldest first
+   * @throws DatabaseError if a database operation fails
+   * @private
+   */
+  async _ensureDefaultApplication(): Promise<Application[]> {
+    const { data, error } = await supabase.rpc('ensure_default_application', {
+      default_name: DEFAULT_APPLICATION_NAME,
+    });
+
+    if (error) {
+      logger.error('Error creating default application', { error });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Default application ensured');
+    return data as Application[];
+  },
+};
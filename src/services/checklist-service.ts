@@ -0,0 +1,202 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import {
+  ChecklistItem,
+  ChecklistItemRecord,
+  DatabaseError,
+  EntryType,
+  ValidationError,
+} from '../types';
+
+const CHECKLISTS_KEY_PREFIX = '@timeline-ecopr/checklists/';
+
+/**
+ * Service for the document checklists of an application
+ * Only the user's progress is stored; the default items come from src/constants/checklists.ts.
+ * The progress is cached locally so checklists can be ticked off while preparing documents offline.
+ */
+export const checklistService = {
+  /**
+   * Retrieves the stored checklist progress of an application, every milestone, oldest first
+   *
+   * @param applicationId - ID of the application
+   * @returns Promise resolving to the stored items
+   * @throws ValidationError if the application id is missing
+   * @throws DatabaseError if the server rejects the query and nothing is cached
+   */
+  async getChecklistItems(applicationId: string): Promise<ChecklistItemRecord[]> {
+    if (!applicationId) {
+      logger.warn('Attempted to get checklist items with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    const cacheKey = `${CHECKLISTS_KEY_PREFIX}${applicationId}`;
+
+    try {
+      const { data, error } = await supabase
+        .from('checklist_items')
+        .select('*')
+        .eq('application_id', applicationId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error getting checklist items', { error, applicationId });
+        throw new DatabaseError(error.message, {
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
+        });
+      }
+
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(data));
+      return data as ChecklistItemRecord[];
+    } catch (error) {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        logger.warn('Falling back to cached checklist items', { error, applicationId });
+        return JSON.parse(cached) as ChecklistItemRecord[];
+      }
+
+      throw error;
+    }
+  },
+
+  /**
+   * Ticks off or annotates a checklist item
+   * The first change to a default item stores it, keyed by its template key
+   *
+   * @param applicationId - ID of the application
+   * @param entryType - Milestone of the checklist
+   * @param item - Item to change
+   * @param changes - New checked state and/or note
+   * @returns Promise resolving to the stored item
+   * @throws ValidationError if the application id is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async updateItem(
+    applicationId: string,
+    entryType: EntryType,
+    item: ChecklistItem,
+    changes: { checked?: boolean; note?: string | null }
+  ): Promise<ChecklistItemRecord> {
+    if (!applicationId) {
+      logger.warn('Attempted to update checklist item with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    const values = {
+      checked: changes.checked ?? item.checked,
+      note: changes.note !== undefined ? changes.note?.trim() || null : (item.note ?? null),
+    };
+
+    const { data, error } = item.record_id
+      ? await supabase
+          .from('checklist_items')
+          .update(values)
+          .eq('id', item.record_id)
+          .select()
+          .single()
+      : await supabase
+          .from('checklist_items')
+          // user_id will be set automatically by the database trigger
+          .upsert(
+            { application_id: applicationId, entry_type: entryType, item_key: item.key, ...values },
+            { onConflict: 'application_id,entry_type,item_key' }
+          )
+          .select()
+          .single();
+
+    if (error) {
+      logger.error('Error updating checklist item', { error, applicationId, itemKey: item.key });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    return data as ChecklistItemRecord;
+  },
+
+  /**
+   * Adds an item of the user's own to a milestone's checklist
+   *
+   * @param applicationId - ID of the application
+   * @param entryType - Milestone of the checklist
+   * @param label - Text of the item
+   * @returns Promise resolving to the stored item
+   * @throws ValidationError if the application id or label is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async addCustomItem(
+    applicationId: string,
+    entryType: EntryType,
+    label: string
+  ): Promise<ChecklistItemRecord> {
+    if (!applicationId) {
+      logger.warn('Attempted to add checklist item with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+    if (!label?.trim()) {
+      throw new ValidationError('label');
+    }
+
+    const { data, error } = await supabase
+      .from('checklist_items')
+      .insert({
+        application_id: applicationId,
+        entry_type: entryType,
+        item_key: null,
+        label: label.trim(),
+        checked: false,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error adding checklist item', { error, applicationId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Checklist item added successfully', { itemId: data.id });
+    return data as ChecklistItemRecord;
+  },
+
+  /**
+   * Deletes an item the user added
+   * Default items can't be deleted, only left unticked
+   *
+   * @param itemId - ID of the stored item
+   * @throws ValidationError if the id is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async deleteCustomItem(itemId: string): Promise<void> {
+    if (!itemId) {
+      logger.warn('Attempted to delete checklist item with empty itemId');
+      throw new ValidationError('itemId');
+    }
+
+    const { error } = await supabase
+      .from('checklist_items')
+      .delete()
+      .eq('id', itemId)
+      .is('item_key', null);
+
+    if (error) {
+      logger.error('Error deleting checklist item', { error, itemId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Checklist item deleted successfully', { itemId });
+  },
+};
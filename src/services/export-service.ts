@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import { Platform, Share } from 'react-native';
+
+import { logger } from '../lib/logger';
+import { toCsv, toIcs, toJson } from '../lib/timeline-export';
+import { Application, ExportFormat, TimelineEntry } from '../types';
+import { timelineService } from './timeline-service';
+
+/**
+ * Time a web download URL stays valid after the click; revoking it right away can
+ * cancel the download in some browsers
+ */
+const DOWNLOAD_URL_REVOKE_DELAY_MS = 60 * 1000;
+
+/**
+ * The part of the browser DOM used for web downloads. The app is type-checked
+ * against the React Native globals, which have no document.
+ */
+declare const document: {
+  createElement(tagName: 'a'): { href: string; download: string; click(): void };
+};
+
+const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; mimeType: string; serialize: typeof toIcs }
+> = {
+  csv: { extension: 'csv', mimeType: 'text/csv', serialize: (entries) => toCsv(entries) },
+  json: { extension: 'json', mimeType: 'application/json', serialize: toJson },
+  ics: { extension: 'ics', mimeType: 'text/calendar', serialize: toIcs },
+};
+
+/**
+ * Builds a file name such as "pr-timeline-express-entry-2024-10-29.csv"
+ */
+const getFileName = (exportFormat: ExportFormat, application?: Application | null): string => {
+  const slug = application?.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return [
+    'pr-timeline',
+    slug || null,
+    `${format(new Date(), 'yyyy-MM-dd')}.${EXPORT_FORMATS[exportFormat].extension}`,
+  ]
+    .filter(Boolean)
+    .join('-');
+};
+
+/**
+ * Service for exporting the timeline to files the user can keep outside the app
+ */
+export const exportService = {
+  /**
+   * Serializes timeline entries to the requested format
+   *
+   * @param entries - Entries to export
+   * @param exportFormat - Target format (csv, json or ics)
+   * @param application - Application the entries belong to, if known
+   * @returns File contents
+   */
+  serialize(
+    entries: TimelineEntry[],
+    exportFormat: ExportFormat,
+    application?: Application | null
+  ): string {
+    return EXPORT_FORMATS[exportFormat].serialize(entries, application);
+  },
+
+  /**
+   * Exports the timeline of an application and hands it to the user,
+   * through the share sheet on mobile or as a download on the web
+   *
+   * @param exportFormat - Target format (csv, json or ics)
+   * @param application - Application to export
+   * @returns Promise resolving to the name of the exported file
+   */
+  async exportTimeline(exportFormat: ExportFormat, application: Application): Promise<string> {
+    const entries = await timelineService.getUserTimeline(application.id);
+    const content = this.serialize(entries, exportFormat, application);
+    const fileName = getFileName(exportFormat, application);
+
+    await this._deliver(content, fileName, EXPORT_FORMATS[exportFormat].mimeType);
+
+    logger.info('Timeline exported', {
+      format: exportFormat,
+      applicationId: application.id,
+      count: entries.length,
+    });
+
+    return fileName;
+  },
+
+  /**
+   * Downloads the file on the web, or opens the platform share sheet with its contents
+   * @private
+   */
+  async _deliver(content: string, fileName: string, mimeType: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      const url = URL.createObjectURL(
+        new Blob([content], { type: mimeType, lastModified: Date.now() })
+      );
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_REVOKE_DELAY_MS);
+      return;
+    }
+
+    await Share.share({ title: fileName, message: content }, { subject: fileName });
+  },
+};
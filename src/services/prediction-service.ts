@@ -0,0 +1,62 @@
+import { statisticsService } from './statistics-service';
+import { getTransitionType } from '../constants/milestones';
+import {
+  getDaysWaited,
+  getNextJourneyMilestone,
+  MIN_PREDICTION_SAMPLE,
+  predictMilestone,
+} from '../lib/eta-prediction';
+import { logger } from '../lib/logger';
+import { EntryType, MilestonePrediction } from '../types';
+
+/**
+ * Service for predicting when a user reaches their next milestone
+ * Uses the community distribution of the next transition, matched on the application profile
+ */
+export const predictionService = {
+  /**
+   * Predicts the date of the milestone that follows the latest completed one
+   *
+   * @param latestMilestone - Latest completed journey milestone
+   * @param latestDate - Date it was reached, yyyy-MM-dd
+   * @param applicationId - Application whose profile to match, if any
+   * @returns Promise resolving to the prediction, or null without enough community data
+   */
+  async predictNextMilestone(
+    latestMilestone: EntryType,
+    latestDate: string,
+    applicationId?: string | null
+  ): Promise<MilestonePrediction | null> {
+    const nextMilestone = getNextJourneyMilestone(latestMilestone);
+    if (!nextMilestone) {
+      return null;
+    }
+
+    const transitionType = getTransitionType(latestMilestone, nextMilestone);
+    const daysWaited = getDaysWaited(latestDate);
+
+    const forecast = await statisticsService.getTransitionForecast(
+      transitionType,
+      applicationId,
+      daysWaited
+    );
+
+    if (!forecast || forecast.count < MIN_PREDICTION_SAMPLE) {
+      logger.info('Not enough community data to predict the next milestone', {
+        transitionType,
+        daysWaited,
+        count: forecast?.count ?? 0,
+      });
+      return null;
+    }
+
+    const prediction = predictMilestone(latestMilestone, latestDate, nextMilestone, forecast);
+    logger.info('Predicted next milestone', {
+      transitionType,
+      likelyDate: prediction.likely_date,
+      sampleSize: prediction.sample_size,
+    });
+
+    return prediction;
+  },
+};
@@ -0,0 +1,163 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { DEFAULT_REMINDER_PREFERENCES } from '../constants/reminders';
+import { logger } from '../lib/logger';
+import {
+  createExpoNotificationTransport,
+  NotificationTransport,
+} from '../lib/notification-transport';
+import { computeReminders, REMINDER_ID_PREFIX } from '../lib/reminders';
+import { Application, Reminder, ReminderPreferences, TimelineEntry } from '../types';
+import { applicationService } from './application-service';
+import { timelineService } from './timeline-service';
+
+const REMINDER_PREFERENCES_KEY = '@timeline-ecopr/reminder-preferences';
+
+/**
+ * Scheduler started by startReminderScheduler, kept to reschedule when preferences change
+ */
+let activeScheduler: { transport: NotificationTransport; entries: TimelineEntry[] } | null = null;
+
+// Syncs run one at a time, so two quick changes can't schedule the same reminder twice
+let syncChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Service for local reminders tied to timeline milestones
+ * Reminders are recomputed from the timeline on every change and scheduled on the device
+ */
+export const reminderService = {
+  /**
+   * Gets the reminder preferences stored on the device
+   *
+   * @returns Promise resolving to the preferences, defaults for anything unset
+   */
+  async getPreferences(): Promise<ReminderPreferences> {
+    try {
+      const raw = await AsyncStorage.getItem(REMINDER_PREFERENCES_KEY);
+      return raw
+        ? { ...DEFAULT_REMINDER_PREFERENCES, ...(JSON.parse(raw) as Partial<ReminderPreferences>) }
+        : DEFAULT_REMINDER_PREFERENCES;
+    } catch (error) {
+      logger.warn('Error reading reminder preferences', { error });
+      return DEFAULT_REMINDER_PREFERENCES;
+    }
+  },
+
+  /**
+   * Stores the reminder preferences and reschedules the reminders
+   *
+   * @param preferences - Preferences chosen in the reminder settings
+   */
+  async updatePreferences(preferences: ReminderPreferences): Promise<void> {
+    await AsyncStorage.setItem(REMINDER_PREFERENCES_KEY, JSON.stringify(preferences));
+    logger.info('Updated reminder preferences', { enabled: preferences.enabled });
+
+    if (activeScheduler) {
+      await this.syncReminders(activeScheduler.entries, activeScheduler.transport);
+    }
+  },
+
+  /**
+   * Schedules the reminders of a timeline and cancels the ones it no longer needs
+   *
+   * @param entries - Timeline entries of the signed in user
+   * @param transport - Where notifications are scheduled
+   * @returns Promise resolving to the reminders now scheduled
+   */
+  async syncReminders(
+    entries: TimelineEntry[],
+    transport: NotificationTransport
+  ): Promise<Reminder[]> {
+    const sync = syncChain.then(async () => {
+      const reminders = computeReminders(
+        entries,
+        await this.getPreferences(),
+        entries.length > 0 ? await this._getApplications() : []
+      );
+      const scheduledIds = (await transport.getScheduledIds()).filter((id) =>
+        id.startsWith(REMINDER_ID_PREFIX)
+      );
+      const reminderIds = reminders.map((reminder) => reminder.id);
+      const obsoleteIds = scheduledIds.filter((id) => !reminderIds.includes(id));
+
+      for (const id of obsoleteIds) {
+        await transport.cancel(id);
+      }
+
+      const newReminders = reminders.filter((reminder) => !scheduledIds.includes(reminder.id));
+      if (newReminders.length > 0 && !(await transport.requestPermission())) {
+        logger.info('Notifications not allowed, reminders not scheduled');
+        return [];
+      }
+
+      for (const reminder of newReminders) {
+        await transport.schedule(reminder);
+      }
+
+      logger.info('Synced reminders', {
+        scheduled: newReminders.length,
+        cancelled: obsoleteIds.length,
+      });
+      return reminders;
+    });
+
+    syncChain = sync.catch(() => undefined);
+    return sync;
+  },
+
+  /**
+   * Gets the applications of the user for the deadline windows of their program
+   * Without them (e.g. offline) the default windows are used
+   * @private
+   */
+  async _getApplications(): Promise<Application[]> {
+    try {
+      return await applicationService.getApplications();
+    } catch (error) {
+      logger.warn('Could not load applications for reminders', { error });
+      return [];
+    }
+  },
+
+  /**
+   * Keeps the reminders in line with the local timeline of the signed in user
+   * Stopping cancels them, since they belong to that user
+   *
+   * @param transport - Where notifications are scheduled, expo-notifications by default
+   * @returns Function that stops the scheduler
+   */
+  startReminderScheduler(
+    transport: NotificationTransport = createExpoNotificationTransport()
+  ): () => void {
+    const scheduler = { transport, entries: [] as TimelineEntry[] };
+    activeScheduler = scheduler;
+
+    const sync = (entries: TimelineEntry[]) => {
+      if (activeScheduler !== scheduler) return;
+
+      scheduler.entries = entries;
+      this.syncReminders(entries, transport).catch((error) => {
+        logger.error('Error scheduling reminders', { error });
+      });
+    };
+
+    timelineService
+      .getCachedTimeline()
+      .then(sync)
+      .catch((error) => {
+        logger.warn('Could not read the timeline for reminders', { error });
+      });
+    const unsubscribe = timelineService.subscribe(sync);
+
+    return () => {
+      unsubscribe();
+      if (activeScheduler === scheduler) {
+        activeScheduler = null;
+      }
+
+      this.syncReminders([], transport).catch((error) => {
+        logger.warn('Error cancelling reminders', { error });
+      });
+    };
+  },
+};
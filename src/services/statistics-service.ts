@@ -1,9 +1,75 @@
 import { PostgrestError } from '@supabase/supabase-js';
+import { parseISO } from 'date-fns';
 
+import { applicationService } from './application-service';
+import { timelineService } from './timeline-service';
+import { isValidTransitionType } from '../constants/milestones';
+import { formatWeekRange } from '../lib/iso-weeks';
 import { logger } from '../lib/logger';
+import { statisticsCache } from '../lib/statistics-cache';
 import { supabase } from '../lib/supabase';
-import { CommunityStatistic, TransitionStatistics } from '../types';
-import { getMockTransitionStatistics, loadMockStatisticsData } from '../utils/mock-data';
+import { computeSurvivalCurve } from '../lib/survival';
+import { computeUserStatistics } from '../lib/user-statistics';
+import {
+  CachedStatistics,
+  CohortSurvival,
+  CommunityBenchmark,
+  CommunityStatistic,
+  CommunityStatisticsFilters,
+  DurationHistogramBin,
+  TransitionForecast,
+  TransitionStatistics,
+  WaitingStatistic,
+  WeeklyBreakdown,
+} from '../types';
+import {
+  generateMockCohortSurvival,
+  generateMockDurationHistogram,
+  generateMockTransitionForecast,
+  generateMockWaitingStatistics,
+  generateMockWeeklyBreakdown,
+  getMockTransitionStatistics,
+  loadMockStatisticsData,
+} from '../utils/mock-data';
+
+/**
+ * Maps profile filters to the parameters shared by the statistics RPCs
+ */
+const toFilterParams = (filters: CommunityStatisticsFilters) => ({
+  filter_program: filters.program ?? null,
+  filter_province: filters.province ?? null,
+  filter_applicant_location: filters.applicant_location ?? null,
+  filter_has_dependants: filters.has_dependants ?? null,
+  filter_country_of_residence: filters.country_of_residence?.trim() || null,
+});
+
+// How long cached community statistics are served without asking the server again
+const STATISTICS_CACHE_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Cache key of a community statistics query
+ * toFilterParams fixes the order of the filters, so equal filters give equal keys
+ */
+const getCommunityStatsCacheKey = (
+  transitionType: string | undefined,
+  filters: CommunityStatisticsFilters,
+  includeFlagged: boolean
+) =>
+  `community/${transitionType || 'all'}/${JSON.stringify(toFilterParams(filters))}/${includeFlagged}`;
+
+/**
+ * Formats a report date (first day of a month) as e.g. "Mar 2024"
+ * The date has no time zone, so it is read as UTC to stay in the right month
+ */
+const formatReportMonth = (reportDate?: string | null): string => {
+  if (!reportDate) return '';
+
+  return new Date(reportDate).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
 
 /**
  * Service for retrieving and processing community statistics
@@ -25,14 +91,15 @@ export const statisticsService = {
   },
 
   /**
-   * Retrieves personal user statistics for the authenticated user
+   * Retrieves personal statistics for one application of the authenticated user
+   * Durations come from the user's own timeline, estimates from community medians
    *
-   * @param transitionType - Optional transition type to focus the statistics on
-   * @returns Promise resolving to user transition statistics
+   * @param applicationId - Application to compute the statistics for, defaults to the selected one
+   * @returns Promise resolving to user transition statistics, or null if unavailable
    */
-  async getUserStatistics(transitionType?: string): Promise<TransitionStatistics | null> {
+  async getUserStatistics(applicationId?: string): Promise<TransitionStatistics | null> {
     try {
-      logger.info('Fetching user statistics', { transitionType });
+      logger.info('Fetching user statistics', { applicationId });
 
       // Check if user is authenticated
       const {
@@ -46,22 +113,40 @@ export const statisticsService = {
 
       const userId = session.user.id;
 
-      // Currently using mock data
       if (this.useMockData) {
-        logger.info('Using mock statistics data for user', { userId, transitionType });
-        const mockData = getMockTransitionStatistics(transitionType || 'p1');
-        return mockData;
+        logger.info('Using mock statistics data for user', { userId });
+        return getMockTransitionStatistics();
+      }
+
+      const targetApplicationId =
+        applicationId || (await applicationService.getSelectedApplicationId());
+      if (!targetApplicationId) {
+        logger.warn('No application selected when getting user statistics');
+        return null;
       }
 
-      // TODO: Implement real data retrieval from Supabase
-      // This would query a view or function that calculates statistics based on the user's timeline
-      // const { data, error } = await supabase.rpc('get_user_statistics', {
-      //   user_id: userId,
-      //   transition_type: transitionType || null
-      // });
+      const entries = await timelineService.getUserTimeline(targetApplicationId);
+
+      // Without community data the durations can still be shown, just not the estimate
+      const { data, error } = await supabase.rpc('get_user_statistics', {
+        user_id: userId,
+        filter_application_id: targetApplicationId,
+      });
+
+      if (error) {
+        logger.warn('Could not load community benchmarks for user statistics', { error });
+      }
 
-      // For now, return mock data
-      return getMockTransitionStatistics(transitionType || 'p1');
+      const benchmarks = this._formatBenchmarks(error ? [] : data);
+      const statistics = computeUserStatistics(entries, benchmarks);
+
+      logger.info('User statistics computed successfully', {
+        applicationId: targetApplicationId,
+        entries: entries.length,
+        benchmarks: benchmarks.length,
+      });
+
+      return statistics;
     } catch (error) {
       // Specific handling for different error types
       if (error instanceof PostgrestError) {
@@ -82,21 +167,33 @@ export const statisticsService = {
   /**
    * Retrieves community statistics with optional filtering
    *
-   * @param transitionType - Optional transition type filter (e.g. 'aor-p2', 'p2-ecopr')
+   * @param transitionType - Optional milestone pair, e.g. 'aor-p2' or 'submission-ecopr'
+   * @param filters - Optional application profile filters (program, province, ...)
+   * @param includeFlagged - Whether to keep durations flagged as implausible in the aggregates
+   * @param forceRefresh - Ask the server even when the cached statistics are still fresh
    * @returns Promise resolving to an array of community statistics
    */
-  async getCommunityStats(transitionType?: string): Promise<CommunityStatistic[]> {
+  async getCommunityStats(
+    transitionType?: string,
+    filters: CommunityStatisticsFilters = {},
+    includeFlagged: boolean = false,
+    forceRefresh: boolean = false
+  ): Promise<CommunityStatistic[]> {
+    const cacheKey = getCommunityStatsCacheKey(transitionType, filters, includeFlagged);
+    let userId: string | undefined;
+
     try {
       // Validate parameters
-      if (transitionType && !['aor-p2', 'p2-ecopr', 'ecopr-pr_card'].includes(transitionType)) {
+      if (transitionType && !isValidTransitionType(transitionType)) {
         logger.warn('Invalid transition type provided', { transitionType });
         throw new Error('Invalid transition type');
       }
 
       // Use mock data if enabled
       if (this.useMockData) {
-        logger.info('Using mock statistics data', { transitionType });
-        const mockData = loadMockStatisticsData(transitionType);
+        // Mock data isn't segmented, so profile filters don't change it
+        logger.info('Using mock statistics data', { transitionType, filters, includeFlagged });
+        const mockData = loadMockStatisticsData(transitionType, includeFlagged);
         logger.info('Mock statistics loaded successfully', { count: mockData.length });
         return mockData;
       }
@@ -110,12 +207,24 @@ export const statisticsService = {
         logger.warn('No authenticated user found when getting community statistics');
         return [];
       }
+      userId = session.user.id;
+
+      // Serve the cached statistics while they are fresh
+      if (!forceRefresh) {
+        const cached = await this.getCachedCommunityStats(transitionType, filters, includeFlagged);
+        if (cached && !cached.stale) {
+          logger.info('Using cached community statistics', { transitionType, filters });
+          return cached.data;
+        }
+      }
 
       // Call the stored procedure
-      logger.info('Fetching community statistics', { transitionType });
+      logger.info('Fetching community statistics', { transitionType, filters, includeFlagged });
       const { data, error } = await supabase.rpc('get_community_statistics', {
         filter_transition_type: transitionType || null,
         user_id: session.user.id,
+        ...toFilterParams(filters),
+        include_flagged: includeFlagged,
       });
 
       if (error) {
@@ -123,16 +232,13 @@ export const statisticsService = {
         throw error;
       }
 
-      if (!data) {
-        logger.info('No community statistics found');
-        return [];
-      }
-
       // Format and structure the data for visualization
       const formattedData = this._formatStatisticsData(data);
+      await statisticsCache.set(userId, cacheKey, formattedData);
       logger.info('Community statistics retrieved successfully', {
         count: formattedData.length,
         transitionType,
+        filters,
       });
 
       return formattedData;
@@ -149,10 +255,429 @@ export const statisticsService = {
       } else {
         logger.error('Unknown error retrieving statistics', { error });
       }
+
+      // Outdated statistics are better than none when the server can't be reached
+      const cached = userId
+        ? await statisticsCache.get<CommunityStatistic[]>(userId, cacheKey)
+        : null;
+      if (cached) {
+        logger.warn('Falling back to cached community statistics', {
+          fetchedAt: cached.fetched_at,
+        });
+        return cached.data;
+      }
+      return [];
+    }
+  },
+
+  /**
+   * Gets the community statistics stored by the last successful query, without contacting the server
+   * Used to show something right away while fresh statistics load
+   *
+   * @param transitionType - Optional milestone pair, e.g. 'aor-p2'
+   * @param filters - Optional application profile filters
+   * @param includeFlagged - Whether flagged durations were kept in the aggregates
+   * @returns Promise resolving to the cached statistics, or null without any (always with mock data)
+   */
+  async getCachedCommunityStats(
+    transitionType?: string,
+    filters: CommunityStatisticsFilters = {},
+    includeFlagged: boolean = false
+  ): Promise<CachedStatistics<CommunityStatistic[]> | null> {
+    if (this.useMockData) {
+      return null;
+    }
+
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session?.user) {
+      return null;
+    }
+
+    const cached = await statisticsCache.get<CommunityStatistic[]>(
+      session.user.id,
+      getCommunityStatsCacheKey(transitionType, filters, includeFlagged)
+    );
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      ...cached,
+      stale: Date.now() - new Date(cached.fetched_at).getTime() > STATISTICS_CACHE_TTL_MS,
+    };
+  },
+
+  /**
+   * Retrieves how many applicants are still waiting at a stage, and for how long
+   * Grouped by the month they reached the start of the transition
+   *
+   * @param transitionType - Milestone pair of the open stage, e.g. 'p2-ecopr'
+   * @param filters - Optional application profile filters (program, province, ...)
+   * @returns Promise resolving to waiting statistics, newest month first
+   */
+  async getWaitingStats(
+    transitionType: string = 'p2-ecopr',
+    filters: CommunityStatisticsFilters = {}
+  ): Promise<WaitingStatistic[]> {
+    try {
+      if (!isValidTransitionType(transitionType)) {
+        logger.warn('Invalid transition type provided', { transitionType });
+        throw new Error('Invalid transition type');
+      }
+
+      if (this.useMockData) {
+        logger.info('Using mock waiting statistics', { transitionType, filters });
+        return generateMockWaitingStatistics(transitionType);
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.user) {
+        logger.warn('No authenticated user found when getting waiting statistics');
+        return [];
+      }
+
+      logger.info('Fetching waiting statistics', { transitionType, filters });
+      const { data, error } = await supabase.rpc('get_waiting_statistics', {
+        filter_transition_type: transitionType,
+        user_id: session.user.id,
+        ...toFilterParams(filters),
+      });
+
+      if (error) {
+        logger.error('Error retrieving waiting statistics', { error });
+        throw error;
+      }
+
+      const formattedData = this._formatWaitingData(data);
+      logger.info('Waiting statistics retrieved successfully', {
+        count: formattedData.length,
+        transitionType,
+        filters,
+      });
+
+      return formattedData;
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        logger.error('Supabase error retrieving waiting statistics', {
+          code: error.code,
+          message: error.message,
+          hint: error.hint,
+        });
+      } else if (error instanceof Error) {
+        logger.error('Error retrieving waiting statistics', { message: error.message });
+      } else {
+        logger.error('Unknown error retrieving waiting statistics', { error });
+      }
+      return [];
+    }
+  },
+
+  /**
+   * Retrieves the transitions that started in one month, per ISO week (Monday to Sunday)
+   * Weeks at the edges of the month only count the days inside it
+   *
+   * @param transitionType - Milestone pair, e.g. 'p2-ecopr'
+   * @param reportDate - First day of the month, yyyy-MM-dd (CommunityStatistic.report_date)
+   * @param filters - Optional application profile filters (program, province, ...)
+   * @param includeFlagged - Whether to keep durations flagged as implausible in the weeks
+   * @returns Promise resolving to one row per week overlapping the month, oldest first
+   */
+  async getWeeklyBreakdown(
+    transitionType: string,
+    reportDate: string,
+    filters: CommunityStatisticsFilters = {},
+    includeFlagged: boolean = false
+  ): Promise<WeeklyBreakdown[]> {
+    try {
+      if (!isValidTransitionType(transitionType)) {
+        logger.warn('Invalid transition type provided', { transitionType });
+        throw new Error('Invalid transition type');
+      }
+
+      if (this.useMockData) {
+        logger.info('Using mock weekly breakdown', { transitionType, reportDate, filters });
+        return generateMockWeeklyBreakdown(transitionType, reportDate);
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.user) {
+        logger.warn('No authenticated user found when getting weekly breakdown');
+        return [];
+      }
+
+      logger.info('Fetching weekly breakdown', {
+        transitionType,
+        reportDate,
+        filters,
+        includeFlagged,
+      });
+      const { data, error } = await supabase.rpc('get_weekly_breakdown', {
+        filter_transition_type: transitionType,
+        report_month: reportDate,
+        user_id: session.user.id,
+        ...toFilterParams(filters),
+        include_flagged: includeFlagged,
+      });
+
+      if (error) {
+        logger.error('Error retrieving weekly breakdown', { error });
+        throw error;
+      }
+
+      const formattedData = this._formatWeeklyData(data);
+      logger.info('Weekly breakdown retrieved successfully', {
+        count: formattedData.length,
+        transitionType,
+        reportDate,
+      });
+
+      return formattedData;
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        logger.error('Supabase error retrieving weekly breakdown', {
+          code: error.code,
+          message: error.message,
+          hint: error.hint,
+        });
+      } else if (error instanceof Error) {
+        logger.error('Error retrieving weekly breakdown', { message: error.message });
+      } else {
+        logger.error('Unknown error retrieving weekly breakdown', { error });
+      }
+      return [];
+    }
+  },
+
+  /**
+   * Retrieves how a cohort progressed through a transition, e.g. the share of applicants
+   * with AOR in March who had P2 by each day, counting those still waiting
+   *
+   * @param transitionType - Milestone pair, e.g. 'aor-p2'
+   * @param reportDate - First day of the cohort month, yyyy-MM-dd
+   * @param filters - Optional application profile filters (program, province, ...)
+   * @param includeFlagged - Whether to keep waits flagged as implausible in the curve
+   * @returns Promise resolving to the cohort's Kaplan–Meier curve, or null if the cohort is empty
+   */
+  async getCohortSurvival(
+    transitionType: string,
+    reportDate: string,
+    filters: CommunityStatisticsFilters = {},
+    includeFlagged: boolean = false
+  ): Promise<CohortSurvival | null> {
+    try {
+      if (!isValidTransitionType(transitionType)) {
+        logger.warn('Invalid transition type provided', { transitionType });
+        throw new Error('Invalid transition type');
+      }
+
+      if (this.useMockData) {
+        logger.info('Using mock cohort survival', { transitionType, reportDate, filters });
+        return generateMockCohortSurvival(transitionType, reportDate);
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.user) {
+        logger.warn('No authenticated user found when getting cohort survival');
+        return null;
+      }
+
+      logger.info('Fetching cohort survival', {
+        transitionType,
+        reportDate,
+        filters,
+        includeFlagged,
+      });
+      const { data, error } = await supabase.rpc('get_cohort_survival', {
+        filter_transition_type: transitionType,
+        cohort_month: reportDate,
+        user_id: session.user.id,
+        ...toFilterParams(filters),
+        include_flagged: includeFlagged,
+      });
+
+      if (error) {
+        logger.error('Error retrieving cohort survival', { error });
+        throw error;
+      }
+
+      const cohort = this._formatCohortSurvival(transitionType, reportDate, data);
+      logger.info('Cohort survival retrieved successfully', {
+        transitionType,
+        reportDate,
+        cohortSize: cohort?.cohort_size ?? 0,
+      });
+
+      return cohort;
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        logger.error('Supabase error retrieving cohort survival', {
+          code: error.code,
+          message: error.message,
+          hint: error.hint,
+        });
+      } else if (error instanceof Error) {
+        logger.error('Error retrieving cohort survival', { message: error.message });
+      } else {
+        logger.error('Unknown error retrieving cohort survival', { error });
+      }
+      return null;
+    }
+  },
+
+  /**
+   * Retrieves how many transitions that started in the last 12 months took each number of days
+   *
+   * @param transitionType - Milestone pair, e.g. 'aor-p2'
+   * @param binWidth - Width of each bin in days
+   * @param filters - Optional application profile filters (program, province, ...)
+   * @param includeFlagged - Whether to keep durations flagged as implausible in the bins
+   * @returns Promise resolving to the histogram bins, shortest durations first
+   */
+  async getDurationHistogram(
+    transitionType: string,
+    binWidth: number = 7,
+    filters: CommunityStatisticsFilters = {},
+    includeFlagged: boolean = false
+  ): Promise<DurationHistogramBin[]> {
+    try {
+      if (!isValidTransitionType(transitionType)) {
+        logger.warn('Invalid transition type provided', { transitionType });
+        throw new Error('Invalid transition type');
+      }
+
+      if (this.useMockData) {
+        logger.info('Using mock duration histogram', { transitionType, binWidth, filters });
+        return generateMockDurationHistogram(transitionType, binWidth);
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.user) {
+        logger.warn('No authenticated user found when getting duration histogram');
+        return [];
+      }
+
+      logger.info('Fetching duration histogram', {
+        transitionType,
+        binWidth,
+        filters,
+        includeFlagged,
+      });
+      const { data, error } = await supabase.rpc('get_duration_histogram', {
+        filter_transition_type: transitionType,
+        bin_width: binWidth,
+        user_id: session.user.id,
+        ...toFilterParams(filters),
+        include_flagged: includeFlagged,
+      });
+
+      if (error) {
+        logger.error('Error retrieving duration histogram', { error });
+        throw error;
+      }
+
+      const formattedData = this._formatHistogramData(data);
+      logger.info('Duration histogram retrieved successfully', {
+        bins: formattedData.length,
+        transitionType,
+        binWidth,
+      });
+
+      return formattedData;
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        logger.error('Supabase error retrieving duration histogram', {
+          code: error.code,
+          message: error.message,
+          hint: error.hint,
+        });
+      } else if (error instanceof Error) {
+        logger.error('Error retrieving duration histogram', { message: error.message });
+      } else {
+        logger.error('Unknown error retrieving duration histogram', { error });
+      }
       return [];
     }
   },
 
+  /**
+   * Retrieves how long a transition took for other applicants with a similar profile
+   * who had already waited at least as long as the user
+   *
+   * @param transitionType - Milestone pair, e.g. 'p2-ecopr'
+   * @param applicationId - Application whose program and inland/outland stream to match
+   * @param minDays - Days the user has already waited
+   * @returns Promise resolving to the forecast, or null if unavailable
+   */
+  async getTransitionForecast(
+    transitionType: string,
+    applicationId?: string | null,
+    minDays: number = 0
+  ): Promise<TransitionForecast | null> {
+    try {
+      if (!isValidTransitionType(transitionType)) {
+        logger.warn('Invalid transition type provided', { transitionType });
+        throw new Error('Invalid transition type');
+      }
+
+      if (this.useMockData) {
+        logger.info('Using mock transition forecast', { transitionType, minDays });
+        return generateMockTransitionForecast(transitionType, minDays);
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      if (!session?.user) {
+        logger.warn('No authenticated user found when getting transition forecast');
+        return null;
+      }
+
+      logger.info('Fetching transition forecast', { transitionType, applicationId, minDays });
+      const { data, error } = await supabase.rpc('get_transition_forecast', {
+        filter_transition_type: transitionType,
+        user_id: session.user.id,
+        filter_application_id: applicationId || null,
+        min_days: Math.max(0, Math.floor(minDays)),
+      });
+
+      if (error) {
+        logger.error('Error retrieving transition forecast', { error });
+        throw error;
+      }
+
+      return this._formatForecast(data);
+    } catch (error) {
+      if (error instanceof PostgrestError) {
+        logger.error('Supabase error retrieving transition forecast', {
+          code: error.code,
+          message: error.message,
+          hint: error.hint,
+        });
+      } else if (error instanceof Error) {
+        logger.error('Error retrieving transition forecast', { message: error.message });
+      } else {
+        logger.error('Unknown error retrieving transition forecast', { error });
+      }
+      return null;
+    }
+  },
+
   /**
    * Format raw statistics data for visualization
    *
@@ -168,22 +693,20 @@ export const statisticsService = {
 
       // Add month-year formatting for better display
       return rawData.map((stat) => {
-        let monthYear = '';
-        if (stat.start_date) {
-          const date = new Date(stat.start_date);
-          monthYear = date.toLocaleDateString('en-US', {
-            month: 'short',
-            year: 'numeric',
-          });
-        }
-
         return {
           transition_type: stat.transition_type,
           avg_days: Number(stat.avg_days) || 0,
           min_days: Number(stat.min_days) || 0,
           max_days: Number(stat.max_days) || 0,
+          median_days: Number(stat.median_days) || 0,
+          p25_days: Number(stat.p25_days) || 0,
+          p75_days: Number(stat.p75_days) || 0,
+          p90_days: Number(stat.p90_days) || 0,
           count: Number(stat.count) || 0,
-          month_year: monthYear,
+          excluded_count: Number(stat.excluded_count) || 0,
+          suppressed: !!stat.suppressed,
+          month_year: formatReportMonth(stat.report_date),
+          report_date: stat.report_date ?? undefined,
         };
       });
     } catch (error) {
@@ -191,4 +714,154 @@ export const statisticsService = {
       return [];
     }
   },
+
+  /**
+   * Format raw waiting statistics from get_waiting_statistics
+   *
+   * @param rawData - Raw waiting statistics from the database
+   * @returns Formatted waiting statistics
+   * @private
+   */
+  _formatWaitingData(rawData: any[] | null): WaitingStatistic[] {
+    if (!Array.isArray(rawData)) {
+      return [];
+    }
+
+    return rawData.map((row) => ({
+      transition_type: row.transition_type,
+      month_year: formatReportMonth(row.report_date),
+      waiting_count: Number(row.waiting_count) || 0,
+      min_days_waiting: Number(row.min_days_waiting) || 0,
+      median_days_waiting: Number(row.median_days_waiting) || 0,
+      p90_days_waiting: Number(row.p90_days_waiting) || 0,
+      max_days_waiting: Number(row.max_days_waiting) || 0,
+      suppressed: !!row.suppressed,
+    }));
+  },
+
+  /**
+   * Format raw weekly rows from get_weekly_breakdown
+   *
+   * @param rawData - Raw weekly rows from the database
+   * @returns Weekly breakdown labelled with ISO week ranges
+   * @private
+   */
+  _formatWeeklyData(rawData: any[] | null): WeeklyBreakdown[] {
+    if (!Array.isArray(rawData)) {
+      return [];
+    }
+
+    return rawData.map((row) => ({
+      week_start: row.week_start,
+      iso_week: Number(row.iso_week) || 0,
+      week_range: formatWeekRange(parseISO(row.week_start)),
+      count: Number(row.count) || 0,
+      median_days:
+        row.median_days === null || row.median_days === undefined ? null : Number(row.median_days),
+      suppressed: !!row.suppressed,
+    }));
+  },
+
+  /**
+   * Turn the life table from get_cohort_survival into a cohort survival curve
+   *
+   * @param transitionType - Milestone pair of the cohort
+   * @param reportDate - First day of the cohort month, yyyy-MM-dd
+   * @param rawData - Raw life table rows from the database
+   * @returns Cohort survival, or null if nobody is in the cohort
+   * @private
+   */
+  _formatCohortSurvival(
+    transitionType: string,
+    reportDate: string,
+    rawData: any[] | null
+  ): CohortSurvival | null {
+    if (!Array.isArray(rawData) || rawData.length === 0) {
+      return null;
+    }
+
+    const lifeTable = rawData.map((row) => ({
+      days: Number(row.days) || 0,
+      events: Number(row.events) || 0,
+      censored: Number(row.censored) || 0,
+    }));
+    const reachedCount = lifeTable.reduce((sum, row) => sum + row.events, 0);
+    const censoredCount = lifeTable.reduce((sum, row) => sum + row.censored, 0);
+
+    return {
+      transition_type: transitionType,
+      report_date: reportDate,
+      month_year: formatReportMonth(reportDate),
+      cohort_size: reachedCount + censoredCount,
+      reached_count: reachedCount,
+      censored_count: censoredCount,
+      points: computeSurvivalCurve(lifeTable),
+    };
+  },
+
+  /**
+   * Format raw histogram bins from get_duration_histogram
+   *
+   * @param rawData - Raw histogram rows from the database
+   * @returns Histogram bins
+   * @private
+   */
+  _formatHistogramData(rawData: any[] | null): DurationHistogramBin[] {
+    if (!Array.isArray(rawData)) {
+      return [];
+    }
+
+    return rawData.map((row) => ({
+      bin_start: Number(row.bin_start) || 0,
+      bin_end: Number(row.bin_end) || 0,
+      count: Number(row.count) || 0,
+    }));
+  },
+
+  /**
+   * Format the raw row from get_transition_forecast
+   *
+   * @param rawData - Raw forecast rows from the database (a single row)
+   * @returns Transition forecast, or null without any similar transition
+   * @private
+   */
+  _formatForecast(rawData: any[] | null): TransitionForecast | null {
+    const row = Array.isArray(rawData) ? rawData[0] : null;
+    if (!row || !Number(row.count) || row.median_days === null) {
+      return null;
+    }
+
+    return {
+      transition_type: row.transition_type,
+      count: Number(row.count) || 0,
+      p10_days: Number(row.p10_days) || 0,
+      p25_days: Number(row.p25_days) || 0,
+      median_days: Number(row.median_days) || 0,
+      p75_days: Number(row.p75_days) || 0,
+      p90_days: Number(row.p90_days) || 0,
+      segmented: !!row.segmented,
+    };
+  },
+
+  /**
+   * Format raw community benchmarks from get_user_statistics
+   *
+   * @param rawData - Raw benchmark rows from the database
+   * @returns Community benchmarks per transition
+   * @private
+   */
+  _formatBenchmarks(rawData: any[] | null): CommunityBenchmark[] {
+    if (!Array.isArray(rawData)) {
+      return [];
+    }
+
+    return rawData
+      .filter((row) => row.median_days !== null && row.median_days !== undefined)
+      .map((row) => ({
+        transition_type: row.transition_type,
+        median_days: Number(row.median_days) || 0,
+        count: Number(row.count) || 0,
+        segmented: !!row.segmented,
+      }));
+  },
 };
@@ -0,0 +1,170 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getSessionUserId } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import { DatabaseError, StatusPeriod, StatusPeriodInput, ValidationError } from '../types';
+
+const STATUS_PERIODS_KEY_PREFIX = '@timeline-ecopr/status-periods/';
+
+/**
+ * Service for the periods with temporary status entered by the signed in user
+ * The list is cached locally so citizenship eligibility can be checked offline
+ */
+export const statusPeriodService = {
+  /**
+   * Retrieves the status periods of the authenticated user, most recent first
+   *
+   * @returns Promise resolving to the user's status periods
+   * @throws DatabaseError if the server rejects the query and nothing is cached
+   */
+  async getStatusPeriods(): Promise<StatusPeriod[]> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      logger.warn('Attempted to get status periods without authentication');
+      return [];
+    }
+
+    const cacheKey = `${STATUS_PERIODS_KEY_PREFIX}${userId}`;
+
+    try {
+      const { data, error } = await supabase
+        .from('status_periods')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (error) {
+        logger.error('Error getting status periods', { error });
+        throw new DatabaseError(error.message, {
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
+        });
+      }
+
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(data));
+      return data as StatusPeriod[];
+    } catch (error) {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        logger.warn('Falling back to cached status periods', { error });
+        return JSON.parse(cached) as StatusPeriod[];
+      }
+
+      throw error;
+    }
+  },
+
+  /**
+   * Adds a status period for the authenticated user
+   *
+   * @param period - Status and dates of the period
+   * @returns Promise resolving to the created period
+   * @throws ValidationError if the status or start date is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async addStatusPeriod(period: StatusPeriodInput): Promise<StatusPeriod> {
+    const normalized = this._normalizeStatusPeriod(period);
+
+    const { data, error } = await supabase
+      .from('status_periods')
+      // user_id will be set automatically by the database trigger
+      .insert(normalized)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error adding status period', { error });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Status period added successfully', { periodId: data.id });
+    return data as StatusPeriod;
+  },
+
+  /**
+   * Updates a status period
+   *
+   * @param periodId - ID of the period to update
+   * @param period - New status and dates
+   * @returns Promise resolving to the updated period
+   * @throws ValidationError if the id, status or start date is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async updateStatusPeriod(periodId: string, period: StatusPeriodInput): Promise<StatusPeriod> {
+    if (!periodId) {
+      logger.warn('Attempted to update status period with empty periodId');
+      throw new ValidationError('periodId');
+    }
+
+    const { data, error } = await supabase
+      .from('status_periods')
+      .update(this._normalizeStatusPeriod(period))
+      .eq('id', periodId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error updating status period', { error, periodId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Status period updated successfully', { periodId });
+    return data as StatusPeriod;
+  },
+
+  /**
+   * Deletes a status period
+   *
+   * @param periodId - ID of the period to delete
+   * @throws DatabaseError if a database operation fails
+   */
+  async deleteStatusPeriod(periodId: string): Promise<void> {
+    if (!periodId) {
+      logger.warn('Attempted to delete status period with empty periodId');
+      throw new ValidationError('periodId');
+    }
+
+    const { error } = await supabase.from('status_periods').delete().eq('id', periodId);
+
+    if (error) {
+      logger.error('Error deleting status period', { error, periodId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Status period deleted successfully', { periodId });
+  },
+
+  /**
+   * Checks the required fields of a status period
+   * The order of the dates is enforced by status_periods_end_after_start_check
+   *
+   * @private
+   */
+  _normalizeStatusPeriod(period: StatusPeriodInput): StatusPeriodInput {
+    if (!period.status_type) {
+      throw new ValidationError('status_type');
+    }
+    if (!period.start_date) {
+      throw new ValidationError('start_date');
+    }
+
+    return {
+      status_type: period.status_type,
+      start_date: period.start_date,
+      end_date: period.end_date || null,
+    };
+  },
+};
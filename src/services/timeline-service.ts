@@ -1,104 +1,566 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+
+import { isRepeatableEntryType } from '../constants/milestones';
+import { getSessionUserId } from '../lib/auth';
 import { logger } from '../lib/logger';
 import { supabase } from '../lib/supabase';
+import { timelineCache } from '../lib/timeline-cache';
+import {
+  applyRemoteChange,
+  createSupabaseRealtimeTransport,
+  TimelineRealtimeTransport,
+} from '../lib/timeline-realtime';
+import { assertValidTimelineEntry } from '../lib/timeline-validation';
 import {
   DatabaseError,
   EntryNotFoundError,
   EntryType,
+  EntryValidationError,
+  NetworkError,
+  SyncStatus,
   TimelineEntry,
+  TimelineEntryRevision,
+  TimelineMutation,
   ValidationError,
 } from '../types';
 
+/**
+ * Prefix for ids of entries that were created offline and have no server id yet
+ */
+const LOCAL_ID_PREFIX = 'local-';
+
+/**
+ * Columns that only exist on the client and must never be sent to Supabase
+ */
+const CLIENT_ONLY_FIELDS: (keyof TimelineEntry)[] = ['id', 'user_id', 'created_at', 'sync_status'];
+
+// Serializes read-modify-write cycles on the cached entries and mutation queue
+let queueLock: Promise<unknown> = Promise.resolve();
+
+// Mutation currently being replayed, which must not be coalesced with new changes
+let inFlightMutationId: string | null = null;
+
+// Shared promise for the replay in progress, so concurrent callers don't replay twice
+let activeSync: Promise<void> | null = null;
+
+/**
+ * Runs a task once every previously scheduled queue task has finished
+ *
+ * @param task - Async task that reads and writes the cache
+ * @returns Promise resolving to the task result
+ */
+const withQueueLock = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queueLock.then(task, task);
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Checks whether an entry id was generated locally
+ */
+const isLocalId = (entryId: string): boolean => entryId.startsWith(LOCAL_ID_PREFIX);
+
+/**
+ * Detects failures caused by missing connectivity rather than by the server
+ *
+ * @param error - Error or Supabase error object
+ * @returns True if the request never reached the server
+ */
+const isNetworkFailure = (error: unknown): boolean => {
+  if (error instanceof NetworkError) return true;
+
+  const message =
+    error && typeof error === 'object' && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : '';
+
+  return /network request failed|failed to fetch|network ?error|timed? ?out/i.test(message);
+};
+
+/**
+ * Converts a Supabase error into the matching application error
+ */
+const toServiceError = (error: PostgrestError): Error => {
+  if (isNetworkFailure(error)) {
+    return new NetworkError(error.message);
+  }
+
+  return new DatabaseError(error.message, {
+    code: error.code,
+    details: error.details,
+    hint: error.hint,
+  });
+};
+
+/**
+ * Removes client-only fields from an entry before it is written to Supabase
+ */
+const toServerPayload = (entry: Partial<TimelineEntry>): Partial<TimelineEntry> => {
+  const payload = { ...entry };
+  CLIENT_ONLY_FIELDS.forEach((field) => delete payload[field]);
+  return payload;
+};
+
+/**
+ * Restricts entries to a single application when one is given
+ */
+const filterByApplication = (entries: TimelineEntry[], applicationId?: string): TimelineEntry[] =>
+  applicationId ? entries.filter((entry) => entry.application_id === applicationId) : [...entries];
+
+/**
+ * Applies the still queued mutations on top of a list of entries
+ * Used to keep local changes visible after refreshing from the server
+ *
+ * @param entries - Entries as returned by the server
+ * @param queue - Queued mutations, oldest first
+ * @returns Entries with the queued changes applied and their sync status set
+ */
+const applyQueuedMutations = (
+  entries: TimelineEntry[],
+  queue: TimelineMutation[]
+): TimelineEntry[] => {
+  let result = entries.map((entry) => ({ ...entry, sync_status: 'synced' as SyncStatus }));
+
+  queue.forEach((mutation) => {
+    const status: SyncStatus = mutation.status === 'failed' ? 'failed' : 'pending';
+
+    if (mutation.type === 'delete') {
+      result = result.filter((entry) => entry.id !== mutation.entry_id);
+      return;
+    }
+
+    // A queued add replaces the server entry of the same type, like the upsert will
+    const existing = result.find(
+      (entry) =>
+        entry.id === mutation.entry_id ||
+        (mutation.type === 'add' &&
+          entry.application_id === mutation.payload?.application_id &&
+          entry.entry_type === mutation.payload?.entry_type &&
+          (entry.occurrence ?? 1) === (mutation.payload?.occurrence ?? 1))
+    );
+    if (existing) {
+      Object.assign(existing, mutation.payload, { id: mutation.entry_id, sync_status: status });
+    } else if (mutation.type === 'add') {
+      result.push({
+        ...(mutation.payload as TimelineEntry),
+        id: mutation.entry_id,
+        sync_status: status,
+      });
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Replays a single mutation against Supabase
+ *
+ * @param mutation - Mutation to replay
+ * @returns Promise resolving to the server row for adds, undefined otherwise
+ * @throws NetworkError if the server could not be reached
+ * @throws DatabaseError if the server rejected the change
+ */
+const replayMutation = async (mutation: TimelineMutation): Promise<TimelineEntry | undefined> => {
+  switch (mutation.type) {
+    case 'add': {
+      const { data, error } = await supabase
+        .from('timeline_entries')
+        .upsert(
+          {
+            ...toServerPayload(mutation.payload ?? {}),
+            updated_at: new Date().toISOString(),
+            // user_id will be set automatically by the database trigger
+          },
+          {
+            onConflict: 'application_id,entry_type,occurrence',
+          }
+        )
+        .select()
+        .single();
+
+      if (error) throw toServiceError(error);
+      return data as TimelineEntry;
+    }
+
+    case 'update': {
+      const { error } = await supabase
+        .from('timeline_entries')
+        .update({
+          ...toServerPayload(mutation.payload ?? {}),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', mutation.entry_id);
+
+      if (error) throw toServiceError(error);
+      return undefined;
+    }
+
+    case 'delete': {
+      const { error } = await supabase
+        .from('timeline_entries')
+        .delete()
+        .eq('id', mutation.entry_id);
+
+      if (error) throw toServiceError(error);
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Adds a mutation to the queue, folding it into a queued add of the same local entry
+ * when possible so that offline-created entries are sent in a single request
+ *
+ * @param userId - Authenticated user id
+ * @param mutation - Mutation to enqueue
+ */
+const enqueueMutation = async (
+  userId: string,
+  mutation: Omit<TimelineMutation, 'id' | 'queued_at' | 'status'>
+): Promise<void> => {
+  const queue = await timelineCache.getQueue(userId);
+  const pendingAdd = queue.find(
+    (queued) =>
+      queued.type === 'add' &&
+      queued.entry_id === mutation.entry_id &&
+      queued.id !== inFlightMutationId
+  );
+
+  if (pendingAdd && isLocalId(mutation.entry_id)) {
+    if (mutation.type === 'delete') {
+      // The entry never reached the server, so there is nothing to delete remotely
+      await timelineCache.setQueue(
+        userId,
+        queue.filter((queued) => queued.entry_id !== mutation.entry_id)
+      );
+      return;
+    }
+
+    pendingAdd.payload = { ...pendingAdd.payload, ...mutation.payload };
+    pendingAdd.status = 'pending';
+    delete pendingAdd.last_error;
+    await timelineCache.setQueue(userId, queue);
+    return;
+  }
+
+  queue.push({
+    ...mutation,
+    id: uuidv4(),
+    queued_at: new Date().toISOString(),
+    status: 'pending',
+  });
+  await timelineCache.setQueue(userId, queue);
+};
+
 /**
  * Service for managing timeline entries
- * Handles CRUD operations for timeline entries through Supabase
+ * Entries are read from and written to a local copy first; changes are queued
+ * and replayed against Supabase in order whenever the server can be reached
  */
 export const timelineService = {
   /**
-   * Adds a new timeline entry or updates an existing one
+   * Adds a new timeline entry or updates the existing entry of the same type
+   * in the same application. Repeatable milestones (see REPEATABLE_ENTRY_TYPES)
+   * always get a new occurrence instead.
    *
+   * The entry is stored locally right away and synced in the background,
+   * so it is returned with a `sync_status` describing whether it reached the server
+   *
+   * @param applicationId - ID of the application the entry belongs to
    * @param entryType - Type of timeline entry (aor, p2, ecopr, pr_card)
    * @param entryDate - Date of the entry in ISO format (YYYY-MM-DD)
    * @param notes - Optional notes for the entry
    * @returns Promise resolving to the created/updated entry
    * @throws ValidationError if required fields are missing
-   * @throws DatabaseError if a database operation fails
+   * @throws EntryValidationError if the date breaks the milestone order
    */
   async addEntry(
+    applicationId: string,
     entryType: EntryType,
     entryDate: string,
     notes: string = ''
   ): Promise<TimelineEntry> {
+    if (!applicationId) {
+      logger.warn('Attempted to add entry with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    if (!entryType) {
+      logger.warn('Attempted to add entry with empty entryType');
+      throw new ValidationError('entryType');
+    }
+
+    if (!entryDate) {
+      logger.warn('Attempted to add entry with empty entryDate');
+      throw new ValidationError('entryDate');
+    }
+
     try {
       // Check if user is authenticated
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session?.user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         logger.error('Attempted to add entry without authentication');
         throw new Error('You must be signed in to add entries');
       }
 
-      // Add the entry
-      const { data, error } = await supabase.from('timeline_entries').upsert(
-        {
+      const { entryId, occurrence } = await withQueueLock(async () => {
+        const entries = await timelineCache.getEntries(userId);
+        const now = new Date().toISOString();
+        const sameType = entries.filter(
+          (entry) => entry.application_id === applicationId && entry.entry_type === entryType
+        );
+
+        // Mirror the server upsert: one entry per type, occurrence and application
+        const occurrence = isRepeatableEntryType(entryType)
+          ? Math.max(0, ...sameType.map((entry) => entry.occurrence ?? 1)) + 1
+          : 1;
+        const existing = sameType.find((entry) => (entry.occurrence ?? 1) === occurrence);
+        const id = existing?.id || `${LOCAL_ID_PREFIX}${uuidv4()}`;
+        const payload = {
+          application_id: applicationId,
           entry_type: entryType,
           entry_date: entryDate,
           notes,
-          updated_at: new Date().toISOString(),
-          // user_id will be set automatically by the database trigger
-        },
-        {
-          onConflict: 'user_id,entry_type',
+          occurrence,
+        };
+
+        assertValidTimelineEntry(
+          { ...payload, id },
+          entries.filter((entry) => entry.application_id === applicationId)
+        );
+
+        await enqueueMutation(userId, { type: 'add', entry_id: id, payload });
+        await timelineCache.setEntries(userId, [
+          ...entries.filter((entry) => entry.id !== id),
+          {
+            ...existing,
+            ...payload,
+            id,
+            user_id: userId,
+            created_at: existing?.created_at || now,
+            updated_at: now,
+            sync_status: 'pending',
+          },
+        ]);
+
+        return { entryId: id, occurrence };
+      });
+
+      logger.info('Timeline entry queued', { applicationId, entryType, entryId, occurrence });
+
+      await this.syncPendingMutations();
+
+      // The entry id changes once the server assigns one, so look it up by type
+      const entries = await timelineCache.getEntries(userId);
+      return (entries.find((entry) => entry.id === entryId) ||
+        entries.find(
+          (entry) =>
+            entry.application_id === applicationId &&
+            entry.entry_type === entryType &&
+            (entry.occurrence ?? 1) === occurrence
+        )) as TimelineEntry;
+    } catch (error) {
+      if (
+        error instanceof DatabaseError ||
+        error instanceof EntryValidationError ||
+        error instanceof ValidationError
+      ) {
+        throw error;
+      }
+
+      logger.error('Error submitting entry', { error });
+      throw new Error('Failed to submit entry. Please try again.');
+    }
+  },
+
+  /**
+   * Adds several entries to an application in a single request, e.g. from an import
+   *
+   * Unlike addEntry this needs a connection: the entries are written in one statement
+   * so that either all of them are saved or none are. Non-repeatable milestones
+   * replace the existing entry of the same type; repeatable ones are appended.
+   *
+   * @param applicationId - ID of the application the entries belong to
+   * @param entries - Entries to add
+   * @returns Promise resolving to the saved entries
+   * @throws ValidationError if required fields are missing
+   * @throws EntryValidationError if the entries break the milestone order
+   * @throws NetworkError if the server can't be reached or local changes are still waiting to sync
+   * @throws DatabaseError if the server rejects the entries
+   */
+  async addEntries(
+    applicationId: string,
+    entries: Pick<TimelineEntry, 'entry_type' | 'entry_date' | 'notes'>[]
+  ): Promise<TimelineEntry[]> {
+    if (!applicationId) {
+      logger.warn('Attempted to add entries with empty applicationId');
+      throw new ValidationError('applicationId');
+    }
+
+    if (entries.length === 0 || entries.some((entry) => !entry.entry_type || !entry.entry_date)) {
+      logger.warn('Attempted to add entries with missing fields');
+      throw new ValidationError('entries');
+    }
+
+    try {
+      const userId = await getSessionUserId();
+      if (!userId) {
+        logger.error('Attempted to add entries without authentication');
+        throw new Error('You must be signed in to add entries');
+      }
+
+      // The batch is written directly, so earlier queued changes have to reach the server first
+      await this.syncPendingMutations();
+
+      const payload = await withQueueLock(async () => {
+        const queue = await timelineCache.getQueue(userId);
+        if (queue.some((queued) => queued.status === 'pending')) {
+          throw new NetworkError('Connect to the internet to import entries');
         }
-      );
+
+        const existing = (await timelineCache.getEntries(userId)).filter(
+          (entry) => entry.application_id === applicationId
+        );
+        const nextOccurrence = new Map<EntryType, number>();
+        const rows = [...entries]
+          .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+          .map((entry) => {
+            let occurrence = 1;
+            if (isRepeatableEntryType(entry.entry_type)) {
+              occurrence =
+                nextOccurrence.get(entry.entry_type) ??
+                Math.max(
+                  0,
+                  ...existing
+                    .filter((other) => other.entry_type === entry.entry_type)
+                    .map((other) => other.occurrence ?? 1)
+                ) + 1;
+              nextOccurrence.set(entry.entry_type, occurrence + 1);
+            }
+
+            return {
+              application_id: applicationId,
+              entry_type: entry.entry_type,
+              entry_date: entry.entry_date,
+              notes: entry.notes ?? '',
+              occurrence,
+            };
+          });
+
+        // Validate every row against the timeline as it will look after the batch
+        const merged: TimelineEntry[] = [
+          ...existing.filter(
+            (entry) =>
+              !rows.some(
+                (row) =>
+                  row.entry_type === entry.entry_type && row.occurrence === (entry.occurrence ?? 1)
+              )
+          ),
+          ...rows.map((row, index) => ({ ...row, id: `batch-${index}` })),
+        ];
+        rows.forEach((row, index) =>
+          assertValidTimelineEntry({ ...row, id: `batch-${index}` }, merged)
+        );
+
+        return rows;
+      });
+
+      const { data, error } = await supabase
+        .from('timeline_entries')
+        .upsert(
+          payload.map((row) => ({ ...row, updated_at: new Date().toISOString() })),
+          { onConflict: 'application_id,entry_type,occurrence' }
+        )
+        .select();
 
       if (error) {
-        logger.error('Error adding timeline entry', { error, entryType });
-        throw new DatabaseError(error.message, {
-          code: error.code,
-          details: error.details,
-          hint: error.hint,
-        });
+        logger.error('Error adding timeline entries', { error, applicationId });
+        throw toServiceError(error);
       }
 
-      logger.info('Timeline entry added/updated successfully', { entryType });
-
-      return {
-        id: (data as unknown as any[])?.[0]?.id || '',
-        user_id: session.user.id,
-        entry_type: entryType,
-        entry_date: entryDate,
-        notes,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      } as TimelineEntry;
+      const saved = (data as TimelineEntry[]).map(
+        (row): TimelineEntry => ({ ...row, sync_status: 'synced' })
+      );
+
+      await withQueueLock(async () => {
+        const cached = await timelineCache.getEntries(userId);
+        await timelineCache.setEntries(userId, [
+          ...cached.filter(
+            (entry) =>
+              !saved.some(
+                (row) =>
+                  row.id === entry.id ||
+                  (row.application_id === entry.application_id &&
+                    row.entry_type === entry.entry_type &&
+                    (row.occurrence ?? 1) === (entry.occurrence ?? 1))
+              )
+          ),
+          ...saved,
+        ]);
+      });
+
+      logger.info('Timeline entries added', { applicationId, count: saved.length });
+      return saved;
     } catch (error) {
-      if (error instanceof DatabaseError || error instanceof ValidationError) {
+      if (
+        error instanceof DatabaseError ||
+        error instanceof EntryValidationError ||
+        error instanceof NetworkError ||
+        error instanceof ValidationError
+      ) {
         throw error;
       }
 
-      logger.error('Error submitting entry', { error });
-      throw new Error('Failed to submit entry. Please try again.');
+      if (isNetworkFailure(error)) {
+        throw new NetworkError('Connect to the internet to import entries');
+      }
+
+      logger.error('Error adding entries', { error });
+      throw new Error('Failed to add entries. Please try again.');
     }
   },
 
+  /**
+   * Gets the locally stored timeline without contacting the server
+   *
+   * @param applicationId - Optional application to restrict the entries to
+   * @returns Promise resolving to the cached entries, newest first
+   */
+  async getCachedTimeline(applicationId?: string): Promise<TimelineEntry[]> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return [];
+    }
+
+    const entries = await timelineCache.getEntries(userId);
+    return filterByApplication(entries, applicationId).sort((a, b) =>
+      b.entry_date.localeCompare(a.entry_date)
+    );
+  },
+
   /**
    * Retrieves timeline entries for the authenticated user
    *
+   * Refreshes the local copy from Supabase, keeping changes that are still queued.
+   * When the server can't be reached, the local copy is returned instead.
+   *
+   * @param applicationId - Optional application to restrict the entries to
    * @returns Promise resolving to an array of timeline entries
-   * @throws DatabaseError if a database operation fails
+   * @throws DatabaseError if the server rejects the query
    */
-  async getUserTimeline(): Promise<TimelineEntry[]> {
+  async getUserTimeline(applicationId?: string): Promise<TimelineEntry[]> {
     try {
       // Check if user is authenticated
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session?.user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         logger.warn('Attempted to get timeline without authentication');
         return [];
       }
 
+      // Push local changes first so the refreshed copy includes them
+      await this.syncPendingMutations();
+
       // Get timeline entries
       const { data, error } = await supabase
         .from('timeline_entries')
@@ -107,23 +569,28 @@ export const timelineService = {
 
       if (error) {
         logger.error('Error getting timeline entries', { error });
-        throw new DatabaseError(error.message, {
-          code: error.code,
-          details: error.details,
-          hint: error.hint,
-        });
+        throw toServiceError(error);
       }
 
-      return data as TimelineEntry[];
+      return await withQueueLock(async () => {
+        const queue = await timelineCache.getQueue(userId);
+        const entries = applyQueuedMutations(data as TimelineEntry[], queue);
+        await timelineCache.setEntries(userId, entries);
+        return filterByApplication(entries, applicationId);
+      });
     } catch (error) {
       if (error instanceof DatabaseError) {
         throw error;
       }
 
-      logger.error('Error getting timeline entries', { error });
-
-      // Instead of throwing an error, return an empty array
-      return [];
+      logger.warn('Falling back to cached timeline entries', { error });
+      try {
+        return await this.getCachedTimeline(applicationId);
+      } catch (cacheError) {
+        // The session lookup itself can fail, e.g. when auth isn't initialized
+        logger.error('Error reading cached timeline entries', { error: cacheError });
+        return [];
+      }
     }
   },
 
@@ -133,8 +600,9 @@ export const timelineService = {
    * @param entryId - ID of the entry to update
    * @param updates - Partial entry object with fields to update
    * @returns Promise resolving to the updated entry
+   * @throws ValidationError if entryId is missing
    * @throws EntryNotFoundError if entry not found
-   * @throws DatabaseError if a database operation fails
+   * @throws EntryValidationError if the date breaks the milestone order
    */
   async updateEntry(entryId: string, updates: Partial<TimelineEntry>): Promise<TimelineEntry> {
     if (!entryId) {
@@ -144,65 +612,57 @@ export const timelineService = {
 
     try {
       // Check if user is authenticated
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session?.user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         logger.error('Attempted to update entry without authentication');
         throw new Error('You must be signed in to update entries');
       }
 
-      // First, check if the entry exists
-      const { data: entryExists, error: checkError } = await supabase
-        .from('timeline_entries')
-        .select('id')
-        .eq('id', entryId)
-        .single();
+      await withQueueLock(async () => {
+        const entries = await timelineCache.getEntries(userId);
+        const existing = entries.find((entry) => entry.id === entryId);
 
-      if (checkError || !entryExists) {
-        logger.error('Entry not found for update', { entryId });
-        throw new EntryNotFoundError(entryId);
-      }
+        if (!existing) {
+          logger.error('Entry not found for update', { entryId });
+          throw new EntryNotFoundError(entryId);
+        }
 
-      // Update the entry
-      const updatePayload = {
+        const payload = toServerPayload(updates);
+        assertValidTimelineEntry(
+          { ...existing, ...payload },
+          entries.filter((entry) => entry.application_id === existing.application_id)
+        );
+
+        await enqueueMutation(userId, { type: 'update', entry_id: entryId, payload });
+        await timelineCache.setEntries(
+          userId,
+          entries.map((entry) =>
+            entry.id === entryId
+              ? {
+                  ...entry,
+                  ...payload,
+                  updated_at: new Date().toISOString(),
+                  sync_status: 'pending',
+                }
+              : entry
+          )
+        );
+      });
+
+      logger.info('Timeline entry update queued', { entryId });
+
+      await this.syncPendingMutations();
+
+      const entries = await timelineCache.getEntries(userId);
+      return (entries.find((entry) => entry.id === entryId) || {
         ...updates,
-        updated_at: new Date().toISOString(),
-      };
-
-      const { error } = await supabase
-        .from('timeline_entries')
-        .update(updatePayload)
-        .eq('id', entryId);
-
-      if (error) {
-        logger.error('Error updating timeline entry', { error, entryId });
-        throw new DatabaseError(error.message, {
-          code: error.code,
-          details: error.details,
-          hint: error.hint,
-        });
-      }
-
-      logger.info('Timeline entry updated successfully', { entryId });
-
-      // Get the updated entry
-      const { data: updatedEntry, error: fetchError } = await supabase
-        .from('timeline_entries')
-        .select('*')
-        .eq('id', entryId)
-        .single();
-
-      if (fetchError) {
-        logger.warn('Error fetching updated entry', { error: fetchError });
-        return { ...updates, id: entryId } as TimelineEntry;
-      }
-
-      return updatedEntry as TimelineEntry;
+        id: entryId,
+      }) as TimelineEntry;
     } catch (error) {
       if (
         error instanceof DatabaseError ||
         error instanceof EntryNotFoundError ||
+        error instanceof EntryValidationError ||
         error instanceof ValidationError
       ) {
         throw error;
@@ -217,8 +677,8 @@ export const timelineService = {
    * Deletes a timeline entry
    *
    * @param entryId - ID of the entry to delete
+   * @throws ValidationError if entryId is missing
    * @throws EntryNotFoundError if entry not found
-   * @throws DatabaseError if a database operation fails
    */
   async deleteEntry(entryId: string): Promise<void> {
     if (!entryId) {
@@ -228,39 +688,30 @@ export const timelineService = {
 
     try {
       // Check if user is authenticated
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session?.user) {
+      const userId = await getSessionUserId();
+      if (!userId) {
         logger.error('Attempted to delete entry without authentication');
         throw new Error('You must be signed in to delete entries');
       }
 
-      // Delete the entry
-      const { data, error } = await supabase.from('timeline_entries').delete().eq('id', entryId);
+      await withQueueLock(async () => {
+        const entries = await timelineCache.getEntries(userId);
 
-      if (error) {
-        logger.error('Error deleting timeline entry', { error, entryId });
-        throw new DatabaseError(error.message, {
-          code: error.code,
-          details: error.details,
-          hint: error.hint,
-        });
-      }
+        if (!entries.some((entry) => entry.id === entryId)) {
+          logger.error('Entry not found for deletion', { entryId });
+          throw new EntryNotFoundError(entryId);
+        }
 
-      // Check if any rows were affected
-      if (!data) {
-        logger.error('Entry not found for deletion', { entryId });
-        throw new EntryNotFoundError(entryId);
-      }
+        await enqueueMutation(userId, { type: 'delete', entry_id: entryId });
+        await timelineCache.setEntries(
+          userId,
+          entries.filter((entry) => entry.id !== entryId)
+        );
+      });
 
-      const typedData = data as unknown as any[];
-      if (Array.isArray(typedData) && typedData.length === 0) {
-        logger.error('Entry not found for deletion', { entryId });
-        throw new EntryNotFoundError(entryId);
-      }
+      logger.info('Timeline entry deletion queued', { entryId });
 
-      logger.info('Timeline entry deleted successfully', { entryId });
+      await this.syncPendingMutations();
     } catch (error) {
       if (
         error instanceof DatabaseError ||
@@ -274,4 +725,254 @@ export const timelineService = {
       throw new Error('Failed to delete entry. Please try again.');
     }
   },
+
+  /**
+   * Retrieves the edit history of a timeline entry, newest first
+   *
+   * Entries created offline have no history until they reach the server.
+   *
+   * @param entryId - ID of the entry
+   * @returns Promise resolving to the entry's revisions
+   * @throws ValidationError if entryId is missing
+   * @throws NetworkError if the server can't be reached
+   * @throws DatabaseError if the server rejects the query
+   */
+  async getEntryHistory(entryId: string): Promise<TimelineEntryRevision[]> {
+    if (!entryId) {
+      logger.warn('Attempted to get history with empty entryId');
+      throw new ValidationError('entryId');
+    }
+
+    if (isLocalId(entryId)) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('timeline_entry_revisions')
+      .select('*')
+      .eq('entry_id', entryId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      logger.error('Error getting entry history', { error, entryId });
+      throw toServiceError(error);
+    }
+
+    return data as TimelineEntryRevision[];
+  },
+
+  /**
+   * Restores a timeline entry to the state saved in one of its revisions
+   *
+   * The restore is an ordinary update, so it goes through validation and
+   * the offline queue, and adds a new revision once synced.
+   *
+   * @param revision - Revision to restore
+   * @returns Promise resolving to the updated entry
+   * @throws EntryNotFoundError if the entry no longer exists
+   * @throws EntryValidationError if the restored date breaks the milestone order
+   */
+  async restoreRevision(revision: TimelineEntryRevision): Promise<TimelineEntry> {
+    logger.info('Restoring timeline entry revision', {
+      entryId: revision.entry_id,
+      revisionId: revision.id,
+    });
+
+    return this.updateEntry(revision.entry_id, {
+      entry_type: revision.entry_type,
+      entry_date: revision.entry_date,
+      notes: revision.notes ?? '',
+    });
+  },
+
+  /**
+   * Replays queued mutations against Supabase, oldest first
+   *
+   * Stops at the first connectivity failure so that the order is preserved.
+   * Mutations rejected by the server are marked as failed and skipped until retried.
+   * Concurrent calls share the same replay.
+   */
+  async syncPendingMutations(): Promise<void> {
+    if (activeSync) {
+      return activeSync;
+    }
+
+    const replay = async () => {
+      const userId = await getSessionUserId();
+      if (!userId) return;
+
+      while (true) {
+        const queue = await withQueueLock(() => timelineCache.getQueue(userId));
+        const mutation = queue.find((queued) => queued.status === 'pending');
+        if (!mutation) return;
+
+        inFlightMutationId = mutation.id;
+
+        try {
+          const row = await replayMutation(mutation);
+
+          await withQueueLock(async () => {
+            let remaining = (await timelineCache.getQueue(userId)).filter(
+              (queued) => queued.id !== mutation.id
+            );
+            let entries = await timelineCache.getEntries(userId);
+            let entryId = mutation.entry_id;
+
+            // Swap the local id for the one assigned by the server
+            if (row?.id && row.id !== entryId) {
+              const localId = entryId;
+              entryId = row.id;
+              remaining = remaining.map((queued) =>
+                queued.entry_id === localId ? { ...queued, entry_id: entryId } : queued
+              );
+              entries = entries.map((entry) =>
+                entry.id === localId ? { ...entry, ...row, id: entryId } : entry
+              );
+            }
+
+            const stillQueued = remaining.some((queued) => queued.entry_id === entryId);
+            if (!stillQueued) {
+              entries = entries.map((entry) =>
+                entry.id === entryId ? { ...entry, sync_status: 'synced' } : entry
+              );
+            }
+
+            await timelineCache.setQueue(userId, remaining);
+            await timelineCache.setEntries(userId, entries);
+          });
+
+          logger.info('Timeline mutation synced', { type: mutation.type, entryId: row?.id });
+        } catch (error) {
+          if (isNetworkFailure(error)) {
+            logger.warn('Timeline sync paused, server unreachable', { pending: queue.length });
+            return;
+          }
+
+          logger.error('Timeline mutation rejected by server', { error, mutation });
+
+          await withQueueLock(async () => {
+            const current = await timelineCache.getQueue(userId);
+            await timelineCache.setQueue(
+              userId,
+              current.map((queued) =>
+                queued.id === mutation.id
+                  ? {
+                      ...queued,
+                      status: 'failed',
+                      last_error: error instanceof Error ? error.message : String(error),
+                    }
+                  : queued
+              )
+            );
+
+            const entries = await timelineCache.getEntries(userId);
+            await timelineCache.setEntries(
+              userId,
+              entries.map((entry) =>
+                entry.id === mutation.entry_id ? { ...entry, sync_status: 'failed' } : entry
+              )
+            );
+          });
+        } finally {
+          inFlightMutationId = null;
+        }
+      }
+    };
+
+    activeSync = replay()
+      .catch((error) => {
+        logger.error('Error syncing timeline mutations', { error });
+      })
+      .finally(() => {
+        activeSync = null;
+      });
+
+    return activeSync;
+  },
+
+  /**
+   * Marks failed mutations as pending again and replays the queue
+   */
+  async retryFailedMutations(): Promise<void> {
+    const userId = await getSessionUserId();
+    if (!userId) return;
+
+    await withQueueLock(async () => {
+      const queue = await timelineCache.getQueue(userId);
+      const failedIds = queue
+        .filter((queued) => queued.status === 'failed')
+        .map((queued) => queued.entry_id);
+
+      await timelineCache.setQueue(
+        userId,
+        queue.map((queued) => ({ ...queued, status: 'pending', last_error: undefined }))
+      );
+
+      const entries = await timelineCache.getEntries(userId);
+      await timelineCache.setEntries(
+        userId,
+        entries.map((entry) =>
+          entry.id && failedIds.includes(entry.id) ? { ...entry, sync_status: 'pending' } : entry
+        )
+      );
+    });
+
+    await this.syncPendingMutations();
+  },
+
+  /**
+   * Keeps the local timeline in sync with changes made on other devices
+   * Changes are written to the local copy, so every subscribed screen updates;
+   * after (re)connecting the timeline is refreshed to catch up on missed changes
+   *
+   * @param userId - Authenticated user id
+   * @param transport - Source of the changes, Supabase realtime by default
+   * @returns Function that stops the sync
+   */
+  startRealtimeSync(
+    userId: string,
+    transport: TimelineRealtimeTransport = createSupabaseRealtimeTransport()
+  ): () => void {
+    logger.info('Starting timeline realtime sync');
+
+    return transport.subscribe(userId, {
+      onChange: (change) => {
+        withQueueLock(async () => {
+          const entries = await timelineCache.getEntries(userId);
+          const queue = await timelineCache.getQueue(userId);
+          const updated = applyRemoteChange(entries, queue, change);
+
+          if (updated) {
+            await timelineCache.setEntries(userId, updated);
+            logger.info('Applied timeline change from another device', {
+              type: change.type,
+              entryId: change.entry_id,
+            });
+          }
+        }).catch((error) => {
+          logger.error('Error applying timeline change from another device', { error, change });
+        });
+      },
+      onConnected: () => {
+        this.getUserTimeline().catch((error) => {
+          logger.warn('Could not refresh timeline after connecting', { error });
+        });
+      },
+    });
+  },
+
+  /**
+   * Subscribes to changes of the local timeline of the signed in user
+   *
+   * @param listener - Called with the entries after every local write
+   * @param applicationId - Optional application to restrict the entries to
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: (entries: TimelineEntry[]) => void, applicationId?: string): () => void {
+    return timelineCache.subscribe(async (userId, entries) => {
+      if ((await getSessionUserId()) === userId) {
+        listener(filterByApplication(entries, applicationId));
+      }
+    });
+  },
 };
@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { getSessionUserId } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import { DatabaseError, Trip, TripInput, ValidationError } from '../types';
+
+const TRIPS_KEY_PREFIX = '@timeline-ecopr/trips/';
+
+/**
+ * Service for the trips outside Canada logged by the signed in user
+ * The list is cached locally so the residency obligation can be checked offline
+ */
+export const tripService = {
+  /**
+   * Retrieves the trips of the authenticated user, most recent departure first
+   *
+   * @returns Promise resolving to the user's trips
+   * @throws DatabaseError if the server rejects the query and nothing is cached
+   */
+  async getTrips(): Promise<Trip[]> {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      logger.warn('Attempted to get trips without authentication');
+      return [];
+    }
+
+    const cacheKey = `${TRIPS_KEY_PREFIX}${userId}`;
+
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .order('departure_date', { ascending: false });
+
+      if (error) {
+        logger.error('Error getting trips', { error });
+        throw new DatabaseError(error.message, {
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
+        });
+      }
+
+      await AsyncStorage.setItem(cacheKey, JSON.stringify(data));
+      return data as Trip[];
+    } catch (error) {
+      const cached = await AsyncStorage.getItem(cacheKey);
+      if (cached) {
+        logger.warn('Falling back to cached trips', { error });
+        return JSON.parse(cached) as Trip[];
+      }
+
+      throw error;
+    }
+  },
+
+  /**
+   * Logs a trip for the authenticated user
+   *
+   * @param trip - Dates, destination and purpose of the trip
+   * @returns Promise resolving to the created trip
+   * @throws ValidationError if the departure date or destination is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async addTrip(trip: TripInput): Promise<Trip> {
+    const normalized = this._normalizeTrip(trip);
+
+    const { data, error } = await supabase
+      .from('trips')
+      // user_id will be set automatically by the database trigger
+      .insert(normalized)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error adding trip', { error });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Trip added successfully', { tripId: data.id });
+    return data as Trip;
+  },
+
+  /**
+   * Updates a logged trip
+   *
+   * @param tripId - ID of the trip to update
+   * @param trip - New dates, destination and purpose
+   * @returns Promise resolving to the updated trip
+   * @throws ValidationError if the id, departure date or destination is missing
+   * @throws DatabaseError if a database operation fails
+   */
+  async updateTrip(tripId: string, trip: TripInput): Promise<Trip> {
+    if (!tripId) {
+      logger.warn('Attempted to update trip with empty tripId');
+      throw new ValidationError('tripId');
+    }
+
+    const { data, error } = await supabase
+      .from('trips')
+      .update(this._normalizeTrip(trip))
+      .eq('id', tripId)
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Error updating trip', { error, tripId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Trip updated successfully', { tripId });
+    return data as Trip;
+  },
+
+  /**
+   * Deletes a logged trip
+   *
+   * @param tripId - ID of the trip to delete
+   * @throws DatabaseError if a database operation fails
+   */
+  async deleteTrip(tripId: string): Promise<void> {
+    if (!tripId) {
+      logger.warn('Attempted to delete trip with empty tripId');
+      throw new ValidationError('tripId');
+    }
+
+    const { error } = await supabase.from('trips').delete().eq('id', tripId);
+
+    if (error) {
+      logger.error('Error deleting trip', { error, tripId });
+      throw new DatabaseError(error.message, {
+        code: error.code,
+        details: error.details,
+        hint: error.hint,
+      });
+    }
+
+    logger.info('Trip deleted successfully', { tripId });
+  },
+
+  /**
+   * Checks the required fields of a trip and trims its text
+   * The order of the dates is enforced by trips_return_after_departure_check
+   *
+   * @private
+   */
+  _normalizeTrip(trip: TripInput): TripInput {
+    if (!trip.departure_date) {
+      throw new ValidationError('departure_date');
+    }
+    if (!trip.destination?.trim()) {
+      throw new ValidationError('destination');
+    }
+
+    return {
+      departure_date: trip.departure_date,
+      return_date: trip.return_date || null,
+      destination: trip.destination.trim(),
+      purpose: trip.purpose?.trim() || null,
+    };
+  },
+};
@@ -5,7 +5,7 @@
  * capabilities and improve error messaging throughout the app.
  */
 
-import { TimelineEntry } from '.';
+import { TimelineEntry, TimelineValidationIssue } from '.';
 
 /**
  * Base error class for all application errors
@@ -76,6 +76,19 @@ export class EntryNotFoundError extends Error {
   }
 }
 
+/**
+ * Custom error for when an application is not found
+ */
+export class ApplicationNotFoundError extends Error {
+  applicationId: string;
+
+  constructor(applicationId: string) {
+    super(`Application not found: ${applicationId}`);
+    this.name = 'ApplicationNotFoundError';
+    this.applicationId = applicationId;
+  }
+}
+
 /**
  * Error thrown when required parameters are missing
  */
@@ -96,12 +109,19 @@ export class ValidationError extends ApplicationError {
 export class EntryValidationError extends Error {
   entry: Partial<TimelineEntry>;
   fieldErrors: Record<string, string>;
-
-  constructor(message: string, entry: Partial<TimelineEntry>, fieldErrors: Record<string, string>) {
+  issues: TimelineValidationIssue[];
+
+  constructor(
+    message: string,
+    entry: Partial<TimelineEntry>,
+    fieldErrors: Record<string, string>,
+    issues: TimelineValidationIssue[] = []
+  ) {
     super(message);
     this.name = 'EntryValidationError';
     this.entry = entry;
     this.fieldErrors = fieldErrors;
+    this.issues = issues;
   }
 }
 
@@ -24,17 +24,197 @@ export type EntryType =
   | 'ecopr'
   | 'pr_card';
 
+/**
+ * Local synchronization state of a timeline entry
+ * - pending: changed locally and waiting to be replayed to Supabase
+ * - synced: matches the server copy
+ * - failed: rejected by the server and needs attention
+ */
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+/**
+ * Immigration application tracked by a user
+ * A user can follow several applications at once (e.g. spousal sponsorship and Express Entry)
+ */
+export interface Application extends ApplicationProfile {
+  id: string;
+  user_id?: string;
+  name: string;
+  is_default?: boolean; // Created automatically for a user without any application
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Immigration program or stream an application was filed under
+ */
+export type ImmigrationProgram = 'cec' | 'fsw' | 'pnp' | 'spousal' | 'other';
+
+/**
+ * Whether the applicant was in Canada (inland) or abroad (outland) when applying
+ */
+export type ApplicantLocation = 'inland' | 'outland';
+
+/**
+ * Profile of an application, used to compare it with similar files in community statistics
+ * Every field is optional; null means the user chose not to say
+ */
+export interface ApplicationProfile {
+  program?: ImmigrationProgram | null;
+  province?: string | null; // Two-letter code of the province or territory of destination
+  applicant_location?: ApplicantLocation | null;
+  dependants?: number | null; // Number of dependants included in the application
+  country_of_residence?: string | null;
+}
+
 /**
  * Timeline entry data structure
  */
 export interface TimelineEntry {
   id?: string;
   user_id?: string;
+  application_id?: string;
   entry_type: EntryType;
   entry_date: string;
   notes?: string;
+  occurrence?: number; // 1 for the first occurrence, higher for repeated milestones
   created_at?: string;
   updated_at?: string;
+  sync_status?: SyncStatus; // Client-side only, never sent to Supabase
+}
+
+/**
+ * A saved state of a timeline entry, recorded by the database on every change
+ */
+export interface TimelineEntryRevision {
+  id: string;
+  entry_id: string;
+  application_id?: string;
+  user_id?: string;
+  operation: 'insert' | 'update' | 'delete';
+  entry_type: EntryType;
+  entry_date: string;
+  notes?: string;
+  occurrence?: number;
+  changed_by?: string;
+  changed_at: string;
+}
+
+/**
+ * Kind of change recorded in the offline mutation queue
+ */
+export type TimelineMutationType = 'add' | 'update' | 'delete';
+
+/**
+ * A queued timeline change waiting to be replayed against Supabase
+ */
+export interface TimelineMutation {
+  id: string;
+  type: TimelineMutationType;
+  entry_id: string; // Local (`local-...`) or server id of the affected entry
+  payload?: Partial<TimelineEntry>;
+  queued_at: string;
+  status: 'pending' | 'failed';
+  last_error?: string;
+}
+
+/**
+ * A change to a timeline entry made elsewhere (another device or the web build),
+ * pushed by the realtime subscription
+ */
+export interface TimelineRealtimeChange {
+  type: 'insert' | 'update' | 'delete';
+  entry_id: string;
+  entry?: TimelineEntry; // New row, missing for deletes
+}
+
+/**
+ * Severity of a timeline validation issue
+ * - error: blocks saving (also enforced by the database)
+ * - warning: unusual but possible, the user may save anyway
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * A problem found when checking an entry against the rest of its timeline
+ */
+export interface TimelineValidationIssue {
+  code:
+    | 'future_date'
+    | 'before_prerequisite'
+    | 'after_dependent'
+    | 'out_of_sequence'
+    | 'occurrence_order';
+  severity: ValidationSeverity;
+  field: keyof TimelineEntry;
+  message: string;
+  related_entry_type?: EntryType; // Milestone the entry conflicts with, if any
+}
+
+/**
+ * File formats the timeline can be exported to
+ */
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+/**
+ * One exported milestone, in chronological order
+ */
+export interface TimelineExportRow {
+  id?: string;
+  entry_type: EntryType;
+  label: string;
+  entry_date: string; // YYYY-MM-DD
+  occurrence: number;
+  days_since_previous: number | null; // null for the first milestone
+  notes: string;
+}
+
+/**
+ * Versioned JSON document produced by the timeline export
+ */
+export interface TimelineExportDocument {
+  format: 'timeline-ecopr';
+  version: number;
+  exported_at: string;
+  application: { id: string; name: string } | null;
+  entries: Omit<TimelineExportRow, 'id'>[];
+}
+
+/**
+ * A milestone read from an imported spreadsheet
+ */
+export interface ImportCandidate {
+  line: number; // 1-based line in the pasted text
+  source_label: string; // Label or column header as written in the file
+  entry_type: EntryType;
+  entry_date: string; // YYYY-MM-DD
+  notes: string;
+}
+
+/**
+ * Result of parsing pasted CSV/TSV text
+ */
+export interface TimelineImportResult {
+  layout: 'rows' | 'columns'; // One milestone per row, or one milestone per column
+  candidates: ImportCandidate[];
+  skipped: { line: number; reason: string }[];
+  dayFirst: boolean; // Whether numeric dates were read as day/month
+  ambiguousDates: boolean; // True when nothing in the file settles day/month vs month/day
+}
+
+/**
+ * How an imported milestone relates to the entries already recorded
+ */
+export type ImportPreviewStatus = 'new' | 'duplicate' | 'repeated' | 'conflict';
+
+/**
+ * Import candidate annotated for the preview
+ */
+export interface ImportPreviewItem extends ImportCandidate {
+  status: ImportPreviewStatus;
+  existing?: TimelineEntry; // Entry already recorded for the milestone
+  replace?: boolean; // For conflicts: overwrite the existing entry
+  issues: TimelineValidationIssue[]; // Blocking order problems after the import
 }
 
 /**
@@ -45,18 +225,105 @@ export interface CommunityStatistic {
   avg_days: number;
   min_days: number;
   max_days: number;
+  median_days: number;
+  p25_days: number; // 25th percentile
+  p75_days: number; // 75th percentile
+  p90_days: number; // 90th percentile, 9 in 10 applicants were done by then
   count: number;
+  excluded_count?: number; // Implausible durations left out of the aggregates
+  suppressed?: boolean; // Too few reports to publish, the aggregates are withheld
   month_year?: string;
+  report_date?: string; // First day of the month, yyyy-MM-dd
   waiting_count?: number; // Count of people waiting (e.g., with P2 waiting for ecoPR)
   week_breakdown?: WeeklyBreakdown[]; // Weekly breakdown data
 }
 
+/**
+ * Statistics read from the local cache
+ */
+export interface CachedStatistics<T> {
+  data: T;
+  fetched_at: string; // ISO timestamp of the server response
+  stale: boolean; // Older than the cache TTL, should be revalidated
+}
+
+/**
+ * Applicants who reached the start of a transition but not its end yet,
+ * grouped by the month they reached the start (e.g. P2 in March, still no ecoPR)
+ */
+export interface WaitingStatistic {
+  transition_type: string;
+  month_year?: string;
+  waiting_count: number;
+  min_days_waiting: number; // Ages of the open waits, in days as of today
+  median_days_waiting: number;
+  p90_days_waiting: number;
+  max_days_waiting: number;
+  suppressed?: boolean; // Too few open waits to publish, the ages are withheld
+}
+
+/**
+ * Number of transitions that took between bin_start and bin_end days (end excluded)
+ */
+export interface DurationHistogramBin {
+  bin_start: number;
+  bin_end: number;
+  count: number;
+}
+
+/**
+ * Applicants of a cohort whose wait ended (events) or is still open (censored) after a number of days
+ */
+export interface SurvivalLifeTableRow {
+  days: number;
+  events: number; // Reached the end of the transition on that day
+  censored: number; // Still waiting, last seen on that day
+}
+
+/**
+ * Step of a Kaplan–Meier curve: the share of the cohort that had reached the end by a day
+ */
+export interface SurvivalPoint {
+  days: number;
+  reached: number; // 0-1, estimated with still-waiting applicants taken into account
+  at_risk: number; // Applicants still waiting and observed up to that day
+}
+
+/**
+ * How an entry month cohort progressed through a transition, e.g. AOR in March → P2
+ */
+export interface CohortSurvival {
+  transition_type: string;
+  report_date: string; // First day of the cohort month, yyyy-MM-dd
+  month_year: string;
+  cohort_size: number;
+  reached_count: number;
+  censored_count: number;
+  points: SurvivalPoint[];
+}
+
+/**
+ * Profile filters for community statistics
+ * Only applications matching every given filter are included
+ */
+export interface CommunityStatisticsFilters {
+  program?: ImmigrationProgram;
+  province?: string;
+  applicant_location?: ApplicantLocation;
+  has_dependants?: boolean;
+  country_of_residence?: string;
+}
+
 /**
  * Weekly breakdown of statistics
  */
 export interface WeeklyBreakdown {
-  week_range: string;
-  count: number;
+  week_start: string; // Monday of the ISO week, yyyy-MM-dd
+  iso_week: number; // ISO 8601 week number
+  week_range: string; // Display label, e.g. "Mar 25–31"
+  count: number; // Transitions that started during the week, within the month
+  median_days?: number | null; // null when no transition started that week
+  suppressed?: boolean; // Too few reports to publish, the count and median are withheld
 }
 
 /**
@@ -76,12 +343,42 @@ export type RootStackParamList = {
   Main: undefined;
   Home: undefined;
   AddEntry: {
+    applicationId?: string;
     entryType?: EntryType;
     entryId?: string;
     mode?: 'create' | 'edit';
     onComplete?: () => void;
     existingEntries?: TimelineEntry[];
   };
+  Import: {
+    applicationId: string;
+    existingEntries?: TimelineEntry[];
+    onComplete?: () => void;
+  };
+  ApplicationProfile: {
+    application: Application;
+    onboarding?: boolean; // Shown right after creating the application
+    onComplete?: (application: Application) => void;
+  };
+  ReminderSettings: undefined;
+  Residency: undefined;
+  TripForm: {
+    trip?: Trip; // Trip to edit, a new one when missing
+    prStartDate?: string; // Used to warn about the residency obligation
+    trips: Trip[];
+    onComplete?: () => void;
+  };
+  Citizenship: undefined;
+  StatusPeriodForm: {
+    period?: StatusPeriod; // Period to edit, a new one when missing
+    onComplete?: () => void;
+  };
+  Checklist: {
+    applicationId: string;
+    entryType: EntryType;
+    program?: ImmigrationProgram | null; // Adds the program's own documents
+    onComplete?: () => void;
+  };
   MockDataDemo: undefined;
   StatisticsTab: undefined;
 };
@@ -173,17 +470,259 @@ export interface User {
 
 /**
  * Statistics for a user's journey transition metrics
+ * Durations are in days and null until both milestones are recorded
  */
 export interface TransitionStatistics {
-  submissionToAOR: number;
-  aorToBiometrics: number;
-  biometricsToMedicals: number;
-  backgroundCheckDuration: number;
-  totalProcessingTime: number;
-  applicationProgress: number;
-  estimatedDaysRemaining: number;
+  submissionToAOR: number | null;
+  aorToBiometrics: number | null; // AOR to biometrics completed
+  biometricsToMedicals: number | null; // Biometrics completed to medicals completed
+  backgroundCheckDuration: number | null; // Still counting while the check is in progress
+  totalProcessingTime: number | null; // Submission to ecoPR, or to today while waiting
+  applicationProgress: number; // Percentage of journey milestones reached
+  estimatedDaysRemaining: number | null; // Until ecoPR, based on community medians
   milestoneNotes: {
     title: string;
     description: string;
   }[];
 }
+
+/**
+ * Community median for a transition, used to compare a user's own timeline
+ */
+export interface CommunityBenchmark {
+  transition_type: string;
+  median_days: number;
+  count: number;
+  segmented: boolean; // True when only applications with the same profile were used
+}
+
+/**
+ * How long a transition took for other applicants who had already waited at least as long
+ * as the user, used to predict the user's next milestone
+ */
+export interface TransitionForecast {
+  transition_type: string;
+  count: number;
+  p10_days: number;
+  p25_days: number;
+  median_days: number;
+  p75_days: number;
+  p90_days: number;
+  segmented: boolean; // True when only applications with the same profile were used
+}
+
+/**
+ * Predicted date of the next milestone, with the ranges half and 8 in 10 similar applicants fell in
+ * Dates are yyyy-MM-dd
+ */
+export interface MilestonePrediction {
+  milestone: EntryType; // Next pending milestone
+  from_milestone: EntryType; // Latest completed milestone the prediction starts from
+  from_date: string;
+  likely_date: string; // Median
+  range_50: { start: string; end: string }; // 25th to 75th percentile
+  range_80: { start: string; end: string }; // 10th to 90th percentile
+  sample_size: number;
+  segmented: boolean;
+}
+
+/**
+ * Time IRCC gives to act on a request, and the milestone recorded once it was done
+ */
+export interface StageDeadlineRule {
+  request: EntryType;
+  completion: EntryType | null; // Null when no milestone records the answer
+  window_days: number; // Counted from the date of the request
+}
+
+/**
+ * State of a deadline derived from a request milestone
+ * - done: the completion milestone was recorded, or the application was finalized
+ * - upcoming: due later
+ * - due_soon: due within a week
+ * - overdue: past due and the completion milestone is still missing
+ * - elapsed: past due, but there is no milestone to tell whether it was answered
+ */
+export type StageDeadlineStatus = 'done' | 'upcoming' | 'due_soon' | 'overdue' | 'elapsed';
+
+/**
+ * Due date of one request, e.g. the second biometrics request of an application
+ * Dates are yyyy-MM-dd
+ */
+export interface StageDeadline {
+  request_type: EntryType;
+  completion_type: EntryType | null;
+  occurrence: number;
+  requested_on: string;
+  due_date: string;
+  days_remaining: number; // Negative once past due
+  status: StageDeadlineStatus;
+  completed_on?: string;
+}
+
+/**
+ * Why a reminder is sent
+ * - completion: a request whose completion milestone hasn't been recorded yet
+ * - wait: a long wait since the latest milestone, e.g. day 60 after P1
+ */
+export type ReminderKind = 'completion' | 'wait';
+
+/**
+ * A local notification derived from the timeline
+ */
+export interface Reminder {
+  id: string; // Stable for the same reminder and time, so rescheduling doesn't duplicate it
+  kind: ReminderKind;
+  application_id?: string;
+  entry_type: EntryType; // Milestone the user is asked to record
+  trigger_at: string; // ISO timestamp
+  title: string;
+  body: string;
+}
+
+/**
+ * Reminders the user wants, stored on the device
+ */
+export interface ReminderPreferences {
+  enabled: boolean;
+  completion_reminders: boolean;
+  completion_after_days: number; // Days after a request to ask whether it was done
+  wait_reminders: boolean;
+  wait_days: number[]; // Days of a wait to send a nudge on, e.g. 30, 60 and 90
+  hour: number; // Local hour reminders are sent at
+}
+
+/**
+ * A trip outside Canada, past or planned
+ * Dates are yyyy-MM-dd; the departure and return days count as days in Canada
+ */
+export interface Trip {
+  id: string;
+  user_id?: string;
+  departure_date: string;
+  return_date?: string | null; // Null while still abroad
+  destination: string;
+  purpose?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Fields of a trip the user fills in
+ */
+export type TripInput = Pick<Trip, 'departure_date' | 'return_date' | 'destination' | 'purpose'>;
+
+/**
+ * Progress towards the residency obligation of permanent residents:
+ * 730 days in Canada in the 5 years before any date (since PR status during the first 5 years)
+ * Dates are yyyy-MM-dd
+ */
+export interface ResidencyStatus {
+  pr_start: string; // Date of the ecoPR
+  window_start: string; // Start of the period counted as of today
+  as_of: string;
+  days_present: number;
+  days_absent: number;
+  days_required: number;
+  obligation_met: boolean;
+  projected_met_date: string | null; // When the required days are reached, with planned trips; null when already met or out of reach
+}
+
+/**
+ * How close a trip brings the user to breaching the residency obligation
+ * - ok: comfortable margin
+ * - tight: less than a month of absences left when coming back
+ * - breach: the obligation would no longer be met when coming back
+ */
+export type TripRisk = 'ok' | 'tight' | 'breach';
+
+export interface TripRiskAssessment {
+  margin_days: number; // Days that could still be spent abroad when coming back, negative on a breach
+  risk: TripRisk;
+}
+
+/**
+ * Temporary status held in Canada before permanent residence
+ */
+export type TemporaryStatusType = 'worker' | 'student' | 'visitor' | 'protected_person';
+
+/**
+ * A period the user lived in Canada with temporary status, before PR
+ * Dates are yyyy-MM-dd, both included
+ */
+export interface StatusPeriod {
+  id: string;
+  user_id?: string;
+  status_type: TemporaryStatusType;
+  start_date: string;
+  end_date?: string | null; // Null when the status lasted until PR
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Fields of a status period the user fills in
+ */
+export type StatusPeriodInput = Pick<StatusPeriod, 'status_type' | 'start_date' | 'end_date'>;
+
+/**
+ * Days counted towards the 1,095 days of physical presence required for citizenship,
+ * over the 5 years before a date. Dates are yyyy-MM-dd
+ */
+export interface CitizenshipEligibility {
+  pr_start: string; // Date of the ecoPR
+  window_start: string; // Start of the 5 years counted as of today
+  as_of: string;
+  pr_days: number; // Days in Canada as a permanent resident
+  temporary_days: number; // Days in Canada with temporary status before PR
+  temporary_credit: number; // Half of the temporary days, up to the cap
+  days_absent: number; // Days abroad within the 5 years, not counted
+  days_counted: number; // PR days plus the temporary credit
+  days_required: number;
+  eligible: boolean;
+  eligibility_date: string | null; // Earliest date the required days are reached, today when eligible; null when out of reach
+}
+
+/**
+ * An item of the default document checklist of a milestone
+ */
+export interface ChecklistTemplateItem {
+  key: string; // Stable identifier, stored with the user's progress
+  label: string;
+  description?: string;
+}
+
+/**
+ * Progress stored on a checklist item: a default item the user ticked or annotated,
+ * or an item the user added themselves
+ */
+export interface ChecklistItemRecord {
+  id: string;
+  user_id?: string;
+  application_id: string;
+  entry_type: EntryType;
+  item_key?: string | null; // Key of the default item, null for items added by the user
+  label?: string | null; // Text of an item added by the user
+  checked: boolean;
+  note?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A checklist item as shown to the user, defaults merged with the stored progress
+ */
+export interface ChecklistItem {
+  key: string; // Key of the default item, or the record id for items added by the user
+  label: string;
+  description?: string;
+  checked: boolean;
+  note?: string | null;
+  custom: boolean; // Added by the user, can be deleted
+  record_id?: string; // Stored progress, if any
+}
+
+export interface ChecklistProgress {
+  checked: number;
+  total: number;
+}
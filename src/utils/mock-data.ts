@@ -1,14 +1,29 @@
-import { format, subDays } from 'date-fns';
+import { addDays, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
 import { v4 as uuidv4 } from 'uuid';
 
 import {
+  DEFAULT_TRANSITION_TYPES,
+  MILESTONE_ORDER,
+  parseTransitionType,
+} from '../constants/milestones';
+import { binDurations } from '../lib/distribution';
+import { formatWeekRange, getISOWeeksOfMonth } from '../lib/iso-weeks';
+import { buildLifeTable, computeSurvivalCurve, SurvivalObservation } from '../lib/survival';
+import {
+  CohortSurvival,
   CommunityStatistic,
+  DurationHistogramBin,
   EntryType,
   TimelineEntry,
+  TransitionForecast,
   TransitionStatistics,
+  WaitingStatistic,
   WeeklyBreakdown,
 } from '../types';
 
+// Same default as statistics_min_group_size() on the server
+const MOCK_MIN_GROUP_SIZE = 5;
+
 /**
  * Generate a set of mock timeline entries for testing
  * @param userId - User identifier
@@ -74,9 +89,13 @@ export const loadMockDataForCurrentDevice = (deviceId: string): TimelineEntry[]
  * Generates mock statistics data for the community statistics screen
  *
  * @param transitionType - Optional transition type filter
+ * @param includeFlagged - Whether implausible durations are kept in the aggregates
  * @returns Array of mock community statistics
  */
-export const generateMockStatistics = (transitionType?: string): CommunityStatistic[] => {
+export const generateMockStatistics = (
+  transitionType?: string,
+  includeFlagged = false
+): CommunityStatistic[] => {
   const stats: CommunityStatistic[] = [];
   const now = new Date();
 
@@ -87,14 +106,12 @@ export const generateMockStatistics = (transitionType?: string): CommunityStatis
       month: 'short',
       year: 'numeric',
     });
+    const reportDate = format(month, 'yyyy-MM-dd');
 
-    // Generate statistics for each transition type
-    const transitionTypes = ['aor-p2', 'p2-ecopr', 'ecopr-pr_card'];
+    // Generate statistics for the requested transition, or each default one
+    const transitionTypes = transitionType ? [transitionType] : DEFAULT_TRANSITION_TYPES;
 
     for (const type of transitionTypes) {
-      // Skip if filtering by type and this isn't the requested type
-      if (transitionType && type !== transitionType) continue;
-
       // Create realistic-looking data with a trend
       // More recent months have higher counts (growing community)
       const count = Math.max(5, Math.floor(30 - i * 2 + Math.random() * 10));
@@ -123,63 +140,53 @@ export const generateMockStatistics = (transitionType?: string): CommunityStatis
           minDays = avgDays - 20 - Math.floor(Math.random() * 10);
           maxDays = avgDays + 40 + Math.floor(Math.random() * 20);
           break;
+        default: {
+          // Any other pair: roughly 20 days per milestone in between
+          const pair = parseTransitionType(type);
+          const steps = pair
+            ? MILESTONE_ORDER.indexOf(pair[1]) - MILESTONE_ORDER.indexOf(pair[0])
+            : 1;
+          avgDays = steps * 20 + Math.floor(Math.random() * 20);
+          minDays = Math.max(0, avgDays - 10 - Math.floor(Math.random() * 10));
+          maxDays = avgDays + 20 + Math.floor(Math.random() * 20);
+        }
+      }
+
+      // Right-skewed spread: the median sits below the average, the slow tail pulls p90 up
+      const medianDays = avgDays - Math.floor((avgDays - minDays) * 0.2);
+      const p25Days = Math.round(minDays + (medianDays - minDays) * 0.5);
+      const p75Days = Math.round(medianDays + (maxDays - medianDays) * 0.35);
+      const p90Days = Math.round(medianDays + (maxDays - medianDays) * 0.7);
+
+      // A few joke or mistyped entries per month, e.g. a 2-day wait or one of several years
+      const flaggedCount = Math.floor(Math.random() * 3);
+      if (includeFlagged && flaggedCount > 0) {
+        minDays = Math.min(minDays, 2);
+        maxDays = Math.max(maxDays, 1500);
       }
 
       // Create statistics with waiting counts for the P2-ecoPR transition
       const waitingCount =
         type === 'p2-ecopr' ? count * 3 + Math.floor(Math.random() * 10) : undefined;
 
-      // Create weekly breakdown data for P2-ecoPR transition (for detailed view)
-      const weekBreakdown: WeeklyBreakdown[] = [];
-
-      if (type === 'p2-ecopr') {
-        // Generate 4 weeks of data with realistic distribution
-        const totalCount = waitingCount || count;
-        const weeksInMonth = 4;
-        let remainingCount = totalCount;
-
-        for (let w = 0; w < weeksInMonth; w++) {
-          // Distribute the count across weeks, with randomness
-          // Last week gets the remainder
-          let weekCount;
-          if (w === weeksInMonth - 1) {
-            weekCount = remainingCount;
-          } else {
-            // Each week gets roughly proportional amount with some randomness
-            const proportion = 1 / (weeksInMonth - w);
-            weekCount = Math.max(
-              1,
-              Math.floor(remainingCount * proportion * (0.7 + Math.random() * 0.6))
-            );
-            weekCount = Math.min(weekCount, remainingCount - 1);
-          }
-
-          remainingCount -= weekCount;
-
-          // Use high values for some weeks to simulate "full" bars
-          if (i === 0 && w === 1) {
-            weekCount = 25; // High value for a specific week to show a full bar
-          }
-
-          const weekStart = w * 7 + 1;
-          const weekEnd = Math.min((w + 1) * 7, 31); // Cap at month end
-
-          weekBreakdown.push({
-            week_range: `${monthYear} ${weekStart}-${weekEnd}`,
-            count: weekCount,
-          });
-        }
-      }
-
       stats.push({
         transition_type: type,
         avg_days: avgDays,
         min_days: minDays,
         max_days: maxDays,
-        count,
+        median_days: medianDays,
+        p25_days: p25Days,
+        p75_days: p75Days,
+        p90_days: p90Days,
+        count: includeFlagged ? count + flaggedCount : count,
+        excluded_count: includeFlagged ? 0 : flaggedCount,
         month_year: monthYear,
+        report_date: reportDate,
         waiting_count: waitingCount,
-        week_breakdown: type === 'p2-ecopr' ? weekBreakdown : undefined,
+        week_breakdown:
+          type === 'p2-ecopr'
+            ? generateMockWeeklyBreakdown(type, reportDate, count, medianDays)
+            : undefined,
       });
     }
   }
@@ -191,10 +198,185 @@ export const generateMockStatistics = (transitionType?: string): CommunityStatis
  * Load mock statistics data
  *
  * @param transitionType - Optional transition type filter
+ * @param includeFlagged - Whether implausible durations are kept in the aggregates
  * @returns Mock community statistics
  */
-export const loadMockStatisticsData = (transitionType?: string): CommunityStatistic[] => {
-  return generateMockStatistics(transitionType);
+export const loadMockStatisticsData = (
+  transitionType?: string,
+  includeFlagged = false
+): CommunityStatistic[] => {
+  return generateMockStatistics(transitionType, includeFlagged);
+};
+
+/**
+ * Generate mock "still waiting" statistics for the past 12 months
+ * Older months have fewer applicants left waiting, as most of them got through
+ *
+ * @param transitionType - Transition of the open stage, e.g. 'p2-ecopr'
+ * @returns Mock waiting statistics, newest month first
+ */
+export const generateMockWaitingStatistics = (transitionType = 'p2-ecopr'): WaitingStatistic[] => {
+  const stats: WaitingStatistic[] = [];
+  const now = new Date();
+
+  for (let i = 0; i < 12; i++) {
+    const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    const monthEnd = new Date(now.getFullYear(), now.getMonth() - i + 1, 0);
+    const waitingCount = Math.max(1, Math.floor((40 - i * 3) * (0.8 + Math.random() * 0.4)));
+
+    // Ages range from the end of the month (newest) to its start (oldest)
+    const minDays = Math.max(0, differenceInCalendarDays(now, monthEnd));
+    const maxDays = differenceInCalendarDays(now, monthStart);
+
+    stats.push({
+      transition_type: transitionType,
+      month_year: monthStart.toLocaleDateString('en-US', {
+        month: 'short',
+        year: 'numeric',
+      }),
+      waiting_count: waitingCount,
+      min_days_waiting: minDays,
+      median_days_waiting: Math.round((minDays + maxDays) / 2),
+      p90_days_waiting: Math.round(minDays + (maxDays - minDays) * 0.9),
+      max_days_waiting: maxDays,
+    });
+  }
+
+  return stats;
+};
+
+/**
+ * Generate a mock weekly breakdown of the transitions that started in a month, per ISO week
+ * Partial weeks at the edges of the month get proportionally fewer transitions
+ *
+ * @param transitionType - Milestone pair, e.g. 'p2-ecopr'
+ * @param reportDate - First day of the month, yyyy-MM-dd
+ * @param totalCount - Transitions in the month, random when omitted
+ * @param medianDays - Median duration in the month, random when omitted
+ * @returns Mock weekly breakdown, oldest week first
+ */
+export const generateMockWeeklyBreakdown = (
+  transitionType: string,
+  reportDate: string,
+  totalCount?: number,
+  medianDays?: number
+): WeeklyBreakdown[] => {
+  // Without figures for the month, borrow those of a typical month for the transition
+  const [typicalMonth] =
+    totalCount === undefined || medianDays === undefined
+      ? generateMockStatistics(transitionType)
+      : [];
+  const total = totalCount ?? typicalMonth.count;
+  const median = medianDays ?? typicalMonth.median_days;
+
+  const weeks = getISOWeeksOfMonth(parseISO(reportDate));
+  const daysInMonth = weeks.reduce((sum, week) => sum + week.daysInMonth, 0);
+
+  return weeks.map((week) => {
+    const count = Math.round(
+      ((total * week.daysInMonth) / daysInMonth) * (0.7 + Math.random() * 0.6)
+    );
+    const suppressed = count < MOCK_MIN_GROUP_SIZE;
+
+    return {
+      week_start: format(week.start, 'yyyy-MM-dd'),
+      iso_week: week.isoWeek,
+      week_range: formatWeekRange(week.start),
+      count: suppressed ? 0 : count,
+      median_days: suppressed ? null : Math.round(median * (0.85 + Math.random() * 0.3)),
+      suppressed,
+    };
+  });
+};
+
+/**
+ * Generate a mock cohort for survival curves: applicants who reached the start of a transition
+ * in a month, with the ones whose wait outlasts today left as still waiting
+ *
+ * @param transitionType - Milestone pair, e.g. 'aor-p2'
+ * @param reportDate - First day of the cohort month, yyyy-MM-dd
+ * @returns Mock cohort survival
+ */
+export const generateMockCohortSurvival = (
+  transitionType: string,
+  reportDate: string
+): CohortSurvival => {
+  const [typicalMonth] = generateMockStatistics(transitionType);
+  const monthStart = parseISO(reportDate);
+  const today = new Date();
+  const cohortSize = 20 + Math.floor(Math.random() * 20);
+
+  const observations: SurvivalObservation[] = [];
+  for (let i = 0; i < cohortSize; i++) {
+    const startDate = addDays(monthStart, Math.floor(Math.random() * 28));
+    const followUp = Math.max(0, differenceInCalendarDays(today, startDate));
+    // Right-skewed around the typical median: a few applicants wait much longer
+    const duration = Math.round(typicalMonth.median_days * (0.6 + Math.random() ** 2 * 1.4));
+
+    observations.push(
+      duration <= followUp ? { days: duration, reached: true } : { days: followUp, reached: false }
+    );
+  }
+
+  const reachedCount = observations.filter((observation) => observation.reached).length;
+
+  return {
+    transition_type: transitionType,
+    report_date: reportDate,
+    month_year: monthStart.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+    cohort_size: cohortSize,
+    reached_count: reachedCount,
+    censored_count: cohortSize - reachedCount,
+    points: computeSurvivalCurve(buildLifeTable(observations)),
+  };
+};
+
+/**
+ * Generate a mock histogram of transition durations over the past 12 months
+ * Durations are right-skewed around the typical median, like the other mock statistics
+ *
+ * @param transitionType - Milestone pair, e.g. 'aor-p2'
+ * @param binWidth - Width of each bin in days
+ * @returns Mock histogram bins
+ */
+export const generateMockDurationHistogram = (
+  transitionType: string,
+  binWidth = 7
+): DurationHistogramBin[] => {
+  const [typicalMonth] = generateMockStatistics(transitionType);
+  const durations = Array.from({ length: 150 + Math.floor(Math.random() * 100) }, () =>
+    Math.round(typicalMonth.median_days * (0.5 + Math.random() ** 2 * 1.5))
+  );
+
+  return binDurations(durations, binWidth);
+};
+
+/**
+ * Generate a mock forecast for a transition, conditional on the days already waited
+ * Applicants who waited longer than most are shifted later by the extra wait
+ *
+ * @param transitionType - Milestone pair, e.g. 'p2-ecopr'
+ * @param minDays - Days the user has already waited
+ * @returns Mock transition forecast
+ */
+export const generateMockTransitionForecast = (
+  transitionType: string,
+  minDays = 0
+): TransitionForecast => {
+  const [typicalMonth] = generateMockStatistics(transitionType);
+  const p10Days = Math.round((typicalMonth.min_days + typicalMonth.p25_days) / 2);
+  const shift = Math.max(0, minDays - p10Days);
+
+  return {
+    transition_type: transitionType,
+    count: typicalMonth.count,
+    p10_days: p10Days + shift,
+    p25_days: typicalMonth.p25_days + shift,
+    median_days: typicalMonth.median_days + shift,
+    p75_days: typicalMonth.p75_days + shift,
+    p90_days: typicalMonth.p90_days + shift,
+    segmented: false,
+  };
 };
 
 /**
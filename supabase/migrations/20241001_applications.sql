@@ -0,0 +1,235 @@
+-- Migration to support multiple immigration applications per account
+-- Every timeline entry now belongs to an application instead of directly to a user,
+-- so a household can track e.g. a spousal sponsorship and an Express Entry file side by side
+
+-- Applications table
+CREATE TABLE IF NOT EXISTS applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+COMMENT ON TABLE applications IS 'Immigration applications tracked by a user';
+COMMENT ON COLUMN applications.id IS 'Unique identifier for the application';
+COMMENT ON COLUMN applications.user_id IS 'User ID from auth.users';
+COMMENT ON COLUMN applications.name IS 'User-facing name of the application (e.g. "Express Entry")';
+
+CREATE INDEX IF NOT EXISTS applications_user_id_idx ON applications(user_id);
+
+-- The application created for a user without any, at most one per user so that screens
+-- loading at the same time can't create it twice (see ensure_default_application below)
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN applications.is_default IS 'Whether the application was created automatically for a new user';
+
+CREATE UNIQUE INDEX IF NOT EXISTS applications_user_id_default_idx
+  ON applications(user_id) WHERE is_default;
+
+-- Enable Row Level Security
+ALTER TABLE applications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own applications" ON applications;
+CREATE POLICY "Users can view their own applications"
+ON applications FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own applications" ON applications;
+CREATE POLICY "Users can insert their own applications"
+ON applications FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own applications" ON applications;
+CREATE POLICY "Users can update their own applications"
+ON applications FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own applications" ON applications;
+CREATE POLICY "Users can delete their own applications"
+ON applications FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Link timeline entries to applications
+ALTER TABLE timeline_entries
+  ADD COLUMN IF NOT EXISTS application_id UUID REFERENCES applications(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN timeline_entries.application_id IS 'Application the milestone belongs to';
+
+-- Backfill: give every existing user one application holding their current entries
+-- Runs before the set_user_id trigger is created: the trigger sets user_id to auth.uid(),
+-- which is NULL while the migration runs and would leave the backfilled applications ownerless
+DROP TRIGGER IF EXISTS set_user_id_trigger ON applications;
+
+INSERT INTO applications (user_id, name, is_default)
+SELECT DISTINCT e.user_id, 'My Application', TRUE
+FROM timeline_entries e
+WHERE e.application_id IS NULL
+  AND e.user_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM applications a WHERE a.user_id = e.user_id);
+
+UPDATE timeline_entries e
+SET application_id = (
+  SELECT a.id FROM applications a WHERE a.user_id = e.user_id ORDER BY a.created_at LIMIT 1
+)
+WHERE e.application_id IS NULL;
+
+-- Entries without an owner (user_id was left NULL by remove_device_id.sql, which kept a copy
+-- in backup_timeline_entries) can't be read by anyone under RLS and have no application to join
+DELETE FROM timeline_entries WHERE application_id IS NULL;
+
+-- Reuse the user_id and updated_at triggers from the auth setup migration
+DROP TRIGGER IF EXISTS set_user_id_trigger ON applications;
+CREATE TRIGGER set_user_id_trigger
+BEFORE INSERT ON applications
+FOR EACH ROW
+EXECUTE FUNCTION set_user_id();
+
+DROP TRIGGER IF EXISTS update_applications_modified ON applications;
+CREATE TRIGGER update_applications_modified
+BEFORE UPDATE ON applications
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_column();
+
+ALTER TABLE timeline_entries ALTER COLUMN application_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS timeline_entries_application_id_idx ON timeline_entries(application_id);
+
+-- Returns the caller's applications, oldest first, creating the default one when there are none
+-- Safe to call concurrently: a second insert hits applications_user_id_default_idx and is skipped
+CREATE OR REPLACE FUNCTION ensure_default_application(default_name TEXT DEFAULT 'My Application')
+RETURNS SETOF applications AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO applications (user_id, name, is_default)
+  SELECT auth.uid(), default_name, TRUE
+  WHERE NOT EXISTS (SELECT 1 FROM applications a WHERE a.user_id = auth.uid())
+  ON CONFLICT (user_id) WHERE is_default DO NOTHING;
+
+  RETURN QUERY
+  SELECT * FROM applications a WHERE a.user_id = auth.uid() ORDER BY a.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION ensure_default_application(text) TO authenticated;
+
+-- One entry per milestone type per application (instead of per user)
+ALTER TABLE timeline_entries DROP CONSTRAINT IF EXISTS timeline_entries_user_id_entry_type_key;
+ALTER TABLE timeline_entries DROP CONSTRAINT IF EXISTS timeline_entries_application_id_entry_type_key;
+ALTER TABLE timeline_entries
+  ADD CONSTRAINT timeline_entries_application_id_entry_type_key UNIQUE (application_id, entry_type);
+
+-- Entries may only be attached to applications owned by the same user
+DROP POLICY IF EXISTS "Users can insert their own entries" ON timeline_entries;
+CREATE POLICY "Users can insert their own entries"
+ON timeline_entries FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM applications a WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can update their own entries" ON timeline_entries;
+CREATE POLICY "Users can update their own entries"
+ON timeline_entries FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM applications a WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+);
+
+-- Community statistics: pair milestones within the same application, not across a user's files
+DROP FUNCTION IF EXISTS get_community_statistics(text, uuid);
+
+CREATE OR REPLACE FUNCTION get_community_statistics(
+  filter_transition_type TEXT DEFAULT NULL,
+  user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  avg_days FLOAT,
+  min_days INTEGER,
+  max_days INTEGER,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- Return statistics data
+  RETURN QUERY
+  WITH transitions AS (
+    -- Get transitions between different entry types of the same application
+    SELECT
+      e1.entry_type AS start_type,
+      e2.entry_type AS end_type,
+      e1.entry_date AS transition_start_date,
+      e2.entry_date AS end_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e1.entry_date < e2.entry_date
+    WHERE
+      (e1.entry_type = 'aor' AND e2.entry_type = 'p2') OR
+      (e1.entry_type = 'p2' AND e2.entry_type = 'ecopr') OR
+      (e1.entry_type = 'ecopr' AND e2.entry_type = 'pr_card')
+  ),
+  transition_types AS (
+    -- Map transition types to more readable format
+    SELECT
+      days_between,
+      transition_start_date,
+      CASE
+        WHEN start_type = 'aor' AND end_type = 'p2' THEN 'aor-p2'
+        WHEN start_type = 'p2' AND end_type = 'ecopr' THEN 'p2-ecopr'
+        WHEN start_type = 'ecopr' AND end_type = 'pr_card' THEN 'ecopr-pr_card'
+      END AS transition_name
+    FROM
+      transitions
+  ),
+  monthly_stats AS (
+    -- Aggregate statistics by month and transition type
+    SELECT
+      transition_name,
+      date_trunc('month', transition_start_date) AS month_start,
+      AVG(days_between) AS avg_days_calc,
+      MIN(days_between) AS min_days_calc,
+      MAX(days_between) AS max_days_calc,
+      COUNT(*)::INTEGER AS entry_count
+    FROM
+      transition_types
+    WHERE
+      filter_transition_type IS NULL OR transition_name = filter_transition_type
+    GROUP BY
+      transition_name, date_trunc('month', transition_start_date)
+    ORDER BY
+      date_trunc('month', transition_start_date) DESC, transition_name
+  )
+  SELECT
+    transition_name AS transition_type,
+    month_start::date AS report_date,
+    ROUND(avg_days_calc::numeric, 1)::FLOAT AS avg_days,
+    min_days_calc AS min_days,
+    max_days_calc AS max_days,
+    entry_count AS count
+  FROM
+    monthly_stats
+  LIMIT 50; -- Limit results to a reasonable number
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_community_statistics(text, uuid) TO authenticated;
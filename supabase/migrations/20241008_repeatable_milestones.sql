@@ -0,0 +1,114 @@
+-- Migration to allow repeatable milestones
+-- Additional document requests and biometrics requests can happen more than once in a file.
+-- Each occurrence gets its own row, numbered per application and entry type.
+-- Keep the repeatable types in sync with REPEATABLE_ENTRY_TYPES in src/constants/milestones.ts
+
+ALTER TABLE timeline_entries ADD COLUMN IF NOT EXISTS occurrence INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN timeline_entries.occurrence IS 'Occurrence number of a repeatable milestone (1 for the first)';
+
+ALTER TABLE timeline_entries DROP CONSTRAINT IF EXISTS timeline_entries_occurrence_check;
+ALTER TABLE timeline_entries ADD CONSTRAINT timeline_entries_occurrence_check CHECK (
+  occurrence = 1
+  OR (occurrence > 1 AND entry_type IN ('biometrics_request', 'additional_docs'))
+);
+
+-- One row per milestone occurrence per application
+ALTER TABLE timeline_entries DROP CONSTRAINT IF EXISTS timeline_entries_application_id_entry_type_key;
+ALTER TABLE timeline_entries DROP CONSTRAINT IF EXISTS timeline_entries_application_id_entry_type_occurrence_key;
+ALTER TABLE timeline_entries
+  ADD CONSTRAINT timeline_entries_application_id_entry_type_occurrence_key
+  UNIQUE (application_id, entry_type, occurrence);
+
+-- Community statistics: only the first occurrence of a milestone starts or ends a transition
+DROP FUNCTION IF EXISTS get_community_statistics(text, uuid);
+
+CREATE OR REPLACE FUNCTION get_community_statistics(
+  filter_transition_type TEXT DEFAULT NULL,
+  user_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  avg_days FLOAT,
+  min_days INTEGER,
+  max_days INTEGER,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- Return statistics data
+  RETURN QUERY
+  WITH transitions AS (
+    -- Get transitions between different entry types of the same application
+    SELECT
+      e1.entry_type AS start_type,
+      e2.entry_type AS end_type,
+      e1.entry_date AS transition_start_date,
+      e2.entry_date AS end_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e1.entry_date < e2.entry_date
+    WHERE
+      -- Durations are measured from and to the first occurrence of each milestone
+      e1.occurrence = 1 AND e2.occurrence = 1 AND (
+        (e1.entry_type = 'aor' AND e2.entry_type = 'p2') OR
+        (e1.entry_type = 'p2' AND e2.entry_type = 'ecopr') OR
+        (e1.entry_type = 'ecopr' AND e2.entry_type = 'pr_card')
+      )
+  ),
+  transition_types AS (
+    -- Map transition types to more readable format
+    SELECT
+      days_between,
+      transition_start_date,
+      CASE
+        WHEN start_type = 'aor' AND end_type = 'p2' THEN 'aor-p2'
+        WHEN start_type = 'p2' AND end_type = 'ecopr' THEN 'p2-ecopr'
+        WHEN start_type = 'ecopr' AND end_type = 'pr_card' THEN 'ecopr-pr_card'
+      END AS transition_name
+    FROM
+      transitions
+  ),
+  monthly_stats AS (
+    -- Aggregate statistics by month and transition type
+    SELECT
+      transition_name,
+      date_trunc('month', transition_start_date) AS month_start,
+      AVG(days_between) AS avg_days_calc,
+      MIN(days_between) AS min_days_calc,
+      MAX(days_between) AS max_days_calc,
+      COUNT(*)::INTEGER AS entry_count
+    FROM
+      transition_types
+    WHERE
+      filter_transition_type IS NULL OR transition_name = filter_transition_type
+    GROUP BY
+      transition_name, date_trunc('month', transition_start_date)
+    ORDER BY
+      date_trunc('month', transition_start_date) DESC, transition_name
+  )
+  SELECT
+    transition_name AS transition_type,
+    month_start::date AS report_date,
+    ROUND(avg_days_calc::numeric, 1)::FLOAT AS avg_days,
+    min_days_calc AS min_days,
+    max_days_calc AS max_days,
+    entry_count AS count
+  FROM
+    monthly_stats
+  LIMIT 50; -- Limit results to a reasonable number
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_community_statistics(text, uuid) TO authenticated;
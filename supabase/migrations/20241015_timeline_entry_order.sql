@@ -0,0 +1,89 @@
+-- Migration to enforce the chronological order of milestones
+-- Rejects entries that would date e.g. an AOR before the submission or an ecoPR before P2,
+-- so other clients can't feed negative durations into the community statistics.
+-- Keep the rules in sync with BLOCKING_ORDER_RULES in src/lib/timeline-validation.ts
+
+CREATE OR REPLACE FUNCTION check_timeline_entry_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  rule RECORD;
+  own_first_date DATE;
+  other_first_date DATE;
+BEGIN
+  -- Allow one day of slack for users ahead of the server's time zone
+  IF NEW.entry_date::date > CURRENT_DATE + 1 THEN
+    RAISE EXCEPTION 'Milestone % cannot be dated in the future', NEW.entry_type
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- First occurrence of the entry's milestone once this row is saved
+  SELECT MIN(d) INTO own_first_date
+  FROM (
+    SELECT e.entry_date::date AS d
+    FROM timeline_entries e
+    WHERE e.application_id = NEW.application_id
+      AND e.entry_type = NEW.entry_type
+      AND e.id <> NEW.id
+    UNION ALL
+    SELECT NEW.entry_date::date
+  ) dates;
+
+  FOR rule IN
+    SELECT r.before_type, r.after_type
+    FROM (
+      VALUES
+        ('submission', 'aor'),
+        ('submission', 'biometrics_request'),
+        ('submission', 'biometrics_complete'),
+        ('submission', 'medicals_request'),
+        ('submission', 'medicals_complete'),
+        ('submission', 'background_start'),
+        ('submission', 'background_complete'),
+        ('submission', 'p1'),
+        ('submission', 'p2'),
+        ('submission', 'ecopr'),
+        ('submission', 'pr_card'),
+        ('submission', 'additional_docs'),
+        ('biometrics_request', 'biometrics_complete'),
+        ('medicals_request', 'medicals_complete'),
+        ('background_start', 'background_complete'),
+        ('p1', 'p2'),
+        ('p2', 'ecopr'),
+        ('ecopr', 'pr_card')
+    ) AS r(before_type, after_type)
+    WHERE NEW.entry_type IN (r.before_type, r.after_type)
+  LOOP
+    IF rule.after_type = NEW.entry_type THEN
+      SELECT MIN(e.entry_date::date) INTO other_first_date
+      FROM timeline_entries e
+      WHERE e.application_id = NEW.application_id
+        AND e.entry_type = rule.before_type;
+
+      IF other_first_date IS NOT NULL AND NEW.entry_date::date < other_first_date THEN
+        RAISE EXCEPTION 'Milestone % cannot be dated before % (%)',
+          NEW.entry_type, rule.before_type, other_first_date
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSE
+      SELECT MIN(e.entry_date::date) INTO other_first_date
+      FROM timeline_entries e
+      WHERE e.application_id = NEW.application_id
+        AND e.entry_type = rule.after_type;
+
+      IF other_first_date IS NOT NULL AND own_first_date > other_first_date THEN
+        RAISE EXCEPTION 'Milestone % cannot be dated after % (%)',
+          NEW.entry_type, rule.after_type, other_first_date
+          USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_timeline_entry_order_trigger ON timeline_entries;
+CREATE TRIGGER check_timeline_entry_order_trigger
+BEFORE INSERT OR UPDATE OF entry_type, entry_date, application_id ON timeline_entries
+FOR EACH ROW
+EXECUTE FUNCTION check_timeline_entry_order();
@@ -0,0 +1,105 @@
+-- Migration to keep an edit history for timeline entries
+-- Every insert, update (including upserts) and delete of a timeline entry appends a revision,
+-- so mistyped dates can be restored and suspicious changes can be reviewed later.
+-- Revisions are append-only: clients can read their own history but never change it.
+
+CREATE TABLE IF NOT EXISTS timeline_entry_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: the history of a deleted entry is kept
+  entry_id UUID NOT NULL,
+  application_id UUID,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  entry_type TEXT NOT NULL,
+  entry_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  occurrence INTEGER NOT NULL DEFAULT 1,
+  changed_by UUID,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+COMMENT ON TABLE timeline_entry_revisions IS 'Append-only history of timeline entry changes';
+COMMENT ON COLUMN timeline_entry_revisions.entry_id IS 'Timeline entry the revision belongs to';
+COMMENT ON COLUMN timeline_entry_revisions.operation IS 'Change that produced the revision (insert, update or delete)';
+COMMENT ON COLUMN timeline_entry_revisions.entry_date IS 'Entry date after the change (before it, for deletes)';
+COMMENT ON COLUMN timeline_entry_revisions.changed_by IS 'User who made the change, NULL for service role changes';
+
+CREATE INDEX IF NOT EXISTS timeline_entry_revisions_entry_id_idx
+  ON timeline_entry_revisions(entry_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS timeline_entry_revisions_user_id_idx
+  ON timeline_entry_revisions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE timeline_entry_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Only a read policy: rows are written by the trigger below and never modified
+DROP POLICY IF EXISTS "Users can view their own entry revisions" ON timeline_entry_revisions;
+CREATE POLICY "Users can view their own entry revisions"
+ON timeline_entry_revisions FOR SELECT
+USING (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON timeline_entry_revisions FROM authenticated, anon;
+
+-- Record a revision for every change of a timeline entry
+CREATE OR REPLACE FUNCTION record_timeline_entry_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  source timeline_entries%ROWTYPE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    source := OLD;
+  ELSE
+    source := NEW;
+  END IF;
+
+  -- Skip updates that only touched bookkeeping columns such as updated_at
+  IF TG_OP = 'UPDATE'
+    AND NEW.entry_type IS NOT DISTINCT FROM OLD.entry_type
+    AND NEW.entry_date IS NOT DISTINCT FROM OLD.entry_date
+    AND NEW.notes IS NOT DISTINCT FROM OLD.notes
+    AND NEW.occurrence IS NOT DISTINCT FROM OLD.occurrence
+    AND NEW.application_id IS NOT DISTINCT FROM OLD.application_id THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO timeline_entry_revisions (
+    entry_id,
+    application_id,
+    user_id,
+    operation,
+    entry_type,
+    entry_date,
+    notes,
+    occurrence,
+    changed_by
+  )
+  VALUES (
+    source.id,
+    source.application_id,
+    source.user_id,
+    lower(TG_OP),
+    source.entry_type,
+    source.entry_date,
+    source.notes,
+    source.occurrence,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_timeline_entry_revision_trigger ON timeline_entries;
+CREATE TRIGGER record_timeline_entry_revision_trigger
+AFTER INSERT OR UPDATE OR DELETE ON timeline_entries
+FOR EACH ROW
+EXECUTE FUNCTION record_timeline_entry_revision();
+
+-- Seed the history with the current state of existing entries
+INSERT INTO timeline_entry_revisions (
+  entry_id, application_id, user_id, operation, entry_type, entry_date, notes, occurrence, changed_at
+)
+SELECT e.id, e.application_id, e.user_id, 'insert', e.entry_type, e.entry_date, e.notes, e.occurrence,
+  COALESCE(e.updated_at, e.created_at, now())
+FROM timeline_entries e
+WHERE NOT EXISTS (SELECT 1 FROM timeline_entry_revisions r WHERE r.entry_id = e.id);
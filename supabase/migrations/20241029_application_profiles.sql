@@ -0,0 +1,158 @@
+-- Migration to add a profile to applications and segment community statistics by it
+-- Processing times differ a lot between programs (CEC, FSW, PNP, spousal, ...) and between
+-- inland and outland files, so pooling everyone together hides what a user can expect.
+-- Keep the program values in sync with PROGRAM_OPTIONS in src/constants/application-profile.ts
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS program TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS province TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS applicant_location TEXT;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS dependants INTEGER;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS country_of_residence TEXT;
+
+COMMENT ON COLUMN applications.program IS 'Program or stream: cec, fsw, pnp, spousal or other';
+COMMENT ON COLUMN applications.province IS 'Two-letter code of the province or territory of destination';
+COMMENT ON COLUMN applications.applicant_location IS 'Whether the applicant applied from inside (inland) or outside (outland) Canada';
+COMMENT ON COLUMN applications.dependants IS 'Number of dependants included in the application';
+COMMENT ON COLUMN applications.country_of_residence IS 'Country the applicant lived in when applying';
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_program_check;
+ALTER TABLE applications ADD CONSTRAINT applications_program_check CHECK (
+  program IS NULL OR program IN ('cec', 'fsw', 'pnp', 'spousal', 'other')
+);
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_province_check;
+ALTER TABLE applications ADD CONSTRAINT applications_province_check CHECK (
+  province IS NULL
+  OR province IN ('AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT')
+);
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_applicant_location_check;
+ALTER TABLE applications ADD CONSTRAINT applications_applicant_location_check CHECK (
+  applicant_location IS NULL OR applicant_location IN ('inland', 'outland')
+);
+
+ALTER TABLE applications DROP CONSTRAINT IF EXISTS applications_dependants_check;
+ALTER TABLE applications ADD CONSTRAINT applications_dependants_check CHECK (
+  dependants IS NULL OR dependants >= 0
+);
+
+-- Community statistics filtered by application profile
+-- A NULL filter matches every application, including those without a profile
+DROP FUNCTION IF EXISTS get_community_statistics(text, uuid);
+DROP FUNCTION IF EXISTS get_community_statistics(text, uuid, text, text, text, boolean, text);
+
+CREATE OR REPLACE FUNCTION get_community_statistics(
+  filter_transition_type TEXT DEFAULT NULL,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  avg_days FLOAT,
+  min_days INTEGER,
+  max_days INTEGER,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- Return statistics data
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  transitions AS (
+    -- Get transitions between different entry types of the same application
+    SELECT
+      e1.entry_type AS start_type,
+      e2.entry_type AS end_type,
+      e1.entry_date AS transition_start_date,
+      e2.entry_date AS end_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e1.entry_date < e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      -- Durations are measured from and to the first occurrence of each milestone
+      e1.occurrence = 1 AND e2.occurrence = 1 AND (
+        (e1.entry_type = 'aor' AND e2.entry_type = 'p2') OR
+        (e1.entry_type = 'p2' AND e2.entry_type = 'ecopr') OR
+        (e1.entry_type = 'ecopr' AND e2.entry_type = 'pr_card')
+      )
+  ),
+  transition_types AS (
+    -- Map transition types to more readable format
+    SELECT
+      days_between,
+      transition_start_date,
+      CASE
+        WHEN start_type = 'aor' AND end_type = 'p2' THEN 'aor-p2'
+        WHEN start_type = 'p2' AND end_type = 'ecopr' THEN 'p2-ecopr'
+        WHEN start_type = 'ecopr' AND end_type = 'pr_card' THEN 'ecopr-pr_card'
+      END AS transition_name
+    FROM
+      transitions
+  ),
+  monthly_stats AS (
+    -- Aggregate statistics by month and transition type
+    SELECT
+      transition_name,
+      date_trunc('month', transition_start_date) AS month_start,
+      AVG(days_between) AS avg_days_calc,
+      MIN(days_between) AS min_days_calc,
+      MAX(days_between) AS max_days_calc,
+      COUNT(*)::INTEGER AS entry_count
+    FROM
+      transition_types
+    WHERE
+      filter_transition_type IS NULL OR transition_name = filter_transition_type
+    GROUP BY
+      transition_name, date_trunc('month', transition_start_date)
+    ORDER BY
+      date_trunc('month', transition_start_date) DESC, transition_name
+  )
+  SELECT
+    transition_name AS transition_type,
+    month_start::date AS report_date,
+    ROUND(avg_days_calc::numeric, 1)::FLOAT AS avg_days,
+    min_days_calc AS min_days,
+    max_days_calc AS max_days,
+    entry_count AS count
+  FROM
+    monthly_stats
+  LIMIT 50; -- Limit results to a reasonable number
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_community_statistics(text, uuid, text, text, text, boolean, text) TO authenticated;
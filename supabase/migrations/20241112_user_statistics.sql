@@ -0,0 +1,93 @@
+-- Migration to add personal statistics
+-- get_user_statistics returns the community medians a user's own timeline is compared with.
+-- The durations of the user's timeline are computed in the app (src/lib/user-statistics.ts)
+-- so they also work offline; this function only provides the community side.
+-- Keep the transitions in sync with BENCHMARK_TRANSITIONS in src/lib/user-statistics.ts
+
+DROP FUNCTION IF EXISTS get_user_statistics(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION get_user_statistics(
+  user_id UUID DEFAULT NULL,
+  filter_application_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  median_days FLOAT,
+  count INTEGER,
+  segmented BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  profile_program TEXT;
+  profile_applicant_location TEXT;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = get_user_statistics.user_id) INTO user_exists;
+
+  IF get_user_statistics.user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- Compare with applications of the same program and inland/outland stream when they are known
+  IF filter_application_id IS NOT NULL THEN
+    SELECT a.program, a.applicant_location
+    INTO profile_program, profile_applicant_location
+    FROM applications a
+    WHERE a.id = filter_application_id AND a.user_id = get_user_statistics.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Application % not found', filter_application_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH transitions AS (
+    -- Transitions completed in the last 12 months, other than the user's own
+    SELECT
+      e1.entry_type || '-' || e2.entry_type AS transition_name,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between,
+      (profile_program IS NULL OR a.program = profile_program)
+        AND (profile_applicant_location IS NULL OR a.applicant_location = profile_applicant_location)
+        AS same_profile
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e1.entry_date <= e2.entry_date
+      JOIN applications a ON a.id = e1.application_id
+    WHERE
+      e1.occurrence = 1 AND e2.occurrence = 1
+      AND a.user_id <> get_user_statistics.user_id
+      AND e2.entry_date >= (CURRENT_DATE - INTERVAL '12 months')
+      AND (
+        (e1.entry_type = 'aor' AND e2.entry_type = 'p2') OR
+        (e1.entry_type = 'p2' AND e2.entry_type = 'ecopr') OR
+        (e1.entry_type = 'ecopr' AND e2.entry_type = 'pr_card')
+      )
+  ),
+  benchmarks AS (
+    SELECT
+      t.transition_name,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between) AS all_median,
+      COUNT(*)::INTEGER AS all_count,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between)
+        FILTER (WHERE t.same_profile) AS profile_median,
+      (COUNT(*) FILTER (WHERE t.same_profile))::INTEGER AS profile_count
+    FROM
+      transitions t
+    GROUP BY
+      t.transition_name
+  )
+  -- Fall back to everyone when too few applications share the profile
+  SELECT
+    b.transition_name AS transition_type,
+    ROUND((CASE WHEN b.profile_count >= 5 THEN b.profile_median ELSE b.all_median END)::numeric, 1)::FLOAT
+      AS median_days,
+    CASE WHEN b.profile_count >= 5 THEN b.profile_count ELSE b.all_count END AS count,
+    (b.profile_count >= 5 AND (profile_program IS NOT NULL OR profile_applicant_location IS NOT NULL))
+      AS segmented
+  FROM
+    benchmarks b;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_statistics(uuid, uuid) TO authenticated;
@@ -0,0 +1,141 @@
+-- Migration to analyze any pair of milestones in community statistics
+-- Until now only AOR -> P2, P2 -> ecoPR and ecoPR -> PR card were supported through a CASE list.
+-- filter_transition_type now accepts any "<start>-<end>" pair of entry types
+-- (e.g. 'submission-ecopr' or 'aor-biometrics_complete'); without it the three defaults are returned.
+-- Keep the defaults in sync with DEFAULT_TRANSITION_TYPES in src/constants/milestones.ts
+-- Same-day milestones now count as a 0-day transition instead of being left out.
+
+CREATE OR REPLACE FUNCTION get_community_statistics(
+  filter_transition_type TEXT DEFAULT NULL,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  avg_days FLOAT,
+  min_days INTEGER,
+  max_days INTEGER,
+  median_days FLOAT,
+  p25_days FLOAT,
+  p75_days FLOAT,
+  p90_days FLOAT,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  IF filter_transition_type IS NOT NULL AND (
+    split_part(filter_transition_type, '-', 1) = ''
+    OR split_part(filter_transition_type, '-', 2) = ''
+    OR split_part(filter_transition_type, '-', 3) <> ''
+    OR split_part(filter_transition_type, '-', 1) = split_part(filter_transition_type, '-', 2)
+  ) THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  -- Return statistics data
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  requested_pairs AS (
+    -- The requested milestone pair, or the default transitions when none is given
+    SELECT
+      split_part(filter_transition_type, '-', 1) AS start_type,
+      split_part(filter_transition_type, '-', 2) AS end_type
+    WHERE
+      filter_transition_type IS NOT NULL
+    UNION ALL
+    SELECT
+      defaults.start_type,
+      defaults.end_type
+    FROM
+      (VALUES ('aor', 'p2'), ('p2', 'ecopr'), ('ecopr', 'pr_card')) AS defaults(start_type, end_type)
+    WHERE
+      filter_transition_type IS NULL
+  ),
+  transition_types AS (
+    -- Durations between the two milestones of each pair within the same application
+    SELECT
+      p.start_type || '-' || p.end_type AS transition_name,
+      e1.entry_date AS transition_start_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      requested_pairs p
+      JOIN timeline_entries e1 ON e1.entry_type = p.start_type
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = p.end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      -- Durations are measured from and to the first occurrence of each milestone
+      e1.occurrence = 1 AND e2.occurrence = 1
+  ),
+  monthly_stats AS (
+    -- Aggregate statistics by month and transition type
+    SELECT
+      transition_name,
+      date_trunc('month', transition_start_date) AS month_start,
+      AVG(days_between) AS avg_days_calc,
+      MIN(days_between) AS min_days_calc,
+      MAX(days_between) AS max_days_calc,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY days_between) AS median_days_calc,
+      percentile_cont(0.25) WITHIN GROUP (ORDER BY days_between) AS p25_days_calc,
+      percentile_cont(0.75) WITHIN GROUP (ORDER BY days_between) AS p75_days_calc,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY days_between) AS p90_days_calc,
+      COUNT(*)::INTEGER AS entry_count
+    FROM
+      transition_types
+    GROUP BY
+      transition_name, date_trunc('month', transition_start_date)
+    ORDER BY
+      date_trunc('month', transition_start_date) DESC, transition_name
+  )
+  SELECT
+    transition_name AS transition_type,
+    month_start::date AS report_date,
+    ROUND(avg_days_calc::numeric, 1)::FLOAT AS avg_days,
+    min_days_calc AS min_days,
+    max_days_calc AS max_days,
+    ROUND(median_days_calc::numeric, 1)::FLOAT AS median_days,
+    ROUND(p25_days_calc::numeric, 1)::FLOAT AS p25_days,
+    ROUND(p75_days_calc::numeric, 1)::FLOAT AS p75_days,
+    ROUND(p90_days_calc::numeric, 1)::FLOAT AS p90_days,
+    entry_count AS count
+  FROM
+    monthly_stats
+  LIMIT 50; -- Limit results to a reasonable number
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_community_statistics(text, uuid, text, text, text, boolean, text) TO authenticated;
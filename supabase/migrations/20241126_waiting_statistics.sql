@@ -0,0 +1,116 @@
+-- Migration to add "still waiting" statistics
+-- Completed transitions only describe applicants who are already through a stage.
+-- get_waiting_statistics counts the applications that reached the start of a transition
+-- but not its end (e.g. P2 but no ecoPR yet), grouped by the month they reached the start,
+-- together with how long those open waits have lasted so far.
+-- An application that recorded a later milestone (e.g. a PR card without ecoPR) is not waiting.
+-- Keep milestone_order in sync with MILESTONE_ORDER in src/constants/milestones.ts
+
+DROP FUNCTION IF EXISTS get_waiting_statistics(text, uuid, text, text, text, boolean, text);
+
+CREATE OR REPLACE FUNCTION get_waiting_statistics(
+  filter_transition_type TEXT DEFAULT 'p2-ecopr',
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  waiting_count INTEGER,
+  min_days_waiting INTEGER,
+  median_days_waiting FLOAT,
+  p90_days_waiting FLOAT,
+  max_days_waiting INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  milestone_order TEXT[] := ARRAY[
+    'submission', 'aor', 'biometrics_request', 'biometrics_complete', 'medicals_request',
+    'medicals_complete', 'background_start', 'background_complete', 'p1', 'p2', 'ecopr', 'pr_card'
+  ];
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF array_position(milestone_order, start_type) IS NULL
+    OR array_position(milestone_order, end_type) IS NULL
+    OR array_position(milestone_order, start_type) >= array_position(milestone_order, end_type)
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  open_waits AS (
+    -- Applications at the start milestone without the end milestone or anything after it
+    SELECT
+      e1.entry_date AS wait_start_date,
+      GREATEST(CURRENT_DATE - e1.entry_date::date, 0)::INTEGER AS days_waiting
+    FROM
+      timeline_entries e1
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1
+      AND NOT EXISTS (
+        SELECT 1
+        FROM timeline_entries e2
+        WHERE e2.application_id = e1.application_id
+          AND array_position(milestone_order, e2.entry_type)
+            >= array_position(milestone_order, end_type)
+      )
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    date_trunc('month', wait_start_date)::date AS report_date,
+    COUNT(*)::INTEGER AS waiting_count,
+    MIN(days_waiting) AS min_days_waiting,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY days_waiting))::numeric, 1)::FLOAT
+      AS median_days_waiting,
+    ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY days_waiting))::numeric, 1)::FLOAT
+      AS p90_days_waiting,
+    MAX(days_waiting) AS max_days_waiting
+  FROM
+    open_waits
+  GROUP BY
+    date_trunc('month', wait_start_date)
+  ORDER BY
+    date_trunc('month', wait_start_date) DESC
+  LIMIT 24; -- Two years of backlog is plenty
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_waiting_statistics(text, uuid, text, text, text, boolean, text) TO authenticated;
@@ -0,0 +1,122 @@
+-- Migration to break a month of community statistics down by week
+-- The weekly drill-down on the statistics screen only had made-up numbers.
+-- get_weekly_breakdown returns, for one transition and one month, the transitions that
+-- started in each ISO week (Monday to Sunday) overlapping the month, with their median duration.
+-- Months are matched on the start of the transition, like report_date in get_community_statistics,
+-- so the weekly counts add up to the monthly count. The first and last weeks only count
+-- the days inside the month; weeks without transitions are returned with a count of 0.
+
+CREATE OR REPLACE FUNCTION get_weekly_breakdown(
+  filter_transition_type TEXT,
+  report_month DATE,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  week_start DATE,
+  iso_week INTEGER,
+  count INTEGER,
+  median_days FLOAT
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  month_start DATE;
+  next_month_start DATE;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF report_month IS NULL THEN
+    RAISE EXCEPTION 'report_month is required';
+  END IF;
+
+  month_start := date_trunc('month', report_month)::date;
+  next_month_start := (month_start + INTERVAL '1 month')::date;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  weeks AS (
+    -- date_trunc('week') is the ISO week, starting on Monday
+    SELECT
+      generate_series(
+        date_trunc('week', month_start),
+        date_trunc('week', next_month_start - 1),
+        INTERVAL '1 week'
+      )::date AS week_start_date
+  ),
+  month_transitions AS (
+    -- Durations of the transitions that started in the month, measured between first occurrences
+    SELECT
+      date_trunc('week', e1.entry_date::date)::date AS week_start_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+      AND e1.entry_date::date >= month_start
+      AND e1.entry_date::date < next_month_start
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    w.week_start_date AS week_start,
+    EXTRACT(WEEK FROM w.week_start_date)::INTEGER AS iso_week,
+    COUNT(t.days_between)::INTEGER AS count,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between))::numeric, 1)::FLOAT
+      AS median_days
+  FROM
+    weeks w
+    LEFT JOIN month_transitions t ON t.week_start_date = w.week_start_date
+  GROUP BY
+    w.week_start_date
+  ORDER BY
+    w.week_start_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_weekly_breakdown(text, date, uuid, text, text, text, boolean, text) TO authenticated;
@@ -0,0 +1,130 @@
+-- Migration to add cohort survival statistics
+-- Averages over completed transitions leave out everyone still waiting, so recent months look fast.
+-- get_cohort_survival returns the life table of one cohort: the applications that reached the start
+-- of a transition in a given month, with how many reached the end (events) or were still waiting
+-- as of today (censored) after each number of days. The app turns it into a Kaplan–Meier curve
+-- ("share of the March AOR cohort with P2 by day N"), see src/lib/survival.ts.
+-- Applications that recorded a later milestone but never the end one are left out: their wait ended
+-- on a day we don't know.
+-- Keep milestone_order in sync with MILESTONE_ORDER in src/constants/milestones.ts
+
+CREATE OR REPLACE FUNCTION get_cohort_survival(
+  filter_transition_type TEXT,
+  cohort_month DATE,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  days INTEGER,
+  events INTEGER,
+  censored INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  month_start DATE;
+  milestone_order TEXT[] := ARRAY[
+    'submission', 'aor', 'biometrics_request', 'biometrics_complete', 'medicals_request',
+    'medicals_complete', 'background_start', 'background_complete', 'p1', 'p2', 'ecopr', 'pr_card'
+  ];
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF array_position(milestone_order, start_type) IS NULL
+    OR array_position(milestone_order, end_type) IS NULL
+    OR array_position(milestone_order, start_type) >= array_position(milestone_order, end_type)
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF cohort_month IS NULL THEN
+    RAISE EXCEPTION 'cohort_month is required';
+  END IF;
+
+  month_start := date_trunc('month', cohort_month)::date;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  cohort AS (
+    -- Applications that reached the start milestone during the cohort month
+    SELECT
+      e1.application_id,
+      e1.entry_date::date AS start_date
+    FROM
+      timeline_entries e1
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1
+      AND e1.entry_date::date >= month_start
+      AND e1.entry_date::date < (month_start + INTERVAL '1 month')::date
+  ),
+  observations AS (
+    -- Days until the end milestone, or until today while it is still missing
+    SELECT
+      GREATEST(COALESCE(e2.entry_date::date, CURRENT_DATE) - c.start_date, 0)::INTEGER
+        AS observed_days,
+      (e2.entry_date IS NOT NULL) AS reached_end
+    FROM
+      cohort c
+      LEFT JOIN timeline_entries e2 ON e2.application_id = c.application_id
+                                   AND e2.entry_type = end_type
+                                   AND e2.occurrence = 1
+                                   AND e2.entry_date::date >= c.start_date
+    WHERE
+      e2.entry_date IS NOT NULL
+      OR NOT EXISTS (
+        SELECT 1
+        FROM timeline_entries later
+        WHERE later.application_id = c.application_id
+          AND array_position(milestone_order, later.entry_type)
+            > array_position(milestone_order, end_type)
+      )
+  )
+  SELECT
+    observed_days AS days,
+    (COUNT(*) FILTER (WHERE reached_end))::INTEGER AS events,
+    (COUNT(*) FILTER (WHERE NOT reached_end))::INTEGER AS censored
+  FROM
+    observations
+  GROUP BY
+    observed_days
+  ORDER BY
+    observed_days;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_cohort_survival(text, date, uuid, text, text, text, boolean, text) TO authenticated;
@@ -0,0 +1,113 @@
+-- Migration to add the distribution used to predict a user's next milestone
+-- get_transition_forecast returns percentiles of how long a transition took for other applicants,
+-- matched on program and inland/outland like get_user_statistics, falling back to everyone when
+-- fewer than 5 applications share the profile.
+-- min_days makes the distribution conditional on the time already waited: someone 100 days into
+-- a wait is compared with the applicants who waited at least 100 days, so the prediction never
+-- lies in the past.
+-- The prediction itself is computed in the app (src/lib/eta-prediction.ts).
+
+CREATE OR REPLACE FUNCTION get_transition_forecast(
+  filter_transition_type TEXT,
+  user_id UUID DEFAULT NULL,
+  filter_application_id UUID DEFAULT NULL,
+  min_days INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  count INTEGER,
+  p10_days FLOAT,
+  p25_days FLOAT,
+  median_days FLOAT,
+  p75_days FLOAT,
+  p90_days FLOAT,
+  segmented BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  profile_program TEXT;
+  profile_applicant_location TEXT;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = get_transition_forecast.user_id) INTO user_exists;
+
+  IF get_transition_forecast.user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  -- Compare with applications of the same program and inland/outland stream when they are known
+  IF filter_application_id IS NOT NULL THEN
+    SELECT a.program, a.applicant_location
+    INTO profile_program, profile_applicant_location
+    FROM applications a
+    WHERE a.id = filter_application_id AND a.user_id = get_transition_forecast.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Application % not found', filter_application_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH durations AS (
+    -- Transitions completed in the last 12 months that lasted at least min_days, other than the user's own
+    SELECT
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between,
+      (profile_program IS NULL OR a.program = profile_program)
+        AND (profile_applicant_location IS NULL OR a.applicant_location = profile_applicant_location)
+        AS same_profile
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN applications a ON a.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+      AND a.user_id <> get_transition_forecast.user_id
+      AND e2.entry_date >= (CURRENT_DATE - INTERVAL '12 months')
+      AND (e2.entry_date::date - e1.entry_date::date) >= GREATEST(COALESCE(min_days, 0), 0)
+  ),
+  segment AS (
+    -- Fall back to everyone when too few applications share the profile
+    SELECT
+      (COUNT(*) FILTER (WHERE same_profile)) >= 5 AS use_profile
+    FROM
+      durations
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    COUNT(d.days_between)::INTEGER AS count,
+    ROUND((percentile_cont(0.1) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+      AS p10_days,
+    ROUND((percentile_cont(0.25) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+      AS p25_days,
+    ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+      AS median_days,
+    ROUND((percentile_cont(0.75) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+      AS p75_days,
+    ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+      AS p90_days,
+    COALESCE(bool_or(s.use_profile), FALSE)
+      AND (profile_program IS NOT NULL OR profile_applicant_location IS NOT NULL)
+      AS segmented
+  FROM
+    segment s
+    LEFT JOIN durations d ON NOT s.use_profile OR d.same_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_transition_forecast(text, uuid, uuid, integer) TO authenticated;
@@ -0,0 +1,106 @@
+-- Migration to add a histogram of transition durations
+-- Monthly averages hide the shape of the distribution (e.g. two humps for inland and outland).
+-- get_duration_histogram counts the transitions that started in the last 12 months by duration,
+-- in bins of bin_width days. Empty bins between the shortest and longest duration are returned
+-- with a count of 0 so the chart keeps an even scale.
+
+CREATE OR REPLACE FUNCTION get_duration_histogram(
+  filter_transition_type TEXT,
+  bin_width INTEGER DEFAULT 7,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  bin_start INTEGER,
+  bin_end INTEGER,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF bin_width IS NULL OR bin_width < 1 OR bin_width > 365 THEN
+    RAISE EXCEPTION 'Invalid bin width: %', bin_width;
+  END IF;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  durations AS (
+    -- Transitions that started in the last 12 months, measured between first occurrences
+    SELECT
+      ((e2.entry_date::date - e1.entry_date::date) / bin_width)::INTEGER AS bin_index
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+      AND e1.entry_date >= (CURRENT_DATE - INTERVAL '12 months')
+  ),
+  bins AS (
+    -- Every bin between the shortest and the longest duration
+    SELECT
+      generate_series(MIN(d.bin_index), MAX(d.bin_index)) AS bin_index
+    FROM
+      durations d
+  )
+  SELECT
+    (b.bin_index * bin_width)::INTEGER AS bin_start,
+    ((b.bin_index + 1) * bin_width)::INTEGER AS bin_end,
+    COUNT(d.bin_index)::INTEGER AS count
+  FROM
+    bins b
+    LEFT JOIN durations d ON d.bin_index = b.bin_index
+  GROUP BY
+    b.bin_index
+  ORDER BY
+    b.bin_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_duration_histogram(text, integer, uuid, text, text, text, boolean, text) TO authenticated;
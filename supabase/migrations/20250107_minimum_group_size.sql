@@ -0,0 +1,1157 @@
+-- Migration to enforce a minimum group size on published statistics
+-- A month with one or two reports showed their exact durations to everyone, and profile filters
+-- made such small groups more common. Aggregates of fewer reports than the minimum group size are
+-- now withheld inside the functions, so they never leave the database:
+-- - get_community_statistics still returns the month, with suppressed = true and no aggregates
+-- - get_weekly_breakdown returns every week, with suppressed = true and no count or median for
+--   weeks with fewer reports (so every week of a smaller month)
+-- - get_waiting_statistics keeps the month and its waiting count, with suppressed = true and no ages
+-- - get_cohort_survival returns no life table for a smaller cohort
+-- - get_duration_histogram returns no bins for fewer durations
+-- - get_transition_forecast leaves out the percentiles of fewer durations, and only narrows them
+--   down to the user's profile when at least the minimum share it
+-- - get_user_statistics does the same with its medians, and returns the transition with
+--   suppressed = true and no median when fewer durations are left in either group
+-- The minimum is 5 by default and can be raised without a migration, e.g.
+--   ALTER DATABASE postgres SET app.statistics_min_group_size = '10';
+
+CREATE OR REPLACE FUNCTION statistics_min_group_size()
+RETURNS INTEGER AS $$
+  SELECT GREATEST(
+    1,
+    COALESCE(NULLIF(current_setting('app.statistics_min_group_size', true), '')::INTEGER, 5)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- A result column is added, so the function has to be dropped before it is recreated
+DROP FUNCTION IF EXISTS get_community_statistics(text, uuid, text, text, text, boolean, text, boolean);
+
+CREATE OR REPLACE FUNCTION get_community_statistics(
+  filter_transition_type TEXT DEFAULT NULL,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  avg_days FLOAT,
+  min_days INTEGER,
+  max_days INTEGER,
+  median_days FLOAT,
+  p25_days FLOAT,
+  p75_days FLOAT,
+  p90_days FLOAT,
+  count INTEGER,
+  excluded_count INTEGER,
+  suppressed BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  IF filter_transition_type IS NOT NULL AND (
+    split_part(filter_transition_type, '-', 1) = ''
+    OR split_part(filter_transition_type, '-', 2) = ''
+    OR split_part(filter_transition_type, '-', 3) <> ''
+    OR split_part(filter_transition_type, '-', 1) = split_part(filter_transition_type, '-', 2)
+  ) THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  -- Return statistics data
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  requested_pairs AS (
+    -- The requested milestone pair, or the default transitions when none is given
+    SELECT
+      split_part(filter_transition_type, '-', 1) AS start_type,
+      split_part(filter_transition_type, '-', 2) AS end_type
+    WHERE
+      filter_transition_type IS NOT NULL
+    UNION ALL
+    SELECT
+      defaults.start_type,
+      defaults.end_type
+    FROM
+      (VALUES ('aor', 'p2'), ('p2', 'ecopr'), ('ecopr', 'pr_card')) AS defaults(start_type, end_type)
+    WHERE
+      filter_transition_type IS NULL
+  ),
+  transition_types AS (
+    -- Durations between the two milestones of each pair within the same application
+    SELECT
+      p.start_type || '-' || p.end_type AS transition_name,
+      date_trunc('month', e1.entry_date) AS month_start,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      requested_pairs p
+      JOIN timeline_entries e1 ON e1.entry_type = p.start_type
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = p.end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      -- Durations are measured from and to the first occurrence of each milestone
+      e1.occurrence = 1 AND e2.occurrence = 1
+  ),
+  cohort_medians AS (
+    -- Median and size of each cohort, a transition started in a given month
+    SELECT
+      t.transition_name,
+      t.month_start,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      transition_types t
+    GROUP BY
+      t.transition_name, t.month_start
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation from the median of each cohort
+    SELECT
+      t.transition_name,
+      t.month_start,
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(t.days_between - cm.median_days_calc)) AS mad
+    FROM
+      transition_types t
+      JOIN cohort_medians cm ON cm.transition_name = t.transition_name
+                            AND cm.month_start = t.month_start
+    GROUP BY
+      t.transition_name, t.month_start, cm.median_days_calc, cm.cohort_size
+  ),
+  flagged_durations AS (
+    -- Durations whose modified z-score within their cohort is above 3.5
+    SELECT
+      t.transition_name,
+      t.month_start,
+      t.days_between,
+      (
+        cs.cohort_size >= 5
+        AND cs.mad > 0
+        AND 0.6745 * abs(t.days_between - cs.median_days_calc) / cs.mad > 3.5
+      ) AS is_flagged
+    FROM
+      transition_types t
+      JOIN cohort_spread cs ON cs.transition_name = t.transition_name
+                           AND cs.month_start = t.month_start
+  ),
+  counted_durations AS (
+    -- Durations that make it into the aggregates
+    SELECT
+      f.transition_name,
+      f.month_start,
+      f.days_between
+    FROM
+      flagged_durations f
+    WHERE
+      include_flagged OR NOT f.is_flagged
+  ),
+  excluded_counts AS (
+    -- Flagged durations left out of each month
+    SELECT
+      f.transition_name,
+      f.month_start,
+      COUNT(*) FILTER (WHERE f.is_flagged AND NOT include_flagged)::INTEGER AS excluded
+    FROM
+      flagged_durations f
+    GROUP BY
+      f.transition_name, f.month_start
+  ),
+  monthly_stats AS (
+    -- Aggregate statistics by month and transition type
+    SELECT
+      transition_name,
+      month_start,
+      AVG(days_between) AS avg_days_calc,
+      MIN(days_between) AS min_days_calc,
+      MAX(days_between) AS max_days_calc,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY days_between) AS median_days_calc,
+      percentile_cont(0.25) WITHIN GROUP (ORDER BY days_between) AS p25_days_calc,
+      percentile_cont(0.75) WITHIN GROUP (ORDER BY days_between) AS p75_days_calc,
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY days_between) AS p90_days_calc,
+      COUNT(*)::INTEGER AS entry_count
+    FROM
+      counted_durations
+    GROUP BY
+      transition_name, month_start
+  )
+  SELECT
+    ms.transition_name AS transition_type,
+    ms.month_start::date AS report_date,
+    -- Months with too few reports keep their row, without anything that could identify someone
+    CASE WHEN ms.entry_count >= min_group_size
+      THEN ROUND(ms.avg_days_calc::numeric, 1)::FLOAT END AS avg_days,
+    CASE WHEN ms.entry_count >= min_group_size THEN ms.min_days_calc END AS min_days,
+    CASE WHEN ms.entry_count >= min_group_size THEN ms.max_days_calc END AS max_days,
+    CASE WHEN ms.entry_count >= min_group_size
+      THEN ROUND(ms.median_days_calc::numeric, 1)::FLOAT END AS median_days,
+    CASE WHEN ms.entry_count >= min_group_size
+      THEN ROUND(ms.p25_days_calc::numeric, 1)::FLOAT END AS p25_days,
+    CASE WHEN ms.entry_count >= min_group_size
+      THEN ROUND(ms.p75_days_calc::numeric, 1)::FLOAT END AS p75_days,
+    CASE WHEN ms.entry_count >= min_group_size
+      THEN ROUND(ms.p90_days_calc::numeric, 1)::FLOAT END AS p90_days,
+    CASE WHEN ms.entry_count >= min_group_size THEN ms.entry_count END AS count,
+    CASE WHEN ms.entry_count >= min_group_size THEN ec.excluded END AS excluded_count,
+    ms.entry_count < min_group_size AS suppressed
+  FROM
+    monthly_stats ms
+    JOIN excluded_counts ec ON ec.transition_name = ms.transition_name
+                           AND ec.month_start = ms.month_start
+  ORDER BY
+    ms.month_start DESC, ms.transition_name
+  LIMIT 50; -- Limit results to a reasonable number
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_community_statistics(text, uuid, text, text, text, boolean, text, boolean) TO authenticated;
+
+-- A result column is added, so the function has to be dropped before it is recreated
+DROP FUNCTION IF EXISTS get_weekly_breakdown(text, date, uuid, text, text, text, boolean, text, boolean);
+
+CREATE OR REPLACE FUNCTION get_weekly_breakdown(
+  filter_transition_type TEXT,
+  report_month DATE,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  week_start DATE,
+  iso_week INTEGER,
+  count INTEGER,
+  median_days FLOAT,
+  suppressed BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  month_start DATE;
+  next_month_start DATE;
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF report_month IS NULL THEN
+    RAISE EXCEPTION 'report_month is required';
+  END IF;
+
+  month_start := date_trunc('month', report_month)::date;
+  next_month_start := (month_start + INTERVAL '1 month')::date;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  weeks AS (
+    -- date_trunc('week') is the ISO week, starting on Monday
+    SELECT
+      generate_series(
+        date_trunc('week', month_start),
+        date_trunc('week', next_month_start - 1),
+        INTERVAL '1 week'
+      )::date AS week_start_date
+  ),
+  month_transitions AS (
+    -- Durations of the transitions that started in the month, measured between first occurrences
+    SELECT
+      date_trunc('week', e1.entry_date::date)::date AS week_start_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+      AND e1.entry_date::date >= month_start
+      AND e1.entry_date::date < next_month_start
+  ),
+  cohort_median AS (
+    -- Median and size of the month's cohort
+    SELECT
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      month_transitions t
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation from the median of the month's cohort
+    SELECT
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(t.days_between - cm.median_days_calc)) AS mad
+    FROM
+      month_transitions t
+      CROSS JOIN cohort_median cm
+    GROUP BY
+      cm.median_days_calc, cm.cohort_size
+  ),
+  counted_transitions AS (
+    -- Durations that make it into the weekly counts
+    SELECT
+      t.week_start_date,
+      t.days_between
+    FROM
+      month_transitions t
+      CROSS JOIN cohort_spread cs
+    WHERE
+      include_flagged
+      OR NOT (
+        cs.cohort_size >= 5
+        AND cs.mad > 0
+        AND 0.6745 * abs(t.days_between - cs.median_days_calc) / cs.mad > 3.5
+      )
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    w.week_start_date AS week_start,
+    EXTRACT(WEEK FROM w.week_start_date)::INTEGER AS iso_week,
+    -- A week with too few reports would single out the applicants who started in it
+    CASE WHEN COUNT(t.days_between) >= min_group_size
+      THEN COUNT(t.days_between)::INTEGER
+    END AS count,
+    CASE WHEN COUNT(t.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between))::numeric, 1)::FLOAT
+    END AS median_days,
+    COUNT(t.days_between) < min_group_size AS suppressed
+  FROM
+    weeks w
+    LEFT JOIN counted_transitions t ON t.week_start_date = w.week_start_date
+  GROUP BY
+    w.week_start_date
+  ORDER BY
+    w.week_start_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_weekly_breakdown(text, date, uuid, text, text, text, boolean, text, boolean) TO authenticated;
+
+-- A result column is added, so the function has to be dropped before it is recreated
+DROP FUNCTION IF EXISTS get_waiting_statistics(text, uuid, text, text, text, boolean, text);
+
+CREATE OR REPLACE FUNCTION get_waiting_statistics(
+  filter_transition_type TEXT DEFAULT 'p2-ecopr',
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  report_date DATE,
+  waiting_count INTEGER,
+  min_days_waiting INTEGER,
+  median_days_waiting FLOAT,
+  p90_days_waiting FLOAT,
+  max_days_waiting INTEGER,
+  suppressed BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  milestone_order TEXT[] := ARRAY[
+    'submission', 'aor', 'biometrics_request', 'biometrics_complete', 'medicals_request',
+    'medicals_complete', 'background_start', 'background_complete', 'p1', 'p2', 'ecopr', 'pr_card'
+  ];
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF array_position(milestone_order, start_type) IS NULL
+    OR array_position(milestone_order, end_type) IS NULL
+    OR array_position(milestone_order, start_type) >= array_position(milestone_order, end_type)
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  open_waits AS (
+    -- Applications at the start milestone without the end milestone or anything after it
+    SELECT
+      e1.entry_date AS wait_start_date,
+      GREATEST(CURRENT_DATE - e1.entry_date::date, 0)::INTEGER AS days_waiting
+    FROM
+      timeline_entries e1
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1
+      AND NOT EXISTS (
+        SELECT 1
+        FROM timeline_entries e2
+        WHERE e2.application_id = e1.application_id
+          AND array_position(milestone_order, e2.entry_type)
+            >= array_position(milestone_order, end_type)
+      )
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    date_trunc('month', wait_start_date)::date AS report_date,
+    COUNT(*)::INTEGER AS waiting_count,
+    -- Months with too few open waits keep their count, without the ages that could identify someone
+    CASE WHEN COUNT(*) >= min_group_size THEN MIN(days_waiting) END AS min_days_waiting,
+    CASE WHEN COUNT(*) >= min_group_size
+      THEN ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY days_waiting))::numeric, 1)::FLOAT
+    END AS median_days_waiting,
+    CASE WHEN COUNT(*) >= min_group_size
+      THEN ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY days_waiting))::numeric, 1)::FLOAT
+    END AS p90_days_waiting,
+    CASE WHEN COUNT(*) >= min_group_size THEN MAX(days_waiting) END AS max_days_waiting,
+    COUNT(*) < min_group_size AS suppressed
+  FROM
+    open_waits
+  GROUP BY
+    date_trunc('month', wait_start_date)
+  ORDER BY
+    date_trunc('month', wait_start_date) DESC
+  LIMIT 24; -- Two years of backlog is plenty
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_waiting_statistics(text, uuid, text, text, text, boolean, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_cohort_survival(
+  filter_transition_type TEXT,
+  cohort_month DATE,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  days INTEGER,
+  events INTEGER,
+  censored INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  month_start DATE;
+  milestone_order TEXT[] := ARRAY[
+    'submission', 'aor', 'biometrics_request', 'biometrics_complete', 'medicals_request',
+    'medicals_complete', 'background_start', 'background_complete', 'p1', 'p2', 'ecopr', 'pr_card'
+  ];
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF array_position(milestone_order, start_type) IS NULL
+    OR array_position(milestone_order, end_type) IS NULL
+    OR array_position(milestone_order, start_type) >= array_position(milestone_order, end_type)
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF cohort_month IS NULL THEN
+    RAISE EXCEPTION 'cohort_month is required';
+  END IF;
+
+  month_start := date_trunc('month', cohort_month)::date;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  cohort AS (
+    -- Applications that reached the start milestone during the cohort month
+    SELECT
+      e1.application_id,
+      e1.entry_date::date AS start_date
+    FROM
+      timeline_entries e1
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1
+      AND e1.entry_date::date >= month_start
+      AND e1.entry_date::date < (month_start + INTERVAL '1 month')::date
+  ),
+  observations AS (
+    -- Days until the end milestone, or until today while it is still missing
+    SELECT
+      GREATEST(COALESCE(e2.entry_date::date, CURRENT_DATE) - c.start_date, 0)::INTEGER
+        AS observed_days,
+      (e2.entry_date IS NOT NULL) AS reached_end
+    FROM
+      cohort c
+      LEFT JOIN timeline_entries e2 ON e2.application_id = c.application_id
+                                   AND e2.entry_type = end_type
+                                   AND e2.occurrence = 1
+                                   AND e2.entry_date::date >= c.start_date
+    WHERE
+      e2.entry_date IS NOT NULL
+      OR NOT EXISTS (
+        SELECT 1
+        FROM timeline_entries later
+        WHERE later.application_id = c.application_id
+          AND array_position(milestone_order, later.entry_type)
+            > array_position(milestone_order, end_type)
+      )
+  ),
+  cohort_median AS (
+    -- Median and number of the completed waits of the cohort
+    SELECT
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY o.observed_days) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      observations o
+    WHERE
+      o.reached_end
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation of the completed waits from their median
+    SELECT
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(o.observed_days - cm.median_days_calc)) AS mad
+    FROM
+      observations o
+      CROSS JOIN cohort_median cm
+    WHERE
+      o.reached_end
+    GROUP BY
+      cm.median_days_calc, cm.cohort_size
+  ),
+  flagged_observations AS (
+    -- Completed waits whose modified z-score within the cohort is above 3.5
+    SELECT
+      o.observed_days,
+      o.reached_end,
+      COALESCE(
+        o.reached_end
+          AND cs.cohort_size >= 5
+          AND cs.mad > 0
+          AND 0.6745 * abs(o.observed_days - cs.median_days_calc) / cs.mad > 3.5,
+        FALSE
+      ) AS is_flagged
+    FROM
+      observations o
+      LEFT JOIN cohort_spread cs ON TRUE
+  ),
+  counted_observations AS (
+    -- Observations that make it into the life table
+    SELECT
+      f.observed_days,
+      f.reached_end
+    FROM
+      flagged_observations f
+    WHERE
+      include_flagged OR NOT f.is_flagged
+  )
+  SELECT
+    o.observed_days AS days,
+    (COUNT(*) FILTER (WHERE o.reached_end))::INTEGER AS events,
+    (COUNT(*) FILTER (WHERE NOT o.reached_end))::INTEGER AS censored
+  FROM
+    counted_observations o
+  WHERE
+    -- The life table of a smaller cohort would give away its members' dates
+    (SELECT COUNT(*) FROM counted_observations) >= min_group_size
+  GROUP BY
+    o.observed_days
+  ORDER BY
+    o.observed_days;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_cohort_survival(text, date, uuid, text, text, text, boolean, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_duration_histogram(
+  filter_transition_type TEXT,
+  bin_width INTEGER DEFAULT 7,
+  user_id UUID DEFAULT NULL,
+  filter_program TEXT DEFAULT NULL,
+  filter_province TEXT DEFAULT NULL,
+  filter_applicant_location TEXT DEFAULT NULL,
+  filter_has_dependants BOOLEAN DEFAULT NULL,
+  filter_country_of_residence TEXT DEFAULT NULL,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  bin_start INTEGER,
+  bin_end INTEGER,
+  count INTEGER
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = user_id) INTO user_exists;
+
+  IF user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  IF bin_width IS NULL OR bin_width < 1 OR bin_width > 365 THEN
+    RAISE EXCEPTION 'Invalid bin width: %', bin_width;
+  END IF;
+
+  RETURN QUERY
+  WITH matching_applications AS (
+    -- Applications whose profile matches every filter that was given
+    SELECT
+      a.id
+    FROM
+      applications a
+    WHERE
+      (filter_program IS NULL OR a.program = filter_program)
+      AND (filter_province IS NULL OR a.province = upper(filter_province))
+      AND (filter_applicant_location IS NULL OR a.applicant_location = filter_applicant_location)
+      AND (
+        filter_has_dependants IS NULL
+        OR (filter_has_dependants AND a.dependants > 0)
+        OR (NOT filter_has_dependants AND a.dependants = 0)
+      )
+      AND (
+        filter_country_of_residence IS NULL
+        OR lower(a.country_of_residence) = lower(trim(filter_country_of_residence))
+      )
+  ),
+  durations AS (
+    -- Transitions that started in the last 12 months, measured between first occurrences
+    SELECT
+      date_trunc('month', e1.entry_date) AS month_start,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e2.application_id = e1.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN matching_applications ma ON ma.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+      AND e1.entry_date >= (CURRENT_DATE - INTERVAL '12 months')
+  ),
+  cohort_medians AS (
+    -- Median and size of each cohort, a transition started in a given month
+    SELECT
+      d.month_start,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY d.days_between) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      durations d
+    GROUP BY
+      d.month_start
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation from the median of each cohort
+    SELECT
+      d.month_start,
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(d.days_between - cm.median_days_calc)) AS mad
+    FROM
+      durations d
+      JOIN cohort_medians cm ON cm.month_start = d.month_start
+    GROUP BY
+      d.month_start, cm.median_days_calc, cm.cohort_size
+  ),
+  binned_durations AS (
+    -- Durations that make it into the histogram
+    SELECT
+      (d.days_between / bin_width)::INTEGER AS bin_index
+    FROM
+      durations d
+      JOIN cohort_spread cs ON cs.month_start = d.month_start
+    WHERE
+      include_flagged
+      OR NOT (
+        cs.cohort_size >= 5
+        AND cs.mad > 0
+        AND 0.6745 * abs(d.days_between - cs.median_days_calc) / cs.mad > 3.5
+      )
+  ),
+  bins AS (
+    -- Every bin between the shortest and the longest duration
+    SELECT
+      generate_series(MIN(d.bin_index), MAX(d.bin_index)) AS bin_index
+    FROM
+      binned_durations d
+    HAVING
+      -- The bins of fewer durations would give away their exact lengths
+      COUNT(*) >= min_group_size
+  )
+  SELECT
+    (b.bin_index * bin_width)::INTEGER AS bin_start,
+    ((b.bin_index + 1) * bin_width)::INTEGER AS bin_end,
+    COUNT(d.bin_index)::INTEGER AS count
+  FROM
+    bins b
+    LEFT JOIN binned_durations d ON d.bin_index = b.bin_index
+  GROUP BY
+    b.bin_index
+  ORDER BY
+    b.bin_index;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_duration_histogram(text, integer, uuid, text, text, text, boolean, text, boolean) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_transition_forecast(
+  filter_transition_type TEXT,
+  user_id UUID DEFAULT NULL,
+  filter_application_id UUID DEFAULT NULL,
+  min_days INTEGER DEFAULT 0,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  count INTEGER,
+  p10_days FLOAT,
+  p25_days FLOAT,
+  median_days FLOAT,
+  p75_days FLOAT,
+  p90_days FLOAT,
+  segmented BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  start_type TEXT;
+  end_type TEXT;
+  profile_program TEXT;
+  profile_applicant_location TEXT;
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = get_transition_forecast.user_id) INTO user_exists;
+
+  IF get_transition_forecast.user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- A transition is "<start>-<end>"; entry types only contain underscores
+  start_type := split_part(filter_transition_type, '-', 1);
+  end_type := split_part(filter_transition_type, '-', 2);
+
+  IF start_type = ''
+    OR end_type = ''
+    OR start_type = end_type
+    OR split_part(filter_transition_type, '-', 3) <> '' THEN
+    RAISE EXCEPTION 'Invalid transition type: %', filter_transition_type;
+  END IF;
+
+  -- Compare with applications of the same program and inland/outland stream when they are known
+  IF filter_application_id IS NOT NULL THEN
+    SELECT a.program, a.applicant_location
+    INTO profile_program, profile_applicant_location
+    FROM applications a
+    WHERE a.id = filter_application_id AND a.user_id = get_transition_forecast.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Application % not found', filter_application_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH transitions AS (
+    -- Every completed transition, measured between first occurrences
+    SELECT
+      a.user_id AS owner_id,
+      a.program,
+      a.applicant_location,
+      date_trunc('month', e1.entry_date) AS month_start,
+      e2.entry_date AS end_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e2.entry_type = end_type
+                             AND e1.entry_date <= e2.entry_date
+      JOIN applications a ON a.id = e1.application_id
+    WHERE
+      e1.entry_type = start_type
+      AND e1.occurrence = 1 AND e2.occurrence = 1
+  ),
+  cohort_medians AS (
+    -- Median and size of each cohort, a transition started in a given month
+    SELECT
+      t.month_start,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      transitions t
+    GROUP BY
+      t.month_start
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation from the median of each cohort
+    SELECT
+      t.month_start,
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(t.days_between - cm.median_days_calc)) AS mad
+    FROM
+      transitions t
+      JOIN cohort_medians cm ON cm.month_start = t.month_start
+    GROUP BY
+      t.month_start, cm.median_days_calc, cm.cohort_size
+  ),
+  durations AS (
+    -- Transitions completed in the last 12 months that lasted at least min_days, other than the user's own
+    SELECT
+      t.days_between,
+      (profile_program IS NULL OR t.program = profile_program)
+        AND (profile_applicant_location IS NULL OR t.applicant_location = profile_applicant_location)
+        AS same_profile
+    FROM
+      transitions t
+      JOIN cohort_spread cs ON cs.month_start = t.month_start
+    WHERE
+      t.owner_id <> get_transition_forecast.user_id
+      AND t.end_date >= (CURRENT_DATE - INTERVAL '12 months')
+      AND t.days_between >= GREATEST(COALESCE(min_days, 0), 0)
+      AND (
+        include_flagged
+        OR NOT (
+          cs.cohort_size >= 5
+          AND cs.mad > 0
+          AND 0.6745 * abs(t.days_between - cs.median_days_calc) / cs.mad > 3.5
+        )
+      )
+  ),
+  segment AS (
+    -- Fall back to everyone when too few applications share the profile
+    SELECT
+      (COUNT(*) FILTER (WHERE same_profile)) >= min_group_size AS use_profile
+    FROM
+      durations
+  )
+  SELECT
+    filter_transition_type AS transition_type,
+    COUNT(d.days_between)::INTEGER AS count,
+    -- Percentiles of fewer durations would give away their exact lengths
+    CASE WHEN COUNT(d.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.1) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+    END AS p10_days,
+    CASE WHEN COUNT(d.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.25) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+    END AS p25_days,
+    CASE WHEN COUNT(d.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.5) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+    END AS median_days,
+    CASE WHEN COUNT(d.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.75) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+    END AS p75_days,
+    CASE WHEN COUNT(d.days_between) >= min_group_size
+      THEN ROUND((percentile_cont(0.9) WITHIN GROUP (ORDER BY d.days_between))::numeric, 1)::FLOAT
+    END AS p90_days,
+    COALESCE(bool_or(s.use_profile), FALSE)
+      AND (profile_program IS NOT NULL OR profile_applicant_location IS NOT NULL)
+      AS segmented
+  FROM
+    segment s
+    LEFT JOIN durations d ON NOT s.use_profile OR d.same_profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_transition_forecast(text, uuid, uuid, integer, boolean) TO authenticated;
+
+-- A result column is added, so the function has to be dropped before it is recreated
+DROP FUNCTION IF EXISTS get_user_statistics(uuid, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION get_user_statistics(
+  user_id UUID DEFAULT NULL,
+  filter_application_id UUID DEFAULT NULL,
+  include_flagged BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  transition_type TEXT,
+  median_days FLOAT,
+  count INTEGER,
+  segmented BOOLEAN,
+  suppressed BOOLEAN
+) AS $$
+DECLARE
+  user_exists BOOLEAN;
+  profile_program TEXT;
+  profile_applicant_location TEXT;
+  min_group_size INTEGER := statistics_min_group_size();
+BEGIN
+  -- Check if the user exists (basic validation)
+  SELECT EXISTS(SELECT 1 FROM auth.users WHERE id = get_user_statistics.user_id) INTO user_exists;
+
+  IF get_user_statistics.user_id IS NULL OR NOT user_exists THEN
+    RAISE EXCEPTION 'Invalid user_id provided';
+  END IF;
+
+  -- Compare with applications of the same program and inland/outland stream when they are known
+  IF filter_application_id IS NOT NULL THEN
+    SELECT a.program, a.applicant_location
+    INTO profile_program, profile_applicant_location
+    FROM applications a
+    WHERE a.id = filter_application_id AND a.user_id = get_user_statistics.user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Application % not found', filter_application_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH transitions AS (
+    -- Every completed benchmark transition, measured between first occurrences
+    SELECT
+      e1.entry_type || '-' || e2.entry_type AS transition_name,
+      a.user_id AS owner_id,
+      a.program,
+      a.applicant_location,
+      date_trunc('month', e1.entry_date) AS month_start,
+      e2.entry_date AS end_date,
+      (e2.entry_date::date - e1.entry_date::date)::INTEGER AS days_between
+    FROM
+      timeline_entries e1
+      JOIN timeline_entries e2 ON e1.application_id = e2.application_id
+                             AND e1.entry_date <= e2.entry_date
+      JOIN applications a ON a.id = e1.application_id
+    WHERE
+      e1.occurrence = 1 AND e2.occurrence = 1
+      AND (
+        (e1.entry_type = 'aor' AND e2.entry_type = 'p2') OR
+        (e1.entry_type = 'p2' AND e2.entry_type = 'ecopr') OR
+        (e1.entry_type = 'ecopr' AND e2.entry_type = 'pr_card')
+      )
+  ),
+  cohort_medians AS (
+    -- Median and size of each cohort, a transition started in a given month
+    SELECT
+      t.transition_name,
+      t.month_start,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY t.days_between) AS median_days_calc,
+      COUNT(*) AS cohort_size
+    FROM
+      transitions t
+    GROUP BY
+      t.transition_name, t.month_start
+  ),
+  cohort_spread AS (
+    -- Median absolute deviation from the median of each cohort
+    SELECT
+      t.transition_name,
+      t.month_start,
+      cm.median_days_calc,
+      cm.cohort_size,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(t.days_between - cm.median_days_calc)) AS mad
+    FROM
+      transitions t
+      JOIN cohort_medians cm ON cm.transition_name = t.transition_name
+                            AND cm.month_start = t.month_start
+    GROUP BY
+      t.transition_name, t.month_start, cm.median_days_calc, cm.cohort_size
+  ),
+  durations AS (
+    -- Transitions completed in the last 12 months, other than the user's own
+    SELECT
+      t.transition_name,
+      t.days_between,
+      (profile_program IS NULL OR t.program = profile_program)
+        AND (profile_applicant_location IS NULL OR t.applicant_location = profile_applicant_location)
+        AS same_profile
+    FROM
+      transitions t
+      JOIN cohort_spread cs ON cs.transition_name = t.transition_name
+                           AND cs.month_start = t.month_start
+    WHERE
+      t.owner_id <> get_user_statistics.user_id
+      AND t.end_date >= (CURRENT_DATE - INTERVAL '12 months')
+      AND (
+        include_flagged
+        OR NOT (
+          cs.cohort_size >= 5
+          AND cs.mad > 0
+          AND 0.6745 * abs(t.days_between - cs.median_days_calc) / cs.mad > 3.5
+        )
+      )
+  ),
+  benchmarks AS (
+    SELECT
+      d.transition_name,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY d.days_between) AS all_median,
+      COUNT(*)::INTEGER AS all_count,
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY d.days_between)
+        FILTER (WHERE d.same_profile) AS profile_median,
+      (COUNT(*) FILTER (WHERE d.same_profile))::INTEGER AS profile_count
+    FROM
+      durations d
+    GROUP BY
+      d.transition_name
+  ),
+  groups AS (
+    -- Fall back to everyone when too few applications share the profile
+    SELECT
+      b.transition_name,
+      CASE WHEN b.profile_count >= min_group_size THEN b.profile_median ELSE b.all_median END
+        AS group_median,
+      CASE WHEN b.profile_count >= min_group_size THEN b.profile_count ELSE b.all_count END
+        AS group_count,
+      b.profile_count >= min_group_size AS use_profile
+    FROM
+      benchmarks b
+  )
+  -- The median of fewer applications would give away their durations
+  SELECT
+    g.transition_name AS transition_type,
+    CASE WHEN g.group_count >= min_group_size
+      THEN ROUND(g.group_median::numeric, 1)::FLOAT
+    END AS median_days,
+    CASE WHEN g.group_count >= min_group_size THEN g.group_count END AS count,
+    (g.use_profile AND (profile_program IS NOT NULL OR profile_applicant_location IS NOT NULL))
+      AS segmented,
+    g.group_count < min_group_size AS suppressed
+  FROM
+    groups g;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_user_statistics(uuid, uuid, boolean) TO authenticated;
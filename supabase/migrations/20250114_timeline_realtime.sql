@@ -0,0 +1,20 @@
+-- Migration to publish timeline changes over Supabase realtime
+-- A milestone added on one device only showed up on the others after a manual reload.
+-- The app now listens to inserts, updates and deletes on timeline_entries
+-- (src/lib/timeline-realtime.ts); row level security still decides who receives which row,
+-- so users only get the changes of their own entries.
+-- Deletes only carry the primary key and can't be filtered by user, the app ignores unknown ids.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'timeline_entries'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE timeline_entries;
+  END IF;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Migration for the trip log used by the residency obligation calculator
+-- Permanent residents must be physically present in Canada for 730 days in every 5-year
+-- period, so users log the trips they took (or plan) outside Canada. Trips belong to the
+-- user rather than an application: the obligation applies to the person.
+
+CREATE TABLE IF NOT EXISTS trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  departure_date DATE NOT NULL,
+  return_date DATE,
+  destination TEXT NOT NULL,
+  purpose TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT trips_return_after_departure_check
+    CHECK (return_date IS NULL OR return_date >= departure_date)
+);
+
+COMMENT ON TABLE trips IS 'Trips outside Canada logged by a user, past or planned';
+COMMENT ON COLUMN trips.departure_date IS 'Day the user left Canada, counted as a day present';
+COMMENT ON COLUMN trips.return_date IS 'Day the user came back, counted as a day present; null while still abroad';
+COMMENT ON COLUMN trips.destination IS 'Where the user went';
+COMMENT ON COLUMN trips.purpose IS 'Optional reason for the trip (e.g. "Family visit")';
+
+CREATE INDEX IF NOT EXISTS trips_user_id_idx ON trips(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own trips" ON trips;
+CREATE POLICY "Users can view their own trips"
+ON trips FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own trips" ON trips;
+CREATE POLICY "Users can insert their own trips"
+ON trips FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own trips" ON trips;
+CREATE POLICY "Users can update their own trips"
+ON trips FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own trips" ON trips;
+CREATE POLICY "Users can delete their own trips"
+ON trips FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Reuse the user_id and updated_at triggers from the auth setup migration
+DROP TRIGGER IF EXISTS set_user_id_trigger ON trips;
+CREATE TRIGGER set_user_id_trigger
+BEFORE INSERT ON trips
+FOR EACH ROW
+EXECUTE FUNCTION set_user_id();
+
+DROP TRIGGER IF EXISTS update_trips_modified ON trips;
+CREATE TRIGGER update_trips_modified
+BEFORE UPDATE ON trips
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_column();
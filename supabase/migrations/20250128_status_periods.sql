@@ -0,0 +1,62 @@
+-- Migration for the temporary residence periods used by the citizenship eligibility calculator
+-- Citizenship requires 1,095 days of physical presence in the 5 years before applying. Each
+-- day spent in Canada with temporary status (worker, student, visitor, protected person)
+-- before becoming a permanent resident counts as a half day, up to 365 days. Users enter the
+-- periods they held such a status; absences come from the trip log.
+
+CREATE TABLE IF NOT EXISTS status_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  status_type TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT status_periods_status_type_check
+    CHECK (status_type IN ('worker', 'student', 'visitor', 'protected_person')),
+  CONSTRAINT status_periods_end_after_start_check
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+COMMENT ON TABLE status_periods IS 'Periods a user lived in Canada with temporary status before permanent residence';
+COMMENT ON COLUMN status_periods.status_type IS 'Temporary status held: worker, student, visitor or protected_person';
+COMMENT ON COLUMN status_periods.start_date IS 'First day of the status';
+COMMENT ON COLUMN status_periods.end_date IS 'Last day of the status; null when it lasted until PR';
+
+CREATE INDEX IF NOT EXISTS status_periods_user_id_idx ON status_periods(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE status_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own status periods" ON status_periods;
+CREATE POLICY "Users can view their own status periods"
+ON status_periods FOR SELECT
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own status periods" ON status_periods;
+CREATE POLICY "Users can insert their own status periods"
+ON status_periods FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own status periods" ON status_periods;
+CREATE POLICY "Users can update their own status periods"
+ON status_periods FOR UPDATE
+USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own status periods" ON status_periods;
+CREATE POLICY "Users can delete their own status periods"
+ON status_periods FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Reuse the user_id and updated_at triggers from the auth setup migration
+DROP TRIGGER IF EXISTS set_user_id_trigger ON status_periods;
+CREATE TRIGGER set_user_id_trigger
+BEFORE INSERT ON status_periods
+FOR EACH ROW
+EXECUTE FUNCTION set_user_id();
+
+DROP TRIGGER IF EXISTS update_status_periods_modified ON status_periods;
+CREATE TRIGGER update_status_periods_modified
+BEFORE UPDATE ON status_periods
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_column();
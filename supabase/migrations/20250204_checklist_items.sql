@@ -0,0 +1,77 @@
+-- Migration for the per-stage document checklists
+-- Default checklists per milestone and program live in the app (src/constants/checklists.ts);
+-- this table only stores what the user did with them: default items they ticked or
+-- annotated, identified by item_key, and items they added themselves, with a label.
+
+CREATE TABLE IF NOT EXISTS checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  application_id UUID NOT NULL REFERENCES applications(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL,
+  item_key TEXT,
+  label TEXT,
+  checked BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  -- One row per default item; items added by the user have no key and never conflict
+  CONSTRAINT checklist_items_application_item_key UNIQUE (application_id, entry_type, item_key),
+  CONSTRAINT checklist_items_key_or_label_check CHECK (item_key IS NOT NULL OR label IS NOT NULL)
+);
+
+COMMENT ON TABLE checklist_items IS 'Progress on the document checklist of each milestone of an application';
+COMMENT ON COLUMN checklist_items.entry_type IS 'Milestone the checklist belongs to';
+COMMENT ON COLUMN checklist_items.item_key IS 'Key of the default item; null for items added by the user';
+COMMENT ON COLUMN checklist_items.label IS 'Text of an item added by the user';
+COMMENT ON COLUMN checklist_items.checked IS 'Whether the user has the document ready';
+COMMENT ON COLUMN checklist_items.note IS 'Free-form note (e.g. "Ordered, arrives in 3 weeks")';
+
+CREATE INDEX IF NOT EXISTS checklist_items_user_id_idx ON checklist_items(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE checklist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own checklist items" ON checklist_items;
+CREATE POLICY "Users can view their own checklist items"
+ON checklist_items FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Items may only be attached to applications owned by the same user
+DROP POLICY IF EXISTS "Users can insert their own checklist items" ON checklist_items;
+CREATE POLICY "Users can insert their own checklist items"
+ON checklist_items FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM applications a WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can update their own checklist items" ON checklist_items;
+CREATE POLICY "Users can update their own checklist items"
+ON checklist_items FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM applications a WHERE a.id = application_id AND a.user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can delete their own checklist items" ON checklist_items;
+CREATE POLICY "Users can delete their own checklist items"
+ON checklist_items FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Reuse the user_id and updated_at triggers from the auth setup migration
+DROP TRIGGER IF EXISTS set_user_id_trigger ON checklist_items;
+CREATE TRIGGER set_user_id_trigger
+BEFORE INSERT ON checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION set_user_id();
+
+DROP TRIGGER IF EXISTS update_checklist_items_modified ON checklist_items;
+CREATE TRIGGER update_checklist_items_modified
+BEFORE UPDATE ON checklist_items
+FOR EACH ROW
+EXECUTE FUNCTION update_modified_column();